@@ -39,18 +39,26 @@ async function main() {
     await seedToken.deployed();
     console.log('✅ SEED Token:', seedToken.address);
 
-    // Deploy Vesting Contract
-    console.log('\nDeploying TokenVesting Contract...');
-    const TokenVesting = await hre.ethers.getContractFactory('TokenVesting');
+    // Deploy Vesting Contract (periodic version: linear or step vesting per schedule)
+    console.log('\nDeploying TokenVestingPeriodic Contract...');
+    const TokenVesting = await hre.ethers.getContractFactory('TokenVestingPeriodic');
     const vesting = await TokenVesting.deploy();
     await vesting.deployed();
-    console.log('✅ TokenVesting:', vesting.address);
+    console.log('✅ TokenVestingPeriodic:', vesting.address);
+
+    // Deploy Multicall3 (batched reads in the frontend; public networks use the canonical deployment)
+    console.log('\nDeploying Multicall3 Contract...');
+    const Multicall3 = await hre.ethers.getContractFactory('Multicall3');
+    const multicall = await Multicall3.deploy();
+    await multicall.deployed();
+    console.log('✅ Multicall3:', multicall.address);
 
     // Summary
     console.log('\n' + '='.repeat(60));
     console.log('📋 DEPLOYMENT COMPLETE');
     console.log('='.repeat(60));
     console.log('VESTING_CONTRACT_ADDRESS=' + vesting.address);
+    console.log('MULTICALL3_ADDRESS=' + multicall.address);
     console.log('PROJ_TOKEN_ADDRESS=' + projToken.address);
     console.log('TEAM_TOKEN_ADDRESS=' + teamToken.address);
     console.log('EARLY_TOKEN_ADDRESS=' + earlyToken.address);
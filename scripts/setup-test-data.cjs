@@ -12,7 +12,7 @@ async function main() {
     console.log('Setting up with account:', deployer.address);
 
     // Get contract instances
-    const vesting = await hre.ethers.getContractAt('TokenVesting', VESTING_ADDRESS);
+    const vesting = await hre.ethers.getContractAt('TokenVestingPeriodic', VESTING_ADDRESS);
     const projToken = await hre.ethers.getContractAt('MockToken', PROJ_TOKEN_ADDRESS);
     const teamToken = await hre.ethers.getContractAt('MockToken', TEAM_TOKEN_ADDRESS);
 
@@ -21,7 +21,12 @@ async function main() {
 
     console.log('\n📝 Creating vesting schedules...\n');
 
-    // 1. Project Token Vesting (500K tokens, 1 year duration, 3 month cliff)
+    // Unlock intervals (slicePeriodSeconds)
+    const LINEAR = 1;
+    const MONTHLY = 2592000; // 30 days
+    const QUARTERLY = 7776000; // 90 days
+
+    // 1. Project Token Vesting (500K tokens, 1 year duration, 3 month cliff, monthly unlocks)
     const projAmount = hre.ethers.utils.parseEther('500000');
     console.log('Approving PROJ tokens...');
     await projToken.approve(VESTING_ADDRESS, projAmount);
@@ -35,12 +40,13 @@ async function main() {
         now,
         7776000, // 90 days cliff
         31536000, // 365 days duration
+        MONTHLY,
         true, // revocable
     );
     await tx1.wait();
     console.log('✅ PROJ vesting schedule created');
 
-    // 2. Team Token Vesting (250K tokens, 2 year duration, 6 month cliff)
+    // 2. Team Token Vesting (250K tokens, 2 year duration, 6 month cliff, quarterly unlocks)
     const teamAmount = hre.ethers.utils.parseEther('250000');
     console.log('\nApproving TEAM tokens...');
     await teamToken.approve(VESTING_ADDRESS, teamAmount);
@@ -53,12 +59,13 @@ async function main() {
         now,
         15552000, // 180 days cliff
         63072000, // 730 days duration
+        QUARTERLY,
         true, // revocable
     );
     await tx2.wait();
     console.log('✅ TEAM vesting schedule created');
 
-    // 3. Active Project Token (already past cliff, 100K tokens, started 4 months ago)
+    // 3. Active Project Token (already past cliff, 100K tokens, started 4 months ago, linear)
     const activeAmount = hre.ethers.utils.parseEther('100000');
     console.log('\nApproving active PROJ tokens...');
     await projToken.approve(VESTING_ADDRESS, activeAmount);
@@ -72,6 +79,7 @@ async function main() {
         fourMonthsAgo,
         7776000, // 90 days cliff (already passed)
         31536000, // 365 days duration
+        LINEAR,
         false, // not revocable
     );
     await tx3.wait();
@@ -81,9 +89,9 @@ async function main() {
     console.log('='.repeat(60));
     console.log('Beneficiary:', beneficiary);
     console.log('Total schedules created: 3');
-    console.log('- 1 pending PROJ (3 month cliff)');
-    console.log('- 1 pending TEAM (6 month cliff)');
-    console.log('- 1 active PROJ (claimable now)');
+    console.log('- 1 pending PROJ (3 month cliff, monthly unlocks)');
+    console.log('- 1 pending TEAM (6 month cliff, quarterly unlocks)');
+    console.log('- 1 active PROJ (linear, claimable now)');
     console.log('='.repeat(60));
 }
 
@@ -1,6 +1,8 @@
 import { CommonModule } from '@angular/common';
 import { Component, inject, OnInit } from '@angular/core';
 import { RouterModule } from '@angular/router';
+import { I18nService } from '@lib/services/i18n';
+import { ReminderService } from '@lib/services/reminder/reminder.service';
 import { ThemeService } from '@lib/services/theme';
 import { LayoutHorizontalComponent } from './lib/components/layouts/layout-horizontal/layout-horizontal.component';
 
@@ -12,8 +14,12 @@ import { LayoutHorizontalComponent } from './lib/components/layouts/layout-horiz
 })
 export class AppComponent implements OnInit {
     private readonly _themeService = inject(ThemeService);
+    private readonly _i18nService = inject(I18nService);
+    private readonly _reminderService = inject(ReminderService);
 
     ngOnInit(): void {
         this._themeService.init();
+        this._i18nService.init();
+        this._reminderService.init();
     }
 }
@@ -1,8 +1,16 @@
 import { provideHttpClient } from '@angular/common/http';
 import { ApplicationConfig } from '@angular/core';
-import { provideRouter, withComponentInputBinding } from '@angular/router';
+import { TitleStrategy, provideRouter, withComponentInputBinding } from '@angular/router';
+import { environment } from '@env/environment';
+import { providePriceProvider } from '@lib/providers';
+import { TranslatedTitleStrategy } from '@lib/services/i18n';
 import { routes } from './app.routes';
 
 export const appConfig: ApplicationConfig = {
-    providers: [provideRouter(routes, withComponentInputBinding()), provideHttpClient()],
+    providers: [
+        provideRouter(routes, withComponentInputBinding()),
+        provideHttpClient(),
+        providePriceProvider(environment.priceSource),
+        { provide: TitleStrategy, useExisting: TranslatedTitleStrategy },
+    ],
 };
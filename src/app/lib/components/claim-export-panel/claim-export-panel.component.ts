@@ -0,0 +1,174 @@
+import { CommonModule } from '@angular/common';
+import { Component, Input, OnChanges, OnDestroy, OnInit, SimpleChanges, inject } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { FIAT_CURRENCIES } from '@lib/constants/price.constant';
+import type { ClaimExportFilter, ClaimExportFormat, ClaimTransaction, FiatCurrency, TokenInfo } from '@lib/interfaces';
+import { ClaimExportService } from '@lib/services/claim-export/claim-export.service';
+import { PriceService } from '@lib/services/price/price.service';
+import { filterClaims, fromDateInputValue } from '@lib/utils/claim-export.util';
+import { translate } from '@lib/utils/i18n.util';
+import { getPriceKey } from '@lib/utils/price.util';
+import { Subject, takeUntil } from 'rxjs';
+
+/**
+ * Claim Export Panel Component
+ * Loads the claims of a set of beneficiaries in a date range and exports them as CSV or JSON
+ */
+@Component({
+    selector: 'app-claim-export-panel',
+    standalone: true,
+    imports: [CommonModule, FormsModule],
+    templateUrl: './claim-export-panel.component.html',
+})
+export class ClaimExportPanelComponent implements OnInit, OnChanges, OnDestroy {
+    @Input() beneficiaries: string[] = [];
+
+    private readonly _claimExportService = inject(ClaimExportService);
+    private readonly _priceService = inject(PriceService);
+    private readonly _destroy$ = new Subject<void>();
+
+    // Filters (date input values, e.g. 2025-01-31)
+    fromDate = '';
+    toDate = '';
+    selectedTokens = new Set<string>();
+    currency: FiatCurrency | null = this._priceService.currency;
+    currencies = FIAT_CURRENCIES;
+
+    // Loaded claims, null until loaded for the current beneficiaries and dates
+    claims: ClaimTransaction[] | null = null;
+    tokens: TokenInfo[] = [];
+    loading = false;
+    exporting = false;
+    progress: number | null = null;
+    error: string | null = null;
+
+    // Utility functions exposed to template
+    t = translate;
+
+    ngOnInit(): void {
+        this._claimExportService.progress$.pipe(takeUntil(this._destroy$)).subscribe((progress) => {
+            this.progress = progress;
+        });
+    }
+
+    ngOnChanges(changes: SimpleChanges): void {
+        if (changes['beneficiaries']) {
+            this.reset();
+        }
+    }
+
+    ngOnDestroy(): void {
+        this._destroy$.next();
+        this._destroy$.complete();
+    }
+
+    /**
+     * Claims matching the date range and selected tokens
+     */
+    get selectedClaims(): ClaimTransaction[] {
+        return this.claims && this.selectedTokens.size > 0 ? filterClaims(this.claims, this._getFilter()) : [];
+    }
+
+    /**
+     * Forget loaded claims, e.g. after the beneficiaries or dates changed
+     */
+    reset(): void {
+        this.claims = null;
+        this.tokens = [];
+        this.selectedTokens.clear();
+        this.error = null;
+    }
+
+    /**
+     * Read the beneficiaries' claims in the selected date range from the blockchain
+     */
+    async loadClaims(): Promise<void> {
+        const { fromTime, toTime } = this._getFilter();
+        if (fromTime === null) {
+            this.error = translate('claimExport.startDateRequired');
+            return;
+        }
+        if (toTime !== null && fromTime > toTime) {
+            this.error = translate('claimExport.invalidRange');
+            return;
+        }
+
+        this.reset();
+        this.loading = true;
+
+        try {
+            const claims = await this._claimExportService.loadClaims(this.beneficiaries, fromTime, toTime);
+            const tokens = new Map<string, TokenInfo>();
+            for (const claim of claims) {
+                if (claim.token) {
+                    tokens.set(getPriceKey(claim.token.address), claim.token);
+                }
+            }
+
+            this.claims = claims;
+            this.tokens = [...tokens.values()].sort((a, b) => a.symbol.localeCompare(b.symbol));
+            this.selectedTokens = new Set(tokens.keys());
+        } catch (error) {
+            console.error('Failed to load claims:', error);
+            this.error = error instanceof Error ? error.message : translate('claimExport.loadFailed');
+        } finally {
+            this.loading = false;
+        }
+    }
+
+    /**
+     * Include or leave out a token's claims
+     */
+    toggleToken(token: TokenInfo): void {
+        const key = getPriceKey(token.address);
+        if (!this.selectedTokens.delete(key)) {
+            this.selectedTokens.add(key);
+        }
+    }
+
+    /**
+     * Whether a token's claims are included
+     */
+    isTokenSelected(token: TokenInfo): boolean {
+        return this.selectedTokens.has(getPriceKey(token.address));
+    }
+
+    /**
+     * Download the selected claims
+     * @param format File format
+     */
+    async export(format: ClaimExportFormat): Promise<void> {
+        if (!this.claims || this.selectedClaims.length === 0) {
+            return;
+        }
+
+        this.exporting = true;
+        this.error = null;
+
+        try {
+            await this._claimExportService.exportClaims(
+                this.claims,
+                this.beneficiaries,
+                this._getFilter(),
+                format,
+                this.currency,
+            );
+        } catch (error) {
+            console.error('Failed to export claims:', error);
+            this.error = error instanceof Error ? error.message : translate('claimExport.exportFailed');
+        } finally {
+            this.exporting = false;
+        }
+    }
+
+    /**
+     * Build the export filter from the form
+     */
+    private _getFilter(): ClaimExportFilter {
+        return {
+            fromTime: fromDateInputValue(this.fromDate),
+            toTime: fromDateInputValue(this.toDate, true),
+            tokens: [...this.selectedTokens],
+        };
+    }
+}
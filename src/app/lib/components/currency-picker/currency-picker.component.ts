@@ -0,0 +1,47 @@
+import { CommonModule } from '@angular/common';
+import { Component, OnDestroy, OnInit, inject } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { FIAT_CURRENCIES } from '@lib/constants/price.constant';
+import type { FiatCurrency } from '@lib/interfaces';
+import { PriceService } from '@lib/services/price/price.service';
+import { translate } from '@lib/utils/i18n.util';
+import { Subject, takeUntil } from 'rxjs';
+
+/**
+ * Currency Picker Component
+ * Selects the currency fiat values are shown in
+ */
+@Component({
+    selector: 'app-currency-picker',
+    standalone: true,
+    imports: [CommonModule, FormsModule],
+    templateUrl: './currency-picker.component.html',
+})
+export class CurrencyPickerComponent implements OnInit, OnDestroy {
+    private readonly _priceService = inject(PriceService);
+    private readonly _destroy$ = new Subject<void>();
+
+    currency: FiatCurrency = this._priceService.currency;
+    currencies = FIAT_CURRENCIES;
+
+    // Utility functions exposed to template
+    t = translate;
+
+    ngOnInit(): void {
+        this._priceService.currency$.pipe(takeUntil(this._destroy$)).subscribe((currency) => {
+            this.currency = currency;
+        });
+    }
+
+    ngOnDestroy(): void {
+        this._destroy$.next();
+        this._destroy$.complete();
+    }
+
+    /**
+     * Select a currency
+     */
+    setCurrency(currency: FiatCurrency): void {
+        this._priceService.setCurrency(currency);
+    }
+}
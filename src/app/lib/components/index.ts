@@ -1 +1,7 @@
+export * from './claim-export-panel/claim-export-panel.component';
+export * from './currency-picker/currency-picker.component';
 export * from './layouts/layout-horizontal/layout-horizontal.component';
+export * from './locale-picker/locale-picker.component';
+export * from './network-picker/network-picker.component';
+export * from './unlock-timeline/unlock-timeline.component';
+export * from './vesting-chart/vesting-chart.component';
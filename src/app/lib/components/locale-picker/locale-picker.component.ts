@@ -0,0 +1,47 @@
+import { CommonModule } from '@angular/common';
+import { Component, OnDestroy, OnInit, inject } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { SUPPORTED_LOCALES } from '@lib/constants/i18n.constant';
+import type { AppLocale } from '@lib/interfaces';
+import { I18nService } from '@lib/services/i18n/i18n.service';
+import { translate } from '@lib/utils/i18n.util';
+import { Subject, takeUntil } from 'rxjs';
+
+/**
+ * Locale Picker Component
+ * Selects the UI language
+ */
+@Component({
+    selector: 'app-locale-picker',
+    standalone: true,
+    imports: [CommonModule, FormsModule],
+    templateUrl: './locale-picker.component.html',
+})
+export class LocalePickerComponent implements OnInit, OnDestroy {
+    private readonly _i18nService = inject(I18nService);
+    private readonly _destroy$ = new Subject<void>();
+
+    locale: AppLocale = this._i18nService.locale;
+    locales = SUPPORTED_LOCALES;
+
+    // Utility functions exposed to template
+    t = translate;
+
+    ngOnInit(): void {
+        this._i18nService.locale$.pipe(takeUntil(this._destroy$)).subscribe((locale) => {
+            this.locale = locale;
+        });
+    }
+
+    ngOnDestroy(): void {
+        this._destroy$.next();
+        this._destroy$.complete();
+    }
+
+    /**
+     * Select a language
+     */
+    setLocale(locale: AppLocale): void {
+        this._i18nService.setLocale(locale);
+    }
+}
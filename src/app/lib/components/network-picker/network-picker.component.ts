@@ -0,0 +1,61 @@
+import { CommonModule } from '@angular/common';
+import { Component, OnDestroy, OnInit, inject } from '@angular/core';
+import { NETWORK_CONFIG } from '@lib/constants/contracts.constant';
+import type { NetworkInfo } from '@lib/interfaces';
+import { Web3Service } from '@lib/services/web3/web3.service';
+import { translate } from '@lib/utils/i18n.util';
+import { Subject, takeUntil } from 'rxjs';
+
+/**
+ * Network Picker Component
+ * Switches the connected wallet to one of the networks the vesting contracts are deployed on
+ */
+@Component({
+    selector: 'app-network-picker',
+    standalone: true,
+    imports: [CommonModule],
+    templateUrl: './network-picker.component.html',
+})
+export class NetworkPickerComponent implements OnInit, OnDestroy {
+    private readonly _web3Service = inject(Web3Service);
+    private readonly _destroy$ = new Subject<void>();
+
+    networkInfo: NetworkInfo | null = null;
+    networks = Object.values(NETWORK_CONFIG);
+    switchingTo: string | null = null; // Chain ID being switched to
+    isOpen = false;
+
+    // Utility functions exposed to template
+    t = translate;
+
+    ngOnInit(): void {
+        this._web3Service.networkInfo$.pipe(takeUntil(this._destroy$)).subscribe((networkInfo) => {
+            this.networkInfo = networkInfo;
+        });
+    }
+
+    ngOnDestroy(): void {
+        this._destroy$.next();
+        this._destroy$.complete();
+    }
+
+    /**
+     * Switch the wallet to a network
+     */
+    async switchNetwork(chainId: string): Promise<void> {
+        this.isOpen = false;
+        if (chainId === this.networkInfo?.chainId) {
+            return;
+        }
+
+        this.switchingTo = chainId;
+        try {
+            await this._web3Service.switchNetwork(chainId);
+        } catch (error) {
+            // Error already handled in service
+            console.error('Failed to switch network:', error);
+        } finally {
+            this.switchingTo = null;
+        }
+    }
+}
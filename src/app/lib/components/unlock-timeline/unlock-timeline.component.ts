@@ -0,0 +1,135 @@
+import { CommonModule } from '@angular/common';
+import { Component, Input, OnChanges, OnDestroy, OnInit, inject } from '@angular/core';
+import { CHART_COLORS, CHART_GRID_COLORS } from '@lib/constants/chart.constant';
+import { getCurrentTimestamp } from '@lib/constants/mock-data.constant';
+import type { VestingSchedule } from '@lib/interfaces';
+import { I18nService } from '@lib/services/i18n';
+import { ThemeService } from '@lib/services/theme';
+import { getIntlLocale, translate } from '@lib/utils/i18n.util';
+import { getUnlockTimeline } from '@lib/utils/vesting.util';
+import type {
+    ApexAnnotations,
+    ApexAxisChartSeries,
+    ApexChart,
+    ApexDataLabels,
+    ApexGrid,
+    ApexPlotOptions,
+    ApexTheme,
+    ApexTooltip,
+    ApexXAxis,
+    ApexYAxis,
+} from 'ng-apexcharts';
+import { NgApexchartsModule } from 'ng-apexcharts';
+import { Subject, skip, takeUntil } from 'rxjs';
+
+/**
+ * Unlock Timeline Component
+ * Stacked monthly bars of the amounts a set of schedules unlocks, one series per token
+ */
+@Component({
+    selector: 'app-unlock-timeline',
+    standalone: true,
+    imports: [CommonModule, NgApexchartsModule],
+    templateUrl: './unlock-timeline.component.html',
+})
+export class UnlockTimelineComponent implements OnInit, OnChanges, OnDestroy {
+    @Input() schedules: VestingSchedule[] = [];
+
+    private readonly _themeService = inject(ThemeService);
+    private readonly _i18nService = inject(I18nService);
+    private readonly _destroy$ = new Subject<void>();
+
+    // Chart options
+    series: ApexAxisChartSeries = [];
+    annotations: ApexAnnotations = {};
+    chart: ApexChart = {
+        type: 'bar',
+        stacked: true,
+        height: 320,
+        background: 'transparent',
+        fontFamily: 'inherit',
+        toolbar: { show: false },
+        zoom: { enabled: false },
+        animations: { enabled: false },
+    };
+    colors = [...CHART_COLORS.tokens];
+    dataLabels: ApexDataLabels = { enabled: false };
+    plotOptions: ApexPlotOptions = { bar: { columnWidth: '80%' } };
+    xaxis: ApexXAxis = { type: 'datetime' };
+    yaxis: ApexYAxis = { min: 0, labels: { formatter: formatAmount } };
+    tooltip: ApexTooltip = {
+        shared: true,
+        intersect: false,
+        x: { format: 'MMM yyyy' },
+        y: { formatter: formatAmount },
+    };
+    grid: ApexGrid = { borderColor: CHART_GRID_COLORS.light };
+    theme: ApexTheme = { mode: 'light' };
+
+    // Utility functions exposed to template
+    t = translate;
+
+    ngOnInit(): void {
+        this._themeService.isDark$.pipe(takeUntil(this._destroy$)).subscribe((isDark) => {
+            this.theme = { mode: isDark ? 'dark' : 'light' };
+            this.grid = { borderColor: isDark ? CHART_GRID_COLORS.dark : CHART_GRID_COLORS.light };
+        });
+        // Labels are built in the current language
+        this._i18nService.locale$.pipe(skip(1), takeUntil(this._destroy$)).subscribe(() => this._buildChart());
+    }
+
+    ngOnChanges(): void {
+        this._buildChart();
+    }
+
+    ngOnDestroy(): void {
+        this._destroy$.next();
+        this._destroy$.complete();
+    }
+
+    /**
+     * Check if any schedule still has something to unlock
+     */
+    get hasData(): boolean {
+        return this.series.length > 0;
+    }
+
+    /**
+     * Build one monthly series per token and the today marker
+     */
+    private _buildChart(): void {
+        const { months, tokens } = getUnlockTimeline(this.schedules);
+        const now = getCurrentTimestamp();
+
+        this.series = tokens.map(({ token, amounts }) => ({
+            name: token.symbol,
+            data: amounts.map((amount, i): [number, number] => [months[i] * 1000, amount]),
+        }));
+
+        this.annotations = {
+            xaxis:
+                months.length > 0 && now >= months[0]
+                    ? [
+                          {
+                              x: now * 1000,
+                              borderColor: CHART_COLORS.today,
+                              strokeDashArray: 4,
+                              label: {
+                                  text: translate('chart.today'),
+                                  orientation: 'horizontal',
+                                  borderColor: CHART_COLORS.today,
+                                  style: { color: '#fff', background: CHART_COLORS.today },
+                              },
+                          },
+                      ]
+                    : [],
+        };
+    }
+}
+
+/**
+ * Format an amount for axis labels and tooltips
+ */
+function formatAmount(value: number): string {
+    return value.toLocaleString(getIntlLocale(), { maximumFractionDigits: 0 });
+}
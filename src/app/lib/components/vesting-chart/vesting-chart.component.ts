@@ -0,0 +1,145 @@
+import { CommonModule } from '@angular/common';
+import { Component, Input, OnChanges, OnDestroy, OnInit, inject } from '@angular/core';
+import { CHART_COLORS, CHART_GRID_COLORS } from '@lib/constants/chart.constant';
+import { getCurrentTimestamp } from '@lib/constants/mock-data.constant';
+import type { VestingSchedule } from '@lib/interfaces';
+import { I18nService } from '@lib/services/i18n';
+import { ThemeService } from '@lib/services/theme';
+import { toNumber } from '@lib/utils/amount.util';
+import { getIntlLocale, translate } from '@lib/utils/i18n.util';
+import { calculateVestingRelease, getVestingCurve } from '@lib/utils/vesting.util';
+import type {
+    ApexAnnotations,
+    ApexAxisChartSeries,
+    ApexChart,
+    ApexDataLabels,
+    ApexFill,
+    ApexGrid,
+    ApexStroke,
+    ApexTheme,
+    ApexTooltip,
+    ApexXAxis,
+    ApexYAxis,
+    XAxisAnnotations,
+} from 'ng-apexcharts';
+import { NgApexchartsModule } from 'ng-apexcharts';
+import { Subject, skip, takeUntil } from 'rxjs';
+
+/**
+ * Vesting Chart Component
+ * Plots the vested amount of a schedule over time, with its cliff, today and the amount already claimed
+ */
+@Component({
+    selector: 'app-vesting-chart',
+    standalone: true,
+    imports: [CommonModule, NgApexchartsModule],
+    templateUrl: './vesting-chart.component.html',
+})
+export class VestingChartComponent implements OnInit, OnChanges, OnDestroy {
+    @Input({ required: true }) schedule!: VestingSchedule;
+
+    private readonly _themeService = inject(ThemeService);
+    private readonly _i18nService = inject(I18nService);
+    private readonly _destroy$ = new Subject<void>();
+
+    // Chart options
+    series: ApexAxisChartSeries = [];
+    annotations: ApexAnnotations = {};
+    chart: ApexChart = {
+        type: 'area',
+        height: 280,
+        background: 'transparent',
+        fontFamily: 'inherit',
+        toolbar: { show: false },
+        zoom: { enabled: false },
+        animations: { enabled: false },
+    };
+    colors = [CHART_COLORS.vested];
+    dataLabels: ApexDataLabels = { enabled: false };
+    stroke: ApexStroke = { curve: 'straight', width: 2 };
+    fill: ApexFill = { type: 'gradient', gradient: { opacityFrom: 0.4, opacityTo: 0.05 } };
+    xaxis: ApexXAxis = { type: 'datetime' };
+    yaxis: ApexYAxis = { min: 0, labels: { formatter: formatAmount } };
+    tooltip: ApexTooltip = { x: { format: 'dd MMM yyyy' }, y: { formatter: formatAmount } };
+    grid: ApexGrid = { borderColor: CHART_GRID_COLORS.light };
+    theme: ApexTheme = { mode: 'light' };
+
+    ngOnInit(): void {
+        this._themeService.isDark$.pipe(takeUntil(this._destroy$)).subscribe((isDark) => {
+            this.theme = { mode: isDark ? 'dark' : 'light' };
+            this.grid = { borderColor: isDark ? CHART_GRID_COLORS.dark : CHART_GRID_COLORS.light };
+        });
+        // Labels are built in the current language
+        this._i18nService.locale$.pipe(skip(1), takeUntil(this._destroy$)).subscribe(() => this._buildChart());
+    }
+
+    ngOnChanges(): void {
+        this._buildChart();
+    }
+
+    ngOnDestroy(): void {
+        this._destroy$.next();
+        this._destroy$.complete();
+    }
+
+    /**
+     * Build the vested series and the cliff, today and claimed markers
+     */
+    private _buildChart(): void {
+        const { schedule } = this;
+        const now = getCurrentTimestamp();
+        const release = calculateVestingRelease(schedule, now);
+
+        this.series = [
+            { name: translate('chart.vested', { symbol: schedule.token.symbol }), data: getVestingCurve(schedule) },
+        ];
+
+        const xaxis: XAxisAnnotations[] = [];
+        if (schedule.cliff > 0) {
+            xaxis.push(marker(schedule.startTime + schedule.cliff, translate('common.cliff'), CHART_COLORS.cliff));
+        }
+        if (now >= schedule.startTime && now <= schedule.startTime + schedule.duration) {
+            xaxis.push(marker(now, translate('chart.today'), CHART_COLORS.today));
+        }
+
+        this.annotations = {
+            xaxis,
+            yaxis: [
+                {
+                    y: toNumber(release.claimed),
+                    borderColor: CHART_COLORS.claimed,
+                    strokeDashArray: 4,
+                    label: {
+                        text: translate('chart.claimed', { amount: formatAmount(toNumber(release.claimed)) }),
+                        borderColor: CHART_COLORS.claimed,
+                        style: { color: '#fff', background: CHART_COLORS.claimed },
+                    },
+                },
+            ],
+        };
+    }
+}
+
+/**
+ * Vertical dashed marker at a timestamp
+ */
+function marker(timestamp: number, text: string, color: string): XAxisAnnotations {
+    return {
+        x: timestamp * 1000,
+        borderColor: color,
+        strokeDashArray: 4,
+        label: {
+            text,
+            orientation: 'horizontal',
+            borderColor: color,
+            style: { color: '#fff', background: color },
+        },
+    };
+}
+
+/**
+ * Format an amount for axis labels and tooltips
+ */
+function formatAmount(value: number): string {
+    return value.toLocaleString(getIntlLocale(), { maximumFractionDigits: 0 });
+}
@@ -0,0 +1,16 @@
+/**
+ * Token Amount Configuration
+ */
+
+import { CONTRACT_ADDRESSES } from './contracts.constant';
+
+// Amount handling
+export const AMOUNT_CONFIG = {
+    defaultDustThreshold: '0.01', // Whole tokens, claimable amounts below it are not offered for claiming
+} as const;
+
+// Dust thresholds in whole tokens by lowercase token address, for tokens the default doesn't suit
+export const DUST_THRESHOLDS: Record<string, string> = {
+    [CONTRACT_ADDRESSES.local.tokens.SEED.toLowerCase()]: '100', // Cheap token, small amounts aren't worth the gas
+    [CONTRACT_ADDRESSES.local.tokens.ADVISOR.toLowerCase()]: '0.001',
+};
@@ -0,0 +1,14 @@
+// Chart colors, taken from the Tailwind palette used across the app
+export const CHART_COLORS = {
+    vested: '#3b82f6', // blue-500
+    claimed: '#10b981', // emerald-500
+    cliff: '#f59e0b', // amber-500
+    today: '#8b5cf6', // violet-500
+    tokens: ['#3b82f6', '#8b5cf6', '#10b981', '#f59e0b', '#ef4444', '#06b6d4'], // One per token in stacked charts
+} as const;
+
+// Grid line color by theme (gray-200 / gray-700)
+export const CHART_GRID_COLORS = {
+    light: '#e5e7eb',
+    dark: '#374151',
+} as const;
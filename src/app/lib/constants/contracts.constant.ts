@@ -3,14 +3,20 @@
  */
 
 // Import ABIs
-import TokenVestingABI from '@lib/contracts/TokenVesting.json';
-import MockTokenABI from '@lib/contracts/MockToken.json';
+import TokenVestingABI from '../contracts/TokenVesting.json';
+import TokenVestingOptimizedABI from '../contracts/TokenVestingOptimized.json';
+import TokenVestingPeriodicABI from '../contracts/TokenVestingPeriodic.json';
+import MockTokenABI from '../contracts/MockToken.json';
+import type { ContractFeatures, ContractFlavor } from '../interfaces/contract.interface';
 
 // Contract Addresses by Network
 export const CONTRACT_ADDRESSES = {
     // Hardhat Local Network (chainId: 0x7a69 / 31337)
     local: {
         vesting: '0x5FC8d32690cc91D4c39d9d3abcBD16989F875707',
+        flavor: 'periodic', // scripts/deploy.cjs deploys TokenVestingPeriodic
+        deploymentBlock: 0, // First block to scan for event logs, null if not recorded
+        multicall: '0x0165878A594ca255338adfa4d48449f69242Eb8F', // Multicall3, deployed right after the vesting contract
         tokens: {
             PROJ: '0x5FbDB2315678afecb367f032d93F642f64180aa3',
             TEAM: '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512',
@@ -23,6 +29,9 @@ export const CONTRACT_ADDRESSES = {
     // Using Optimized TokenVesting Contract with Diverse Test Data
     sepolia: {
         vesting: '0x186FBa7B212C5aCCAe3f264178f28922080Bf5a5', // Optimized version
+        flavor: 'optimized',
+        deploymentBlock: null, // Not recorded: BlockchainService.getDeploymentBlock reads it from the chain
+        multicall: '0xcA11bde05977b3631167028862bE2a173976CA11', // Canonical Multicall3 deployment
         tokens: {
             PROJ: '0x10FDc7A86a2EB3864b18e26B5a204134DD85Cb1c',
             TEAM: '', // Not deployed yet
@@ -33,33 +42,116 @@ export const CONTRACT_ADDRESSES = {
     },
 } as const;
 
-// Get contract addresses for current network
-export function getContractAddresses(chainId: string) {
+// Get contract addresses for current network, or null if the contracts are not deployed there
+export function getContractAddresses(
+    chainId: string,
+): (typeof CONTRACT_ADDRESSES)[keyof typeof CONTRACT_ADDRESSES] | null {
     if (chainId === '0x7a69' || chainId === '31337') {
         return CONTRACT_ADDRESSES.local;
     } else if (chainId === '0xaa36a7' || chainId === '11155111') {
         return CONTRACT_ADDRESSES.sepolia;
     }
-    // Default to local for development
-    return CONTRACT_ADDRESSES.local;
+    // No deployment: callers must block instead of falling back to another network's addresses
+    return null;
 }
 
 // Contract ABIs
 export const CONTRACT_ABIS = {
-    vesting: TokenVestingABI.abi,
+    vesting: {
+        legacy: TokenVestingABI.abi,
+        optimized: TokenVestingOptimizedABI.abi,
+        periodic: TokenVestingPeriodicABI.abi,
+    },
     token: MockTokenABI.abi,
+    multicall: [
+        'function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)',
+    ],
 } as const;
 
+// Calls per Multicall3 aggregate3 request, keeps each eth_call well under node gas and payload limits
+export const MULTICALL_BATCH_SIZE = 300;
+
+// Optional features by contract flavor
+export const CONTRACT_FEATURES: Record<ContractFlavor, ContractFeatures> = {
+    legacy: {
+        batchCreate: false,
+        vestingInfo: false,
+        pause: false,
+        changeBeneficiary: false,
+        treasury: false,
+        stepVesting: false,
+    },
+    optimized: {
+        batchCreate: true,
+        vestingInfo: true,
+        pause: true,
+        changeBeneficiary: true,
+        treasury: true,
+        stepVesting: false,
+    },
+    periodic: {
+        batchCreate: true,
+        vestingInfo: true,
+        pause: true,
+        changeBeneficiary: true,
+        treasury: true,
+        stepVesting: true,
+    },
+};
+
 // Network Configuration
 export const NETWORK_CONFIG = {
     local: {
         chainId: '0x7a69', // 31337 in hex
         rpcUrl: 'http://127.0.0.1:8545',
         name: 'Hardhat Local',
+        explorerUrl: '', // No block explorer for local network
+        confirmations: 1, // Blocks to wait before a transaction counts as confirmed
+        nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 }, // Used when adding the chain to a wallet
     },
     sepolia: {
         chainId: '0xaa36a7', // 11155111 in hex
         rpcUrl: 'https://rpc.sepolia.org',
         name: 'Sepolia Testnet',
+        explorerUrl: 'https://sepolia.etherscan.io',
+        confirmations: 2,
+        nativeCurrency: { name: 'Sepolia Ether', symbol: 'ETH', decimals: 18 },
     },
 } as const;
+
+// Get network configuration for a chain
+export function getNetworkConfig(chainId: string): (typeof NETWORK_CONFIG)[keyof typeof NETWORK_CONFIG] | null {
+    if (chainId === '0x7a69' || chainId === '31337') {
+        return NETWORK_CONFIG.local;
+    } else if (chainId === '0xaa36a7' || chainId === '11155111') {
+        return NETWORK_CONFIG.sepolia;
+    }
+    return null;
+}
+
+// Event log paging: public RPC endpoints reject eth_getLogs over large block ranges
+export const EVENT_LOG_PAGING = {
+    blockRange: 10_000, // Blocks per eth_getLogs request
+    rangesPerLoad: 10, // Requests per "load more" step
+    maxRangesPerScan: 100, // Requests allowed for one date range scan, e.g. a claim export
+} as const;
+
+// Transaction tracking
+export const TRANSACTION_TRACKING = {
+    pollIntervalMs: 4_000, // How often pending transactions are checked for confirmations and drops
+    droppedAfterSeconds: 30 * 60, // Unknown to the node for this long with an unused nonce = dropped
+} as const;
+
+// Live updates of claimable amounts and contract events
+export const LIVE_UPDATES = {
+    clockIntervalMs: 1_000, // How often claimable amounts and stats are recalculated
+    eventDebounceMs: 1_000, // Events arriving together (e.g. a claim-all) trigger a single reload
+} as const;
+
+// Gas budget used to split batchCreateVestingSchedules calls into transactions
+export const BATCH_CREATE_GAS = {
+    base: 100_000, // Fixed cost per transaction (token transfer, array setup)
+    perSchedule: 200_000, // Storage writes, beneficiary index and event per schedule
+    maxPerTransaction: 8_000_000, // Stay well below typical block gas limits, clamped to the actual limit at runtime
+    estimateMarginPercent: 20, // Headroom added to the estimate, as gas use can change before the batch is mined
+} as const;
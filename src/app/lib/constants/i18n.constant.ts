@@ -0,0 +1,25 @@
+/**
+ * Internationalization Configuration
+ */
+
+import type { AppLocale, LocaleInfo, TranslationsOf } from '@lib/interfaces/i18n.interface';
+import { DE_TRANSLATIONS } from './translations/de.translation';
+import { EN_TRANSLATIONS } from './translations/en.translation';
+import { ES_TRANSLATIONS } from './translations/es.translation';
+
+// Language used when neither a stored preference nor the browser language is supported
+export const DEFAULT_LOCALE: AppLocale = 'en';
+
+// Languages offered in the language selector
+export const SUPPORTED_LOCALES: LocaleInfo[] = [
+    { code: 'en', name: 'English', intl: 'en-US' },
+    { code: 'de', name: 'Deutsch', intl: 'de-DE' },
+    { code: 'es', name: 'Español', intl: 'es-ES' },
+];
+
+// Dictionaries by language, English is the source every translation has to match
+export const TRANSLATIONS: Record<AppLocale, TranslationsOf<typeof EN_TRANSLATIONS>> = {
+    en: EN_TRANSLATIONS,
+    de: DE_TRANSLATIONS,
+    es: ES_TRANSLATIONS,
+};
@@ -23,6 +23,7 @@ export const MOCK_VESTING_SCHEDULES: VestingSchedule[] = [
         startTime: Math.floor(Date.now() / 1000) - 180 * 24 * 60 * 60, // Started 6 months ago
         cliff: 180 * 24 * 60 * 60, // 6 months cliff
         duration: 730 * 24 * 60 * 60, // 24 months total (2 years)
+        interval: 1, // Linear
         released: '250000000000000000000000', // 250,000 tokens claimed
         revocable: true,
         revoked: false,
@@ -41,6 +42,7 @@ export const MOCK_VESTING_SCHEDULES: VestingSchedule[] = [
         startTime: Math.floor(Date.now() / 1000) - 90 * 24 * 60 * 60, // Started 3 months ago
         cliff: 365 * 24 * 60 * 60, // 1 year cliff
         duration: 1460 * 24 * 60 * 60, // 48 months total (4 years)
+        interval: 1, // Linear
         released: '0', // Nothing claimed yet
         revocable: true,
         revoked: false,
@@ -59,6 +61,7 @@ export const MOCK_VESTING_SCHEDULES: VestingSchedule[] = [
         startTime: Math.floor(Date.now() / 1000) - 800 * 24 * 60 * 60, // Started ~2.2 years ago
         cliff: 90 * 24 * 60 * 60, // 3 months cliff
         duration: 730 * 24 * 60 * 60, // 24 months total
+        interval: 1, // Linear
         released: '2000000000000000000000000', // Fully claimed
         revocable: false,
         revoked: false,
@@ -77,6 +80,7 @@ export const MOCK_VESTING_SCHEDULES: VestingSchedule[] = [
         startTime: Math.floor(Date.now() / 1000) + 30 * 24 * 60 * 60, // Starts in 1 month
         cliff: 180 * 24 * 60 * 60, // 6 months cliff
         duration: 365 * 24 * 60 * 60, // 12 months total
+        interval: 1, // Linear
         released: '0',
         revocable: true,
         revoked: false,
@@ -95,6 +99,7 @@ export const MOCK_VESTING_SCHEDULES: VestingSchedule[] = [
         startTime: Math.floor(Date.now() / 1000) - 270 * 24 * 60 * 60, // Started 9 months ago
         cliff: 180 * 24 * 60 * 60, // 6 months cliff
         duration: 730 * 24 * 60 * 60, // 24 months total
+        interval: 1, // Linear
         released: '150000000000000000000000', // 150,000 tokens claimed
         revocable: false,
         revoked: false,
@@ -0,0 +1,47 @@
+/**
+ * Token Price Configuration
+ */
+
+import type { FiatCurrency } from '@lib/interfaces/price.interface';
+
+// Currencies offered in the currency selector
+export const FIAT_CURRENCIES: { code: FiatCurrency; name: string }[] = [
+    { code: 'USD', name: 'US Dollar' },
+    { code: 'EUR', name: 'Euro' },
+    { code: 'GBP', name: 'British Pound' },
+];
+
+// Price fetching
+export const PRICE_CONFIG = {
+    defaultCurrency: 'USD' as FiatCurrency,
+    refreshIntervalMs: 5 * 60_000, // How often prices are fetched again
+    staticFileUrl: 'assets/prices.json', // Price file of the static source
+    httpApiUrl: 'https://api.coingecko.com/api/v3/simple/token_price', // CoinGecko-compatible endpoint of the http source
+    httpHistoryApiUrl: 'https://api.coingecko.com/api/v3/coins', // Historical prices of the http source
+    maxHistoryGapSeconds: 24 * 60 * 60, // Historical prices further than this from the requested time are not used
+} as const;
+
+/* eslint-disable @typescript-eslint/naming-convention */
+// Asset platform of each chain in the http source, chains without one have no prices
+export const PRICE_API_PLATFORMS: Record<string, string> = {
+    '0x1': 'ethereum',
+    '0x89': 'polygon-pos',
+    '0x38': 'binance-smart-chain',
+};
+
+// Prices of the mock source in USD by token symbol, unknown symbols get 1 USD
+export const MOCK_TOKEN_PRICES: Record<string, number> = {
+    PROJ: 0.42,
+    TEAM: 1.15,
+    EARLY: 0.08,
+    ADVISOR: 2.5,
+    SEED: 0.015,
+};
+
+// Exchange rates of the mock source, value of 1 USD
+export const MOCK_EXCHANGE_RATES: Record<FiatCurrency, number> = {
+    USD: 1,
+    EUR: 0.92,
+    GBP: 0.79,
+};
+/* eslint-enable @typescript-eslint/naming-convention */
@@ -0,0 +1,25 @@
+/**
+ * Reminder Configuration
+ */
+
+import type { ReminderPreferences } from '@lib/interfaces/reminder.interface';
+
+// Preferences before the user opts in
+export const DEFAULT_REMINDER_PREFERENCES: ReminderPreferences = {
+    enabled: false,
+    cliff: true,
+    revoked: true,
+    thresholds: {},
+};
+
+// Reminder checks, names shared with the service worker (src/reminder-sw.js)
+export const REMINDER_CONFIG = {
+    checkIntervalMs: 60_000, // How often due reminders are checked while the app is open
+    serviceWorkerUrl: 'reminder-sw.js', // Served from the app root (see angular.json assets)
+    periodicSyncTag: 'vesting-reminders', // Periodic Background Sync registration
+    cacheName: 'vesting-reminders', // Cache the service worker keeps its reminders in
+    shownCacheKey: 'shown', // Keys of reminders the service worker showed, relative to its scope
+    periodicSyncIntervalMs: 12 * 60 * 60_000, // Minimum time between scheduled checks, browsers may wait longer
+    horizonSeconds: 90 * 24 * 60 * 60, // Reminders due further ahead are not handed to the service worker
+    icon: 'favicon.ico', // Notification icon
+} as const;
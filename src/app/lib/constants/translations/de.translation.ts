@@ -0,0 +1,529 @@
+import type { TranslationsOf } from '@lib/interfaces/i18n.interface';
+import type { EN_TRANSLATIONS } from './en.translation';
+
+/**
+ * German texts
+ */
+export const DE_TRANSLATIONS: TranslationsOf<typeof EN_TRANSLATIONS> = {
+    titles: {
+        dashboard: 'Vesting-Übersicht',
+        schedules: 'Vesting-Pläne',
+        schedule: 'Vesting-Plan',
+        history: 'Auszahlungsverlauf',
+        reminders: 'Erinnerungen',
+        admin: 'Vesting-Verwaltung',
+        import: 'Sammelimport von Zuteilungen',
+        manage: 'Pläne verwalten',
+        claimExport: 'Auszahlungsexport',
+        treasury: 'Treasury',
+    },
+    common: {
+        token: 'Token',
+        tokens: 'Tokens',
+        total: 'Gesamt',
+        vested: 'Freigegeben',
+        claimable: 'Abrufbar',
+        claimed: 'Abgerufen',
+        locked: 'Gesperrt',
+        progress: 'Fortschritt',
+        action: 'Aktion',
+        status: 'Status',
+        startDate: 'Startdatum',
+        details: 'Details',
+        clear: 'Leeren',
+        schedule: 'Plan',
+        amount: 'Betrag',
+        cancel: 'Abbrechen',
+        close: 'Schließen',
+        beneficiary: 'Begünstigter',
+        totalAmount: 'Gesamtbetrag',
+        start: 'Start',
+        cliff: 'Cliff',
+        duration: 'Laufzeit',
+        none: 'Keine',
+        date: 'Datum',
+        transaction: 'Transaktion',
+        block: 'Block',
+        save: 'Speichern',
+        cancelledByUser: 'Transaktion vom Nutzer abgebrochen',
+        from: 'Von',
+        to: 'Bis',
+    },
+    wallet: {
+        notConnected: 'Wallet nicht verbunden',
+        connect: 'Wallet verbinden',
+    },
+    network: {
+        unknown: 'Unbekanntes Netzwerk',
+        switchTo: 'Zu {network} wechseln',
+        switching: 'Wechsle...',
+        noDeploymentTitle: 'Kein Deployment auf dieser Chain',
+        notDeployedOn: 'Die Vesting-Verträge sind nicht bereitgestellt auf',
+        switchBelow: 'Wechsle mit deiner Wallet zu einem der folgenden Netzwerke, um fortzufahren.',
+        connectFailed: 'Verbindung zum Netzwerk fehlgeschlagen',
+    },
+    nav: {
+        claimHistory: 'Auszahlungsverlauf',
+        reminders: 'Erinnerungen',
+        admin: 'Verwaltung',
+        backToDashboard: 'Zurück zur Übersicht',
+        backToAdmin: 'Zurück zur Verwaltung',
+    },
+    status: {
+        active: 'aktiv',
+        pending: 'ausstehend',
+        completed: 'abgeschlossen',
+        revoked: 'widerrufen',
+        confirmed: 'bestätigt',
+        failed: 'fehlgeschlagen',
+        queued: 'wartend',
+        submitting: 'wird gesendet',
+        claiming: 'wird abgerufen',
+        claimed: 'abgerufen',
+    },
+    price: {
+        updatedAt: 'Preis aktualisiert {time}',
+        unpriced: 'Nicht enthalten, kein Preis:',
+        source: 'Quelle: {source}',
+        noPrices: 'Für deine Tokens sind in diesem Netzwerk keine Preise verfügbar.',
+        unavailable: 'Token-Preise sind gerade nicht verfügbar.',
+    },
+    duration: {
+        lessThanDay: 'Weniger als ein Tag',
+    },
+    interval: {
+        linear: 'Linear',
+        monthly: 'Monatlich',
+        quarterly: 'Vierteljährlich',
+        every: 'Alle {duration}',
+    },
+    picker: {
+        currency: 'Währung',
+        currencyTitle: 'Währung der Fiat-Werte',
+        language: 'Sprache',
+    },
+    chart: {
+        vested: 'Freigegeben {symbol}',
+        today: 'Heute',
+        claimed: 'Abgerufen {amount}',
+        noUnlocks: 'Keine Freigaben vorhanden.',
+    },
+    dashboard: {
+        title: 'Vesting-Übersicht',
+        subtitle: 'Überblick über deine Token-Vesting-Pläne',
+        lookupPlaceholder: 'Beliebige Begünstigten-Adresse suchen (0x...)',
+        viewSchedules: 'Pläne anzeigen',
+        readOnlyView: 'Nur-Lese-Ansicht von',
+        readOnlyDisabled: 'Abrufe und andere Signatur-Aktionen sind deaktiviert.',
+        backToWallet: 'Zurück zu meiner Wallet',
+        loadAddressFailed: 'Adresse konnte nicht geladen werden',
+        totalLocked: 'Insgesamt gesperrt',
+        availableToClaim: 'Zum Abruf verfügbar',
+        alreadyClaimed: 'Bereits abgerufen',
+        activeSchedules: 'Aktive Pläne',
+        completedCount: '{count} abgeschlossen',
+        tokensTitle: 'Deine Tokens',
+        tokensSubtitle: 'Summen je Token, Beträge verschiedener Tokens werden nie addiert',
+        scheduleCounts: '{active} aktiv · {completed} abgeschlossen',
+        filterByToken: 'Token:',
+        allTokens: 'Alle Tokens',
+        grantValue: 'Wert der Zuteilungen',
+        grantValueSubtitle: 'Deine Pläne zu aktuellen Token-Preisen',
+        unlockTimeline: 'Freigabe-Zeitleiste',
+        unlockTimelineSubtitle: 'Monatlich freigegebene Tokens über alle Pläne',
+        activeTitle: 'Aktive Vesting-Pläne',
+        pendingTitle: 'Ausstehende Vesting-Pläne',
+        completedTitle: 'Abgeschlossene Vesting-Pläne',
+        totalVested: 'Insgesamt freigegeben',
+        emptyTitle: 'Keine Vesting-Pläne',
+        emptyText: 'Du hast noch keine aktiven oder ausstehenden Vesting-Pläne.',
+    },
+    schedules: {
+        title: 'Vesting-Pläne',
+        subtitle: 'Verwalte deine freigegebenen Tokens und rufe sie ab',
+        connectPrompt:
+            'Bitte verbinde deine Wallet, um deine Vesting-Pläne anzuzeigen und zu verwalten. Für die Blockchain brauchst du eine Web3-Wallet (z. B. MetaMask).',
+        claimingDisabled: 'Abrufe sind deaktiviert.',
+        recentTransactions: 'Letzte Transaktionen',
+        clearFinished: 'Abgeschlossene entfernen',
+        spedUpFrom: 'beschleunigt von {hash}',
+        confirmations: {
+            one: '{confirmations}/{count} Bestätigung',
+            other: '{confirmations}/{count} Bestätigungen',
+        },
+        filterByStatus: 'Nach Status filtern:',
+        calendarHint: 'Freigabetermine der angezeigten Pläne als .ics-Datei herunterladen',
+        addToCalendar: 'Zum Kalender hinzufügen',
+        allSchedules: 'Alle Pläne',
+        filter: {
+            active: 'Aktiv',
+            pending: 'Ausstehend',
+            completed: 'Abgeschlossen',
+            revoked: 'Widerrufen',
+        },
+        totalValue: 'Gesamtwert',
+        vestedValue: 'Freigegebener Wert',
+        claimableValue: 'Abrufbarer Wert',
+        lockedValue: 'Gesperrter Wert',
+        unpriced: 'Fiat-Werte enthalten keine Pläne ohne {currency}-Preis:',
+        nextUnlock: 'nächste Freigabe {date}',
+        vestingChart: 'Vesting-Diagramm',
+        addUnlockDates: 'Freigabetermine zum Kalender hinzufügen',
+        readOnlyClaimHint: 'Nur-Lese-Ansicht: Verbinde die Wallet des Begünstigten, um abzurufen',
+        claim: 'Abrufen',
+        emptyTitle: 'Keine Pläne gefunden',
+        emptyFilteredTitle: 'Keine Pläne mit Status „{status}“ gefunden',
+        emptyText: 'Passe deinen Filter an oder schau später wieder vorbei.',
+        showAll: 'Alle Pläne anzeigen',
+        claimAll: 'Alle abrufen',
+        claimAllTitle: 'Alle abrufbaren Tokens abrufen',
+        claimAllText:
+            'Jeder Plan wird in einer eigenen Transaktion freigegeben. Deine Wallet fragt nacheinander nach einer Bestätigung.',
+        totalOf: 'Gesamt {symbol}',
+        startedOn: 'Gestartet am {date}',
+        claiming: 'Rufe ab...',
+        retryFailed: 'Fehlgeschlagene wiederholen',
+        claimSuccess: '{amount} {symbol} erfolgreich abgerufen. Transaktion: {hash}...',
+        claimFailed: 'Tokens konnten nicht abgerufen werden',
+        cancelledByUser: 'Vom Nutzer abgebrochen',
+        claimAllSuccess: {
+            one: 'Tokens aus {count} Plan abgerufen.',
+            other: 'Tokens aus {count} Plänen abgerufen.',
+        },
+    },
+    detail: {
+        title: 'Vesting-Plan',
+        titleOf: '{symbol}-Vesting-Plan',
+        linkCopied: 'Link kopiert',
+        copyLink: 'Link kopieren',
+        calendarHint: 'Cliff-Ende, Freigabetermine und finales Vesting-Datum als .ics-Datei herunterladen',
+        networkMismatch: 'Dieser Link verweist auf {linkNetwork}, deine Wallet ist aber mit {network} verbunden.',
+        readOnly: 'Nur-Lese-Ansicht von {network}. Verbinde die Wallet des Begünstigten, um abzurufen.',
+        notFoundTitle: 'Plan nicht gefunden',
+        notFoundText:
+            'Auf {network} gibt es keinen Vesting-Plan mit dieser ID. Der Link verweist möglicherweise auf ein anderes Netzwerk.',
+        invalidId: 'Ungültige Plan-ID. Links zu Plänen enden mit einer 32-Byte-Hex-ID (0x gefolgt von 64 Zeichen).',
+        loadFailed: 'Plan konnte nicht geladen werden',
+        loadClaimsFailed: 'Abrufe konnten nicht geladen werden',
+        parameters: 'Parameter',
+        you: 'Du',
+        cliffUntil: '{duration} (bis {date})',
+        durationEnds: '{duration} (endet {date})',
+        unlocks: 'Freigaben',
+        nextUnlock: 'nächste: {amount} {symbol} am {date}',
+        revocability: 'Widerrufbarkeit',
+        revokedText: 'Widerrufen: Nicht freigegebene Tokens gingen an den Eigentümer zurück',
+        revocable: 'Vom Vertragseigentümer widerrufbar',
+        notRevocable: 'Nicht widerrufbar',
+        refreshHint: 'Erneut aus dem Vertrag lesen',
+        calculatedLocally: 'Lokal berechnet (live)',
+        onChain: 'On-Chain computeReleasableAmount',
+        mismatch:
+            'Die Werte weichen ab: Der On-Chain-Betrag wird einmal gelesen (zum Aktualisieren neu laden), der lokale zählt weiter.',
+        vestingCurve: 'Vesting-Verlauf',
+        claims: 'Abrufe',
+        noRecentClaims: 'Keine Abrufe in den letzten Blöcken.',
+        noClaims: 'Noch keine Abrufe.',
+        scanningBlocks: 'Durchsuche Blöcke...',
+        loadOlderClaims: 'Ältere Abrufe laden',
+    },
+    history: {
+        title: 'Auszahlungsverlauf',
+        subtitle: 'Alle Abrufe deiner Wallet, direkt aus der Blockchain gelesen',
+        connectPrompt: 'Verbinde deine Wallet, um deinen Auszahlungsverlauf zu sehen.',
+        unknownToken: 'Unbekannter Token',
+        noLongerAssigned: 'Nicht mehr dieser Wallet zugeordnet',
+        totalClaimed: 'Insgesamt abgerufen',
+        emptyTitle: 'Keine Abrufe gefunden',
+        emptyRecent: 'Keine Abrufe in den letzten Blöcken. Lade ältere Blöcke, um weiter zurück zu suchen.',
+        emptyText: 'Diese Wallet hat noch keine Tokens abgerufen.',
+    },
+    reminders: {
+        title: 'Erinnerungen',
+        subtitle: 'Erhalte eine Browser-Benachrichtigung, wenn Tokens freigegeben werden oder sich ein Plan ändert',
+        connectPrompt: 'Verbinde deine Wallet, um Erinnerungen einzurichten.',
+        unsupported: 'Dieser Browser kann keine Benachrichtigungen anzeigen.',
+        on: 'Erinnerungen sind an',
+        off: 'Erinnerungen sind aus',
+        whenShown:
+            'Erinnerungen erscheinen, solange die App geöffnet ist. Browser mit geplanten Prüfungen zeigen sie auch bei geschlossener App.',
+        blocked: 'Benachrichtigungen sind für diese Seite blockiert.',
+        blockedError: 'Benachrichtigungen sind blockiert. Erlaube sie für diese Seite in deinen Browser-Einstellungen.',
+        updateFailed: 'Erinnerungen konnten nicht aktualisiert werden',
+        turnOn: 'Einschalten',
+        turnOff: 'Ausschalten',
+        cliffOption: 'Wenn ein Cliff endet und die ersten Tokens abgerufen werden können',
+        revokedOption: 'Wenn der Vertragseigentümer einen meiner Pläne widerruft',
+        thresholdsTitle: 'Erinnerungen an abrufbare Beträge',
+        thresholdsText:
+            'Lass dich erinnern, wenn der abrufbare Betrag eines Plans einen Wert erreicht. Leer lassen für keine Erinnerung.',
+        noSchedules: 'Deine Wallet hat keine Vesting-Pläne.',
+        amountOf: 'Betrag in {symbol}',
+        invalidThreshold: 'Gib einen positiven Betrag mit höchstens {decimals} Nachkommastellen ein.',
+        listTitle: 'Deine Erinnerungen',
+        noReminders: 'Keine Erinnerungen für deine Pläne.',
+        due: 'Fällig',
+        scheduleName: '{symbol}-Plan {id}',
+        revokedTitle: '{symbol}-Plan widerrufen',
+        revokedBody:
+            'Der Vertragseigentümer hat deinen {schedule} widerrufen. Nicht freigegebene Tokens werden nicht mehr freigegeben.',
+        cliffTitle: '{symbol}-Cliff abgelaufen',
+        cliffBody: 'Das Cliff deines {schedule} ist abgelaufen, die ersten Tokens können abgerufen werden.',
+        thresholdTitle: '{amount} {symbol} abrufbar',
+        thresholdBody: 'Dein {schedule} hat mindestens {amount} {symbol} zum Abruf bereit.',
+    },
+    calendar: {
+        name: 'Token-Vesting',
+        cliffSummary: '{symbol}-Cliff endet: Freigabe von {amount} {symbol}',
+        unlockSummary: '{symbol}-Freigabe: {amount} {symbol}',
+        endSummary: '{symbol}-Vesting endet: letzte Freigabe von {amount} {symbol}',
+        unlocks: 'Gibt {amount} {symbol} frei.',
+        vestedAfter: 'Freigegeben nach diesem Datum: {vested} von {total} {symbol}.',
+        token: 'Token: {name} ({address})',
+        beneficiary: 'Begünstigter: {address}',
+        schedule: 'Plan: {id}',
+        revoked: 'Dieser Plan wurde widerrufen, die Freigabe findet nicht statt.',
+    },
+    admin: {
+        title: 'Vesting-Verwaltung',
+        subtitle: 'Vesting-Pläne für Begünstigte anlegen',
+        bulkImport: 'Sammelimport',
+        manageSchedules: 'Pläne verwalten',
+        exportClaims: 'Abrufe exportieren',
+        treasury: 'Treasury',
+        connectPrompt: 'Verbinde die Wallet des Vertragseigentümers, um Vesting-Pläne anzulegen.',
+        notOwner:
+            'Nur der Vertragseigentümer ({owner}) kann Vesting-Pläne anlegen. Wechsle zum Eigentümer-Konto, um fortzufahren.',
+        scheduleId: 'Plan-ID: {id}',
+        createTitle: 'Vesting-Plan anlegen',
+        beneficiaryAddress: 'Adresse des Begünstigten',
+        tokenAddress: 'Token-Adresse',
+        loadingToken: 'Lade Token-Details...',
+        balance: 'Guthaben: {amount}',
+        approved: 'Genehmigt: {amount}',
+        cliffDays: 'Cliff (Tage)',
+        durationDays: 'Laufzeit (Tage)',
+        unlockInterval: 'Freigabeintervall',
+        revocableByOwner: 'Vom Eigentümer widerrufbar',
+        approveStep: 'Genehmigen',
+        createStep: 'Plan anlegen',
+        approveAndCreate: 'Genehmigen & anlegen',
+        createSchedule: 'Plan anlegen',
+        approving: 'Genehmige Tokens...',
+        creating: 'Lege Plan an...',
+        tokenReadFailed: 'Token-Vertrag konnte nicht gelesen werden. Prüfe Token-Adresse und Netzwerk.',
+        createSuccess: 'Vesting-Plan über {amount} {symbol} für {beneficiary} angelegt.',
+        createFailed: 'Vesting-Plan konnte nicht angelegt werden',
+        validation: {
+            beneficiary: 'Der Begünstigte muss eine gültige Adresse sein (0x gefolgt von 40 Hex-Zeichen).',
+            token: 'Der Token muss eine gültige Vertragsadresse sein.',
+            tokenDetails: 'Token-Details konnten nicht geladen werden.',
+            amount: 'Der Betrag muss eine positive Zahl mit höchstens {decimals} Nachkommastellen sein.',
+            balance: 'Der Betrag übersteigt dein Token-Guthaben.',
+            startDate: 'Startdatum ist erforderlich.',
+            duration: 'Die Laufzeit muss größer als null sein.',
+            cliffNegative: 'Das Cliff darf nicht negativ sein.',
+            cliffTooLong: 'Das Cliff darf nicht länger als die Laufzeit sein.',
+            intervalTooLong: 'Das Freigabeintervall darf nicht länger als die Laufzeit sein.',
+        },
+    },
+    manage: {
+        subtitle: 'Pläne eines Begünstigten suchen, um Zuteilungen zu widerrufen oder neu zuzuweisen',
+        connectPrompt: 'Verbinde die Wallet des Vertragseigentümers, um Pläne zu verwalten.',
+        notOwner: 'Du kannst Pläne suchen, aber nur der Vertragseigentümer kann sie widerrufen oder neu zuweisen.',
+        loadSchedules: 'Pläne laden',
+        loadFailed: 'Vesting-Pläne konnten nicht geladen werden',
+        invalidAddress: 'Gib eine gültige Adresse des Begünstigten ein (0x gefolgt von 40 Hex-Zeichen).',
+        startDuration: 'Start / Laufzeit',
+        reassign: 'Neu zuweisen',
+        revoke: 'Widerrufen',
+        noSchedules: '{address} hat keine Vesting-Pläne.',
+        reassignmentHistory: 'Verlauf der Neuzuweisungen',
+        noRecentReassignments: 'Keine Neuzuweisungen in den letzten Blöcken.',
+        scanningBlocks: 'Durchsuche Blöcke...',
+        loadOlderReassignments: 'Ältere Neuzuweisungen laden',
+        reassignTitle: '{symbol}-Plan neu zuweisen',
+        currentBeneficiary: 'aktueller Begünstigter {address}',
+        newBeneficiary: 'Adresse des neuen Begünstigten',
+        typeToConfirm: 'Zur Bestätigung die Adresse mit Prüfsumme eingeben',
+        reassignText:
+            'Der Plan geht samt nicht abgerufener und künftiger Freigaben an die neue Adresse. Der bisherige Begünstigte verliert sofort den Zugriff.',
+        reassigning: 'Weise neu zu...',
+        confirmReassign: 'Neuzuweisung bestätigen',
+        reassignSuccess: '{symbol}-Plan an {address} neu zugewiesen. Transaktion: {hash}...',
+        reassignFailed: 'Plan konnte nicht neu zugewiesen werden',
+        invalidChecksum:
+            'Gib eine gültige Adresse ein. Adressen mit Groß- und Kleinbuchstaben brauchen eine korrekte Prüfsumme.',
+        zeroAddress: 'Der neue Begünstigte darf nicht die Null-Adresse sein.',
+        sameBeneficiary: 'Diese Adresse ist bereits der Begünstigte.',
+        revokeTitle: '{symbol}-Plan widerrufen',
+        ownerRefund: 'Zurück an den Eigentümer (nicht freigegeben)',
+        beneficiaryReceives: 'Jetzt an den Begünstigten ausgezahlt (freigegeben, nicht abgerufen)',
+        alreadyClaimed: 'Bereits vom Begünstigten abgerufen',
+        revokeText:
+            'Die Beträge sind für den aktuellen Zeitpunkt geschätzt. Tokens werden bis zur Bestätigung der Transaktion weiter freigegeben, die endgültige Aufteilung kann leicht abweichen. Ein Widerruf kann nicht rückgängig gemacht werden.',
+        revoking: 'Widerrufe...',
+        confirmRevoke: 'Widerruf bestätigen',
+        revokeSuccess:
+            '{symbol}-Plan widerrufen. {amount} {symbol} gingen an den Eigentümer zurück. Transaktion: {hash}...',
+        revokeFailed: 'Plan konnte nicht widerrufen werden',
+    },
+    import: {
+        title: 'Sammelimport von Zuteilungen',
+        subtitle: 'Viele Vesting-Pläne aus einer CSV- oder JSON-Liste anlegen',
+        connectPrompt: 'Verbinde die Wallet des Vertragseigentümers, um Zuteilungen zu importieren.',
+        notOwner:
+            'Nur der Vertragseigentümer kann Zuteilungen importieren. Wechsle zum Eigentümer-Konto, um sie zu senden.',
+        unsupported:
+            'Der Vesting-Vertrag in diesem Netzwerk unterstützt kein Anlegen in Stapeln. Lege die Pläne stattdessen einzeln auf der Verwaltungsseite an.',
+        terms: 'Planbedingungen',
+        decimals: { one: '{count} Nachkommastelle', other: '{count} Nachkommastellen' },
+        grantList: 'Zuteilungsliste',
+        formatCsv: 'CSV mit',
+        formatJson: 'pro Zeile (Kopfzeile optional) oder ein JSON-Array von',
+        formatAmounts: 'Objekten. Beträge sind in ganzen Tokens angegeben.',
+        uploadFile: 'Datei hochladen',
+        pasteGrants: 'Oder Zuteilungen einfügen',
+        parsePasted: 'Eingefügte Zuteilungen einlesen',
+        loadedFile: { one: '{file} geladen ({count} Zeile)', other: '{file} geladen ({count} Zeilen)' },
+        selectToken: 'Wähle einen Token, um die Beträge gegen seine Nachkommastellen zu prüfen.',
+        preview: 'Vorschau',
+        exceedsBalance: 'übersteigt dein Guthaben',
+        validRows: 'Gültige Zeilen',
+        uniqueBeneficiaries: { one: '{count} eindeutiger Begünstigter', other: '{count} eindeutige Begünstigte' },
+        invalidRows: 'Ungültige Zeilen',
+        ofRows: { one: 'von {count} Zeile', other: 'von {count} Zeilen' },
+        transactions: 'Transaktionen',
+        perBatch: { one: 'bis zu {count} Plan pro Stapel', other: 'bis zu {count} Pläne pro Stapel' },
+        line: 'Zeile',
+        errors: 'Fehler',
+        submit: 'Senden',
+        batchesConfirmed: '{confirmed} / {count} Stapel bestätigt',
+        submitting: 'Sende Stapel...',
+        resume: 'Import fortsetzen',
+        approveAndSubmit: 'Genehmigen & senden',
+        batch: 'Stapel {number}',
+        schedules: { one: '{count} Plan', other: '{count} Pläne' },
+        success: {
+            one: '{schedules} Vesting-Pläne in {count} Transaktion angelegt.',
+            other: '{schedules} Vesting-Pläne in {count} Transaktionen angelegt.',
+        },
+        noRows: 'Im Import wurden keine Zuteilungen gefunden.',
+        parseFailed: 'Import konnte nicht gelesen werden: {reason}',
+        stopped:
+            'Der Import wurde bei einem fehlgeschlagenen Stapel angehalten. Behebe das Problem und setze fort, um die restlichen Stapel zu senden.',
+        remainingExceedsBalance: 'Die restliche Importsumme übersteigt dein Token-Guthaben.',
+        validation: {
+            owner: 'Nur der Vertragseigentümer kann Vesting-Pläne anlegen.',
+            batchCreate: 'Der Vesting-Vertrag in diesem Netzwerk unterstützt kein Anlegen in Stapeln.',
+            token: 'Wähle zuerst einen gültigen Token.',
+            cliff: 'Das Cliff muss zwischen null und der Laufzeit liegen.',
+            invalidRows: 'Korrigiere oder entferne die ungültigen Zeilen vor dem Senden.',
+            wallet: 'Verbinde zuerst deine Wallet.',
+        },
+        rowErrors: {
+            jsonArray: 'Ein JSON-Import muss ein Array von { beneficiary, amount }-Objekten sein.',
+            beneficiary: 'Ungültige Adresse des Begünstigten',
+            zeroAddress: 'Der Begünstigte darf nicht die Null-Adresse sein',
+            missingAmount: 'Betrag fehlt',
+            amountFormat: 'Der Betrag muss eine einfache Dezimalzahl sein',
+            amountDecimals: 'Der Betrag hat mehr als {decimals} Nachkommastellen',
+            amountZero: 'Der Betrag muss größer als null sein',
+            extraCells: 'Die Zeile hat {count} Zellen, erwartet werden nur Begünstigter und Betrag',
+            amountComma: 'Der Betrag enthält ein Komma, verwende . als Dezimaltrennzeichen',
+        },
+    },
+    claimExport: {
+        title: 'Auszahlungsexport',
+        subtitle: 'Abrufe ausgewählter Begünstigter für den Abgleich exportieren',
+        connectPrompt: 'Verbinde deine Wallet, um Abrufe aus der Blockchain zu lesen.',
+        beneficiaryAddresses: 'Adressen der Begünstigten',
+        addressHint: 'Eine Adresse pro Zeile oder getrennt durch Kommas oder Leerzeichen.',
+        selectBeneficiaries: 'Begünstigte auswählen',
+        selected: { one: '{count} Begünstigter ausgewählt', other: '{count} Begünstigte ausgewählt' },
+        invalidAddress: 'ist keine gültige Adresse',
+        panelText: 'Aus TokensReleased-Logs gelesene Abrufe als CSV oder JSON mit exakten Token-Beträgen herunterladen',
+        scanning: 'Durchsuche Blöcke… {progress} %',
+        loadClaims: 'Abrufe laden',
+        dateHint: 'Ein Startdatum ist erforderlich. Lass das Enddatum leer, um bis zum neuesten Block zu lesen.',
+        found: {
+            one: '{count} Abruf gefunden, {selected} für den Export ausgewählt',
+            other: '{count} Abrufe gefunden, {selected} für den Export ausgewählt',
+        },
+        fiatValue: 'Fiat-Wert zum Abrufzeitpunkt',
+        exportCsv: 'CSV exportieren',
+        exportJson: 'JSON exportieren',
+        invalidRange: 'Das Startdatum muss vor dem Enddatum liegen.',
+        startDateRequired: 'Wähle ein Startdatum.',
+        rangeTooLong:
+            'Der Zeitraum umfasst {blocks} Blöcke, mehr als {max} können auf einmal durchsucht werden. Wähle einen kürzeren Zeitraum.',
+        loadFailed: 'Abrufe konnten nicht geladen werden',
+        exportFailed: 'Abrufe konnten nicht exportiert werden',
+    },
+    pause: {
+        bannerTitle: 'Vesting-Vertrag pausiert',
+        bannerText:
+            'Der Vertragsinhaber hat den Vesting-Vertrag pausiert. Abrufe sind deaktiviert, bis er fortgesetzt wird.',
+        claimHint: 'Abrufe sind deaktiviert, solange der Vertrag pausiert ist',
+        title: 'Vertragspause',
+        statusPaused: 'Pausiert: Abrufe und neue Pläne sind blockiert',
+        statusActive: 'Aktiv: Abrufe und neue Pläne sind erlaubt',
+        pause: 'Vertrag pausieren',
+        unpause: 'Vertrag fortsetzen',
+        confirmPauseTitle: 'Vesting-Vertrag pausieren?',
+        confirmPauseText:
+            'Während der Pause können Begünstigte nichts abrufen und es können keine Pläne erstellt werden. Das Vesting läuft weiter und kann nach dem Fortsetzen abgerufen werden.',
+        confirmUnpauseTitle: 'Vesting-Vertrag fortsetzen?',
+        confirmUnpauseText: 'Begünstigte können wieder abrufen und neue Pläne können erstellt werden.',
+        pausing: 'Wird pausiert...',
+        unpausing: 'Wird fortgesetzt...',
+        pauseSuccess: 'Vertrag pausiert. Transaktion: {hash}...',
+        unpauseSuccess: 'Vertrag fortgesetzt. Transaktion: {hash}...',
+        failed: 'Pausenstatus konnte nicht geändert werden',
+    },
+    treasury: {
+        title: 'Treasury',
+        subtitle: 'Prüfe, ob der Vesting-Vertrag genug Tokens für alle Pläne hält',
+        connectPrompt: 'Verbinde deine Wallet, um die Vertragsguthaben zu lesen.',
+        notSupported: 'Der Vesting-Vertrag in diesem Netzwerk erfasst keine gesperrten Tokens.',
+        notOwner: 'Nur der Vertragsinhaber kann überschüssige Tokens abheben. Die Guthaben werden nur angezeigt.',
+        refresh: 'Aktualisieren',
+        scanning: 'Pläne werden gelesen… {progress}%',
+        partialScan:
+            'Abrufbare Beträge und Prognosen enthalten nur Pläne aus den letzten Blöcken. Guthaben und gesperrte Summen sind vollständig.',
+        scanOlder: 'Ältere Blöcke durchsuchen',
+        empty: 'Der Vertrag hält keine bekannten Tokens und hat keine Pläne.',
+        shortfallTitle: 'Der Vertrag hält weniger Tokens, als er gesperrt hat',
+        shortfallToken: '{amount} {symbol} fehlen',
+        shortfall: 'Fehlbetrag',
+        solvent: 'Gedeckt',
+        surplus: 'Überschuss',
+        balance: 'Vertragsguthaben',
+        totalLocked: 'Gesamt gesperrt',
+        claimableNow: 'Jetzt abrufbar',
+        withdraw: 'Überschuss abheben',
+        projectionTitle: 'Erwartete Abflüsse',
+        projectionText:
+            'Monatlich freigegebene Tokens und das verbleibende Guthaben, wenn alle freigegebenen Tokens abgerufen werden. Begünstigten stehen noch {owed} {symbol} zu.',
+        shortfallFrom: 'Ab {month} deckt das Guthaben nicht mehr alle Abrufe.',
+        month: 'Monat',
+        outflow: 'Freigabe',
+        projectedBalance: 'Guthaben danach',
+        withdrawTitle: '{symbol} abheben',
+        withdrawText:
+            'Sendet Tokens, die der Vertrag über den gesperrten Betrag hinaus hält, an den Inhaber. Tokens, die Begünstigten zustehen, können nicht abgehoben werden.',
+        withdrawable: 'Abhebbar',
+        amount: 'Betrag ({symbol})',
+        max: 'Max',
+        withdrawing: 'Wird abgehoben...',
+        confirmWithdraw: 'Abheben',
+        withdrawSuccess: '{amount} {symbol} abgehoben. Transaktion: {hash}...',
+        withdrawFailed: 'Tokens konnten nicht abgehoben werden',
+        loadFailed: 'Treasury konnte nicht geladen werden',
+        validation: {
+            shortfall: 'Solange der Vertrag weniger hält, als er gesperrt hat, kann nichts abgehoben werden.',
+            amount: 'Gib einen positiven Betrag mit höchstens {decimals} Nachkommastellen ein.',
+            exceedsSurplus: 'Der Betrag übersteigt den Überschuss: Der Vertrag muss den gesperrten Betrag behalten.',
+        },
+    },
+};
@@ -0,0 +1,520 @@
+/**
+ * English texts, the source dictionary other languages translate
+ * Placeholders like "{count}" are filled in by translate(), plural texts are picked by "count"
+ */
+export const EN_TRANSLATIONS = {
+    titles: {
+        dashboard: 'Vesting Dashboard',
+        schedules: 'Vesting Schedules',
+        schedule: 'Vesting Schedule',
+        history: 'Claim History',
+        reminders: 'Reminders',
+        admin: 'Vesting Admin',
+        import: 'Bulk Grant Import',
+        manage: 'Manage Schedules',
+        claimExport: 'Claims Export',
+        treasury: 'Treasury',
+    },
+    common: {
+        token: 'Token',
+        tokens: 'Tokens',
+        total: 'Total',
+        vested: 'Vested',
+        claimable: 'Claimable',
+        claimed: 'Claimed',
+        locked: 'Locked',
+        progress: 'Progress',
+        action: 'Action',
+        status: 'Status',
+        startDate: 'Start Date',
+        details: 'Details',
+        clear: 'Clear',
+        schedule: 'Schedule',
+        amount: 'Amount',
+        cancel: 'Cancel',
+        close: 'Close',
+        beneficiary: 'Beneficiary',
+        totalAmount: 'Total Amount',
+        start: 'Start',
+        cliff: 'Cliff',
+        duration: 'Duration',
+        none: 'None',
+        date: 'Date',
+        transaction: 'Transaction',
+        block: 'Block',
+        save: 'Save',
+        cancelledByUser: 'Transaction cancelled by user',
+        from: 'From',
+        to: 'To',
+    },
+    wallet: {
+        notConnected: 'Wallet Not Connected',
+        connect: 'Connect Wallet',
+    },
+    network: {
+        unknown: 'Unknown network',
+        switchTo: 'Switch to {network}',
+        switching: 'Switching...',
+        noDeploymentTitle: 'No Deployment on This Chain',
+        notDeployedOn: 'The vesting contracts are not deployed on',
+        switchBelow: 'Switch your wallet to one of the networks below to continue.',
+        connectFailed: 'Failed to connect to the network',
+    },
+    nav: {
+        claimHistory: 'Claim History',
+        reminders: 'Reminders',
+        admin: 'Admin',
+        backToDashboard: 'Back to Dashboard',
+        backToAdmin: 'Back to Admin',
+    },
+    status: {
+        active: 'active',
+        pending: 'pending',
+        completed: 'completed',
+        revoked: 'revoked',
+        confirmed: 'confirmed',
+        failed: 'failed',
+        queued: 'queued',
+        submitting: 'submitting',
+        claiming: 'claiming',
+        claimed: 'claimed',
+    },
+    price: {
+        updatedAt: 'Price updated {time}',
+        unpriced: 'Not included, no price:',
+        source: 'Source: {source}',
+        noPrices: 'No prices are available for your tokens on this network.',
+        unavailable: 'Token prices are unavailable right now.',
+    },
+    duration: {
+        lessThanDay: 'Less than a day',
+    },
+    interval: {
+        linear: 'Linear',
+        monthly: 'Monthly',
+        quarterly: 'Quarterly',
+        every: 'Every {duration}',
+    },
+    picker: {
+        currency: 'Currency',
+        currencyTitle: 'Currency of fiat values',
+        language: 'Language',
+    },
+    chart: {
+        vested: 'Vested {symbol}',
+        today: 'Today',
+        claimed: 'Claimed {amount}',
+        noUnlocks: 'No unlocks to show.',
+    },
+    dashboard: {
+        title: 'Vesting Dashboard',
+        subtitle: 'Overview of your token vesting schedules',
+        lookupPlaceholder: 'Look up any beneficiary address (0x...)',
+        viewSchedules: 'View Schedules',
+        readOnlyView: 'Read-only view of',
+        readOnlyDisabled: 'claiming and other signing actions are disabled.',
+        backToWallet: 'Back to my wallet',
+        loadAddressFailed: 'Failed to load address',
+        totalLocked: 'Total Locked',
+        availableToClaim: 'Available to Claim',
+        alreadyClaimed: 'Already Claimed',
+        activeSchedules: 'Active Schedules',
+        completedCount: '{count} Completed',
+        tokensTitle: 'Your Tokens',
+        tokensSubtitle: 'Totals per token, amounts of different tokens are never added up',
+        scheduleCounts: '{active} active · {completed} completed',
+        filterByToken: 'Token:',
+        allTokens: 'All tokens',
+        grantValue: 'Grant Value',
+        grantValueSubtitle: 'Your schedules at current token prices',
+        unlockTimeline: 'Unlock Timeline',
+        unlockTimelineSubtitle: 'Tokens unlocking each month across all schedules',
+        activeTitle: 'Active Vesting Schedules',
+        pendingTitle: 'Pending Vesting Schedules',
+        completedTitle: 'Completed Vesting Schedules',
+        totalVested: 'Total Vested',
+        emptyTitle: 'No Vesting Schedules',
+        emptyText: "You don't have any active or pending vesting schedules yet.",
+    },
+    schedules: {
+        title: 'Vesting Schedules',
+        subtitle: 'Manage and claim your vested tokens',
+        connectPrompt:
+            'Please connect your wallet to view and manage your vesting schedules. You need to connect a Web3 wallet (like MetaMask) to interact with the blockchain.',
+        claimingDisabled: 'Claiming is disabled.',
+        recentTransactions: 'Recent Transactions',
+        clearFinished: 'Clear finished',
+        spedUpFrom: 'sped up from {hash}',
+        confirmations: {
+            one: '{confirmations}/{count} confirmation',
+            other: '{confirmations}/{count} confirmations',
+        },
+        filterByStatus: 'Filter by Status:',
+        calendarHint: 'Download the unlock dates of the listed schedules as an .ics file',
+        addToCalendar: 'Add to Calendar',
+        allSchedules: 'All Schedules',
+        filter: {
+            active: 'Active',
+            pending: 'Pending',
+            completed: 'Completed',
+            revoked: 'Revoked',
+        },
+        totalValue: 'Total value',
+        vestedValue: 'Vested value',
+        claimableValue: 'Claimable value',
+        lockedValue: 'Locked value',
+        unpriced: 'Fiat values leave out schedules without a {currency} price:',
+        nextUnlock: 'next unlock {date}',
+        vestingChart: 'Vesting chart',
+        addUnlockDates: 'Add unlock dates to calendar',
+        readOnlyClaimHint: 'Read-only view: connect the beneficiary wallet to claim',
+        claim: 'Claim',
+        emptyTitle: 'No Schedules Found',
+        emptyFilteredTitle: 'No {status} Schedules Found',
+        emptyText: 'Try adjusting your filter or check back later.',
+        showAll: 'Show All Schedules',
+        claimAll: 'Claim All',
+        claimAllTitle: 'Claim All Claimable Tokens',
+        claimAllText:
+            'Each schedule is released in its own transaction. Your wallet asks you to confirm them one after another.',
+        totalOf: 'Total {symbol}',
+        startedOn: 'Started {date}',
+        claiming: 'Claiming...',
+        retryFailed: 'Retry Failed',
+        claimSuccess: 'Successfully claimed {amount} {symbol}. Transaction: {hash}...',
+        claimFailed: 'Failed to claim tokens',
+        cancelledByUser: 'Cancelled by user',
+        claimAllSuccess: {
+            one: 'Claimed tokens from {count} schedule.',
+            other: 'Claimed tokens from {count} schedules.',
+        },
+    },
+    detail: {
+        title: 'Vesting Schedule',
+        titleOf: '{symbol} Vesting Schedule',
+        linkCopied: 'Link Copied',
+        copyLink: 'Copy Link',
+        calendarHint: 'Download the cliff end, unlock dates and final vesting date as an .ics file',
+        networkMismatch: 'This link points to {linkNetwork}, but your wallet is on {network}.',
+        readOnly: 'Read-only view from {network}. Connect the beneficiary wallet to claim.',
+        notFoundTitle: 'Schedule Not Found',
+        notFoundText: 'No vesting schedule has this ID on {network}. The link may point to another network.',
+        invalidId: 'Invalid schedule ID. Schedule links end with a 32-byte hex ID (0x followed by 64 characters).',
+        loadFailed: 'Failed to load schedule',
+        loadClaimsFailed: 'Failed to load claims',
+        parameters: 'Parameters',
+        you: 'You',
+        cliffUntil: '{duration} (until {date})',
+        durationEnds: '{duration} (ends {date})',
+        unlocks: 'Unlocks',
+        nextUnlock: 'next: {amount} {symbol} on {date}',
+        revocability: 'Revocability',
+        revokedText: 'Revoked: unvested tokens were returned to the owner',
+        revocable: 'Revocable by the contract owner',
+        notRevocable: 'Not revocable',
+        refreshHint: 'Re-read from the contract',
+        calculatedLocally: 'Calculated locally (live)',
+        onChain: 'On-chain computeReleasableAmount',
+        mismatch:
+            'The values differ: the on-chain amount is read once (refresh to update) while the local one keeps counting.',
+        vestingCurve: 'Vesting Curve',
+        claims: 'Claims',
+        noRecentClaims: 'No claims in the most recent blocks.',
+        noClaims: 'No claims yet.',
+        scanningBlocks: 'Scanning blocks...',
+        loadOlderClaims: 'Load Older Claims',
+    },
+    history: {
+        title: 'Claim History',
+        subtitle: 'Every claim of your wallet, read from the blockchain',
+        connectPrompt: 'Connect your wallet to see your claim history.',
+        unknownToken: 'Unknown Token',
+        noLongerAssigned: 'No longer assigned to this wallet',
+        totalClaimed: 'Total Claimed',
+        emptyTitle: 'No Claims Found',
+        emptyRecent: 'No claims in the recent blocks. Load older blocks to search further back.',
+        emptyText: 'This wallet has not claimed any tokens yet.',
+    },
+    reminders: {
+        title: 'Reminders',
+        subtitle: 'Get a browser notification when tokens unlock or a schedule changes',
+        connectPrompt: 'Connect your wallet to set up reminders.',
+        unsupported: 'This browser cannot show notifications.',
+        on: 'Reminders are on',
+        off: 'Reminders are off',
+        whenShown:
+            'Reminders show while this app is open. Browsers that support scheduled checks also show them while it is closed.',
+        blocked: 'Notifications are blocked for this site.',
+        blockedError: 'Notifications are blocked. Allow them for this site in your browser settings.',
+        updateFailed: 'Failed to update reminders',
+        turnOn: 'Turn On',
+        turnOff: 'Turn Off',
+        cliffOption: 'When a cliff passes and the first tokens can be claimed',
+        revokedOption: 'When the contract owner revokes one of my schedules',
+        thresholdsTitle: 'Claimable Amount Reminders',
+        thresholdsText:
+            'Get reminded when the claimable amount of a schedule reaches an amount. Leave empty for no reminder.',
+        noSchedules: 'Your wallet has no vesting schedules.',
+        amountOf: 'Amount of {symbol}',
+        invalidThreshold: 'Enter a positive amount with at most {decimals} decimals.',
+        listTitle: 'Your Reminders',
+        noReminders: 'No reminders for your schedules.',
+        due: 'Due',
+        scheduleName: '{symbol} schedule {id}',
+        revokedTitle: '{symbol} schedule revoked',
+        revokedBody: 'The contract owner revoked your {schedule}. Unvested tokens no longer vest.',
+        cliffTitle: '{symbol} cliff passed',
+        cliffBody: 'The cliff of your {schedule} has passed, the first tokens can be claimed.',
+        thresholdTitle: '{amount} {symbol} claimable',
+        thresholdBody: 'Your {schedule} has at least {amount} {symbol} ready to claim.',
+    },
+    calendar: {
+        name: 'Token vesting',
+        cliffSummary: '{symbol} vesting cliff ends: {amount} {symbol} unlock',
+        unlockSummary: '{symbol} unlock: {amount} {symbol}',
+        endSummary: '{symbol} vesting ends: final {amount} {symbol} unlock',
+        unlocks: 'Unlocks {amount} {symbol}.',
+        vestedAfter: 'Vested after this date: {vested} of {total} {symbol}.',
+        token: 'Token: {name} ({address})',
+        beneficiary: 'Beneficiary: {address}',
+        schedule: 'Schedule: {id}',
+        revoked: 'This schedule was revoked, the unlock will not happen.',
+    },
+    admin: {
+        title: 'Vesting Admin',
+        subtitle: 'Create vesting schedules for grantees',
+        bulkImport: 'Bulk Import',
+        manageSchedules: 'Manage Schedules',
+        exportClaims: 'Export Claims',
+        treasury: 'Treasury',
+        connectPrompt: 'Connect the contract owner wallet to create vesting schedules.',
+        notOwner:
+            'Only the contract owner ({owner}) can create vesting schedules. Switch to the owner account to continue.',
+        scheduleId: 'Schedule ID: {id}',
+        createTitle: 'Create Vesting Schedule',
+        beneficiaryAddress: 'Beneficiary Address',
+        tokenAddress: 'Token Address',
+        loadingToken: 'Loading token details...',
+        balance: 'Balance: {amount}',
+        approved: 'Approved: {amount}',
+        cliffDays: 'Cliff (days)',
+        durationDays: 'Duration (days)',
+        unlockInterval: 'Unlock interval',
+        revocableByOwner: 'Revocable by owner',
+        approveStep: 'Approve',
+        createStep: 'Create schedule',
+        approveAndCreate: 'Approve & Create',
+        createSchedule: 'Create Schedule',
+        approving: 'Approving tokens...',
+        creating: 'Creating schedule...',
+        tokenReadFailed: 'Could not read token contract. Check the token address and network.',
+        createSuccess: 'Created vesting schedule for {amount} {symbol} to {beneficiary}.',
+        createFailed: 'Failed to create vesting schedule',
+        validation: {
+            beneficiary: 'Beneficiary must be a valid address (0x followed by 40 hex characters).',
+            token: 'Token must be a valid contract address.',
+            tokenDetails: 'Token details could not be loaded.',
+            amount: 'Amount must be a positive number with at most {decimals} decimals.',
+            balance: 'Amount exceeds your token balance.',
+            startDate: 'Start date is required.',
+            duration: 'Duration must be greater than zero.',
+            cliffNegative: 'Cliff cannot be negative.',
+            cliffTooLong: 'Cliff cannot be longer than the duration.',
+            intervalTooLong: 'Unlock interval cannot be longer than the duration.',
+        },
+    },
+    manage: {
+        subtitle: "Look up a beneficiary's schedules to revoke or reassign grants",
+        connectPrompt: 'Connect the contract owner wallet to manage schedules.',
+        notOwner: 'You can look up schedules, but only the contract owner can revoke or reassign them.',
+        loadSchedules: 'Load Schedules',
+        loadFailed: 'Failed to load vesting schedules',
+        invalidAddress: 'Enter a valid beneficiary address (0x followed by 40 hex characters).',
+        startDuration: 'Start / Duration',
+        reassign: 'Reassign',
+        revoke: 'Revoke',
+        noSchedules: '{address} has no vesting schedules.',
+        reassignmentHistory: 'Reassignment History',
+        noRecentReassignments: 'No reassignments in recent blocks.',
+        scanningBlocks: 'Scanning blocks...',
+        loadOlderReassignments: 'Load older reassignments',
+        reassignTitle: 'Reassign {symbol} Schedule',
+        currentBeneficiary: 'current beneficiary {address}',
+        newBeneficiary: 'New Beneficiary Address',
+        typeToConfirm: 'Type the checksummed address to confirm',
+        reassignText:
+            'The schedule, including unclaimed and future unlocks, moves to the new address. The previous beneficiary loses access immediately.',
+        reassigning: 'Reassigning...',
+        confirmReassign: 'Confirm Reassign',
+        reassignSuccess: 'Reassigned {symbol} schedule to {address}. Transaction: {hash}...',
+        reassignFailed: 'Failed to reassign schedule',
+        invalidChecksum: 'Enter a valid address. Mixed-case addresses must have a correct checksum.',
+        zeroAddress: 'New beneficiary cannot be the zero address.',
+        sameBeneficiary: 'This address is already the beneficiary.',
+        revokeTitle: 'Revoke {symbol} Schedule',
+        ownerRefund: 'Returned to owner (unvested)',
+        beneficiaryReceives: 'Released to beneficiary now (vested, unclaimed)',
+        alreadyClaimed: 'Already claimed by beneficiary',
+        revokeText:
+            'Amounts are estimated for the current time. Tokens keep vesting until the transaction is mined, so the final split may differ slightly. Revoking cannot be undone.',
+        revoking: 'Revoking...',
+        confirmRevoke: 'Confirm Revoke',
+        revokeSuccess: 'Revoked {symbol} schedule. {amount} {symbol} returned to owner. Transaction: {hash}...',
+        revokeFailed: 'Failed to revoke schedule',
+    },
+    import: {
+        title: 'Bulk Grant Import',
+        subtitle: 'Create many vesting schedules from a CSV or JSON grant list',
+        connectPrompt: 'Connect the contract owner wallet to import grants.',
+        notOwner: 'Only the contract owner can import grants. Switch to the owner account to submit.',
+        unsupported:
+            'The vesting contract on this network does not support batch creation. Create schedules one by one from the admin page instead.',
+        terms: 'Schedule Terms',
+        decimals: { one: '{count} decimal', other: '{count} decimals' },
+        grantList: 'Grant List',
+        formatCsv: 'CSV with',
+        formatJson: 'per line (header optional) or a JSON array of',
+        formatAmounts: 'objects. Amounts are in whole tokens.',
+        uploadFile: 'Upload file',
+        pasteGrants: 'Or paste grants',
+        parsePasted: 'Parse pasted grants',
+        loadedFile: { one: 'Loaded {file} ({count} row)', other: 'Loaded {file} ({count} rows)' },
+        selectToken: 'Select a token to validate amounts against its decimals.',
+        preview: 'Preview',
+        exceedsBalance: 'exceeds your balance',
+        validRows: 'Valid Rows',
+        uniqueBeneficiaries: { one: '{count} unique beneficiary', other: '{count} unique beneficiaries' },
+        invalidRows: 'Invalid Rows',
+        ofRows: { one: 'of {count} row', other: 'of {count} rows' },
+        transactions: 'Transactions',
+        perBatch: { one: 'up to {count} schedule each', other: 'up to {count} schedules each' },
+        line: 'Line',
+        errors: 'Errors',
+        submit: 'Submit',
+        batchesConfirmed: '{confirmed} / {count} batches confirmed',
+        submitting: 'Submitting batches...',
+        resume: 'Resume Import',
+        approveAndSubmit: 'Approve & Submit',
+        batch: 'Batch {number}',
+        schedules: { one: '{count} schedule', other: '{count} schedules' },
+        success: {
+            one: 'Created {schedules} vesting schedules in {count} transaction.',
+            other: 'Created {schedules} vesting schedules in {count} transactions.',
+        },
+        noRows: 'No grant rows found in the import.',
+        parseFailed: 'Could not parse import: {reason}',
+        stopped: 'Import stopped on a failed batch. Fix the issue and resume to submit the remaining batches.',
+        remainingExceedsBalance: 'The remaining import total exceeds your token balance.',
+        validation: {
+            owner: 'Only the contract owner can create vesting schedules.',
+            batchCreate: 'The vesting contract on this network does not support batch creation.',
+            token: 'Select a valid token first.',
+            cliff: 'Cliff must be between zero and the duration.',
+            invalidRows: 'Fix or remove the invalid rows before submitting.',
+            wallet: 'Connect your wallet first.',
+        },
+        rowErrors: {
+            jsonArray: 'JSON import must be an array of { beneficiary, amount } objects.',
+            beneficiary: 'Invalid beneficiary address',
+            zeroAddress: 'Beneficiary cannot be the zero address',
+            missingAmount: 'Missing amount',
+            amountFormat: 'Amount must be a plain decimal number',
+            amountDecimals: 'Amount has more than {decimals} decimals',
+            amountZero: 'Amount must be greater than zero',
+            extraCells: 'Row has {count} cells, expected only beneficiary and amount',
+            amountComma: 'Amount contains a comma, use . as the decimal separator',
+        },
+    },
+    claimExport: {
+        title: 'Claims Export',
+        subtitle: 'Export the claims of selected beneficiaries for reconciliation',
+        connectPrompt: 'Connect your wallet to read claims from the blockchain.',
+        beneficiaryAddresses: 'Beneficiary Addresses',
+        addressHint: 'One address per line, or separated by commas or spaces.',
+        selectBeneficiaries: 'Select Beneficiaries',
+        selected: { one: '{count} beneficiary selected', other: '{count} beneficiaries selected' },
+        invalidAddress: 'is not a valid address',
+        panelText: 'Download claims read from TokensReleased logs as CSV or JSON, with exact token amounts',
+        scanning: 'Scanning blocks… {progress}%',
+        loadClaims: 'Load Claims',
+        dateHint: 'A start date is required. Leave the end date empty to read up to the latest block.',
+        found: {
+            one: '{count} claim found, {selected} selected for export',
+            other: '{count} claims found, {selected} selected for export',
+        },
+        fiatValue: 'Fiat value at claim time',
+        exportCsv: 'Export CSV',
+        exportJson: 'Export JSON',
+        invalidRange: 'The start date must be before the end date.',
+        startDateRequired: 'Choose a start date.',
+        rangeTooLong:
+            'The date range spans {blocks} blocks, more than {max} can be scanned at once. Choose a shorter range.',
+        loadFailed: 'Failed to load claims',
+        exportFailed: 'Failed to export claims',
+    },
+    pause: {
+        bannerTitle: 'Vesting contract paused',
+        bannerText: 'The contract owner has paused the vesting contract. Claims are disabled until it is unpaused.',
+        claimHint: 'Claims are disabled while the contract is paused',
+        title: 'Contract Pause',
+        statusPaused: 'Paused: claims and new schedules are blocked',
+        statusActive: 'Active: claims and new schedules are allowed',
+        pause: 'Pause Contract',
+        unpause: 'Unpause Contract',
+        confirmPauseTitle: 'Pause the vesting contract?',
+        confirmPauseText:
+            'While paused, beneficiaries cannot claim and no schedules can be created. Vesting keeps accruing and can be claimed after unpausing.',
+        confirmUnpauseTitle: 'Unpause the vesting contract?',
+        confirmUnpauseText: 'Beneficiaries will be able to claim again and new schedules can be created.',
+        pausing: 'Pausing...',
+        unpausing: 'Unpausing...',
+        pauseSuccess: 'Contract paused. Transaction: {hash}...',
+        unpauseSuccess: 'Contract unpaused. Transaction: {hash}...',
+        failed: 'Failed to change the pause state',
+    },
+    treasury: {
+        title: 'Treasury',
+        subtitle: 'Check that the vesting contract holds enough tokens for every schedule',
+        connectPrompt: 'Connect your wallet to read the contract balances.',
+        notSupported: 'The vesting contract on this network does not track locked tokens.',
+        notOwner: 'Only the contract owner can withdraw surplus tokens. Balances are shown read-only.',
+        refresh: 'Refresh',
+        scanning: 'Reading schedules… {progress}%',
+        partialScan:
+            'Only schedules created in recent blocks are included in the claimable amounts and projections. Balances and locked totals are complete.',
+        scanOlder: 'Scan Older Blocks',
+        empty: 'The contract holds no known tokens and has no schedules.',
+        shortfallTitle: 'The contract holds fewer tokens than it has locked',
+        shortfallToken: '{amount} {symbol} missing',
+        shortfall: 'Shortfall',
+        solvent: 'Covered',
+        surplus: 'Surplus',
+        balance: 'Contract Balance',
+        totalLocked: 'Total Locked',
+        claimableNow: 'Claimable Now',
+        withdraw: 'Withdraw Surplus',
+        projectionTitle: 'Projected Outflows',
+        projectionText:
+            'Tokens unlocking each month, and the balance left if every unlocked token is claimed. {owed} {symbol} are still owed to beneficiaries.',
+        shortfallFrom: 'The balance cannot cover all claims from {month}.',
+        month: 'Month',
+        outflow: 'Unlocking',
+        projectedBalance: 'Balance After',
+        withdrawTitle: 'Withdraw {symbol}',
+        withdrawText:
+            'Sends tokens the contract holds beyond the locked amount to the owner. Tokens owed to beneficiaries cannot be withdrawn.',
+        withdrawable: 'Withdrawable',
+        amount: 'Amount ({symbol})',
+        max: 'Max',
+        withdrawing: 'Withdrawing...',
+        confirmWithdraw: 'Withdraw',
+        withdrawSuccess: 'Withdrew {amount} {symbol}. Transaction: {hash}...',
+        withdrawFailed: 'Failed to withdraw tokens',
+        loadFailed: 'Failed to load the treasury',
+        validation: {
+            shortfall: 'Nothing can be withdrawn while the contract holds less than it has locked.',
+            amount: 'Enter a positive amount with at most {decimals} decimals.',
+            exceedsSurplus: 'The amount exceeds the surplus: the contract must keep the locked amount.',
+        },
+    },
+};
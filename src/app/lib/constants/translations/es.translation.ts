@@ -0,0 +1,532 @@
+import type { TranslationsOf } from '@lib/interfaces/i18n.interface';
+import type { EN_TRANSLATIONS } from './en.translation';
+
+/**
+ * Spanish texts
+ */
+export const ES_TRANSLATIONS: TranslationsOf<typeof EN_TRANSLATIONS> = {
+    titles: {
+        dashboard: 'Panel de vesting',
+        schedules: 'Calendarios de vesting',
+        schedule: 'Calendario de vesting',
+        history: 'Historial de retiros',
+        reminders: 'Recordatorios',
+        admin: 'Administración de vesting',
+        import: 'Importación masiva de asignaciones',
+        manage: 'Gestionar calendarios',
+        claimExport: 'Exportación de retiros',
+        treasury: 'Tesorería',
+    },
+    common: {
+        token: 'Token',
+        tokens: 'Tokens',
+        total: 'Total',
+        vested: 'Liberado',
+        claimable: 'Retirable',
+        claimed: 'Retirado',
+        locked: 'Bloqueado',
+        progress: 'Progreso',
+        action: 'Acción',
+        status: 'Estado',
+        startDate: 'Fecha de inicio',
+        details: 'Detalles',
+        clear: 'Borrar',
+        schedule: 'Calendario',
+        amount: 'Cantidad',
+        cancel: 'Cancelar',
+        close: 'Cerrar',
+        beneficiary: 'Beneficiario',
+        totalAmount: 'Cantidad total',
+        start: 'Inicio',
+        cliff: 'Cliff',
+        duration: 'Duración',
+        none: 'Ninguna',
+        date: 'Fecha',
+        transaction: 'Transacción',
+        block: 'Bloque',
+        save: 'Guardar',
+        cancelledByUser: 'Transacción cancelada por el usuario',
+        from: 'Desde',
+        to: 'Hasta',
+    },
+    wallet: {
+        notConnected: 'Wallet no conectada',
+        connect: 'Conectar wallet',
+    },
+    network: {
+        unknown: 'Red desconocida',
+        switchTo: 'Cambiar a {network}',
+        switching: 'Cambiando...',
+        noDeploymentTitle: 'Sin despliegue en esta cadena',
+        notDeployedOn: 'Los contratos de vesting no están desplegados en',
+        switchBelow: 'Cambia tu wallet a una de las redes siguientes para continuar.',
+        connectFailed: 'No se pudo conectar a la red',
+    },
+    nav: {
+        claimHistory: 'Historial de retiros',
+        reminders: 'Recordatorios',
+        admin: 'Administración',
+        backToDashboard: 'Volver al panel',
+        backToAdmin: 'Volver a administración',
+    },
+    status: {
+        active: 'activo',
+        pending: 'pendiente',
+        completed: 'completado',
+        revoked: 'revocado',
+        confirmed: 'confirmada',
+        failed: 'fallida',
+        queued: 'en cola',
+        submitting: 'enviando',
+        claiming: 'retirando',
+        claimed: 'retirado',
+    },
+    price: {
+        updatedAt: 'Precio actualizado {time}',
+        unpriced: 'No incluidos, sin precio:',
+        source: 'Fuente: {source}',
+        noPrices: 'No hay precios disponibles para tus tokens en esta red.',
+        unavailable: 'Los precios de los tokens no están disponibles ahora mismo.',
+    },
+    duration: {
+        lessThanDay: 'Menos de un día',
+    },
+    interval: {
+        linear: 'Lineal',
+        monthly: 'Mensual',
+        quarterly: 'Trimestral',
+        every: 'Cada {duration}',
+    },
+    picker: {
+        currency: 'Moneda',
+        currencyTitle: 'Moneda de los valores fiat',
+        language: 'Idioma',
+    },
+    chart: {
+        vested: '{symbol} liberado',
+        today: 'Hoy',
+        claimed: 'Retirado {amount}',
+        noUnlocks: 'No hay liberaciones que mostrar.',
+    },
+    dashboard: {
+        title: 'Panel de vesting',
+        subtitle: 'Resumen de tus calendarios de vesting de tokens',
+        lookupPlaceholder: 'Consulta cualquier dirección de beneficiario (0x...)',
+        viewSchedules: 'Ver calendarios',
+        readOnlyView: 'Vista de solo lectura de',
+        readOnlyDisabled: 'los retiros y demás acciones de firma están desactivados.',
+        backToWallet: 'Volver a mi wallet',
+        loadAddressFailed: 'No se pudo cargar la dirección',
+        totalLocked: 'Total bloqueado',
+        availableToClaim: 'Disponible para retirar',
+        alreadyClaimed: 'Ya retirado',
+        activeSchedules: 'Calendarios activos',
+        completedCount: '{count} completados',
+        tokensTitle: 'Tus tokens',
+        tokensSubtitle: 'Totales por token, los importes de tokens distintos nunca se suman',
+        scheduleCounts: '{active} activos · {completed} completados',
+        filterByToken: 'Token:',
+        allTokens: 'Todos los tokens',
+        grantValue: 'Valor de las asignaciones',
+        grantValueSubtitle: 'Tus calendarios a los precios actuales de los tokens',
+        unlockTimeline: 'Cronología de liberaciones',
+        unlockTimelineSubtitle: 'Tokens que se liberan cada mes en todos los calendarios',
+        activeTitle: 'Calendarios de vesting activos',
+        pendingTitle: 'Calendarios de vesting pendientes',
+        completedTitle: 'Calendarios de vesting completados',
+        totalVested: 'Total liberado',
+        emptyTitle: 'Sin calendarios de vesting',
+        emptyText: 'Todavía no tienes calendarios de vesting activos ni pendientes.',
+    },
+    schedules: {
+        title: 'Calendarios de vesting',
+        subtitle: 'Gestiona y retira tus tokens liberados',
+        connectPrompt:
+            'Conecta tu wallet para ver y gestionar tus calendarios de vesting. Necesitas una wallet Web3 (como MetaMask) para interactuar con la blockchain.',
+        claimingDisabled: 'Los retiros están desactivados.',
+        recentTransactions: 'Transacciones recientes',
+        clearFinished: 'Quitar finalizadas',
+        spedUpFrom: 'acelerada desde {hash}',
+        confirmations: {
+            one: '{confirmations}/{count} confirmación',
+            other: '{confirmations}/{count} confirmaciones',
+        },
+        filterByStatus: 'Filtrar por estado:',
+        calendarHint: 'Descarga las fechas de liberación de los calendarios mostrados como archivo .ics',
+        addToCalendar: 'Añadir al calendario',
+        allSchedules: 'Todos los calendarios',
+        filter: {
+            active: 'Activos',
+            pending: 'Pendientes',
+            completed: 'Completados',
+            revoked: 'Revocados',
+        },
+        totalValue: 'Valor total',
+        vestedValue: 'Valor liberado',
+        claimableValue: 'Valor retirable',
+        lockedValue: 'Valor bloqueado',
+        unpriced: 'Los valores fiat no incluyen calendarios sin precio en {currency}:',
+        nextUnlock: 'próxima liberación {date}',
+        vestingChart: 'Gráfico de vesting',
+        addUnlockDates: 'Añadir fechas de liberación al calendario',
+        readOnlyClaimHint: 'Vista de solo lectura: conecta la wallet del beneficiario para retirar',
+        claim: 'Retirar',
+        emptyTitle: 'No se encontraron calendarios',
+        emptyFilteredTitle: 'No se encontraron calendarios con estado «{status}»',
+        emptyText: 'Ajusta el filtro o vuelve a consultar más tarde.',
+        showAll: 'Mostrar todos los calendarios',
+        claimAll: 'Retirar todo',
+        claimAllTitle: 'Retirar todos los tokens retirables',
+        claimAllText:
+            'Cada calendario se libera en su propia transacción. Tu wallet te pedirá confirmarlas una tras otra.',
+        totalOf: 'Total {symbol}',
+        startedOn: 'Iniciado el {date}',
+        claiming: 'Retirando...',
+        retryFailed: 'Reintentar fallidos',
+        claimSuccess: 'Has retirado {amount} {symbol}. Transacción: {hash}...',
+        claimFailed: 'No se pudieron retirar los tokens',
+        cancelledByUser: 'Cancelado por el usuario',
+        claimAllSuccess: {
+            one: 'Tokens retirados de {count} calendario.',
+            other: 'Tokens retirados de {count} calendarios.',
+        },
+    },
+    detail: {
+        title: 'Calendario de vesting',
+        titleOf: 'Calendario de vesting de {symbol}',
+        linkCopied: 'Enlace copiado',
+        copyLink: 'Copiar enlace',
+        calendarHint: 'Descarga el fin del cliff, las fechas de liberación y la fecha final como archivo .ics',
+        networkMismatch: 'Este enlace apunta a {linkNetwork}, pero tu wallet está en {network}.',
+        readOnly: 'Vista de solo lectura de {network}. Conecta la wallet del beneficiario para retirar.',
+        notFoundTitle: 'Calendario no encontrado',
+        notFoundText:
+            'No hay ningún calendario de vesting con este ID en {network}. El enlace puede apuntar a otra red.',
+        invalidId:
+            'ID de calendario no válido. Los enlaces terminan con un ID hexadecimal de 32 bytes (0x seguido de 64 caracteres).',
+        loadFailed: 'No se pudo cargar el calendario',
+        loadClaimsFailed: 'No se pudieron cargar los retiros',
+        parameters: 'Parámetros',
+        you: 'Tú',
+        cliffUntil: '{duration} (hasta el {date})',
+        durationEnds: '{duration} (termina el {date})',
+        unlocks: 'Liberaciones',
+        nextUnlock: 'próxima: {amount} {symbol} el {date}',
+        revocability: 'Revocabilidad',
+        revokedText: 'Revocado: los tokens no liberados volvieron al propietario',
+        revocable: 'Revocable por el propietario del contrato',
+        notRevocable: 'No revocable',
+        refreshHint: 'Volver a leer del contrato',
+        calculatedLocally: 'Calculado localmente (en vivo)',
+        onChain: 'computeReleasableAmount on-chain',
+        mismatch:
+            'Los valores difieren: la cantidad on-chain se lee una vez (actualiza para refrescarla) mientras que la local sigue contando.',
+        vestingCurve: 'Curva de vesting',
+        claims: 'Retiros',
+        noRecentClaims: 'No hay retiros en los bloques más recientes.',
+        noClaims: 'Todavía no hay retiros.',
+        scanningBlocks: 'Analizando bloques...',
+        loadOlderClaims: 'Cargar retiros anteriores',
+    },
+    history: {
+        title: 'Historial de retiros',
+        subtitle: 'Todos los retiros de tu wallet, leídos de la blockchain',
+        connectPrompt: 'Conecta tu wallet para ver tu historial de retiros.',
+        unknownToken: 'Token desconocido',
+        noLongerAssigned: 'Ya no está asignado a esta wallet',
+        totalClaimed: 'Total retirado',
+        emptyTitle: 'No se encontraron retiros',
+        emptyRecent: 'No hay retiros en los bloques recientes. Carga bloques anteriores para buscar más atrás.',
+        emptyText: 'Esta wallet todavía no ha retirado tokens.',
+    },
+    reminders: {
+        title: 'Recordatorios',
+        subtitle: 'Recibe una notificación del navegador cuando se liberen tokens o cambie un calendario',
+        connectPrompt: 'Conecta tu wallet para configurar recordatorios.',
+        unsupported: 'Este navegador no puede mostrar notificaciones.',
+        on: 'Los recordatorios están activados',
+        off: 'Los recordatorios están desactivados',
+        whenShown:
+            'Los recordatorios se muestran mientras la app está abierta. Los navegadores con comprobaciones programadas también los muestran con la app cerrada.',
+        blocked: 'Las notificaciones están bloqueadas para este sitio.',
+        blockedError:
+            'Las notificaciones están bloqueadas. Permítelas para este sitio en la configuración del navegador.',
+        updateFailed: 'No se pudieron actualizar los recordatorios',
+        turnOn: 'Activar',
+        turnOff: 'Desactivar',
+        cliffOption: 'Cuando termine un cliff y se puedan retirar los primeros tokens',
+        revokedOption: 'Cuando el propietario del contrato revoque uno de mis calendarios',
+        thresholdsTitle: 'Recordatorios de cantidad retirable',
+        thresholdsText:
+            'Recibe un aviso cuando la cantidad retirable de un calendario alcance un valor. Déjalo vacío para no recibir avisos.',
+        noSchedules: 'Tu wallet no tiene calendarios de vesting.',
+        amountOf: 'Cantidad de {symbol}',
+        invalidThreshold: 'Introduce una cantidad positiva con como máximo {decimals} decimales.',
+        listTitle: 'Tus recordatorios',
+        noReminders: 'No hay recordatorios para tus calendarios.',
+        due: 'Vence',
+        scheduleName: 'calendario de {symbol} {id}',
+        revokedTitle: 'Calendario de {symbol} revocado',
+        revokedBody: 'El propietario del contrato revocó tu {schedule}. Los tokens no liberados ya no se liberarán.',
+        cliffTitle: 'Cliff de {symbol} superado',
+        cliffBody: 'El cliff de tu {schedule} ha terminado, ya puedes retirar los primeros tokens.',
+        thresholdTitle: '{amount} {symbol} retirables',
+        thresholdBody: 'Tu {schedule} tiene al menos {amount} {symbol} listos para retirar.',
+    },
+    calendar: {
+        name: 'Vesting de tokens',
+        cliffSummary: 'Fin del cliff de {symbol}: se liberan {amount} {symbol}',
+        unlockSummary: 'Liberación de {symbol}: {amount} {symbol}',
+        endSummary: 'Fin del vesting de {symbol}: última liberación de {amount} {symbol}',
+        unlocks: 'Se liberan {amount} {symbol}.',
+        vestedAfter: 'Liberado tras esta fecha: {vested} de {total} {symbol}.',
+        token: 'Token: {name} ({address})',
+        beneficiary: 'Beneficiario: {address}',
+        schedule: 'Calendario: {id}',
+        revoked: 'Este calendario fue revocado, la liberación no se producirá.',
+    },
+    admin: {
+        title: 'Administración de vesting',
+        subtitle: 'Crea calendarios de vesting para los beneficiarios',
+        bulkImport: 'Importación masiva',
+        manageSchedules: 'Gestionar calendarios',
+        exportClaims: 'Exportar retiros',
+        treasury: 'Tesorería',
+        connectPrompt: 'Conecta la wallet del propietario del contrato para crear calendarios de vesting.',
+        notOwner:
+            'Solo el propietario del contrato ({owner}) puede crear calendarios de vesting. Cambia a la cuenta del propietario para continuar.',
+        scheduleId: 'ID del calendario: {id}',
+        createTitle: 'Crear calendario de vesting',
+        beneficiaryAddress: 'Dirección del beneficiario',
+        tokenAddress: 'Dirección del token',
+        loadingToken: 'Cargando datos del token...',
+        balance: 'Saldo: {amount}',
+        approved: 'Aprobado: {amount}',
+        cliffDays: 'Cliff (días)',
+        durationDays: 'Duración (días)',
+        unlockInterval: 'Intervalo de liberación',
+        revocableByOwner: 'Revocable por el propietario',
+        approveStep: 'Aprobar',
+        createStep: 'Crear calendario',
+        approveAndCreate: 'Aprobar y crear',
+        createSchedule: 'Crear calendario',
+        approving: 'Aprobando tokens...',
+        creating: 'Creando calendario...',
+        tokenReadFailed: 'No se pudo leer el contrato del token. Comprueba la dirección del token y la red.',
+        createSuccess: 'Calendario de vesting de {amount} {symbol} creado para {beneficiary}.',
+        createFailed: 'No se pudo crear el calendario de vesting',
+        validation: {
+            beneficiary: 'El beneficiario debe ser una dirección válida (0x seguido de 40 caracteres hexadecimales).',
+            token: 'El token debe ser una dirección de contrato válida.',
+            tokenDetails: 'No se pudieron cargar los datos del token.',
+            amount: 'La cantidad debe ser un número positivo con como máximo {decimals} decimales.',
+            balance: 'La cantidad supera tu saldo de tokens.',
+            startDate: 'La fecha de inicio es obligatoria.',
+            duration: 'La duración debe ser mayor que cero.',
+            cliffNegative: 'El cliff no puede ser negativo.',
+            cliffTooLong: 'El cliff no puede ser más largo que la duración.',
+            intervalTooLong: 'El intervalo de liberación no puede ser más largo que la duración.',
+        },
+    },
+    manage: {
+        subtitle: 'Consulta los calendarios de un beneficiario para revocar o reasignar asignaciones',
+        connectPrompt: 'Conecta la wallet del propietario del contrato para gestionar calendarios.',
+        notOwner:
+            'Puedes consultar calendarios, pero solo el propietario del contrato puede revocarlos o reasignarlos.',
+        loadSchedules: 'Cargar calendarios',
+        loadFailed: 'No se pudieron cargar los calendarios de vesting',
+        invalidAddress: 'Introduce una dirección de beneficiario válida (0x seguido de 40 caracteres hexadecimales).',
+        startDuration: 'Inicio / Duración',
+        reassign: 'Reasignar',
+        revoke: 'Revocar',
+        noSchedules: '{address} no tiene calendarios de vesting.',
+        reassignmentHistory: 'Historial de reasignaciones',
+        noRecentReassignments: 'No hay reasignaciones en los bloques recientes.',
+        scanningBlocks: 'Analizando bloques...',
+        loadOlderReassignments: 'Cargar reasignaciones anteriores',
+        reassignTitle: 'Reasignar calendario de {symbol}',
+        currentBeneficiary: 'beneficiario actual {address}',
+        newBeneficiary: 'Dirección del nuevo beneficiario',
+        typeToConfirm: 'Escribe la dirección con checksum para confirmar',
+        reassignText:
+            'El calendario, incluidas las liberaciones no retiradas y futuras, pasa a la nueva dirección. El beneficiario anterior pierde el acceso de inmediato.',
+        reassigning: 'Reasignando...',
+        confirmReassign: 'Confirmar reasignación',
+        reassignSuccess: 'Calendario de {symbol} reasignado a {address}. Transacción: {hash}...',
+        reassignFailed: 'No se pudo reasignar el calendario',
+        invalidChecksum:
+            'Introduce una dirección válida. Las direcciones con mayúsculas y minúsculas deben tener un checksum correcto.',
+        zeroAddress: 'El nuevo beneficiario no puede ser la dirección cero.',
+        sameBeneficiary: 'Esta dirección ya es el beneficiario.',
+        revokeTitle: 'Revocar calendario de {symbol}',
+        ownerRefund: 'Devuelto al propietario (no liberado)',
+        beneficiaryReceives: 'Pagado ahora al beneficiario (liberado, no retirado)',
+        alreadyClaimed: 'Ya retirado por el beneficiario',
+        revokeText:
+            'Las cantidades son estimaciones para el momento actual. Los tokens se siguen liberando hasta que se mine la transacción, así que el reparto final puede variar ligeramente. La revocación no se puede deshacer.',
+        revoking: 'Revocando...',
+        confirmRevoke: 'Confirmar revocación',
+        revokeSuccess:
+            'Calendario de {symbol} revocado. {amount} {symbol} devueltos al propietario. Transacción: {hash}...',
+        revokeFailed: 'No se pudo revocar el calendario',
+    },
+    import: {
+        title: 'Importación masiva de asignaciones',
+        subtitle: 'Crea muchos calendarios de vesting a partir de una lista CSV o JSON',
+        connectPrompt: 'Conecta la wallet del propietario del contrato para importar asignaciones.',
+        notOwner:
+            'Solo el propietario del contrato puede importar asignaciones. Cambia a la cuenta del propietario para enviarlas.',
+        unsupported:
+            'El contrato de vesting de esta red no permite la creación por lotes. Crea los calendarios uno a uno desde la página de administración.',
+        terms: 'Condiciones del calendario',
+        decimals: { one: '{count} decimal', other: '{count} decimales' },
+        grantList: 'Lista de asignaciones',
+        formatCsv: 'CSV con',
+        formatJson: 'por línea (cabecera opcional) o un array JSON de',
+        formatAmounts: 'como objetos. Las cantidades se indican en tokens enteros.',
+        uploadFile: 'Subir archivo',
+        pasteGrants: 'O pega las asignaciones',
+        parsePasted: 'Procesar asignaciones pegadas',
+        loadedFile: { one: '{file} cargado ({count} fila)', other: '{file} cargado ({count} filas)' },
+        selectToken: 'Selecciona un token para validar las cantidades con sus decimales.',
+        preview: 'Vista previa',
+        exceedsBalance: 'supera tu saldo',
+        validRows: 'Filas válidas',
+        uniqueBeneficiaries: { one: '{count} beneficiario único', other: '{count} beneficiarios únicos' },
+        invalidRows: 'Filas no válidas',
+        ofRows: { one: 'de {count} fila', other: 'de {count} filas' },
+        transactions: 'Transacciones',
+        perBatch: { one: 'hasta {count} calendario cada una', other: 'hasta {count} calendarios cada una' },
+        line: 'Línea',
+        errors: 'Errores',
+        submit: 'Enviar',
+        batchesConfirmed: '{confirmed} / {count} lotes confirmados',
+        submitting: 'Enviando lotes...',
+        resume: 'Reanudar importación',
+        approveAndSubmit: 'Aprobar y enviar',
+        batch: 'Lote {number}',
+        schedules: { one: '{count} calendario', other: '{count} calendarios' },
+        success: {
+            one: '{schedules} calendarios de vesting creados en {count} transacción.',
+            other: '{schedules} calendarios de vesting creados en {count} transacciones.',
+        },
+        noRows: 'No se encontraron asignaciones en la importación.',
+        parseFailed: 'No se pudo procesar la importación: {reason}',
+        stopped:
+            'La importación se detuvo en un lote fallido. Corrige el problema y reanuda para enviar los lotes restantes.',
+        remainingExceedsBalance: 'El total restante de la importación supera tu saldo de tokens.',
+        validation: {
+            owner: 'Solo el propietario del contrato puede crear calendarios de vesting.',
+            batchCreate: 'El contrato de vesting de esta red no permite la creación por lotes.',
+            token: 'Selecciona primero un token válido.',
+            cliff: 'El cliff debe estar entre cero y la duración.',
+            invalidRows: 'Corrige o elimina las filas no válidas antes de enviar.',
+            wallet: 'Conecta tu wallet primero.',
+        },
+        rowErrors: {
+            jsonArray: 'La importación JSON debe ser un array de objetos { beneficiary, amount }.',
+            beneficiary: 'Dirección de beneficiario no válida',
+            zeroAddress: 'El beneficiario no puede ser la dirección cero',
+            missingAmount: 'Falta la cantidad',
+            amountFormat: 'La cantidad debe ser un número decimal simple',
+            amountDecimals: 'La cantidad tiene más de {decimals} decimales',
+            amountZero: 'La cantidad debe ser mayor que cero',
+            extraCells: 'La fila tiene {count} celdas, solo se esperan beneficiario y cantidad',
+            amountComma: 'La cantidad contiene una coma, usa . como separador decimal',
+        },
+    },
+    claimExport: {
+        title: 'Exportación de retiros',
+        subtitle: 'Exporta los retiros de los beneficiarios seleccionados para la conciliación',
+        connectPrompt: 'Conecta tu wallet para leer los retiros de la blockchain.',
+        beneficiaryAddresses: 'Direcciones de beneficiarios',
+        addressHint: 'Una dirección por línea, o separadas por comas o espacios.',
+        selectBeneficiaries: 'Seleccionar beneficiarios',
+        selected: { one: '{count} beneficiario seleccionado', other: '{count} beneficiarios seleccionados' },
+        invalidAddress: 'no es una dirección válida',
+        panelText: 'Descarga los retiros leídos de los logs TokensReleased como CSV o JSON, con cantidades exactas',
+        scanning: 'Analizando bloques… {progress} %',
+        loadClaims: 'Cargar retiros',
+        dateHint: 'La fecha de inicio es obligatoria. Deja la fecha final vacía para leer hasta el último bloque.',
+        found: {
+            one: '{count} retiro encontrado, {selected} seleccionados para exportar',
+            other: '{count} retiros encontrados, {selected} seleccionados para exportar',
+        },
+        fiatValue: 'Valor fiat en el momento del retiro',
+        exportCsv: 'Exportar CSV',
+        exportJson: 'Exportar JSON',
+        invalidRange: 'La fecha de inicio debe ser anterior a la fecha final.',
+        startDateRequired: 'Elige una fecha de inicio.',
+        rangeTooLong:
+            'El rango de fechas abarca {blocks} bloques, más de los {max} que se pueden analizar a la vez. Elige un rango más corto.',
+        loadFailed: 'No se pudieron cargar los retiros',
+        exportFailed: 'No se pudieron exportar los retiros',
+    },
+    pause: {
+        bannerTitle: 'Contrato de vesting en pausa',
+        bannerText:
+            'El propietario del contrato ha pausado el contrato de vesting. Los retiros están desactivados hasta que se reanude.',
+        claimHint: 'Los retiros están desactivados mientras el contrato está en pausa',
+        title: 'Pausa del contrato',
+        statusPaused: 'En pausa: los retiros y los nuevos calendarios están bloqueados',
+        statusActive: 'Activo: los retiros y los nuevos calendarios están permitidos',
+        pause: 'Pausar contrato',
+        unpause: 'Reanudar contrato',
+        confirmPauseTitle: '¿Pausar el contrato de vesting?',
+        confirmPauseText:
+            'Durante la pausa, los beneficiarios no pueden retirar y no se pueden crear calendarios. El vesting sigue acumulándose y se puede retirar tras reanudar.',
+        confirmUnpauseTitle: '¿Reanudar el contrato de vesting?',
+        confirmUnpauseText: 'Los beneficiarios podrán retirar de nuevo y se podrán crear nuevos calendarios.',
+        pausing: 'Pausando...',
+        unpausing: 'Reanudando...',
+        pauseSuccess: 'Contrato pausado. Transacción: {hash}...',
+        unpauseSuccess: 'Contrato reanudado. Transacción: {hash}...',
+        failed: 'No se pudo cambiar el estado de pausa',
+    },
+    treasury: {
+        title: 'Tesorería',
+        subtitle: 'Comprueba que el contrato de vesting tiene suficientes tokens para todos los calendarios',
+        connectPrompt: 'Conecta tu wallet para leer los saldos del contrato.',
+        notSupported: 'El contrato de vesting de esta red no registra los tokens bloqueados.',
+        notOwner:
+            'Solo el propietario del contrato puede retirar el excedente. Los saldos se muestran en modo de solo lectura.',
+        refresh: 'Actualizar',
+        scanning: 'Leyendo calendarios… {progress}%',
+        partialScan:
+            'Las cantidades retirables y las proyecciones solo incluyen calendarios de los bloques recientes. Los saldos y los totales bloqueados están completos.',
+        scanOlder: 'Analizar bloques anteriores',
+        empty: 'El contrato no tiene tokens conocidos ni calendarios.',
+        shortfallTitle: 'El contrato tiene menos tokens de los que ha bloqueado',
+        shortfallToken: 'faltan {amount} {symbol}',
+        shortfall: 'Déficit',
+        solvent: 'Cubierto',
+        surplus: 'Excedente',
+        balance: 'Saldo del contrato',
+        totalLocked: 'Total bloqueado',
+        claimableNow: 'Disponible ahora',
+        withdraw: 'Retirar excedente',
+        projectionTitle: 'Salidas previstas',
+        projectionText:
+            'Tokens que se liberan cada mes y el saldo restante si se retiran todos los tokens liberados. Aún se deben {owed} {symbol} a los beneficiarios.',
+        shortfallFrom: 'A partir de {month} el saldo no cubre todos los retiros.',
+        month: 'Mes',
+        outflow: 'Liberación',
+        projectedBalance: 'Saldo después',
+        withdrawTitle: 'Retirar {symbol}',
+        withdrawText:
+            'Envía al propietario los tokens que el contrato tiene por encima del importe bloqueado. Los tokens que se deben a los beneficiarios no se pueden retirar.',
+        withdrawable: 'Retirable',
+        amount: 'Cantidad ({symbol})',
+        max: 'Máx.',
+        withdrawing: 'Retirando...',
+        confirmWithdraw: 'Retirar',
+        withdrawSuccess: 'Se retiraron {amount} {symbol}. Transacción: {hash}...',
+        withdrawFailed: 'No se pudieron retirar los tokens',
+        loadFailed: 'No se pudo cargar la tesorería',
+        validation: {
+            shortfall: 'No se puede retirar nada mientras el contrato tenga menos de lo que ha bloqueado.',
+            amount: 'Introduce una cantidad positiva con como máximo {decimals} decimales.',
+            exceedsSurplus: 'La cantidad supera el excedente: el contrato debe conservar el importe bloqueado.',
+        },
+    },
+};
@@ -0,0 +1,17 @@
+/**
+ * Token amount type definitions
+ */
+
+/**
+ * Exact fixed-point token amount
+ */
+export interface TokenAmount {
+    value: bigint; // Amount in the token's smallest unit (wei)
+    decimals: number; // Token decimals the value is scaled by
+}
+
+/**
+ * Rounding when an amount loses decimals
+ * "down" and "up" round towards and away from zero, "half-up" to the nearest value with halves away from zero
+ */
+export type AmountRounding = 'down' | 'up' | 'half-up';
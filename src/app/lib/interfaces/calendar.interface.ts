@@ -0,0 +1,13 @@
+/**
+ * Calendar export type definitions
+ */
+
+import type { VestingSchedule } from './vesting.interface';
+
+/**
+ * Calendar export options
+ */
+export interface CalendarExportOptions {
+    generatedAt: number; // Generation timestamp (Unix), written as DTSTAMP
+    getScheduleUrl?: (schedule: VestingSchedule) => string; // Link added to each event, e.g. the schedule detail page
+}
@@ -0,0 +1,49 @@
+/**
+ * Claim export type definitions
+ */
+
+import type { FiatCurrency } from './price.interface';
+
+/**
+ * Claim export file format
+ */
+export type ClaimExportFormat = 'csv' | 'json';
+
+/**
+ * Claims to include in an export
+ */
+export interface ClaimExportFilter {
+    fromTime: number | null; // First claim time to include (Unix), null for no lower bound
+    toTime: number | null; // Last claim time to include (Unix), null for no upper bound
+    tokens: string[]; // Token addresses to include, empty for all tokens
+}
+
+/**
+ * One claim as written to an export file
+ */
+export interface ClaimExportRow {
+    transactionHash: string; // Release transaction hash
+    blockNumber: number; // Block the claim was mined in
+    blockTime: number; // Block timestamp (Unix)
+    date: string; // Block time as ISO 8601 UTC date-time
+    beneficiary: string; // Address the tokens were released to
+    scheduleId: string; // Vesting schedule ID
+    tokenAddress: string; // Token contract address
+    tokenSymbol: string; // Token symbol
+    amount: string; // Claimed amount as an exact decimal string in token units
+    fiatCurrency: FiatCurrency | null; // Currency of the fiat columns, null when not requested
+    fiatPrice: string | null; // Token price at claim time as a plain decimal string, null when unknown
+    fiatValue: string | null; // Fiat value at claim time rounded to cents, null when unknown
+}
+
+/**
+ * Export file metadata, written to the header of JSON exports
+ */
+export interface ClaimExportMetadata {
+    generatedAt: number; // Generation timestamp (Unix)
+    chainId: string | null; // Network the logs were read from (hexadecimal)
+    contract: string | null; // Vesting contract address
+    beneficiaries: string[]; // Beneficiaries whose claims were read
+    filter: ClaimExportFilter; // Filters applied to the claims
+    priceSource: string | null; // Price source of the fiat columns, null when not requested
+}
@@ -0,0 +1,28 @@
+/**
+ * Vesting contract type definitions
+ */
+
+/**
+ * Deployed vesting contract flavor
+ * - legacy: TokenVesting, release/revoke take the token address as a second argument
+ * - optimized: TokenVestingOptimized, token is stored per schedule and extra owner features are available
+ * - periodic: TokenVestingPeriodic, optimized plus a slicePeriodSeconds per schedule (step vesting)
+ */
+export type ContractFlavor = 'legacy' | 'optimized' | 'periodic';
+
+/**
+ * Features supported by a vesting contract flavor
+ */
+export interface ContractFeatures {
+    batchCreate: boolean; // batchCreateVestingSchedules
+    vestingInfo: boolean; // getVestingInfo (releasable and vested amounts in one call)
+    pause: boolean; // pause/unpause and paused()
+    changeBeneficiary: boolean; // changeBeneficiary (owner reassigns a schedule)
+    treasury: boolean; // totalLockedTokens and emergencyWithdraw
+    stepVesting: boolean; // slicePeriodSeconds on create and in getVestingSchedule
+}
+
+/**
+ * Optional contract feature name
+ */
+export type ContractFeature = keyof ContractFeatures;
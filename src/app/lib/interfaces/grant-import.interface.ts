@@ -0,0 +1,49 @@
+/**
+ * Bulk grant import type definitions
+ */
+
+/**
+ * Raw grant row read from an import file
+ */
+export interface RawGrantRow {
+    line: number; // Line (CSV) or item (JSON) number, 1-based
+    beneficiary: string; // Beneficiary address as entered
+    amount: string; // Token amount as entered (human readable, e.g. "1500.5")
+    parseErrors?: string[]; // Problems found while reading the file, reported with the validation errors
+}
+
+/**
+ * Validated grant row
+ */
+export interface GrantImportRow extends RawGrantRow {
+    amountWei: string | null; // Parsed amount in wei/smallest unit, null if invalid
+    errors: string[]; // Validation errors for this row
+}
+
+/**
+ * Import preview summary
+ */
+export interface GrantImportSummary {
+    totalRows: number; // Number of rows in the file
+    validRows: number; // Rows without errors
+    invalidRows: number; // Rows with errors
+    totalAmount: string; // Sum of valid row amounts (in wei/smallest unit)
+    uniqueBeneficiaries: number; // Distinct beneficiaries among valid rows
+}
+
+/**
+ * Chunk submission status
+ */
+export type GrantChunkStatus = 'queued' | 'submitting' | 'confirmed' | 'failed';
+
+/**
+ * A batch of grant rows submitted in a single transaction
+ */
+export interface GrantImportChunk {
+    index: number; // Chunk number, 0-based
+    rows: GrantImportRow[]; // Rows in this chunk
+    totalAmount: string; // Sum of row amounts (in wei/smallest unit)
+    status: GrantChunkStatus; // Submission status
+    txHash?: string; // Transaction hash once confirmed
+    error?: string; // Error message if failed
+}
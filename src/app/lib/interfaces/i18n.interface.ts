@@ -0,0 +1,29 @@
+/**
+ * Internationalization type definitions
+ */
+
+/**
+ * UI language code
+ */
+export type AppLocale = 'en' | 'de' | 'es';
+
+/**
+ * Language offered in the language selector
+ */
+export interface LocaleInfo {
+    code: AppLocale;
+    name: string; // Native language name (e.g., "Deutsch")
+    intl: string; // BCP 47 locale numbers and dates are formatted with (e.g., "de-DE")
+}
+
+/**
+ * Values interpolated into a translation by name (e.g., "{count}")
+ * Numbers are formatted for the current locale
+ */
+export type TranslationParams = Record<string, string | number>;
+
+/**
+ * Dictionary with the keys of a source dictionary, so translations can neither miss nor add keys
+ * Plural translations are objects of Intl.PluralRules categories, picked by the "count" parameter
+ */
+export type TranslationsOf<T> = { [K in keyof T]: T[K] extends string ? string : TranslationsOf<T[K]> };
@@ -1,3 +1,13 @@
+export * from './amount.interface';
+export * from './calendar.interface';
+export * from './claim-export.interface';
+export * from './contract.interface';
+export * from './grant-import.interface';
+export * from './i18n.interface';
+export * from './price.interface';
+export * from './reminder.interface';
+export * from './transaction.interface';
+export * from './treasury.interface';
 export * from './user.interface';
 export * from './vesting.interface';
 export * from './web3.interface';
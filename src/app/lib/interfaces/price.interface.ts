@@ -0,0 +1,101 @@
+/**
+ * Token price and fiat valuation type definitions
+ */
+
+import type { TokenInfo } from './vesting.interface';
+
+/**
+ * Fiat currency code (ISO 4217)
+ */
+export type FiatCurrency = 'USD' | 'EUR' | 'GBP';
+
+/**
+ * Price source implementation
+ * - static: JSON price file shipped with the app (src/assets/prices.json)
+ * - mock: generated prices for local development
+ * - http: CoinGecko-compatible token price API
+ */
+export type PriceSource = 'static' | 'mock' | 'http';
+
+/**
+ * Price of one token in a fiat currency
+ */
+export interface TokenPrice {
+    token: string; // Token contract address (lowercase)
+    symbol: string; // Token symbol, for display
+    currency: FiatCurrency; // Quote currency
+    price: number; // Fiat value of one whole token
+    timestamp: number; // When the price was last updated (Unix)
+}
+
+/**
+ * Source of token prices, implemented once per PriceSource
+ */
+export interface PriceProvider {
+    readonly source: PriceSource;
+
+    /**
+     * Get current prices of tokens
+     * Tokens the source has no price for are left out of the result
+     * @param chainId Chain the tokens are deployed on (hexadecimal)
+     * @param tokens Tokens to price
+     * @param currency Quote currency
+     */
+    getPrices(chainId: string, tokens: TokenInfo[], currency: FiatCurrency): Promise<TokenPrice[]>;
+
+    /**
+     * Get prices of a token at past times
+     * @param chainId Chain the token is deployed on (hexadecimal)
+     * @param token Token to price
+     * @param currency Quote currency
+     * @param timestamps Times to price at (Unix)
+     * @returns One price per timestamp, null where the source has no price for that time
+     */
+    getHistoricalPrices(
+        chainId: string,
+        token: TokenInfo,
+        currency: FiatCurrency,
+        timestamps: number[],
+    ): Promise<(TokenPrice | null)[]>;
+}
+
+/**
+ * Static price file content: prices by chain ID (hexadecimal), then by lowercase token address
+ */
+export type StaticPriceFile = Record<string, Record<string, StaticPriceEntry>>;
+
+/**
+ * Prices of one token in the static price file
+ */
+export interface StaticPriceEntry {
+    prices: Partial<Record<FiatCurrency, number>>; // Fiat value of one whole token by currency
+    updatedAt: number; // When the prices were last updated (Unix)
+    history?: StaticPricePoint[]; // Earlier prices, used for values at past times
+}
+
+/**
+ * Earlier prices of one token in the static price file
+ */
+export interface StaticPricePoint {
+    time: number; // From when the prices applied (Unix)
+    prices: Partial<Record<FiatCurrency, number>>; // Fiat value of one whole token by currency
+}
+
+/**
+ * Fiat value of vesting amounts
+ */
+export interface FiatValue {
+    total: number; // Total vesting amount
+    vested: number; // Amount vested so far
+    claimable: number; // Amount available to claim now
+    locked: number; // Amount still locked
+}
+
+/**
+ * Fiat value of a set of schedules
+ */
+export interface FiatValuation extends FiatValue {
+    currency: FiatCurrency; // Quote currency
+    prices: TokenPrice[]; // Prices used, one per priced token
+    unpricedTokens: TokenInfo[]; // Tokens without a price, left out of the values
+}
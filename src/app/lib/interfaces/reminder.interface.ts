@@ -0,0 +1,35 @@
+/**
+ * Reminder (browser notification) type definitions
+ */
+
+/**
+ * What a reminder is about
+ */
+export type ReminderKind = 'cliff' | 'threshold' | 'revoked';
+
+/**
+ * Browser notification support: the Notification API permission, or unsupported
+ */
+export type ReminderPermission = NotificationPermission | 'unsupported';
+
+/**
+ * Reminder preferences, persisted across sessions
+ */
+export interface ReminderPreferences {
+    enabled: boolean; // Opted in to reminders
+    cliff: boolean; // Remind when a schedule's cliff passes
+    revoked: boolean; // Remind when a schedule is revoked
+    thresholds: Record<string, string>; // Claimable amount (token units) to remind at, by lowercase schedule ID
+}
+
+/**
+ * One reminder of a schedule
+ */
+export interface Reminder {
+    key: string; // Stable key, used as notification tag so each reminder is shown once
+    kind: ReminderKind; // What the reminder is about
+    scheduleId: string; // Vesting schedule ID
+    time: number; // When the reminder is due (Unix)
+    title: string; // Notification title
+    body: string; // Notification text
+}
@@ -0,0 +1,37 @@
+/**
+ * Transaction tracking type definitions
+ */
+
+import type { TokenInfo, TransactionStatus } from './vesting.interface';
+
+/**
+ * Details describing what a tracked transaction does
+ */
+export interface TrackedTransactionDetails {
+    description: string; // Human readable summary, e.g. "Claim 100 PROJ"
+    vestingId?: string; // Related vesting schedule ID
+    amount?: string; // Related token amount (formatted)
+    token?: TokenInfo; // Related token
+}
+
+/**
+ * Transaction followed by the transaction tracker
+ * Holds everything needed to resume tracking after a page reload
+ */
+export interface TrackedTransaction extends TrackedTransactionDetails {
+    hash: string; // Current hash (follows speed-up replacements)
+    chainId: string; // Network the transaction was sent on (hex)
+    from: string; // Sender address
+    to: string; // Target contract address
+    nonce: number; // Sender nonce, used to detect replacements and drops
+    data: string; // Calldata, used to detect replacements and replay reverts
+    value: string; // Wei sent with the transaction
+    startBlock: number; // Block number at submission, replacement scans start here
+    submittedAt: number; // Submission timestamp (Unix)
+    status: TransactionStatus; // Current status
+    confirmations: number; // Confirmations seen so far
+    requiredConfirmations: number; // Confirmations needed before CONFIRMED
+    replacedHash?: string; // Original hash if the transaction was sped up
+    resumed?: boolean; // Tracking was resumed after a page reload
+    error?: string; // Revert reason, or why the transaction was dropped or cancelled
+}
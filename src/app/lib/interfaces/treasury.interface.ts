@@ -0,0 +1,36 @@
+/**
+ * Treasury (contract solvency) type definitions
+ */
+
+import type { TokenAmount } from './amount.interface';
+import type { TokenInfo } from './vesting.interface';
+
+/**
+ * Token holdings of the vesting contract, as read on-chain
+ */
+export interface TreasuryBalance {
+    token: TokenInfo; // Held token
+    balance: TokenAmount; // balanceOf the vesting contract
+    totalLocked: TokenAmount; // totalLockedTokens: granted and not yet released
+}
+
+/**
+ * Tokens released to beneficiaries in one calendar month
+ */
+export interface TreasuryOutflow {
+    month: number; // Start of the month (Unix, local time)
+    amount: TokenAmount; // Amount unlocking in this month
+    balance: TokenAmount; // Contract balance left once everything unlocked so far is claimed, negative if short
+}
+
+/**
+ * Solvency of the vesting contract for one token
+ */
+export interface TokenTreasury extends TreasuryBalance {
+    surplus: TokenAmount; // balance - totalLocked, negative for a shortfall
+    withdrawable: TokenAmount; // Most emergencyWithdraw allows: the surplus, zero on a shortfall
+    owed: TokenAmount; // Still to be released according to the schedules
+    claimableNow: TokenAmount; // Vested but not yet claimed, can leave the contract at any time
+    outflows: TreasuryOutflow[]; // Future unlocks by month, starting with the current month
+    shortfallMonth: number | null; // First month the balance cannot cover the claims, null if it always can
+}
@@ -2,6 +2,8 @@
  * Vesting Platform Type Definitions
  */
 
+import type { TokenAmount } from './amount.interface';
+
 /**
  * Token information interface
  */
@@ -23,12 +25,41 @@ export interface VestingSchedule {
     startTime: number;              // Start timestamp (Unix)
     cliff: number;                  // Cliff period in seconds
     duration: number;               // Total vesting duration in seconds
+    interval: number;               // Seconds between unlocks (slicePeriodSeconds), 1 for linear per-second vesting
     released: string;               // Already released amount
     revocable: boolean;             // Whether the vesting can be revoked
     revoked: boolean;               // Whether the vesting has been revoked
     status: VestingStatus;          // Current status
 }
 
+/**
+ * Parameters for creating a new vesting schedule
+ */
+export interface CreateVestingScheduleParams {
+    beneficiary: string;            // Beneficiary wallet address
+    token: string;                  // Token contract address
+    amount: string;                 // Total vesting amount (in wei/smallest unit)
+    startTime: number;              // Start timestamp (Unix)
+    cliff: number;                  // Cliff period in seconds
+    duration: number;               // Total vesting duration in seconds
+    interval: number;               // Seconds between unlocks, 1 for linear (step vesting needs the periodic contract)
+    revocable: boolean;             // Whether the vesting can be revoked
+}
+
+/**
+ * Parameters for creating multiple vesting schedules with shared terms
+ */
+export interface BatchCreateVestingSchedulesParams {
+    beneficiaries: string[];        // Beneficiary wallet addresses
+    amounts: string[];              // Vesting amounts per beneficiary (in wei/smallest unit)
+    token: string;                  // Token contract address
+    startTime: number;              // Start timestamp (Unix)
+    cliff: number;                  // Cliff period in seconds
+    duration: number;               // Total vesting duration in seconds
+    interval: number;               // Seconds between unlocks, 1 for linear (step vesting needs the periodic contract)
+    revocable: boolean;             // Whether the vestings can be revoked
+}
+
 /**
  * Vesting status enum
  */
@@ -43,10 +74,20 @@ export enum VestingStatus {
  * Vesting statistics interface
  */
 export interface VestingStats {
-    totalLocked: string;            // Total locked amount
-    totalVested: string;            // Total vested (claimable)
-    totalClaimed: string;           // Total already claimed
-    totalRemaining: string;         // Total still locked
+    tokens: TokenStats[];           // Totals of each token, amounts of different tokens are never added up
+    activeSchedules: number;        // Number of active schedules
+    completedSchedules: number;     // Number of completed schedules
+}
+
+/**
+ * Vesting statistics of one token
+ */
+export interface TokenStats {
+    token: TokenInfo;               // Token of the schedules
+    totalLocked: TokenAmount;       // Total locked amount
+    totalVested: TokenAmount;       // Total vested (claimable)
+    totalClaimed: TokenAmount;      // Total already claimed
+    totalRemaining: TokenAmount;    // Total still locked
     activeSchedules: number;        // Number of active schedules
     completedSchedules: number;     // Number of completed schedules
 }
@@ -55,14 +96,81 @@ export interface VestingStats {
  * Vesting release calculation result
  */
 export interface VestingRelease {
-    total: string;                  // Total vesting amount
-    vested: string;                 // Amount vested so far
-    claimed: string;                // Amount already claimed
-    claimable: string;              // Amount available to claim now
-    locked: string;                 // Amount still locked
+    total: TokenAmount;             // Total vesting amount
+    vested: TokenAmount;            // Amount vested so far
+    claimed: TokenAmount;           // Amount already claimed
+    claimable: TokenAmount;         // Amount available to claim now
+    locked: TokenAmount;            // Amount still locked
     progress: number;               // Vesting progress percentage (0-100)
 }
 
+/**
+ * Revoke outcome preview
+ */
+export interface RevokePreview {
+    beneficiaryReceives: TokenAmount; // Vested but unclaimed amount released to the beneficiary on revoke
+    ownerRefund: TokenAmount;       // Unvested amount returned to the owner
+    alreadyClaimed: TokenAmount;    // Amount the beneficiary already claimed
+}
+
+/**
+ * Beneficiary reassignment read from a BeneficiaryChanged event
+ */
+export interface BeneficiaryChange {
+    vestingId: string;              // Reassigned vesting schedule ID
+    oldBeneficiary: string;         // Previous beneficiary address
+    newBeneficiary: string;         // New beneficiary address
+    timestamp: number;              // Block timestamp (Unix)
+    blockNumber: number;            // Block the change was mined in
+    transactionHash: string;        // Transaction hash
+}
+
+/**
+ * Amounts unlocking per month across schedules, by token
+ */
+export interface UnlockTimeline {
+    months: number[];               // Start of each month (Unix, local time)
+    tokens: UnlockTimelineSeries[]; // One series per token
+}
+
+/**
+ * Monthly unlocks of one token
+ */
+export interface UnlockTimelineSeries {
+    token: TokenInfo;               // Unlocking token
+    amounts: number[];              // Amount unlocking in each month (token units)
+}
+
+/**
+ * Kind of unlock point on a schedule's timeline
+ */
+export type UnlockEventKind = 'cliff' | 'unlock' | 'end';
+
+/**
+ * Point in time at which a schedule unlocks tokens, as exported to calendars
+ */
+export interface UnlockEvent {
+    kind: UnlockEventKind;          // Cliff end, periodic unlock or final vesting date
+    time: number;                   // Unlock timestamp (Unix)
+    amount: string;                 // Amount unlocked since the previous point (wei)
+    vested: string;                 // Total vested after this point (wei)
+}
+
+/**
+ * Vesting contract events watched for the current beneficiary
+ */
+export type VestingEventName = 'TokensReleased' | 'VestingRevoked' | 'VestingScheduleCreated';
+
+/**
+ * Vesting contract event received while watching a beneficiary
+ */
+export interface VestingEvent {
+    name: VestingEventName;         // Event name
+    vestingId: string;              // Affected vesting schedule ID
+    blockNumber: number;            // Block the event was mined in
+    transactionHash: string;        // Transaction hash
+}
+
 /**
  * Claim transaction interface
  */
@@ -72,6 +180,25 @@ export interface ClaimTransaction {
     amount: string;                 // Claimed amount
     timestamp: number;              // Claim timestamp
     status: TransactionStatus;      // Transaction status
+    blockNumber?: number;           // Block the claim was mined in (claims read from event logs)
+    beneficiary?: string;           // Address the tokens were released to (claims read from event logs)
+    token?: TokenInfo;              // Claimed token
+}
+
+/**
+ * Status of one schedule in a claim-all run
+ */
+export type BatchClaimStatus = 'queued' | 'claiming' | 'claimed' | 'failed';
+
+/**
+ * Schedule queued for a claim-all run
+ */
+export interface BatchClaimItem {
+    schedule: VestingSchedule;      // Schedule to release
+    amount: TokenAmount;            // Claimable amount when queued
+    status: BatchClaimStatus;       // Current status
+    txHash?: string;                // Release transaction hash
+    error?: string;                 // Failure reason
 }
 
 /**
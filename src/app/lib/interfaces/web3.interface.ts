@@ -1,5 +1,5 @@
 /**
- * MetaMask and Web3 related interface definitions
+ * Wallet and Web3 related interface definitions
  */
 
 /**
@@ -9,6 +9,7 @@ export interface NetworkInfo {
     chainId: string; // Hexadecimal format, e.g., "0x1"
     chainName: string; // Network name, e.g., "Ethereum Mainnet"
     isSupported: boolean; // Whether the network is supported
+    hasDeployment: boolean; // Whether the vesting contracts are deployed on the network
 }
 
 /**
@@ -21,7 +22,7 @@ export interface WalletState {
 }
 
 /**
- * MetaMask error type
+ * Wallet (EIP-1193) error type
  */
 export interface MetaMaskError {
     code: number;
@@ -29,20 +30,52 @@ export interface MetaMaskError {
 }
 
 /**
- * MetaMask Ethereum Provider interface
+ * EIP-1193 Ethereum Provider interface
+ * Implemented by every injected wallet (MetaMask, Coinbase Wallet, Rabby, Brave, ...)
  */
 export interface EthereumProvider {
     isMetaMask?: boolean;
+    isCoinbaseWallet?: boolean;
+    isRabby?: boolean;
+    isBraveWallet?: boolean;
     request: (args: { method: string; params?: unknown[] }) => Promise<unknown>;
     on: (event: string, callback: (...args: unknown[]) => void) => void;
     removeListener: (event: string, callback: (...args: unknown[]) => void) => void;
 }
 
 /**
- * Extend Window object to include ethereum
+ * Wallet metadata announced through EIP-6963
+ */
+export interface WalletProviderInfo {
+    uuid: string; // Unique per page load
+    name: string; // Display name, e.g., "MetaMask"
+    icon: string; // Data URI of the wallet icon
+    rdns: string; // Reverse DNS identifier, stable across sessions, e.g., "io.metamask"
+}
+
+/**
+ * Injected wallet discovered through EIP-6963 (or the legacy window.ethereum)
+ */
+export interface WalletProviderDetail {
+    info: WalletProviderInfo;
+    provider: EthereumProvider;
+}
+
+/**
+ * EIP-6963 provider announcement event
+ */
+export type WalletAnnounceEvent = CustomEvent<WalletProviderDetail>;
+
+/**
+ * Extend Window object to include ethereum and the EIP-6963 events
  */
 declare global {
     interface Window {
         ethereum?: EthereumProvider;
     }
+
+    interface WindowEventMap {
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        'eip6963:announceProvider': WalletAnnounceEvent;
+    }
 }
@@ -1 +1,2 @@
 export * from './package-json.token';
+export * from './price-provider.token';
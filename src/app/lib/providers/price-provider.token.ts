@@ -0,0 +1,16 @@
+import { InjectionToken, Provider } from '@angular/core';
+import type { PriceProvider, PriceSource } from '@lib/interfaces/price.interface';
+import { HttpPriceProvider, MockPriceProvider, StaticPriceProvider } from '@lib/services/price/providers';
+
+export const PRICE_PROVIDER = new InjectionToken<PriceProvider>('PRICE_PROVIDER');
+
+const PRICE_PROVIDERS = {
+    static: StaticPriceProvider,
+    mock: MockPriceProvider,
+    http: HttpPriceProvider,
+};
+
+export const providePriceProvider = (source: PriceSource): Provider => ({
+    provide: PRICE_PROVIDER,
+    useExisting: PRICE_PROVIDERS[source],
+});
@@ -1,8 +1,29 @@
 import { Injectable } from '@angular/core';
 import { ethers } from 'ethers';
-import { getContractAddresses, CONTRACT_ABIS } from '@lib/constants/contracts.constant';
-import type { VestingSchedule } from '@lib/interfaces/vesting.interface';
-import { VestingStatus } from '@lib/interfaces/vesting.interface';
+import {
+    getContractAddresses,
+    getNetworkConfig,
+    BATCH_CREATE_GAS,
+    CONTRACT_ABIS,
+    CONTRACT_FEATURES,
+} from '@lib/constants/contracts.constant';
+import type { ContractFeature, ContractFlavor } from '@lib/interfaces/contract.interface';
+import type {
+    BatchCreateVestingSchedulesParams,
+    BeneficiaryChange,
+    ClaimTransaction,
+    CreateVestingScheduleParams,
+    TokenInfo,
+    VestingEvent,
+    VestingEventName,
+    VestingSchedule,
+} from '@lib/interfaces/vesting.interface';
+import { TransactionStatus, VestingStatus } from '@lib/interfaces/vesting.interface';
+import type { TreasuryBalance } from '@lib/interfaces/treasury.interface';
+import { storage } from '@lib/utils';
+import { toAmount } from '@lib/utils/amount.util';
+import { batchRead } from '@lib/utils/multicall.util';
+import { BehaviorSubject, EMPTY, Observable, distinctUntilChanged, of, switchMap } from 'rxjs';
 
 /**
  * Blockchain Service
@@ -12,34 +33,94 @@ import { VestingStatus } from '@lib/interfaces/vesting.interface';
     providedIn: 'root',
 })
 export class BlockchainService {
-    private _provider: ethers.providers.Web3Provider | null = null;
+    private _provider: ethers.providers.JsonRpcProvider | null = null;
+    private _isReadOnly = false; // Backed by a JSON-RPC endpoint instead of a wallet, nothing can be signed
     private _vestingContract: ethers.Contract | null = null;
     private _currentChainId: string | null = null;
+    private _flavor: ContractFlavor | null = null;
+    private readonly _deploymentBlocks = new Map<string, Promise<number>>(); // Keyed by "<chainId>:<vesting address>"
+
+    // Initialization state
+    private readonly _initialized$ = new BehaviorSubject<boolean>(false);
+    public readonly initialized$: Observable<boolean> = this._initialized$.asObservable();
 
     /**
      * Initialize provider and contracts
      */
     async initialize(ethereum: unknown): Promise<void> {
         // Initialize provider
-        this._provider = new ethers.providers.Web3Provider(ethereum as ethers.providers.ExternalProvider);
+        const provider = new ethers.providers.Web3Provider(ethereum as ethers.providers.ExternalProvider);
+        await this._connect(provider, false);
+    }
+
+    /**
+     * Initialize a read-only provider and contracts from the network's public RPC endpoint
+     * Used to look up schedules without a wallet, every signing action is rejected
+     * @param chainId Network to read from (hex)
+     */
+    async initializeReadOnly(chainId: string): Promise<void> {
+        const config = getNetworkConfig(chainId);
+        if (!config) {
+            throw new Error(`No RPC endpoint configured for chain ${chainId}`);
+        }
+
+        const provider = new ethers.providers.JsonRpcProvider(config.rpcUrl, parseInt(config.chainId, 16));
+        await this._connect(provider, true);
+    }
+
+    /**
+     * Drop the provider and contracts, e.g. after the wallet disconnected or switched to a network without a deployment
+     */
+    reset(): void {
+        this._provider = null;
+        this._isReadOnly = false;
+        this._vestingContract = null;
+        this._flavor = null;
+        this._initialized$.next(false);
+    }
+
+    /**
+     * Check whether the service is backed by a read-only provider
+     */
+    isReadOnly(): boolean {
+        return this._isReadOnly;
+    }
+
+    /**
+     * Connect the vesting contract through a provider
+     */
+    private async _connect(provider: ethers.providers.JsonRpcProvider, isReadOnly: boolean): Promise<void> {
+        this._provider = provider;
+        this._isReadOnly = isReadOnly;
 
         // Get current network
         const network = await this._provider.getNetwork();
         this._currentChainId = `0x${network.chainId.toString(16)}`;
-        console.log('🌐 Current network chainId:', this._currentChainId);
+        console.log('🌐 Current network chainId:', this._currentChainId, isReadOnly ? '(read-only)' : '');
 
         // Get contract addresses for current network
         const addresses = getContractAddresses(this._currentChainId);
+        if (!addresses) {
+            this.reset();
+            throw new Error(`No vesting contract is deployed on chain ${network.chainId}`);
+        }
         console.log('📋 Using contract addresses:', addresses);
 
-        const signer = this._provider.getSigner();
-        this._vestingContract = new ethers.Contract(addresses.vesting, CONTRACT_ABIS.vesting, signer);
+        // Pick the ABI matching the contract deployed on this network
+        this._flavor = addresses.flavor;
+        this._vestingContract = new ethers.Contract(
+            addresses.vesting,
+            CONTRACT_ABIS.vesting[this._flavor],
+            this._getReader(),
+        );
+        this._initialized$.next(true);
 
         console.log('✅ BlockchainService initialized');
     }
 
     /**
      * Get all vesting schedules for a beneficiary
+     * Schedules and token metadata are read in batches (Multicall3), token metadata is cached per chain
      */
     async getVestingSchedules(beneficiary: string): Promise<VestingSchedule[]> {
         if (!this._vestingContract || !this._provider) {
@@ -48,141 +129,15 @@ export class BlockchainService {
 
         try {
             // Get all schedule IDs for beneficiary
-            const scheduleIds: string[] = await this._vestingContract['getBeneficiarySchedules'](beneficiary);
-            console.log('📋 Got schedule IDs from contract:', scheduleIds, 'Count:', scheduleIds.length);
-
-            const schedules: VestingSchedule[] = [];
-
-            // Fetch each schedule
-            for (const rawScheduleId of scheduleIds) {
-                // Convert to proper bytes32 format (66 chars: 0x + 64 hex digits)
-                // First handle odd-length hex strings
-                let hexValue = String(rawScheduleId);
-                if (hexValue.startsWith('0x') && hexValue.length % 2 !== 0) {
-                    // Odd length: insert '0' after '0x'
-                    hexValue = '0x0' + hexValue.slice(2);
-                }
-
-                const scheduleId = ethers.utils.hexZeroPad(hexValue, 32);
-                console.log('📋 Processing scheduleId:', scheduleId, 'Length:', scheduleId.length);
-
-                const result = await this._vestingContract['getVestingSchedule'](scheduleId);
-
-                console.log('🔍 Raw contract result for schedule:', scheduleId);
-                console.log('🔍 Result indices:');
-                console.log('  [0]:', result[0]);
-                console.log('  [1]:', result[1]);
-                console.log('  [2]:', result[2]);
-                console.log('  [3]:', result[3]);
-                console.log('  [4]:', result[4]);
-                console.log('  [5]:', result[5]);
-                console.log('  [6]:', result[6]);
-                console.log('  [7]:', result[7]);
-                console.log('  [8]:', result[8]);
-
-                // Use array indices - named properties are incorrectly mapped by ethers.js
-                const scheduleBeneficiary = result[0];
-                const token = result[1];
-                const totalAmount = result[2];
-                const released = result[3];
-                const startTime = result[4];
-                const cliff = result[5];
-                const duration = result[6];
-                const revocable = result[7];
-                const revoked = result[8];
-
-                console.log('📋 Schedule details:', {
-                    scheduleId,
-                    beneficiary: scheduleBeneficiary,
-                    requestedBeneficiary: beneficiary,
-                    match: String(scheduleBeneficiary).toLowerCase() === beneficiary.toLowerCase(),
-                });
+            const rawScheduleIds = await this._call<string[]>(
+                this._vestingContract,
+                'getBeneficiarySchedules',
+                beneficiary,
+            );
+            console.log('📋 Got schedule IDs from contract:', rawScheduleIds.length);
 
-                // Convert token address to string (in case it's not)
-                const tokenAddress = String(token);
-
-                // Get token info with signer to avoid ENS lookups
-                const signer = this._provider.getSigner();
-                const tokenContract = new ethers.Contract(tokenAddress, CONTRACT_ABIS.token, signer);
-
-                // Use try-catch for token info to handle ENS errors gracefully
-                let symbol = 'UNKNOWN';
-                let name = 'Unknown Token';
-                let decimals = 18;
-
-                try {
-                    symbol = await tokenContract['symbol']();
-                    name = await tokenContract['name']();
-                    decimals = await tokenContract['decimals']();
-                } catch (tokenError) {
-                    console.warn('⚠️ Failed to fetch token info (using defaults):', tokenError);
-                    // Use defaults - schedules will still load
-                }
-
-                // Safely convert to numbers (handle both BigNumber and plain numbers)
-                const startTimeNum =
-                    startTime && typeof startTime.toNumber === 'function' ? startTime.toNumber() : Number(startTime);
-                const cliffNum = cliff && typeof cliff.toNumber === 'function' ? cliff.toNumber() : Number(cliff);
-                const durationNum =
-                    duration && typeof duration.toNumber === 'function' ? duration.toNumber() : Number(duration);
-
-                // Calculate status
-                const currentTime = Math.floor(Date.now() / 1000);
-                let status: VestingStatus;
-
-                console.log('⏰ Status calculation:', {
-                    currentTime,
-                    startTime: startTimeNum,
-                    cliff: cliffNum,
-                    cliffEndTime: startTimeNum + cliffNum,
-                    duration: durationNum,
-                    endTime: startTimeNum + durationNum,
-                    revoked,
-                    isBeforeStart: currentTime < startTimeNum,
-                    isInCliff: currentTime < startTimeNum + cliffNum,
-                    isCompleted: currentTime >= startTimeNum + durationNum,
-                });
-
-                if (revoked) {
-                    status = VestingStatus.REVOKED;
-                } else if (currentTime < startTimeNum) {
-                    // Not started yet
-                    status = VestingStatus.PENDING;
-                } else if (currentTime < startTimeNum + cliffNum) {
-                    // Started but still in cliff period
-                    status = VestingStatus.PENDING;
-                } else if (currentTime >= startTimeNum + durationNum) {
-                    // Fully vested
-                    status = VestingStatus.COMPLETED;
-                } else {
-                    // Past cliff, before completion
-                    status = VestingStatus.ACTIVE;
-                }
-
-                console.log('💾 Saving schedule with ID:', scheduleId, 'Length:', scheduleId.length);
-                console.log('💰 totalAmount:', totalAmount, 'toString:', totalAmount.toString());
-                console.log('💰 released:', released, 'toString:', released.toString());
-                console.log('💰 decimals:', decimals);
-
-                schedules.push({
-                    id: scheduleId,
-                    beneficiary,
-                    token: {
-                        address: tokenAddress as string,
-                        symbol,
-                        name,
-                        decimals,
-                    },
-                    totalAmount: totalAmount.toString(),
-                    released: released.toString(),
-                    startTime: startTimeNum,
-                    cliff: cliffNum,
-                    duration: durationNum,
-                    revocable,
-                    revoked,
-                    status,
-                });
-            }
+            const schedules = await this._readVestingSchedules(rawScheduleIds.map(String), beneficiary);
+            console.log('✅ Loaded', schedules.length, 'schedules for', beneficiary);
 
             return schedules;
         } catch (error) {
@@ -191,6 +146,46 @@ export class BlockchainService {
         }
     }
 
+    /**
+     * Get vesting schedules by ID, e.g. every schedule found in creation logs
+     * @param scheduleIds Vesting schedule IDs (bytes32)
+     * @returns Schedules in the order of the IDs, each with its current beneficiary
+     */
+    async getVestingSchedulesById(scheduleIds: string[]): Promise<VestingSchedule[]> {
+        if (!this._vestingContract || !this._provider) {
+            throw new Error('Contract not initialized');
+        }
+
+        return this._readVestingSchedules(scheduleIds, null);
+    }
+
+    /**
+     * Get a single vesting schedule
+     * @param scheduleId Vesting schedule ID (bytes32)
+     * @returns Schedule, or null if no schedule has this ID on the current network
+     */
+    async getVestingSchedule(scheduleId: string): Promise<VestingSchedule | null> {
+        if (!this._vestingContract) {
+            throw new Error('Contract not initialized');
+        }
+
+        const formattedScheduleId = this._formatScheduleId(scheduleId);
+        const result = await this._call<ethers.utils.Result>(
+            this._vestingContract,
+            'getVestingSchedule',
+            formattedScheduleId,
+        );
+
+        // Unknown IDs read as an empty schedule
+        const beneficiary = String(result[0]);
+        if (beneficiary === ethers.constants.AddressZero) {
+            return null;
+        }
+
+        const tokens = await this._getTokenInfos([String(result[1])]);
+        return this._toVestingSchedule(formattedScheduleId, beneficiary, result, tokens);
+    }
+
     /**
      * Get releasable amount for a schedule
      */
@@ -219,49 +214,1177 @@ export class BlockchainService {
     }
 
     /**
-     * Claim vested tokens
-     * Note: Optimized contract version - token parameter removed for security
+     * Submit a release transaction for vested tokens
+     * Legacy contract takes the token address, optimized contract reads it from the schedule
+     * @returns Submitted (not yet mined) transaction, to be followed with TransactionService
      */
-    async claimTokens(scheduleId: string, tokenAddress: string): Promise<string> {
+    async claimTokens(scheduleId: string, tokenAddress: string): Promise<ethers.ContractTransaction> {
         if (!this._vestingContract || !this._provider) {
             throw new Error('Contract not initialized');
         }
 
         try {
-            // Ensure scheduleId is properly formatted as bytes32
-            let hexValue = scheduleId;
-            if (hexValue.startsWith('0x') && hexValue.length % 2 !== 0) {
-                // Odd length: insert '0' after '0x'
-                hexValue = '0x0' + hexValue.slice(2);
-            }
-
-            const formattedScheduleId = ethers.utils.hexZeroPad(hexValue, 32);
+            const formattedScheduleId = this._formatScheduleId(scheduleId);
 
             console.log('🎯 claimTokens called with:', {
                 originalScheduleId: scheduleId,
                 formattedScheduleId,
                 scheduleIdLength: formattedScheduleId.length,
-                tokenAddress: tokenAddress + ' (not used in optimized contract)',
+                tokenAddress,
+                flavor: this._flavor,
             });
 
-            const signer = this._provider.getSigner();
-            const contractWithSigner = this._vestingContract.connect(signer);
+            const contractWithSigner = this._vestingContract.connect(this._getSigner());
+
+            // Legacy: release(bytes32 vestingId, address token)
+            // Optimized: release(bytes32 vestingId) - token parameter removed
+            const releaseArgs = this._flavor === 'legacy' ? [formattedScheduleId, tokenAddress] : [formattedScheduleId];
+            return await this._call<ethers.ContractTransaction>(contractWithSigner, 'release', ...releaseArgs);
+        } catch (error) {
+            console.error('Error claiming tokens:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Get the address of the connected signer
+     */
+    async getSignerAddress(): Promise<string> {
+        if (!this._provider) {
+            throw new Error('Contract not initialized');
+        }
+
+        return this._getSigner().getAddress();
+    }
+
+    /**
+     * Get the owner of the vesting contract
+     */
+    async getContractOwner(): Promise<string> {
+        if (!this._vestingContract) {
+            throw new Error('Contract not initialized');
+        }
+
+        return this._call<string>(this._vestingContract, 'owner');
+    }
+
+    /**
+     * Check whether the connected signer owns the vesting contract
+     */
+    async isSignerOwner(): Promise<boolean> {
+        if (this._isReadOnly) {
+            return false;
+        }
+
+        const [owner, signer] = await Promise.all([this.getContractOwner(), this.getSignerAddress()]);
+        return owner.toLowerCase() === signer.toLowerCase();
+    }
+
+    /**
+     * Check whether the vesting contract is paused (release and schedule creation revert while paused)
+     * @returns Paused state, false if the contract cannot be paused
+     */
+    async isPaused(): Promise<boolean> {
+        if (!this._vestingContract) {
+            throw new Error('Contract not initialized');
+        }
+        if (!this.supportsFeature('pause')) {
+            return false;
+        }
+
+        return this._call<boolean>(this._vestingContract, 'paused');
+    }
+
+    /**
+     * Pause or unpause the vesting contract (owner only, optimized contract)
+     * @returns Transaction hash
+     */
+    async setPaused(isPaused: boolean): Promise<string> {
+        if (!this._vestingContract || !this._provider) {
+            throw new Error('Contract not initialized');
+        }
+        this._requireFeature('pause');
 
-            // Optimized contract: release(bytes32 vestingId) - token parameter removed
-            const tx = await contractWithSigner['release'](formattedScheduleId);
+        try {
+            const contractWithSigner = this._vestingContract.connect(this._getSigner());
+            const tx = await this._call<ethers.ContractTransaction>(contractWithSigner, isPaused ? 'pause' : 'unpause');
             const receipt = await tx.wait();
 
-            return receipt.transactionHash as string;
+            return receipt.transactionHash;
         } catch (error) {
-            console.error('Error claiming tokens:', error);
+            console.error(`Error ${isPaused ? 'pausing' : 'unpausing'} contract:`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Follow the paused state of the vesting contract
+     * Read when the contract is ready, then updated from Paused/Unpaused events; false for contracts that cannot be paused
+     */
+    watchPaused(): Observable<boolean> {
+        return this.initialized$.pipe(
+            switchMap((isInitialized) => {
+                const contract = this._vestingContract;
+                if (!isInitialized || !contract || !this.supportsFeature('pause')) {
+                    return of(false);
+                }
+
+                return new Observable<boolean>((subscriber) => {
+                    let hasEvent = false;
+                    const onPaused = (): void => {
+                        hasEvent = true;
+                        subscriber.next(true);
+                    };
+                    const onUnpaused = (): void => {
+                        hasEvent = true;
+                        subscriber.next(false);
+                    };
+                    contract.on('Paused', onPaused);
+                    contract.on('Unpaused', onUnpaused);
+
+                    // An event received meanwhile is newer than the read
+                    this.isPaused()
+                        .then((isPaused) => {
+                            if (!hasEvent) {
+                                subscriber.next(isPaused);
+                            }
+                        })
+                        .catch((error) => console.error('❌ Failed to read paused state:', error));
+
+                    return () => {
+                        contract.off('Paused', onPaused);
+                        contract.off('Unpaused', onUnpaused);
+                    };
+                });
+            }),
+            distinctUntilChanged(),
+        );
+    }
+
+    /**
+     * Get the current chain ID (hex)
+     */
+    getChainId(): string | null {
+        return this._currentChainId;
+    }
+
+    /**
+     * Get the vesting contract interface, used to decode events and custom errors
+     */
+    getVestingInterface(): ethers.utils.Interface | null {
+        return this._vestingContract?.interface ?? null;
+    }
+
+    /**
+     * Get the flavor of the vesting contract on the current network
+     */
+    getContractFlavor(): ContractFlavor | null {
+        return this._flavor;
+    }
+
+    /**
+     * Check whether the deployed vesting contract supports an optional feature
+     */
+    supportsFeature(feature: ContractFeature): boolean {
+        return !!this._flavor && CONTRACT_FEATURES[this._flavor][feature];
+    }
+
+    /**
+     * Get the vesting contract address on the current network
+     */
+    getVestingContractAddress(): string | null {
+        return this._vestingContract?.address ?? null;
+    }
+
+    /**
+     * Get the known token addresses deployed on the current network, keyed by symbol
+     */
+    getKnownTokens(): Record<string, string> {
+        if (!this._currentChainId) {
+            return {};
+        }
+
+        const tokens: Record<string, string> = getContractAddresses(this._currentChainId)?.tokens ?? {};
+        return Object.fromEntries(Object.entries(tokens).filter(([, address]) => !!address));
+    }
+
+    /**
+     * Get ERC20 token metadata
+     */
+    async getTokenInfo(tokenAddress: string): Promise<TokenInfo> {
+        const cached = this._getCachedTokenInfo(tokenAddress);
+        if (cached) {
+            return cached;
+        }
+
+        const tokenContract = this._getTokenContract(tokenAddress);
+
+        const [symbol, name, decimals] = await Promise.all([
+            this._call<string>(tokenContract, 'symbol'),
+            this._call<string>(tokenContract, 'name'),
+            this._call<number>(tokenContract, 'decimals'),
+        ]);
+
+        const token = { address: tokenAddress, symbol, name, decimals };
+        this._cacheTokenInfos([token]);
+        return token;
+    }
+
+    /**
+     * Get the gas limit of the latest block, the most gas a single transaction can use
+     */
+    async getBlockGasLimit(): Promise<number> {
+        if (!this._provider) {
+            throw new Error('Contract not initialized');
+        }
+
+        const block = await this._provider.getBlock('latest');
+        return block.gasLimit.toNumber();
+    }
+
+    /**
+     * Get ERC20 token balance of an account (in wei/smallest unit)
+     */
+    async getTokenBalance(tokenAddress: string, account: string): Promise<string> {
+        const tokenContract = this._getTokenContract(tokenAddress);
+        const balance = await this._call<ethers.BigNumber>(tokenContract, 'balanceOf', account);
+        return balance.toString();
+    }
+
+    /**
+     * Get how many tokens the vesting contract may pull from an account (in wei/smallest unit)
+     */
+    async getTokenAllowance(tokenAddress: string, account: string): Promise<string> {
+        if (!this._vestingContract) {
+            throw new Error('Contract not initialized');
+        }
+
+        const tokenContract = this._getTokenContract(tokenAddress);
+        const allowance = await this._call<ethers.BigNumber>(
+            tokenContract,
+            'allowance',
+            account,
+            this._vestingContract.address,
+        );
+        return allowance.toString();
+    }
+
+    /**
+     * Approve the vesting contract to transfer tokens on behalf of the signer
+     * @returns Transaction hash
+     */
+    async approveTokens(tokenAddress: string, amount: string): Promise<string> {
+        if (!this._vestingContract) {
+            throw new Error('Contract not initialized');
+        }
+
+        try {
+            const tokenContract = this._getTokenContract(tokenAddress);
+            const tx = await this._call<ethers.ContractTransaction>(
+                tokenContract,
+                'approve',
+                this._vestingContract.address,
+                amount,
+            );
+            const receipt = await tx.wait();
+
+            return receipt.transactionHash;
+        } catch (error) {
+            console.error('Error approving tokens:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Create a new vesting schedule (owner only)
+     * Tokens must be approved for the vesting contract beforehand
+     * @returns Created vesting schedule ID
+     */
+    async createVestingSchedule(params: CreateVestingScheduleParams): Promise<string> {
+        if (!this._vestingContract || !this._provider) {
+            throw new Error('Contract not initialized');
+        }
+
+        try {
+            const contractWithSigner = this._vestingContract.connect(this._getSigner());
+            const tx = await this._call<ethers.ContractTransaction>(
+                contractWithSigner,
+                'createVestingSchedule',
+                params.beneficiary,
+                params.token,
+                params.amount,
+                params.startTime,
+                params.cliff,
+                params.duration,
+                ...this._getIntervalArgs(params.interval),
+                params.revocable,
+            );
+            const receipt = await tx.wait();
+
+            const createdEvent = receipt.events?.find((event) => event.event === 'VestingScheduleCreated');
+            return createdEvent?.args?.['vestingId'] as string;
+        } catch (error) {
+            console.error('Error creating vesting schedule:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Create vesting schedules with shared terms in a single transaction (owner only)
+     * Tokens for all schedules must be approved for the vesting contract beforehand
+     * The gas limit is estimated for the batch and must fit in a block
+     * @returns Transaction hash and created vesting schedule IDs
+     */
+    async batchCreateVestingSchedules(
+        params: BatchCreateVestingSchedulesParams,
+    ): Promise<{ transactionHash: string; vestingIds: string[] }> {
+        if (!this._vestingContract || !this._provider) {
+            throw new Error('Contract not initialized');
+        }
+        this._requireFeature('batchCreate');
+
+        try {
+            const contractWithSigner = this._vestingContract.connect(this._getSigner());
+            const args = [
+                params.beneficiaries,
+                params.token,
+                params.amounts,
+                params.startTime,
+                params.cliff,
+                params.duration,
+                ...this._getIntervalArgs(params.interval),
+                params.revocable,
+            ];
+
+            const [estimate, blockGasLimit] = await Promise.all([
+                contractWithSigner.estimateGas['batchCreateVestingSchedules'](...args),
+                this.getBlockGasLimit(),
+            ]);
+            if (estimate.gt(blockGasLimit)) {
+                throw new Error(
+                    `Batch needs ${estimate.toString()} gas, above the block gas limit of ${blockGasLimit}. ` +
+                        'Import fewer schedules per batch.',
+                );
+            }
+            const withMargin = estimate.mul(100 + BATCH_CREATE_GAS.estimateMarginPercent).div(100);
+            const gasLimit = withMargin.gt(blockGasLimit) ? ethers.BigNumber.from(blockGasLimit) : withMargin;
+
+            const tx = await this._call<ethers.ContractTransaction>(
+                contractWithSigner,
+                'batchCreateVestingSchedules',
+                ...args,
+                { gasLimit },
+            );
+            const receipt = await tx.wait();
+
+            const vestingIds = (receipt.events ?? [])
+                .filter((event) => event.event === 'VestingScheduleCreated')
+                .map((event) => event.args?.['vestingId'] as string);
+
+            return { transactionHash: receipt.transactionHash, vestingIds };
+        } catch (error) {
+            console.error('Error batch creating vesting schedules:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Revoke a vesting schedule (owner only)
+     * Vested tokens go to the beneficiary, the unvested rest is refunded to the owner
+     * @returns Transaction hash and refunded amount (in wei/smallest unit)
+     */
+    async revokeSchedule(scheduleId: string): Promise<{ transactionHash: string; refundAmount: string }> {
+        if (!this._vestingContract || !this._provider) {
+            throw new Error('Contract not initialized');
+        }
+
+        try {
+            const formattedScheduleId = this._formatScheduleId(scheduleId);
+            const contractWithSigner = this._vestingContract.connect(this._getSigner());
+
+            if (this._flavor === 'legacy') {
+                // Legacy: revoke(bytes32 vestingId, address token), VestingRevoked carries no refund amount
+                const schedule = await this._call<ethers.utils.Result>(
+                    this._vestingContract,
+                    'getVestingSchedule',
+                    formattedScheduleId,
+                );
+                const tokenAddress = String(schedule[1]);
+                const tx = await this._call<ethers.ContractTransaction>(
+                    contractWithSigner,
+                    'revoke',
+                    formattedScheduleId,
+                    tokenAddress,
+                );
+                const receipt = await tx.wait();
+                const refundAmount = await this._getOwnerRefund(receipt, tokenAddress);
+
+                return { transactionHash: receipt.transactionHash, refundAmount };
+            }
+
+            const tx = await this._call<ethers.ContractTransaction>(contractWithSigner, 'revoke', formattedScheduleId);
+            const receipt = await tx.wait();
+
+            const revokedEvent = receipt.events?.find((event) => event.event === 'VestingRevoked');
+            const refundAmount = revokedEvent?.args?.['refundAmount'] as ethers.BigNumber | undefined;
+
+            return { transactionHash: receipt.transactionHash, refundAmount: refundAmount?.toString() ?? '0' };
+        } catch (error) {
+            console.error('Error revoking vesting schedule:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Reassign a vesting schedule to a new beneficiary (owner only, optimized contract)
+     * @returns Transaction hash
+     */
+    async changeBeneficiary(scheduleId: string, newBeneficiary: string): Promise<string> {
+        if (!this._vestingContract || !this._provider) {
+            throw new Error('Contract not initialized');
+        }
+        this._requireFeature('changeBeneficiary');
+
+        try {
+            const contractWithSigner = this._vestingContract.connect(this._getSigner());
+            const tx = await this._call<ethers.ContractTransaction>(
+                contractWithSigner,
+                'changeBeneficiary',
+                this._formatScheduleId(scheduleId),
+                newBeneficiary,
+            );
+            const receipt = await tx.wait();
+
+            return receipt.transactionHash;
+        } catch (error) {
+            console.error('Error changing beneficiary:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Get the vesting contract's holdings of tokens, read in one batch (Multicall3)
+     * @param tokenAddresses Token addresses
+     * @returns Contract balance and totalLockedTokens of each token
+     */
+    async getTreasuryBalances(tokenAddresses: string[]): Promise<TreasuryBalance[]> {
+        if (!this._vestingContract || !this._provider) {
+            throw new Error('Contract not initialized');
+        }
+        this._requireFeature('treasury');
+
+        const vestingContract = this._vestingContract;
+        const tokenInterface = new ethers.utils.Interface(CONTRACT_ABIS.token);
+        const results = await batchRead(
+            this._provider,
+            this._getMulticallAddress(),
+            tokenAddresses.flatMap((address) => [
+                {
+                    target: address,
+                    contractInterface: tokenInterface,
+                    method: 'balanceOf',
+                    args: [vestingContract.address],
+                },
+                {
+                    target: vestingContract.address,
+                    contractInterface: vestingContract.interface,
+                    method: 'totalLockedTokens',
+                    args: [address],
+                },
+            ]),
+        );
+
+        const failedIndex = results.findIndex((result) => !result);
+        if (failedIndex >= 0) {
+            throw new Error(`Failed to read treasury of token ${tokenAddresses[Math.floor(failedIndex / 2)]}`);
+        }
+
+        const tokens = await this._getTokenInfos(tokenAddresses);
+        return tokenAddresses.map((address, i) => {
+            const token = tokens.get(address.toLowerCase()) as TokenInfo;
+            const [balance, totalLocked] = (results.slice(i * 2, i * 2 + 2) as ethers.utils.Result[]).map((result) =>
+                (result[0] as ethers.BigNumber).toBigInt(),
+            );
+            return {
+                token,
+                balance: toAmount(balance, token.decimals),
+                totalLocked: toAmount(totalLocked, token.decimals),
+            };
+        });
+    }
+
+    /**
+     * Withdraw tokens the vesting contract holds beyond totalLockedTokens to the owner (owner only, optimized contract)
+     * The contract reverts for amounts above the surplus, callers check it first for a readable error
+     * @param tokenAddress Token address
+     * @param amount Amount in wei/smallest unit
+     * @returns Transaction hash
+     */
+    async emergencyWithdraw(tokenAddress: string, amount: string): Promise<string> {
+        if (!this._vestingContract || !this._provider) {
+            throw new Error('Contract not initialized');
+        }
+        this._requireFeature('treasury');
+
+        try {
+            const contractWithSigner = this._vestingContract.connect(this._getSigner());
+            const tx = await this._call<ethers.ContractTransaction>(
+                contractWithSigner,
+                'emergencyWithdraw',
+                tokenAddress,
+                amount,
+            );
+            const receipt = await tx.wait();
+
+            return receipt.transactionHash;
+        } catch (error) {
+            console.error('Error withdrawing tokens:', error);
             throw error;
         }
     }
 
+    /**
+     * Get beneficiary reassignments where an address was the old or the new beneficiary
+     * Callers page through the chain, see EVENT_LOG_PAGING
+     * @param account Old or new beneficiary
+     * @param fromBlock First block to scan (inclusive)
+     * @param toBlock Last block to scan (inclusive)
+     * @returns Reassignments, newest first (empty if the contract has no changeBeneficiary)
+     */
+    async getBeneficiaryChanges(account: string, fromBlock: number, toBlock: number): Promise<BeneficiaryChange[]> {
+        if (!this._vestingContract || !this._provider) {
+            throw new Error('Contract not initialized');
+        }
+        if (!this.supportsFeature('changeBeneficiary')) {
+            return [];
+        }
+
+        const contract = this._vestingContract;
+        const filters = contract.filters;
+        const [fromEvents, toEvents] = await Promise.all([
+            contract.queryFilter(filters['BeneficiaryChanged'](null, account, null), fromBlock, toBlock),
+            contract.queryFilter(filters['BeneficiaryChanged'](null, null, account), fromBlock, toBlock),
+        ]);
+
+        // An address can appear on both sides (reassigned away and back), so dedupe by log
+        const events = new Map<string, ethers.Event>();
+        for (const event of [...fromEvents, ...toEvents]) {
+            events.set(`${event.transactionHash}:${event.logIndex}`, event);
+        }
+
+        const changes = await Promise.all(
+            [...events.values()].map(async (event): Promise<BeneficiaryChange> => {
+                const block = await event.getBlock();
+                return {
+                    vestingId: String(event.args?.['vestingId']),
+                    oldBeneficiary: String(event.args?.['oldBeneficiary']),
+                    newBeneficiary: String(event.args?.['newBeneficiary']),
+                    timestamp: block.timestamp,
+                    blockNumber: event.blockNumber,
+                    transactionHash: event.transactionHash,
+                };
+            }),
+        );
+
+        return changes.sort((a, b) => b.blockNumber - a.blockNumber);
+    }
+
+    /**
+     * Get the latest block number
+     */
+    async getBlockNumber(): Promise<number> {
+        if (!this._provider) {
+            throw new Error('Contract not initialized');
+        }
+
+        return this._provider.getBlockNumber();
+    }
+
+    /**
+     * Get the first block to scan for vesting contract event logs on the current network
+     * Networks without a recorded deployment block resolve it from the chain once and cache it
+     */
+    async getDeploymentBlock(): Promise<number> {
+        if (!this._currentChainId || !this._vestingContract) {
+            return 0;
+        }
+
+        const deploymentBlock = getContractAddresses(this._currentChainId)?.deploymentBlock;
+        if (typeof deploymentBlock === 'number') {
+            return deploymentBlock;
+        }
+
+        const key = `${this._currentChainId}:${this._vestingContract.address.toLowerCase()}`;
+        const cached = storage.getItem('deploymentBlocks')?.[key];
+        if (cached !== undefined) {
+            return cached;
+        }
+
+        let lookup = this._deploymentBlocks.get(key);
+        if (!lookup) {
+            lookup = this._findDeploymentBlock(this._vestingContract.address).then(
+                (block) => {
+                    storage.setItem('deploymentBlocks', { ...storage.getItem('deploymentBlocks'), [key]: block });
+                    return block;
+                },
+                (error) => {
+                    // Scans stay paged, so starting from genesis is slow but still correct
+                    console.warn('Could not resolve the vesting contract deployment block:', error);
+                    this._deploymentBlocks.delete(key);
+                    return 0;
+                },
+            );
+            this._deploymentBlocks.set(key, lookup);
+        }
+
+        return lookup;
+    }
+
+    /**
+     * Get the block explorer link for a transaction, or null if the network has no explorer
+     */
+    getExplorerTxUrl(txHash: string): string | null {
+        const explorerUrl = this._currentChainId ? getNetworkConfig(this._currentChainId)?.explorerUrl : null;
+        return explorerUrl ? `${explorerUrl}/tx/${txHash}` : null;
+    }
+
+    /**
+     * Get claims of a beneficiary from TokensReleased logs in a block range
+     * Both contract flavors index the beneficiary, so the node filters the logs
+     * @param beneficiary Beneficiary address, or several addresses to match any of them
+     * @returns Confirmed claims with formatted amounts and block timestamps
+     */
+    async getClaimHistory(
+        beneficiary: string | string[],
+        fromBlock: number,
+        toBlock: number,
+    ): Promise<ClaimTransaction[]> {
+        if (!this._vestingContract || !this._provider) {
+            throw new Error('Contract not initialized');
+        }
+
+        const contract = this._vestingContract;
+        const events = await contract.queryFilter(
+            contract.filters['TokensReleased'](null, beneficiary),
+            fromBlock,
+            toBlock,
+        );
+
+        return this._toClaimTransactions(events);
+    }
+
+    /**
+     * Get the IDs of schedules created in a block range from VestingScheduleCreated logs
+     * Includes schedules that were revoked or reassigned since
+     * @returns Schedule IDs, oldest first
+     */
+    async getCreatedScheduleIds(fromBlock: number, toBlock: number): Promise<string[]> {
+        if (!this._vestingContract || !this._provider) {
+            throw new Error('Contract not initialized');
+        }
+
+        const contract = this._vestingContract;
+        const events = await contract.queryFilter(contract.filters['VestingScheduleCreated'](), fromBlock, toBlock);
+
+        return events.map((event) => String(event.args?.['vestingId']));
+    }
+
+    /**
+     * Get claims of one schedule from TokensReleased logs in a block range
+     * @returns Confirmed claims with formatted amounts and block timestamps
+     */
+    async getScheduleClaimHistory(scheduleId: string, fromBlock: number, toBlock: number): Promise<ClaimTransaction[]> {
+        if (!this._vestingContract || !this._provider) {
+            throw new Error('Contract not initialized');
+        }
+
+        const contract = this._vestingContract;
+        const events = await contract.queryFilter(
+            contract.filters['TokensReleased'](this._formatScheduleId(scheduleId)),
+            fromBlock,
+            toBlock,
+        );
+
+        return this._toClaimTransactions(events);
+    }
+
+    /**
+     * Get the timestamp of a block
+     */
+    async getBlockTimestamp(blockNumber: number): Promise<number> {
+        if (!this._provider) {
+            throw new Error('Contract not initialized');
+        }
+
+        const block = await this._provider.getBlock(blockNumber);
+        return block.timestamp;
+    }
+
+    /**
+     * Find the first block mined at or after a time
+     * Binary search over block timestamps, about log2(latest block) block reads
+     * @param timestamp Unix timestamp
+     * @returns Block number, or null if the latest block is older
+     */
+    async getFirstBlockAfter(timestamp: number): Promise<number | null> {
+        if (!this._provider) {
+            throw new Error('Contract not initialized');
+        }
+
+        const latest = await this._provider.getBlock('latest');
+        if (latest.timestamp < timestamp) {
+            return null;
+        }
+
+        let low = 0;
+        let high = latest.number;
+        while (low < high) {
+            const middle = Math.floor((low + high) / 2);
+            const block = await this._provider.getBlock(middle);
+            if (block.timestamp < timestamp) {
+                low = middle + 1;
+            } else {
+                high = middle;
+            }
+        }
+        return low;
+    }
+
+    /**
+     * Get the block explorer link for a token contract, or null if the network has no explorer
+     */
+    getExplorerTokenUrl(tokenAddress: string): string | null {
+        const explorerUrl = this._currentChainId ? getNetworkConfig(this._currentChainId)?.explorerUrl : null;
+        return explorerUrl ? `${explorerUrl}/token/${tokenAddress}` : null;
+    }
+
+    /**
+     * Watch vesting contract events affecting a beneficiary
+     * Listeners move to the new contract whenever the service is re-initialized (e.g. network change)
+     * VestingRevoked only indexes the schedule ID, so every revocation is emitted; filter by schedule
+     * @param beneficiary Beneficiary address
+     */
+    watchVestingEvents(beneficiary: string): Observable<VestingEvent> {
+        return this.initialized$.pipe(
+            switchMap((isInitialized) => {
+                const contract = this._vestingContract;
+                if (!isInitialized || !contract) {
+                    return EMPTY;
+                }
+
+                return new Observable<VestingEvent>((subscriber) => {
+                    const filters: [VestingEventName, ethers.EventFilter][] = [
+                        ['TokensReleased', contract.filters['TokensReleased'](null, beneficiary)],
+                        ['VestingScheduleCreated', contract.filters['VestingScheduleCreated'](null, beneficiary)],
+                        ['VestingRevoked', contract.filters['VestingRevoked']()],
+                    ];
+
+                    const listeners = filters.map(([name, filter]) => {
+                        // ethers passes the event arguments first and the event itself last
+                        const listener = (...args: unknown[]): void => {
+                            const event = args[args.length - 1] as ethers.Event;
+                            subscriber.next({
+                                name,
+                                vestingId: String(event.args?.['vestingId']),
+                                blockNumber: event.blockNumber,
+                                transactionHash: event.transactionHash,
+                            });
+                        };
+                        contract.on(filter, listener);
+                        return { filter, listener };
+                    });
+
+                    return () => listeners.forEach(({ filter, listener }) => contract.off(filter, listener));
+                });
+            }),
+        );
+    }
+
     /**
      * Get contract provider
      */
-    getProvider(): ethers.providers.Web3Provider | null {
+    getProvider(): ethers.providers.JsonRpcProvider | null {
         return this._provider;
     }
+
+    /**
+     * Get an ERC20 token contract connected to the signer (or the provider in read-only mode)
+     */
+    private _getTokenContract(tokenAddress: string): ethers.Contract {
+        return new ethers.Contract(tokenAddress, CONTRACT_ABIS.token, this._getReader());
+    }
+
+    /**
+     * Get the wallet signer
+     * Throws in read-only mode, where a JSON-RPC node's unlocked accounts must never be used
+     */
+    private _getSigner(): ethers.providers.JsonRpcSigner {
+        if (!this._provider) {
+            throw new Error('Contract not initialized');
+        }
+        if (this._isReadOnly) {
+            throw new Error('Read-only mode: connect a wallet to sign transactions');
+        }
+
+        return this._provider.getSigner();
+    }
+
+    /**
+     * Get the signer for reads, or the provider itself in read-only mode
+     */
+    private _getReader(): ethers.Signer | ethers.providers.Provider {
+        if (!this._provider) {
+            throw new Error('Contract not initialized');
+        }
+
+        return this._isReadOnly ? this._provider : this._provider.getSigner();
+    }
+
+    /**
+     * Get token metadata for a schedule, or null if it cannot be read
+     */
+    private async _getScheduleToken(vestingId: string): Promise<TokenInfo | null> {
+        if (!this._vestingContract) {
+            return null;
+        }
+
+        try {
+            const schedule = await this._call<ethers.utils.Result>(
+                this._vestingContract,
+                'getVestingSchedule',
+                this._formatScheduleId(vestingId),
+            );
+            return await this.getTokenInfo(String(schedule[1]));
+        } catch (error) {
+            console.warn('⚠️ Failed to fetch token info for schedule:', vestingId, error);
+            return null;
+        }
+    }
+
+    /**
+     * Binary search the first block in which a contract has code
+     * Reads historical state, which not every RPC endpoint serves
+     */
+    private async _findDeploymentBlock(address: string): Promise<number> {
+        if (!this._provider) {
+            throw new Error('Contract not initialized');
+        }
+
+        const provider = this._provider;
+        let low = 0;
+        let high = await provider.getBlockNumber();
+        if ((await provider.getCode(address, high)) === '0x') {
+            throw new Error(`No contract code at ${address}`);
+        }
+
+        while (low < high) {
+            const middle = Math.floor((low + high) / 2);
+            if ((await provider.getCode(address, middle)) === '0x') {
+                low = middle + 1;
+            } else {
+                high = middle;
+            }
+        }
+
+        return low;
+    }
+
+    /**
+     * Turn TokensReleased events into claims
+     */
+    private async _toClaimTransactions(events: ethers.Event[]): Promise<ClaimTransaction[]> {
+        // Several claims can share a block or a schedule, so resolve each only once
+        const blockTimestamps = new Map<number, Promise<number>>();
+        const scheduleTokens = new Map<string, Promise<TokenInfo | null>>();
+
+        return Promise.all(
+            events.map(async (event): Promise<ClaimTransaction> => {
+                const vestingId = String(event.args?.['vestingId']);
+                const amount = event.args?.['amount'] as ethers.BigNumber;
+
+                if (!blockTimestamps.has(event.blockNumber)) {
+                    blockTimestamps.set(
+                        event.blockNumber,
+                        event.getBlock().then((block) => block.timestamp),
+                    );
+                }
+                if (!scheduleTokens.has(vestingId)) {
+                    scheduleTokens.set(vestingId, this._getScheduleToken(vestingId));
+                }
+
+                const [timestamp, token] = await Promise.all([
+                    blockTimestamps.get(event.blockNumber) as Promise<number>,
+                    scheduleTokens.get(vestingId) as Promise<TokenInfo | null>,
+                ]);
+
+                return {
+                    id: event.transactionHash,
+                    vestingId,
+                    amount: ethers.utils.formatUnits(amount, token?.decimals ?? 18),
+                    timestamp,
+                    status: TransactionStatus.CONFIRMED,
+                    blockNumber: event.blockNumber,
+                    beneficiary: String(event.args?.['beneficiary']),
+                    token: token ?? undefined,
+                };
+            }),
+        );
+    }
+
+    /**
+     * Get the metadata of several tokens, from the cache or in one batched read
+     * Tokens whose metadata cannot be read get placeholder values and are not cached
+     * @returns Token metadata keyed by lowercase address
+     */
+    private async _getTokenInfos(tokenAddresses: string[]): Promise<Map<string, TokenInfo>> {
+        const tokens = new Map<string, TokenInfo>();
+        const missing: string[] = [];
+
+        for (const address of new Set(tokenAddresses)) {
+            const cached = this._getCachedTokenInfo(address);
+            if (cached) {
+                tokens.set(address.toLowerCase(), cached);
+            } else if (!missing.some((m) => m.toLowerCase() === address.toLowerCase())) {
+                missing.push(address);
+            }
+        }
+
+        if (missing.length === 0 || !this._provider) {
+            return tokens;
+        }
+
+        const tokenInterface = new ethers.utils.Interface(CONTRACT_ABIS.token);
+        const results = await batchRead(
+            this._provider,
+            this._getMulticallAddress(),
+            missing.flatMap((target) =>
+                ['symbol', 'name', 'decimals'].map((method) => ({ target, contractInterface: tokenInterface, method })),
+            ),
+        );
+
+        const fetched: TokenInfo[] = [];
+        missing.forEach((address, i) => {
+            const [symbol, name, decimals] = results.slice(i * 3, i * 3 + 3);
+            if (symbol && name && decimals) {
+                const token = {
+                    address,
+                    symbol: String(symbol[0]),
+                    name: String(name[0]),
+                    decimals: Number(decimals[0]),
+                };
+                fetched.push(token);
+                tokens.set(address.toLowerCase(), token);
+            } else {
+                // Use defaults - schedules will still load
+                console.warn('⚠️ Failed to fetch token info (using defaults):', address);
+                tokens.set(address.toLowerCase(), { address, symbol: 'UNKNOWN', name: 'Unknown Token', decimals: 18 });
+            }
+        });
+        this._cacheTokenInfos(fetched);
+
+        return tokens;
+    }
+
+    /**
+     * Get cached token metadata for the current network
+     */
+    private _getCachedTokenInfo(tokenAddress: string): TokenInfo | null {
+        const cache = storage.getItem('tokenMetadata') ?? {};
+        return cache[this._getTokenCacheKey(tokenAddress)] ?? null;
+    }
+
+    /**
+     * Store token metadata for the current network
+     */
+    private _cacheTokenInfos(tokens: TokenInfo[]): void {
+        if (tokens.length === 0 || !this._currentChainId) {
+            return;
+        }
+
+        const cache = storage.getItem('tokenMetadata') ?? {};
+        tokens.forEach((token) => (cache[this._getTokenCacheKey(token.address)] = token));
+        storage.setItem('tokenMetadata', cache);
+    }
+
+    /**
+     * Token metadata cache key: chain and address
+     */
+    private _getTokenCacheKey(tokenAddress: string): string {
+        return `${this._currentChainId ?? ''}:${tokenAddress.toLowerCase()}`;
+    }
+
+    /**
+     * Get the Multicall3 address on the current network, or null if there is none
+     */
+    private _getMulticallAddress(): string | null {
+        return (this._currentChainId && getContractAddresses(this._currentChainId)?.multicall) || null;
+    }
+
+    /**
+     * Read vesting schedules and their token metadata in as few requests as possible
+     * @param scheduleIds Vesting schedule IDs (bytes32)
+     * @param beneficiary Beneficiary the schedules were listed for, null to use the one stored with each schedule
+     * @returns Schedules in the order of the IDs
+     */
+    private async _readVestingSchedules(scheduleIds: string[], beneficiary: string | null): Promise<VestingSchedule[]> {
+        if (!this._vestingContract || !this._provider) {
+            throw new Error('Contract not initialized');
+        }
+
+        // Convert to proper bytes32 format (66 chars: 0x + 64 hex digits)
+        const formattedScheduleIds = scheduleIds.map((scheduleId) => this._formatScheduleId(scheduleId));
+
+        const vestingContract = this._vestingContract;
+        const results = await batchRead(
+            this._provider,
+            this._getMulticallAddress(),
+            formattedScheduleIds.map((scheduleId) => ({
+                target: vestingContract.address,
+                contractInterface: vestingContract.interface,
+                method: 'getVestingSchedule',
+                args: [scheduleId],
+            })),
+        );
+
+        const failedIndex = results.findIndex((result) => !result);
+        if (failedIndex >= 0) {
+            throw new Error(`Failed to read vesting schedule ${formattedScheduleIds[failedIndex]}`);
+        }
+
+        // Use array indices - named properties are incorrectly mapped by ethers.js
+        const rows = results as ethers.utils.Result[];
+        const tokens = await this._getTokenInfos(rows.map((result) => String(result[1])));
+
+        return rows.map((result, i) =>
+            this._toVestingSchedule(formattedScheduleIds[i], beneficiary ?? String(result[0]), result, tokens),
+        );
+    }
+
+    /**
+     * Build a vesting schedule from a getVestingSchedule result
+     */
+    private _toVestingSchedule(
+        scheduleId: string,
+        beneficiary: string,
+        result: ethers.utils.Result,
+        tokens: Map<string, TokenInfo>,
+    ): VestingSchedule {
+        // Use array indices - named properties are incorrectly mapped by ethers.js
+        const tokenAddress = String(result[1]);
+        const totalAmount = result[2] as ethers.BigNumber;
+        const released = result[3] as ethers.BigNumber;
+        const startTime = (result[4] as ethers.BigNumber).toNumber();
+        const cliff = (result[5] as ethers.BigNumber).toNumber();
+        const duration = (result[6] as ethers.BigNumber).toNumber();
+        const isRevocable = Boolean(result[7]);
+        const isRevoked = Boolean(result[8]);
+        // slicePeriodSeconds is only returned by contracts with step vesting, the others vest linearly
+        const interval = result.length > 9 ? (result[9] as ethers.BigNumber).toNumber() : 1;
+
+        // Calculate status
+        const currentTime = Math.floor(Date.now() / 1000);
+        let status: VestingStatus;
+
+        if (isRevoked) {
+            status = VestingStatus.REVOKED;
+        } else if (currentTime < startTime) {
+            // Not started yet
+            status = VestingStatus.PENDING;
+        } else if (currentTime < startTime + cliff) {
+            // Started but still in cliff period
+            status = VestingStatus.PENDING;
+        } else if (currentTime >= startTime + duration) {
+            // Fully vested
+            status = VestingStatus.COMPLETED;
+        } else {
+            // Past cliff, before completion
+            status = VestingStatus.ACTIVE;
+        }
+
+        return {
+            id: scheduleId,
+            beneficiary,
+            token: tokens.get(tokenAddress.toLowerCase()) ?? {
+                address: tokenAddress,
+                symbol: 'UNKNOWN',
+                name: 'Unknown Token',
+                decimals: 18,
+            },
+            totalAmount: totalAmount.toString(),
+            released: released.toString(),
+            startTime,
+            cliff,
+            duration,
+            interval,
+            revocable: isRevocable,
+            revoked: isRevoked,
+            status,
+        };
+    }
+
+    /**
+     * Unlock interval arguments for create calls: slicePeriodSeconds on contracts with step vesting, none otherwise
+     * Throws for step intervals on contracts without step vesting
+     */
+    private _getIntervalArgs(interval: number): number[] {
+        if (this.supportsFeature('stepVesting')) {
+            return [Math.max(interval, 1)];
+        }
+        if (interval > 1) {
+            this._requireFeature('stepVesting');
+        }
+        return [];
+    }
+
+    /**
+     * Throw if the deployed vesting contract does not support a feature
+     */
+    private _requireFeature(feature: ContractFeature): void {
+        if (!this.supportsFeature(feature)) {
+            throw new Error(`The vesting contract on this network does not support ${feature}`);
+        }
+    }
+
+    /**
+     * Read the refund sent to the owner from the token Transfer logs of a revoke receipt
+     */
+    private async _getOwnerRefund(receipt: ethers.ContractReceipt, tokenAddress: string): Promise<string> {
+        const owner = (await this.getContractOwner()).toLowerCase();
+        const tokenInterface = new ethers.utils.Interface(CONTRACT_ABIS.token);
+
+        // The refund is the last transfer to the owner (the vested part goes to the beneficiary first)
+        let refundAmount = '0';
+        for (const log of receipt.logs) {
+            if (log.address.toLowerCase() !== tokenAddress.toLowerCase()) {
+                continue;
+            }
+
+            const parsed = tokenInterface.parseLog(log);
+            if (parsed.name === 'Transfer' && String(parsed.args['to']).toLowerCase() === owner) {
+                refundAmount = (parsed.args['value'] as ethers.BigNumber).toString();
+            }
+        }
+
+        return refundAmount;
+    }
+
+    /**
+     * Format a schedule ID as bytes32 (66 chars: 0x + 64 hex digits)
+     */
+    private _formatScheduleId(scheduleId: string): string {
+        let hexValue = scheduleId;
+        if (hexValue.startsWith('0x') && hexValue.length % 2 !== 0) {
+            // Odd length: insert '0' after '0x'
+            hexValue = '0x0' + hexValue.slice(2);
+        }
+
+        return ethers.utils.hexZeroPad(hexValue, 32);
+    }
+
+    /**
+     * Call a contract method with a typed result
+     */
+    private _call<T>(contract: ethers.Contract, method: string, ...args: unknown[]): Promise<T> {
+        return (contract[method] as (...params: unknown[]) => Promise<T>)(...args);
+    }
 }
@@ -0,0 +1,161 @@
+import { Injectable, inject } from '@angular/core';
+import { EVENT_LOG_PAGING } from '@lib/constants/contracts.constant';
+import type { ClaimExportFilter, ClaimExportFormat } from '@lib/interfaces/claim-export.interface';
+import type { FiatCurrency, TokenPrice } from '@lib/interfaces/price.interface';
+import type { ClaimTransaction, TokenInfo } from '@lib/interfaces/vesting.interface';
+import { PRICE_PROVIDER } from '@lib/providers/price-provider.token';
+import { BlockchainService } from '@lib/services/blockchain/blockchain.service';
+import { buildClaimsCsv, buildClaimsJson, filterClaims, toClaimExportRow } from '@lib/utils/claim-export.util';
+import { downloadFile } from '@lib/utils/download.util';
+import { translate } from '@lib/utils/i18n.util';
+import { getPriceKey } from '@lib/utils/price.util';
+import { BehaviorSubject, Observable } from 'rxjs';
+
+/**
+ * Claim Export Service
+ * Reads claims of one or more beneficiaries from TokensReleased logs and writes them to CSV or JSON files
+ */
+@Injectable({
+    providedIn: 'root',
+})
+export class ClaimExportService {
+    // Inject services
+    private readonly _blockchainService = inject(BlockchainService);
+    private readonly _priceProvider = inject(PRICE_PROVIDER);
+
+    // State management
+    private readonly _progress$ = new BehaviorSubject<number | null>(null);
+
+    // Public observables
+    // Log scan progress in percent, null when idle
+    public readonly progress$: Observable<number | null> = this._progress$.asObservable();
+
+    /**
+     * Read every claim of the beneficiaries in a time range
+     * The range is narrowed to blocks first, then scanned in EVENT_LOG_PAGING.blockRange steps
+     * Ranges longer than EVENT_LOG_PAGING.maxRangesPerScan steps are rejected before any log is read
+     * @param beneficiaries Beneficiary addresses
+     * @param fromTime First claim time (Unix)
+     * @param toTime Last claim time (Unix), null to scan up to the latest block
+     * @returns Claims, oldest first
+     */
+    async loadClaims(beneficiaries: string[], fromTime: number, toTime: number | null): Promise<ClaimTransaction[]> {
+        if (beneficiaries.length === 0) {
+            return [];
+        }
+
+        this._progress$.next(0);
+
+        try {
+            const latestBlock = await this._blockchainService.getBlockNumber();
+            const deploymentBlock = await this._blockchainService.getDeploymentBlock();
+
+            const fromBlock = Math.max(
+                deploymentBlock,
+                (await this._blockchainService.getFirstBlockAfter(fromTime)) ?? latestBlock + 1,
+            );
+            const toBlock =
+                toTime === null
+                    ? latestBlock
+                    : ((await this._blockchainService.getFirstBlockAfter(toTime + 1)) ?? latestBlock + 1) - 1;
+
+            const claims: ClaimTransaction[] = [];
+            const { blockRange, maxRangesPerScan } = EVENT_LOG_PAGING;
+            const maxBlocks = blockRange * maxRangesPerScan;
+            if (toBlock - fromBlock + 1 > maxBlocks) {
+                throw new Error(
+                    translate('claimExport.rangeTooLong', { blocks: toBlock - fromBlock + 1, max: maxBlocks }),
+                );
+            }
+
+            for (let start = fromBlock; start <= toBlock; start += blockRange) {
+                const end = Math.min(start + blockRange - 1, toBlock);
+                claims.push(...(await this._blockchainService.getClaimHistory(beneficiaries, start, end)));
+                this._progress$.next(Math.round(((end - fromBlock + 1) / (toBlock - fromBlock + 1)) * 100));
+            }
+
+            return filterClaims(claims, { fromTime, toTime, tokens: [] });
+        } finally {
+            this._progress$.next(null);
+        }
+    }
+
+    /**
+     * Look up the price of each claim's token at claim time
+     * Failures are logged and leave the affected claims unpriced
+     * @param claims Claims to price
+     * @param currency Quote currency
+     * @returns Prices in the order of the claims, null where unknown
+     */
+    async getClaimPrices(claims: ClaimTransaction[], currency: FiatCurrency): Promise<(TokenPrice | null)[]> {
+        const chainId = this._blockchainService.getChainId();
+        const prices: (TokenPrice | null)[] = claims.map(() => null);
+        if (!chainId) {
+            return prices;
+        }
+
+        // Claim indexes by token, so each token's price history is requested once
+        const byToken = new Map<string, { token: TokenInfo; indexes: number[] }>();
+        claims.forEach((claim, index) => {
+            if (!claim.token) {
+                return;
+            }
+            const key = getPriceKey(claim.token.address);
+            const entry = byToken.get(key) ?? { token: claim.token, indexes: [] };
+            entry.indexes.push(index);
+            byToken.set(key, entry);
+        });
+
+        for (const { token, indexes } of byToken.values()) {
+            try {
+                const tokenPrices = await this._priceProvider.getHistoricalPrices(
+                    chainId,
+                    token,
+                    currency,
+                    indexes.map((index) => claims[index].timestamp),
+                );
+                indexes.forEach((claimIndex, i) => (prices[claimIndex] = tokenPrices[i] ?? null));
+            } catch (error) {
+                console.error(`❌ Failed to fetch ${this._priceProvider.source} prices of ${token.symbol}:`, error);
+            }
+        }
+
+        return prices;
+    }
+
+    /**
+     * Filter claims and download them as a file
+     * @param claims Claims read with loadClaims
+     * @param beneficiaries Beneficiaries the claims were read for, written to JSON metadata
+     * @param filter Time range and tokens to include
+     * @param format File format
+     * @param currency Currency of the fiat columns, null to leave them empty
+     */
+    async exportClaims(
+        claims: ClaimTransaction[],
+        beneficiaries: string[],
+        filter: ClaimExportFilter,
+        format: ClaimExportFormat,
+        currency: FiatCurrency | null,
+    ): Promise<void> {
+        const selected = filterClaims(claims, filter);
+        const prices = currency ? await this.getClaimPrices(selected, currency) : selected.map(() => null);
+        const rows = selected.map((claim, index) => toClaimExportRow(claim, currency, prices[index]));
+        const fileName = `claims-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+        if (format === 'csv') {
+            downloadFile(buildClaimsCsv(rows), fileName, 'text/csv');
+            return;
+        }
+
+        const metadata = {
+            generatedAt: Math.floor(Date.now() / 1000),
+            chainId: this._blockchainService.getChainId(),
+            contract: this._blockchainService.getVestingContractAddress(),
+            beneficiaries,
+            filter,
+            priceSource: currency ? this._priceProvider.source : null,
+        };
+        downloadFile(buildClaimsJson(rows, metadata), fileName, 'application/json');
+    }
+}
@@ -0,0 +1 @@
+export * from './claim-export.service';
@@ -0,0 +1,63 @@
+import { DOCUMENT } from '@angular/common';
+import { Injectable, inject } from '@angular/core';
+import { DEFAULT_LOCALE } from '@lib/constants/i18n.constant';
+import type { AppLocale } from '@lib/interfaces/i18n.interface';
+import { matchLocale, setLocale } from '@lib/utils/i18n.util';
+import { storage } from '@lib/utils/storage/storage.utils';
+import { BehaviorSubject, Observable } from 'rxjs';
+
+/**
+ * I18n Service
+ * Keeps the UI language, picked from the stored preference or the browser language, and switches it at runtime
+ */
+@Injectable({
+    providedIn: 'root',
+})
+export class I18nService {
+    private readonly _document = inject(DOCUMENT);
+
+    // State management
+    private readonly _locale$ = new BehaviorSubject<AppLocale>(
+        storage.getItem('locale') ?? matchLocale(navigator.language) ?? DEFAULT_LOCALE,
+    );
+
+    // Public observables
+    public readonly locale$: Observable<AppLocale> = this._locale$.asObservable();
+
+    /**
+     * Get the UI language
+     */
+    get locale(): AppLocale {
+        return this._locale$.value;
+    }
+
+    /**
+     * Apply the initial language to translations and the document
+     */
+    init(): void {
+        this._apply(this._locale$.value);
+    }
+
+    /**
+     * Switch the UI language, remembered across sessions
+     * @param locale Language code
+     */
+    setLocale(locale: AppLocale): void {
+        if (locale === this._locale$.value) {
+            return;
+        }
+
+        storage.setItem('locale', locale);
+        this._apply(locale);
+        this._locale$.next(locale);
+    }
+
+    /**
+     * Set the language translations and formatting use, and the document language for screen readers
+     * @param locale Language code
+     */
+    private _apply(locale: AppLocale): void {
+        setLocale(locale);
+        this._document.documentElement.lang = locale;
+    }
+}
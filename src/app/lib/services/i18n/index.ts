@@ -0,0 +1,2 @@
+export * from './i18n.service';
+export * from './translated-title.strategy';
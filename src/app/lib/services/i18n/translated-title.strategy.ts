@@ -0,0 +1,39 @@
+import { Injectable, inject } from '@angular/core';
+import { Title } from '@angular/platform-browser';
+import { RouterStateSnapshot, TitleStrategy } from '@angular/router';
+import { translate } from '@lib/utils/i18n.util';
+import { skip } from 'rxjs';
+import { I18nService } from './i18n.service';
+
+/**
+ * Title strategy translating route titles, which are translation keys (e.g., "titles.dashboard")
+ * The document title follows language switches, titles that are not keys are shown as they are
+ */
+@Injectable({
+    providedIn: 'root',
+})
+export class TranslatedTitleStrategy extends TitleStrategy {
+    private readonly _title = inject(Title);
+    private readonly _i18nService = inject(I18nService);
+
+    private _key: string | undefined;
+
+    constructor() {
+        super();
+        this._i18nService.locale$.pipe(skip(1)).subscribe(() => this._setTitle());
+    }
+
+    override updateTitle(snapshot: RouterStateSnapshot): void {
+        this._key = this.buildTitle(snapshot);
+        this._setTitle();
+    }
+
+    /**
+     * Set the document title of the current route in the current language
+     */
+    private _setTitle(): void {
+        if (this._key !== undefined) {
+            this._title.setTitle(translate(this._key));
+        }
+    }
+}
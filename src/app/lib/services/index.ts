@@ -1,3 +1,10 @@
+export * from './claim-export/claim-export.service';
+export * from './i18n/i18n.service';
+export * from './i18n/translated-title.strategy';
+export * from './price/price.service';
+export * from './reminder/reminder.service';
 export * from './theme/theme.service';
+export * from './transaction/transaction.service';
+export * from './treasury/treasury.service';
 export * from './vesting/vesting.service';
 export * from './web3/web3.service';
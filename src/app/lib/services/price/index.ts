@@ -0,0 +1,2 @@
+export * from './price.service';
+export * from './providers';
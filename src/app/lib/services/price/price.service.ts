@@ -0,0 +1,134 @@
+import { Injectable, inject } from '@angular/core';
+import { PRICE_CONFIG } from '@lib/constants/price.constant';
+import type { FiatCurrency, FiatValuation, PriceSource, TokenPrice } from '@lib/interfaces/price.interface';
+import type { TokenInfo, VestingSchedule } from '@lib/interfaces/vesting.interface';
+import { PRICE_PROVIDER } from '@lib/providers/price-provider.token';
+import { BlockchainService } from '@lib/services/blockchain/blockchain.service';
+import { VestingService } from '@lib/services/vesting/vesting.service';
+import { translate } from '@lib/utils/i18n.util';
+import { calculateFiatValuation, getPriceKey } from '@lib/utils/price.util';
+import { storage } from '@lib/utils/storage/storage.utils';
+import {
+    BehaviorSubject,
+    Observable,
+    combineLatest,
+    distinctUntilChanged,
+    from,
+    map,
+    shareReplay,
+    switchMap,
+    timer,
+} from 'rxjs';
+
+/**
+ * Price Service
+ * Fetches token prices from the configured price provider and values vesting amounts in the selected currency
+ */
+@Injectable({
+    providedIn: 'root',
+})
+export class PriceService {
+    // Inject services
+    private readonly _priceProvider = inject(PRICE_PROVIDER);
+    private readonly _blockchainService = inject(BlockchainService);
+    private readonly _vestingService = inject(VestingService);
+
+    // State management
+    private readonly _currency$ = new BehaviorSubject<FiatCurrency>(
+        storage.getItem('fiatCurrency') ?? PRICE_CONFIG.defaultCurrency,
+    );
+    private readonly _error$ = new BehaviorSubject<string | null>(null);
+
+    // Public observables
+    public readonly currency$: Observable<FiatCurrency> = this._currency$.asObservable();
+    public readonly error$: Observable<string | null> = this._error$.asObservable();
+
+    // Prices of the loaded schedules' tokens by token key, fetched again on currency change and every refresh interval
+    public readonly prices$: Observable<Map<string, TokenPrice>> = combineLatest([
+        this._vestingService.vestingSchedules$.pipe(
+            map((schedules) => this._getTokens(schedules)),
+            distinctUntilChanged(
+                (a, b) =>
+                    a.map(({ address }) => getPriceKey(address)).join() ===
+                    b.map(({ address }) => getPriceKey(address)).join(),
+            ),
+        ),
+        this._currency$,
+        timer(0, PRICE_CONFIG.refreshIntervalMs),
+    ]).pipe(
+        switchMap(([tokens, currency]) => from(this._fetchPrices(tokens, currency))),
+        shareReplay({ bufferSize: 1, refCount: true }),
+    );
+
+    // Fiat value of the loaded schedules, recalculated on every clock tick
+    public readonly valuation$: Observable<FiatValuation> = combineLatest([
+        this._vestingService.vestingSchedules$,
+        this._vestingService.releases$,
+        this.prices$,
+        this._currency$,
+    ]).pipe(
+        map(([schedules, releases, prices, currency]) => calculateFiatValuation(schedules, releases, prices, currency)),
+        shareReplay({ bufferSize: 1, refCount: true }),
+    );
+
+    /**
+     * Get the selected currency
+     */
+    get currency(): FiatCurrency {
+        return this._currency$.value;
+    }
+
+    /**
+     * Configured price source, shown next to prices
+     */
+    get source(): PriceSource {
+        return this._priceProvider.source;
+    }
+
+    /**
+     * Select the currency fiat values are shown in, remembered across sessions
+     * @param currency Currency code
+     */
+    setCurrency(currency: FiatCurrency): void {
+        if (currency === this._currency$.value) {
+            return;
+        }
+
+        storage.setItem('fiatCurrency', currency);
+        this._currency$.next(currency);
+    }
+
+    /**
+     * Fetch prices from the provider
+     * Failures are reported through error$ and leave every token unpriced
+     * @param tokens Tokens to price
+     * @param currency Quote currency
+     * @returns Prices by token key
+     */
+    private async _fetchPrices(tokens: TokenInfo[], currency: FiatCurrency): Promise<Map<string, TokenPrice>> {
+        const chainId = this._blockchainService.getChainId();
+        if (!chainId || tokens.length === 0) {
+            return new Map();
+        }
+
+        try {
+            const prices = await this._priceProvider.getPrices(chainId, tokens, currency);
+            this._error$.next(null);
+            return new Map(prices.map((price) => [price.token, price]));
+        } catch (error) {
+            console.error(`❌ Failed to fetch ${this._priceProvider.source} prices:`, error);
+            this._error$.next(translate('price.unavailable'));
+            return new Map();
+        }
+    }
+
+    /**
+     * Get the distinct tokens of schedules, sorted by address
+     * @param schedules Vesting schedules
+     * @returns Tokens
+     */
+    private _getTokens(schedules: VestingSchedule[]): TokenInfo[] {
+        const tokens = new Map(schedules.map((schedule) => [getPriceKey(schedule.token.address), schedule.token]));
+        return [...tokens.entries()].sort(([a], [b]) => a.localeCompare(b)).map(([, token]) => token);
+    }
+}
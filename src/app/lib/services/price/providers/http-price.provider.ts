@@ -0,0 +1,121 @@
+import { HttpClient } from '@angular/common/http';
+import { Injectable, inject } from '@angular/core';
+import { getCurrentTimestamp } from '@lib/constants/mock-data.constant';
+import { PRICE_API_PLATFORMS, PRICE_CONFIG } from '@lib/constants/price.constant';
+import type { FiatCurrency, PriceProvider, PriceSource, TokenPrice } from '@lib/interfaces/price.interface';
+import type { TokenInfo } from '@lib/interfaces/vesting.interface';
+import { getPriceKey } from '@lib/utils/price.util';
+import { firstValueFrom } from 'rxjs';
+
+/**
+ * Token price API response: quotes by lowercase token address
+ * Quote keys are lowercase currency codes plus last_updated_at
+ */
+type TokenPriceResponse = Record<string, Record<string, number | undefined>>;
+
+/**
+ * Market chart API response: [time in milliseconds, price] points
+ */
+type MarketChartResponse = {
+    prices: [number, number][];
+};
+
+/**
+ * HTTP Price Provider
+ * Fetches prices from a CoinGecko-compatible simple/token_price endpoint
+ */
+@Injectable({
+    providedIn: 'root',
+})
+export class HttpPriceProvider implements PriceProvider {
+    readonly source: PriceSource = 'http';
+
+    private readonly _http = inject(HttpClient);
+
+    async getPrices(chainId: string, tokens: TokenInfo[], currency: FiatCurrency): Promise<TokenPrice[]> {
+        const platform = PRICE_API_PLATFORMS[chainId.toLowerCase()];
+        if (!platform || tokens.length === 0) {
+            // Testnet and local tokens have no market price
+            return [];
+        }
+
+        const quoteKey = currency.toLowerCase();
+        const response = await firstValueFrom(
+            this._http.get<TokenPriceResponse>(`${PRICE_CONFIG.httpApiUrl}/${platform}`, {
+                params: {
+                    // eslint-disable-next-line @typescript-eslint/naming-convention
+                    contract_addresses: tokens.map((token) => getPriceKey(token.address)).join(','),
+                    // eslint-disable-next-line @typescript-eslint/naming-convention
+                    vs_currencies: quoteKey,
+                    // eslint-disable-next-line @typescript-eslint/naming-convention
+                    include_last_updated_at: true,
+                },
+            }),
+        );
+
+        return tokens.flatMap((token) => {
+            const quote = response[getPriceKey(token.address)];
+            const price = quote?.[quoteKey];
+            return quote && price !== undefined
+                ? [
+                      {
+                          token: getPriceKey(token.address),
+                          symbol: token.symbol,
+                          currency,
+                          price,
+                          timestamp: quote['last_updated_at'] ?? getCurrentTimestamp(),
+                      },
+                  ]
+                : [];
+        });
+    }
+
+    async getHistoricalPrices(
+        chainId: string,
+        token: TokenInfo,
+        currency: FiatCurrency,
+        timestamps: number[],
+    ): Promise<(TokenPrice | null)[]> {
+        const platform = PRICE_API_PLATFORMS[chainId.toLowerCase()];
+        if (!platform || timestamps.length === 0) {
+            return timestamps.map(() => null);
+        }
+
+        // One range request covers every timestamp, each then takes the closest point
+        const gap = PRICE_CONFIG.maxHistoryGapSeconds;
+        const response = await firstValueFrom(
+            this._http.get<MarketChartResponse>(
+                `${PRICE_CONFIG.httpHistoryApiUrl}/${platform}/contract/${getPriceKey(
+                    token.address,
+                )}/market_chart/range`,
+                {
+                    params: {
+                        // eslint-disable-next-line @typescript-eslint/naming-convention
+                        vs_currency: currency.toLowerCase(),
+                        from: Math.min(...timestamps) - gap,
+                        to: Math.max(...timestamps) + gap,
+                    },
+                },
+            ),
+        );
+        const points = response.prices.map(([time, price]) => ({ time: Math.floor(time / 1000), price }));
+
+        return timestamps.map((timestamp) => {
+            let closest: { time: number; price: number } | null = null;
+            for (const point of points) {
+                if (!closest || Math.abs(point.time - timestamp) < Math.abs(closest.time - timestamp)) {
+                    closest = point;
+                }
+            }
+            return closest && Math.abs(closest.time - timestamp) <= gap
+                ? {
+                      token: getPriceKey(token.address),
+                      symbol: token.symbol,
+                      currency,
+                      price: closest.price,
+                      timestamp: closest.time,
+                  }
+                : null;
+        });
+    }
+}
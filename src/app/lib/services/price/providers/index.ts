@@ -0,0 +1,3 @@
+export * from './http-price.provider';
+export * from './mock-price.provider';
+export * from './static-price.provider';
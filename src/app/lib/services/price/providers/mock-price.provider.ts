@@ -0,0 +1,44 @@
+import { Injectable } from '@angular/core';
+import { getCurrentTimestamp } from '@lib/constants/mock-data.constant';
+import { MOCK_EXCHANGE_RATES, MOCK_TOKEN_PRICES } from '@lib/constants/price.constant';
+import type { FiatCurrency, PriceProvider, PriceSource, TokenPrice } from '@lib/interfaces/price.interface';
+import type { TokenInfo } from '@lib/interfaces/vesting.interface';
+import { getPriceKey } from '@lib/utils/price.util';
+
+/**
+ * Mock Price Provider
+ * Prices every token by symbol for local development, where no price source knows the Hardhat tokens
+ */
+@Injectable({
+    providedIn: 'root',
+})
+export class MockPriceProvider implements PriceProvider {
+    readonly source: PriceSource = 'mock';
+
+    async getPrices(_chainId: string, tokens: TokenInfo[], currency: FiatCurrency): Promise<TokenPrice[]> {
+        const timestamp = getCurrentTimestamp();
+        return Promise.resolve(tokens.map((token) => this._getPrice(token, currency, timestamp)));
+    }
+
+    async getHistoricalPrices(
+        _chainId: string,
+        token: TokenInfo,
+        currency: FiatCurrency,
+        timestamps: number[],
+    ): Promise<(TokenPrice | null)[]> {
+        return Promise.resolve(timestamps.map((timestamp) => this._getPrice(token, currency, timestamp)));
+    }
+
+    /**
+     * Get the mock price of a token, the same at every time
+     */
+    private _getPrice(token: TokenInfo, currency: FiatCurrency, timestamp: number): TokenPrice {
+        return {
+            token: getPriceKey(token.address),
+            symbol: token.symbol,
+            currency,
+            price: (MOCK_TOKEN_PRICES[token.symbol] ?? 1) * MOCK_EXCHANGE_RATES[currency],
+            timestamp,
+        };
+    }
+}
@@ -0,0 +1,88 @@
+import { HttpClient } from '@angular/common/http';
+import { Injectable, inject } from '@angular/core';
+import { PRICE_CONFIG } from '@lib/constants/price.constant';
+import type {
+    FiatCurrency,
+    PriceProvider,
+    PriceSource,
+    StaticPriceFile,
+    StaticPricePoint,
+    TokenPrice,
+} from '@lib/interfaces/price.interface';
+import type { TokenInfo } from '@lib/interfaces/vesting.interface';
+import { getPriceKey } from '@lib/utils/price.util';
+import { firstValueFrom } from 'rxjs';
+
+/**
+ * Static Price Provider
+ * Reads prices from the JSON price file shipped with the app, maintained by hand or by a release job
+ */
+@Injectable({
+    providedIn: 'root',
+})
+export class StaticPriceProvider implements PriceProvider {
+    readonly source: PriceSource = 'static';
+
+    private readonly _http = inject(HttpClient);
+
+    async getPrices(chainId: string, tokens: TokenInfo[], currency: FiatCurrency): Promise<TokenPrice[]> {
+        const chainPrices = await this._getChainPrices(chainId);
+
+        return tokens.flatMap((token) => {
+            const entry = chainPrices[getPriceKey(token.address)];
+            const price = entry?.prices[currency];
+            return entry && price !== undefined
+                ? [
+                      {
+                          token: getPriceKey(token.address),
+                          symbol: token.symbol,
+                          currency,
+                          price,
+                          timestamp: entry.updatedAt,
+                      },
+                  ]
+                : [];
+        });
+    }
+
+    async getHistoricalPrices(
+        chainId: string,
+        token: TokenInfo,
+        currency: FiatCurrency,
+        timestamps: number[],
+    ): Promise<(TokenPrice | null)[]> {
+        const entry = (await this._getChainPrices(chainId))[getPriceKey(token.address)];
+        if (!entry) {
+            return timestamps.map(() => null);
+        }
+
+        // The current prices apply from updatedAt, earlier ones from their history point
+        const points: StaticPricePoint[] = [...(entry.history ?? []), { time: entry.updatedAt, prices: entry.prices }]
+            .filter((point) => point.prices[currency] !== undefined)
+            .sort((a, b) => a.time - b.time);
+
+        return timestamps.map((timestamp) => {
+            const point = points.filter((p) => p.time <= timestamp).pop();
+            return point
+                ? {
+                      token: getPriceKey(token.address),
+                      symbol: token.symbol,
+                      currency,
+                      price: point.prices[currency] as number,
+                      timestamp: point.time,
+                  }
+                : null;
+        });
+    }
+
+    /**
+     * Read the prices of one chain from the price file
+     * Fetched on every call so an updated file is picked up on the next refresh
+     * @param chainId Chain ID (hexadecimal)
+     * @returns Prices by token key
+     */
+    private async _getChainPrices(chainId: string): Promise<StaticPriceFile[string]> {
+        const file = await firstValueFrom(this._http.get<StaticPriceFile>(PRICE_CONFIG.staticFileUrl));
+        return file[chainId.toLowerCase()] ?? {};
+    }
+}
@@ -0,0 +1,321 @@
+import { Injectable, inject } from '@angular/core';
+import { Router } from '@angular/router';
+import { getCurrentTimestamp } from '@lib/constants/mock-data.constant';
+import { DEFAULT_REMINDER_PREFERENCES, REMINDER_CONFIG } from '@lib/constants/reminder.constant';
+import type { Reminder, ReminderPermission, ReminderPreferences } from '@lib/interfaces/reminder.interface';
+import { I18nService } from '@lib/services/i18n/i18n.service';
+import { VestingService } from '@lib/services/vesting/vesting.service';
+import { Web3Service } from '@lib/services/web3/web3.service';
+import { getReminders } from '@lib/utils/reminder.util';
+import { storage } from '@lib/utils/storage/storage.utils';
+import {
+    BehaviorSubject,
+    Observable,
+    Subscription,
+    combineLatest,
+    concatMap,
+    filter,
+    map,
+    shareReplay,
+    timer,
+} from 'rxjs';
+
+/**
+ * Service worker registration with Periodic Background Sync, which is not in the DOM typings yet
+ */
+type PeriodicSyncRegistration = ServiceWorkerRegistration & {
+    periodicSync?: {
+        register(tag: string, options: { minInterval: number }): Promise<void>;
+        unregister(tag: string): Promise<void>;
+    };
+};
+
+/**
+ * Reminder Service
+ * Notifies the connected wallet of passed cliffs, claimable amounts reaching a threshold and revoked schedules.
+ * Reminders are shown with the Notification API while the app is open; upcoming ones are handed to a service worker
+ * that shows them on scheduled checks (Periodic Background Sync) while it is closed.
+ */
+@Injectable({
+    providedIn: 'root',
+})
+export class ReminderService {
+    // Inject services
+    private readonly _vestingService = inject(VestingService);
+    private readonly _web3Service = inject(Web3Service);
+    private readonly _router = inject(Router);
+    private readonly _i18nService = inject(I18nService);
+
+    // State management
+    private readonly _preferences$ = new BehaviorSubject<ReminderPreferences>({
+        ...DEFAULT_REMINDER_PREFERENCES,
+        ...storage.getItem('reminderPreferences'),
+    });
+    private readonly _permission$ = new BehaviorSubject<ReminderPermission>(this._getPermission());
+
+    // Public observables
+    public readonly preferences$: Observable<ReminderPreferences> = this._preferences$.asObservable();
+    public readonly permission$: Observable<ReminderPermission> = this._permission$.asObservable();
+
+    // Reminders of the connected wallet's schedules, recalculated every check interval and on language switch
+    public readonly reminders$: Observable<Reminder[]> = combineLatest([
+        this._vestingService.vestingSchedules$,
+        this._web3Service.walletAddress$,
+        this._preferences$,
+        this._i18nService.locale$,
+        timer(0, REMINDER_CONFIG.checkIntervalMs),
+    ]).pipe(
+        map(([schedules, address, preferences]) =>
+            // Schedules of a looked-up address are not the wallet's own
+            address
+                ? getReminders(
+                      schedules.filter((schedule) => schedule.beneficiary.toLowerCase() === address.toLowerCase()),
+                      preferences,
+                      getCurrentTimestamp(),
+                  )
+                : [],
+        ),
+        shareReplay({ bufferSize: 1, refCount: true }),
+    );
+
+    // Keys of reminders already shown
+    private readonly _notified = new Set<string>(storage.getItem('notifiedReminders') ?? []);
+
+    // Set when reminders are switched on: reminders already due then are not shown
+    private _isSeeding = false;
+
+    private _subscription: Subscription | null = null;
+
+    /**
+     * Whether the browser can show notifications
+     */
+    get isSupported(): boolean {
+        return this._permission$.value !== 'unsupported';
+    }
+
+    /**
+     * Current reminder preferences
+     */
+    get preferences(): ReminderPreferences {
+        return this._preferences$.value;
+    }
+
+    /**
+     * Start showing reminders if the user opted in (called once at app start)
+     */
+    init(): void {
+        if (this._subscription) {
+            return;
+        }
+
+        // One update at a time, so overlapping updates can't show the same reminder twice
+        this._subscription = this.reminders$
+            .pipe(
+                filter(() => this.preferences.enabled && this._permission$.value === 'granted'),
+                concatMap((reminders) =>
+                    this._notify(reminders).catch((error) => console.error('Failed to show reminders:', error)),
+                ),
+            )
+            .subscribe();
+
+        if (this.preferences.enabled && this._permission$.value === 'granted') {
+            this._registerServiceWorker();
+        }
+    }
+
+    /**
+     * Opt in to reminders, asking for the notification permission first
+     * @returns Whether reminders are on (false if the permission was not granted)
+     */
+    async enable(): Promise<boolean> {
+        if (!this.isSupported) {
+            return false;
+        }
+
+        const permission = await Notification.requestPermission();
+        this._permission$.next(permission);
+        if (permission !== 'granted') {
+            return false;
+        }
+
+        this._isSeeding = true;
+        this.setPreferences({ enabled: true });
+        await this._registerServiceWorker();
+        return true;
+    }
+
+    /**
+     * Opt out of reminders and stop the service worker's scheduled checks
+     */
+    async disable(): Promise<void> {
+        this.setPreferences({ enabled: false });
+        await this._unregisterServiceWorker();
+    }
+
+    /**
+     * Update reminder preferences, remembered across sessions
+     * @param preferences Changed preferences
+     */
+    setPreferences(preferences: Partial<ReminderPreferences>): void {
+        const updated = { ...this.preferences, ...preferences };
+        storage.setItem('reminderPreferences', updated);
+        this._preferences$.next(updated);
+    }
+
+    /**
+     * Set or clear the claimable amount a schedule is reminded at
+     * @param scheduleId Vesting schedule ID
+     * @param threshold Amount in token units, null to clear
+     */
+    setThreshold(scheduleId: string, threshold: string | null): void {
+        const thresholds = { ...this.preferences.thresholds };
+        if (threshold) {
+            thresholds[scheduleId.toLowerCase()] = threshold;
+        } else {
+            delete thresholds[scheduleId.toLowerCase()];
+        }
+        this.setPreferences({ thresholds });
+    }
+
+    /**
+     * Show due reminders that weren't shown yet and hand upcoming ones to the service worker
+     * A reminder that is no longer due (e.g. claimable amount dropped after a claim) is shown again when due again
+     * @param reminders Reminders of the connected wallet
+     */
+    private async _notify(reminders: Reminder[]): Promise<void> {
+        const now = getCurrentTimestamp();
+        const registration = await this._getServiceWorkerRegistration();
+
+        // Don't show what the service worker showed while the app was closed
+        for (const key of await this._takeShownByServiceWorker(registration)) {
+            this._notified.add(key);
+        }
+
+        for (const reminder of reminders) {
+            if (reminder.time > now) {
+                this._notified.delete(reminder.key);
+            } else if (!this._notified.has(reminder.key)) {
+                if (!this._isSeeding) {
+                    this._showNotification(reminder, registration);
+                }
+                this._notified.add(reminder.key);
+            }
+        }
+        this._isSeeding = false;
+        storage.setItem('notifiedReminders', [...this._notified]);
+
+        // Hand upcoming reminders to the service worker, replacing the ones it has
+        registration?.active?.postMessage({
+            type: 'reminders',
+            reminders: reminders
+                .filter(({ time }) => time > now && time <= now + REMINDER_CONFIG.horizonSeconds)
+                .map((reminder) => ({ ...reminder, url: this._getScheduleUrl(reminder.scheduleId) })),
+        });
+    }
+
+    /**
+     * Show a reminder, through the service worker when registered (required on mobile browsers)
+     */
+    private async _showNotification(reminder: Reminder, registration: ServiceWorkerRegistration | null): Promise<void> {
+        const url = this._getScheduleUrl(reminder.scheduleId);
+        const options: NotificationOptions = {
+            body: reminder.body,
+            tag: reminder.key,
+            icon: REMINDER_CONFIG.icon,
+            data: { url },
+        };
+
+        try {
+            if (registration) {
+                await registration.showNotification(reminder.title, options);
+                return;
+            }
+
+            const notification = new Notification(reminder.title, options);
+            notification.onclick = (): void => {
+                window.focus();
+                this._router.navigateByUrl(url);
+            };
+        } catch (error) {
+            console.error('❌ Failed to show reminder:', error);
+        }
+    }
+
+    /**
+     * Register the reminder service worker and its scheduled checks
+     * Periodic Background Sync is only available to installed apps in some browsers; without it the service worker
+     * still shows reminders when the browser wakes it, and the app shows them while open
+     */
+    private async _registerServiceWorker(): Promise<void> {
+        if (!('serviceWorker' in navigator)) {
+            return;
+        }
+
+        try {
+            await navigator.serviceWorker.register(REMINDER_CONFIG.serviceWorkerUrl);
+            const registration = (await navigator.serviceWorker.ready) as PeriodicSyncRegistration;
+            await registration.periodicSync?.register(REMINDER_CONFIG.periodicSyncTag, {
+                minInterval: REMINDER_CONFIG.periodicSyncIntervalMs,
+            });
+        } catch (error) {
+            console.warn('⚠️ Scheduled reminder checks are unavailable:', error);
+        }
+    }
+
+    /**
+     * Unregister the reminder service worker, dropping its reminders and scheduled checks
+     */
+    private async _unregisterServiceWorker(): Promise<void> {
+        const registration = await this._getServiceWorkerRegistration();
+        await registration?.unregister();
+        if ('caches' in window) {
+            await caches.delete(REMINDER_CONFIG.cacheName);
+        }
+    }
+
+    /**
+     * Read and clear the keys of reminders the service worker showed
+     */
+    private async _takeShownByServiceWorker(registration: ServiceWorkerRegistration | null): Promise<string[]> {
+        if (!registration || !('caches' in window)) {
+            return [];
+        }
+
+        try {
+            const cache = await caches.open(REMINDER_CONFIG.cacheName);
+            const url = new URL(REMINDER_CONFIG.shownCacheKey, registration.scope).href;
+            const response = await cache.match(url);
+            await cache.delete(url);
+            return response ? ((await response.json()) as string[]) : [];
+        } catch (error) {
+            console.error('❌ Failed to read reminders shown by the service worker:', error);
+            return [];
+        }
+    }
+
+    /**
+     * Get the reminder service worker registration, if registered
+     */
+    private async _getServiceWorkerRegistration(): Promise<ServiceWorkerRegistration | null> {
+        if (!('serviceWorker' in navigator)) {
+            return null;
+        }
+
+        const registration = await navigator.serviceWorker.getRegistration(REMINDER_CONFIG.serviceWorkerUrl);
+        return registration ?? null;
+    }
+
+    /**
+     * Get the app URL of a schedule's detail page
+     */
+    private _getScheduleUrl(scheduleId: string): string {
+        return `/vesting/schedules/${scheduleId}`;
+    }
+
+    /**
+     * Read the notification permission
+     */
+    private _getPermission(): ReminderPermission {
+        return typeof Notification === 'undefined' ? 'unsupported' : Notification.permission;
+    }
+}
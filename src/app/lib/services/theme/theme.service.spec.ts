@@ -48,4 +48,15 @@ describe('ThemeService', () => {
         const bodyClasses = document.body.classList;
         expect(bodyClasses.contains('dark')).toBeTruthy();
     });
+
+    it('should resolve dark mode from the current theme', () => {
+        const values: boolean[] = [];
+        service.isDark$.subscribe((isDark) => values.push(isDark));
+
+        service.setTheme('dark');
+        service.setTheme('light');
+        service.setTheme('system');
+
+        expect(values.slice(-3)).toEqual([true, false, service.systemTheme === 'dark']);
+    });
 });
@@ -2,8 +2,8 @@ import { DOCUMENT } from '@angular/common';
 import { Injectable, OnDestroy, inject } from '@angular/core';
 import { DEFAULT_BASE_THEME } from '@lib/constants';
 import { storage } from '@lib/utils';
-import { BehaviorSubject, Subject, fromEventPattern } from 'rxjs';
-import { takeUntil } from 'rxjs/operators';
+import { BehaviorSubject, Observable, Subject, fromEventPattern } from 'rxjs';
+import { map, takeUntil } from 'rxjs/operators';
 import { AppTheme } from './theme.config';
 
 @Injectable({
@@ -18,6 +18,14 @@ export class ThemeService implements OnDestroy {
 
     private readonly _mediaQuery = window.matchMedia('(prefers-color-scheme: dark)');
 
+    /**
+     * Whether the dark theme is shown, with "system" resolved to the OS preference
+     * Emits again when the OS preference changes while the theme is "system"
+     */
+    isDark$: Observable<boolean> = this.currentTheme$.pipe(
+        map((theme) => (theme === 'system' ? this.systemTheme : theme) === 'dark'),
+    );
+
     public get currentTheme(): AppTheme | null {
         return this.currentTheme$.getValue();
     }
@@ -0,0 +1,363 @@
+import { Injectable, inject } from '@angular/core';
+import { getNetworkConfig, TRANSACTION_TRACKING } from '@lib/constants/contracts.constant';
+import { getCurrentTimestamp } from '@lib/constants/mock-data.constant';
+import type { TrackedTransaction, TrackedTransactionDetails } from '@lib/interfaces/transaction.interface';
+import { TransactionStatus } from '@lib/interfaces/vesting.interface';
+import { BlockchainService } from '@lib/services/blockchain/blockchain.service';
+import { storage } from '@lib/utils';
+import { getRevertReason } from '@lib/utils/transaction.util';
+import { ethers } from 'ethers';
+import { BehaviorSubject, Observable, Subject, filter } from 'rxjs';
+
+/**
+ * Error thrown by ethers when a transaction is replaced by another one with the same nonce,
+ * or when it reverted (CALL_EXCEPTION with the receipt)
+ */
+type TransactionReplacedError = Error & {
+    code: string;
+    replacement: ethers.providers.TransactionResponse;
+    receipt?: ethers.providers.TransactionReceipt;
+};
+
+const REPLACED_ERROR = 'Transaction was cancelled or replaced by a different transaction';
+
+/**
+ * Transaction Service
+ * Tracks submitted transactions until they are confirmed, fail, or get dropped or replaced
+ */
+@Injectable({
+    providedIn: 'root',
+})
+export class TransactionService {
+    // State management
+    private readonly _transactions$ = new BehaviorSubject<TrackedTransaction[]>(
+        storage.getItem('pendingTransactions') ?? [],
+    );
+    private readonly _completed$ = new Subject<TrackedTransaction>();
+
+    // Public observables
+    public readonly transactions$: Observable<TrackedTransaction[]> = this._transactions$.asObservable();
+    public readonly completed$: Observable<TrackedTransaction> = this._completed$.asObservable();
+
+    // Running watchers by transaction hash
+    private readonly _watchers = new Map<string, Promise<TrackedTransaction>>();
+
+    // Inject BlockchainService
+    private readonly _blockchainService = inject(BlockchainService);
+
+    constructor() {
+        // Resume tracking of transactions left pending by a previous page load
+        this._blockchainService.initialized$.pipe(filter(Boolean)).subscribe(() => {
+            this._resumePending();
+        });
+    }
+
+    /**
+     * Start tracking a submitted transaction
+     * @param tx Submitted transaction
+     * @param details What the transaction does
+     * @param requiredConfirmations Confirmations needed (defaults to the network setting)
+     * @returns Tracked transaction once it is CONFIRMED or FAILED
+     */
+    public async track(
+        tx: ethers.ContractTransaction,
+        details: TrackedTransactionDetails,
+        requiredConfirmations?: number,
+    ): Promise<TrackedTransaction> {
+        const chainId = this._blockchainService.getChainId() ?? `0x${tx.chainId.toString(16)}`;
+        const startBlock = await this._blockchainService.getBlockNumber();
+
+        const transaction: TrackedTransaction = {
+            ...details,
+            hash: tx.hash,
+            chainId,
+            from: tx.from,
+            to: tx.to ?? '',
+            nonce: tx.nonce,
+            data: tx.data,
+            value: tx.value.toString(),
+            startBlock,
+            submittedAt: getCurrentTimestamp(),
+            status: TransactionStatus.PENDING,
+            confirmations: 0,
+            requiredConfirmations: requiredConfirmations ?? getNetworkConfig(chainId)?.confirmations ?? 1,
+        };
+
+        this._upsert(transaction);
+        return this._watch(transaction, tx);
+    }
+
+    /**
+     * Remove finished transactions from the list
+     */
+    public clearFinished(): void {
+        this._transactions$.next(this._transactions$.value.filter((tx) => tx.status === TransactionStatus.PENDING));
+    }
+
+    /**
+     * Resume watching pending transactions sent on the current network
+     */
+    private _resumePending(): void {
+        const chainId = this._blockchainService.getChainId();
+
+        this._transactions$.value
+            .filter((tx) => tx.status === TransactionStatus.PENDING && tx.chainId === chainId)
+            .forEach((tx) => {
+                if (!this._watchers.has(tx.hash)) {
+                    console.log('🔁 Resuming transaction tracking:', tx.hash);
+                    const resumed = { ...tx, resumed: true };
+                    this._upsert(resumed);
+                    this._watch(resumed);
+                }
+            });
+    }
+
+    /**
+     * Watch a transaction once, sharing the result between callers
+     * @param transaction Tracked transaction
+     * @param response Submitted transaction, missing when resuming after a page load
+     */
+    private _watch(
+        transaction: TrackedTransaction,
+        response?: ethers.providers.TransactionResponse,
+    ): Promise<TrackedTransaction> {
+        const existing = this._watchers.get(transaction.hash);
+        if (existing) {
+            return existing;
+        }
+
+        const watcher = this._waitForFinalState(transaction, response).then((final) => {
+            this._watchers.delete(transaction.hash);
+            // After a cancellation replacedHash is the last followed hash, which may itself be a speed-up
+            this._upsert(final, final.replacedHash);
+            this._completed$.next(final);
+            return final;
+        });
+        this._watchers.set(transaction.hash, watcher);
+
+        return watcher;
+    }
+
+    /**
+     * Wait until a transaction is confirmed, reverted, dropped or cancelled
+     * Replacements reported by ethers' wait() or found by the poll are followed when they make the same call
+     */
+    private async _waitForFinalState(
+        transaction: TrackedTransaction,
+        response?: ethers.providers.TransactionResponse,
+    ): Promise<TrackedTransaction> {
+        const provider = this._blockchainService.getProvider();
+        if (!provider) {
+            return transaction;
+        }
+
+        let current = transaction;
+        let isSettled = false;
+        let pollGeneration = 0;
+
+        // Poll confirmations and watch for drops and replacements while ethers waits for the receipt
+        // Failed RPC requests are retried on the next poll; a restarted poll ends the previous loop
+        const poll = async (): Promise<never> => {
+            const generation = ++pollGeneration;
+            while (!isSettled && generation === pollGeneration) {
+                await new Promise((resolve) => setTimeout(resolve, TRANSACTION_TRACKING.pollIntervalMs));
+                if (isSettled || generation !== pollGeneration) {
+                    break;
+                }
+
+                let missingError: Error | null = null;
+                try {
+                    const [receipt, pending] = await Promise.all([
+                        provider.getTransactionReceipt(current.hash),
+                        provider.getTransaction(current.hash),
+                    ]);
+                    if (receipt && receipt.confirmations !== current.confirmations) {
+                        current = { ...current, confirmations: receipt.confirmations };
+                        this._upsert(current);
+                    }
+                    if (!receipt && !pending) {
+                        missingError = await this._getMissingError(provider, current);
+                    }
+                } catch (error) {
+                    console.warn('Transaction poll failed, retrying:', current.hash, error);
+                }
+
+                if (missingError) {
+                    throw missingError;
+                }
+            }
+            return new Promise<never>(() => undefined);
+        };
+
+        let waiting = response
+            ? response.wait(current.requiredConfirmations)
+            : provider.waitForTransaction(current.hash, current.requiredConfirmations);
+        let polling = poll();
+
+        try {
+            let receipt: ethers.providers.TransactionReceipt | null = null;
+            while (!receipt) {
+                try {
+                    receipt = await Promise.race([waiting, polling]);
+                } catch (error) {
+                    const failure = error as TransactionReplacedError;
+                    if (failure.code === ethers.errors.CALL_EXCEPTION && failure.receipt) {
+                        // wait() rejects reverted transactions, their receipt is handled below
+                        receipt = failure.receipt;
+                    } else if (failure.code !== ethers.errors.TRANSACTION_REPLACED) {
+                        throw error;
+                    } else if (!this._isSameCall(failure.replacement, current)) {
+                        return this._finish(current, TransactionStatus.FAILED, {
+                            error: REPLACED_ERROR,
+                            hash: failure.replacement.hash,
+                            replacedHash: current.hash,
+                        });
+                    } else {
+                        // Sped up: same call with a higher fee, follow the replacement in the same race
+                        console.log('⏩ Transaction sped up:', current.hash, '→', failure.replacement.hash);
+                        const previousHash = current.hash;
+                        current = {
+                            ...current,
+                            hash: failure.replacement.hash,
+                            replacedHash: current.replacedHash ?? current.hash,
+                            confirmations: 0,
+                        };
+                        this._upsert(current, previousHash);
+                        waiting = provider.waitForTransaction(current.hash, current.requiredConfirmations);
+                        polling = poll();
+                    }
+                }
+            }
+
+            if (receipt.status === 0) {
+                return this._finish(current, TransactionStatus.FAILED, {
+                    confirmations: receipt.confirmations,
+                    error: await this._getRevertReason(provider, current, receipt.blockNumber),
+                });
+            }
+
+            return this._finish(current, TransactionStatus.CONFIRMED, { confirmations: receipt.confirmations });
+        } catch (error) {
+            console.error('Transaction tracking failed:', current.hash, error);
+            return this._finish(current, TransactionStatus.FAILED, {
+                error: error instanceof Error ? error.message : String(error),
+            });
+        } finally {
+            isSettled = true;
+        }
+    }
+
+    /**
+     * Why a transaction unknown to the node has ended, or null while it may still be mined
+     * Only after a grace period: dropped while its nonce is unused, replaced once the nonce was mined
+     * @returns Dropped error, TRANSACTION_REPLACED error with the replacement if found, or null
+     */
+    private async _getMissingError(
+        provider: ethers.providers.JsonRpcProvider,
+        transaction: TrackedTransaction,
+    ): Promise<Error | null> {
+        if (getCurrentTimestamp() - transaction.submittedAt < TRANSACTION_TRACKING.droppedAfterSeconds) {
+            return null;
+        }
+
+        const nonce = await provider.getTransactionCount(transaction.from, 'latest');
+        if (nonce <= transaction.nonce) {
+            return new Error('Transaction was dropped from the mempool');
+        }
+
+        const replacement = await this._findReplacement(provider, transaction).catch((error) => {
+            console.warn('Could not find the replacement transaction:', transaction.hash, error);
+            return null;
+        });
+        if (!replacement) {
+            return new Error(REPLACED_ERROR);
+        }
+
+        return Object.assign(new Error(REPLACED_ERROR), { code: ethers.errors.TRANSACTION_REPLACED, replacement });
+    }
+
+    /**
+     * Find the mined transaction that used the nonce of a transaction
+     * Binary searches the block where the sender nonce moved past it, from the block the transaction was sent in
+     */
+    private async _findReplacement(
+        provider: ethers.providers.JsonRpcProvider,
+        transaction: TrackedTransaction,
+    ): Promise<ethers.providers.TransactionResponse | null> {
+        let low = transaction.startBlock;
+        let high = await provider.getBlockNumber();
+        while (low < high) {
+            const middle = Math.floor((low + high) / 2);
+            if ((await provider.getTransactionCount(transaction.from, middle)) > transaction.nonce) {
+                high = middle;
+            } else {
+                low = middle + 1;
+            }
+        }
+
+        const block = await provider.getBlockWithTransactions(low);
+        const from = transaction.from.toLowerCase();
+        return (
+            block.transactions.find((tx) => tx.from.toLowerCase() === from && tx.nonce === transaction.nonce) ?? null
+        );
+    }
+
+    /**
+     * Whether a replacement makes the same call as the tracked transaction (sped up rather than cancelled)
+     */
+    private _isSameCall(replacement: ethers.providers.TransactionResponse, transaction: TrackedTransaction): boolean {
+        return (
+            (replacement.to ?? '').toLowerCase() === transaction.to.toLowerCase() &&
+            replacement.data === transaction.data &&
+            replacement.value.eq(transaction.value)
+        );
+    }
+
+    /**
+     * Replay a reverted transaction as a call to read its revert reason
+     */
+    private async _getRevertReason(
+        provider: ethers.providers.JsonRpcProvider,
+        transaction: TrackedTransaction,
+        blockNumber: number,
+    ): Promise<string> {
+        try {
+            await provider.call(
+                { from: transaction.from, to: transaction.to, data: transaction.data, value: transaction.value },
+                blockNumber,
+            );
+            return 'Transaction reverted';
+        } catch (error) {
+            return getRevertReason(error, this._blockchainService.getVestingInterface() ?? undefined);
+        }
+    }
+
+    /**
+     * Build the final state of a transaction
+     */
+    private _finish(
+        transaction: TrackedTransaction,
+        status: TransactionStatus,
+        changes: Partial<TrackedTransaction> = {},
+    ): TrackedTransaction {
+        return { ...transaction, ...changes, status };
+    }
+
+    /**
+     * Insert or update a transaction and persist the pending ones
+     * @param transaction Transaction to store
+     * @param previousHash Hash the transaction was stored under, if it changed (replacement)
+     */
+    private _upsert(transaction: TrackedTransaction, previousHash = transaction.hash): void {
+        const others = this._transactions$.value.filter(
+            (tx) => tx.hash !== previousHash && tx.hash !== transaction.hash,
+        );
+        const transactions = [transaction, ...others].sort((a, b) => b.submittedAt - a.submittedAt);
+
+        this._transactions$.next(transactions);
+        storage.setItem(
+            'pendingTransactions',
+            transactions.filter((tx) => tx.status === TransactionStatus.PENDING),
+        );
+    }
+}
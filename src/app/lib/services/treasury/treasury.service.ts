@@ -0,0 +1,120 @@
+import { Injectable, inject } from '@angular/core';
+import { EVENT_LOG_PAGING } from '@lib/constants/contracts.constant';
+import { getCurrentTimestamp } from '@lib/constants/mock-data.constant';
+import type { TokenAmount } from '@lib/interfaces/amount.interface';
+import type { TokenTreasury } from '@lib/interfaces/treasury.interface';
+import { BlockchainService } from '@lib/services/blockchain/blockchain.service';
+import { compareAmounts, subtractAmounts } from '@lib/utils/amount.util';
+import { calculateTokenTreasury } from '@lib/utils/treasury.util';
+import { BehaviorSubject, Observable } from 'rxjs';
+
+/**
+ * Treasury Service
+ * Compares what the vesting contract holds with what it owes, and withdraws the surplus for the owner
+ */
+@Injectable({
+    providedIn: 'root',
+})
+export class TreasuryService {
+    // Inject services
+    private readonly _blockchainService = inject(BlockchainService);
+
+    // State management
+    private readonly _progress$ = new BehaviorSubject<number | null>(null);
+    private readonly _hasOlderSchedules$ = new BehaviorSubject<boolean>(false);
+
+    // Schedule paging: VestingScheduleCreated logs are scanned from the latest block backwards
+    private readonly _scheduleIds = new Set<string>();
+    private _scheduleCursor: number | null = null; // Next block to scan down from, null when fully scanned
+
+    // Public observables
+    // Log scan progress in percent, null when idle
+    public readonly progress$: Observable<number | null> = this._progress$.asObservable();
+    // Whether older blocks may hold schedules that are not part of the claimable amounts and projections yet
+    public readonly hasOlderSchedules$: Observable<boolean> = this._hasOlderSchedules$.asObservable();
+
+    /**
+     * Read the solvency of every token with schedules, plus the known tokens of the network
+     * Scans the most recent block ranges for schedules; call loadOlderSchedules to include older ones
+     * @returns Treasury of each token, sorted by symbol
+     */
+    async loadTreasury(): Promise<TokenTreasury[]> {
+        this._scheduleIds.clear();
+        this._scheduleCursor = await this._blockchainService.getBlockNumber();
+        this._hasOlderSchedules$.next(false);
+
+        return this.loadOlderSchedules();
+    }
+
+    /**
+     * Scan the next older block ranges for VestingScheduleCreated logs and read the treasury again
+     * Balances and locked totals come from the contract, only claimable amounts and projections depend on the scan
+     * @returns Treasury of each token, sorted by symbol
+     */
+    async loadOlderSchedules(): Promise<TokenTreasury[]> {
+        this._progress$.next(0);
+
+        try {
+            let cursor = this._scheduleCursor;
+            if (cursor !== null) {
+                const deploymentBlock = await this._blockchainService.getDeploymentBlock();
+                const { blockRange, rangesPerLoad } = EVENT_LOG_PAGING;
+
+                for (let i = 0; i < rangesPerLoad && cursor !== null; i++) {
+                    const fromBlock = Math.max(deploymentBlock, cursor - blockRange + 1);
+                    const ids = await this._blockchainService.getCreatedScheduleIds(fromBlock, cursor);
+                    ids.forEach((id) => this._scheduleIds.add(id));
+                    cursor = fromBlock > deploymentBlock ? fromBlock - 1 : null;
+                    this._progress$.next(Math.round(((i + 1) / rangesPerLoad) * 100));
+                }
+
+                this._scheduleCursor = cursor;
+                this._hasOlderSchedules$.next(cursor !== null);
+            }
+
+            const schedules = await this._blockchainService.getVestingSchedulesById([...this._scheduleIds]);
+
+            // Known tokens are listed even without schedules, tokens sent there by mistake are withdrawable
+            const tokenAddresses = new Map<string, string>();
+            for (const address of [
+                ...schedules.map((schedule) => schedule.token.address),
+                ...Object.values(this._blockchainService.getKnownTokens()),
+            ]) {
+                tokenAddresses.set(address.toLowerCase(), address);
+            }
+
+            const balances = await this._blockchainService.getTreasuryBalances([...tokenAddresses.values()]);
+            const currentTime = getCurrentTimestamp();
+
+            return balances
+                .map((balance) => calculateTokenTreasury(balance, schedules, currentTime))
+                .sort((a, b) => a.token.symbol.localeCompare(b.token.symbol));
+        } finally {
+            this._progress$.next(null);
+        }
+    }
+
+    /**
+     * Withdraw tokens held beyond the locked amount to the owner
+     * Re-reads the balance first and refuses anything that would leave less than totalLockedTokens
+     * @param tokenAddress Token address
+     * @param amount Amount to withdraw
+     * @returns Transaction hash
+     */
+    async emergencyWithdraw(tokenAddress: string, amount: TokenAmount): Promise<string> {
+        if (amount.value <= 0n) {
+            throw new Error('Withdrawal amount must be positive');
+        }
+
+        const [{ balance, totalLocked }] = await this._blockchainService.getTreasuryBalances([tokenAddress]);
+        const surplus = subtractAmounts(balance, totalLocked);
+        if (surplus.value < 0n) {
+            throw new Error('The contract holds less than the locked amount, nothing can be withdrawn');
+        }
+        if (compareAmounts(amount, surplus) > 0) {
+            throw new Error('Withdrawal exceeds the tokens held beyond the locked amount');
+        }
+
+        return this._blockchainService.emergencyWithdraw(tokenAddress, amount.value.toString());
+    }
+}
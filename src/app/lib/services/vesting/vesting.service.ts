@@ -1,15 +1,34 @@
 import { Injectable, inject } from '@angular/core';
 import type {
     ClaimTransaction,
+    VestingEvent,
     VestingRelease,
     VestingSchedule,
     VestingStats,
 } from '@lib/interfaces/vesting.interface';
 import { TransactionStatus, VestingStatus } from '@lib/interfaces/vesting.interface';
 import { getCurrentTimestamp, MOCK_VESTING_SCHEDULES, MOCK_WALLET_ADDRESS } from '@lib/constants/mock-data.constant';
-import { calculateVestingRelease, getVestingStatus } from '@lib/utils/vesting.util';
-import { BehaviorSubject, Observable } from 'rxjs';
+import { EVENT_LOG_PAGING, LIVE_UPDATES } from '@lib/constants/contracts.constant';
+import { calculateVestingRelease, calculateVestingStats, getVestingStatus } from '@lib/utils/vesting.util';
+import { isZeroAmount, toDecimalString } from '@lib/utils/amount.util';
+import type { TrackedTransaction } from '@lib/interfaces/transaction.interface';
+import {
+    BehaviorSubject,
+    Observable,
+    Subscription,
+    buffer,
+    combineLatest,
+    debounceTime,
+    distinctUntilChanged,
+    filter,
+    interval,
+    map,
+    share,
+    shareReplay,
+    startWith,
+} from 'rxjs';
 import { BlockchainService } from '@lib/services/blockchain/blockchain.service';
+import { TransactionService } from '@lib/services/transaction/transaction.service';
 
 /**
  * Vesting Service
@@ -21,26 +40,83 @@ import { BlockchainService } from '@lib/services/blockchain/blockchain.service';
 export class VestingService {
     // State management
     private readonly _vestingSchedules$ = new BehaviorSubject<VestingSchedule[]>([]);
-    private readonly _stats$ = new BehaviorSubject<VestingStats | null>(null);
+    private readonly _statsSchedules$ = new BehaviorSubject<VestingSchedule[] | null>(null); // Null until loaded
     private readonly _claimHistory$ = new BehaviorSubject<ClaimTransaction[]>([]);
     private readonly _loading$ = new BehaviorSubject<boolean>(false);
     private readonly _error$ = new BehaviorSubject<string | null>(null);
+    private readonly _claimHistoryLoading$ = new BehaviorSubject<boolean>(false);
+    private readonly _hasMoreClaimHistory$ = new BehaviorSubject<boolean>(false);
 
     // Public observables
     public readonly vestingSchedules$: Observable<VestingSchedule[]> = this._vestingSchedules$.asObservable();
-    public readonly stats$: Observable<VestingStats | null> = this._stats$.asObservable();
     public readonly claimHistory$: Observable<ClaimTransaction[]> = this._claimHistory$.asObservable();
     public readonly loading$: Observable<boolean> = this._loading$.asObservable();
     public readonly error$: Observable<string | null> = this._error$.asObservable();
+    public readonly claimHistoryLoading$: Observable<boolean> = this._claimHistoryLoading$.asObservable();
+    public readonly hasMoreClaimHistory$: Observable<boolean> = this._hasMoreClaimHistory$.asObservable();
+
+    // Shared clock (Unix seconds), ticks while anything is subscribed
+    public readonly now$: Observable<number> = interval(LIVE_UPDATES.clockIntervalMs).pipe(
+        startWith(0),
+        map(() => getCurrentTimestamp()),
+        distinctUntilChanged(),
+        shareReplay({ bufferSize: 1, refCount: true }),
+    );
+
+    // Release calculations by schedule ID, recalculated on every clock tick
+    public readonly releases$: Observable<Map<string, VestingRelease>> = combineLatest([
+        this._vestingSchedules$,
+        this.now$,
+    ]).pipe(
+        map(
+            ([schedules, now]) =>
+                new Map(schedules.map((schedule) => [schedule.id, calculateVestingRelease(schedule, now)])),
+        ),
+        shareReplay({ bufferSize: 1, refCount: true }),
+    );
+
+    // Statistics, recalculated on every clock tick
+    public readonly stats$: Observable<VestingStats | null> = combineLatest([this._statsSchedules$, this.now$]).pipe(
+        map(([schedules, now]) => (schedules ? calculateVestingStats(schedules, now) : null)),
+        shareReplay({ bufferSize: 1, refCount: true }),
+    );
 
     // Current wallet address
     private _currentAddress: string | null = null;
 
-    // Inject BlockchainService
+    // Claim history paging: logs are scanned from the latest block backwards
+    private _claimHistoryAddress: string | null = null;
+    private _claimHistoryCursor: number | null = null; // Next block to scan down from, null when fully scanned
+
+    // Contract event subscription for the current wallet
+    private _eventsAddress: string | null = null;
+    private _eventsSubscription: Subscription | null = null;
+
+    // Latest transactions from the transaction tracker
+    private _trackedTransactions: TrackedTransaction[] = [];
+
+    // Inject services
     private readonly _blockchainService = inject(BlockchainService);
+    private readonly _transactionService = inject(TransactionService);
+
+    // Whether the vesting contract is paused, claims revert while it is
+    public readonly paused$: Observable<boolean> = this._blockchainService
+        .watchPaused()
+        .pipe(shareReplay({ bufferSize: 1, refCount: true }));
 
     constructor() {
         // Don't load mock data - we'll load real blockchain data when wallet connects
+
+        // Keep claim statuses in sync with the transaction tracker
+        this._transactionService.transactions$.subscribe((transactions) => {
+            this._trackedTransactions = transactions;
+            this._syncClaimTransactions();
+        });
+
+        // Claims resumed after a reload finish outside claimTokens, refresh balances here
+        this._transactionService.completed$.pipe(filter((tx) => !!tx.resumed && !!tx.vestingId)).subscribe(() => {
+            void this.refresh();
+        });
     }
 
     /**
@@ -51,6 +127,8 @@ export class VestingService {
         this._loading$.next(true);
         this._error$.next(null);
         this._currentAddress = address;
+        this._watchVestingEvents(address);
+        this._syncClaimTransactions();
 
         try {
             // Fetch real vesting schedules from blockchain
@@ -92,12 +170,39 @@ export class VestingService {
         return calculateVestingRelease(schedule, currentTime);
     }
 
+    /**
+     * Reload schedules and stats for the current wallet
+     */
+    public async refresh(): Promise<void> {
+        if (this._currentAddress) {
+            await this.loadVestingSchedules(this._currentAddress);
+        }
+    }
+
+    /**
+     * Forget the loaded schedules, stats and claim history
+     */
+    public clear(): void {
+        this._currentAddress = null;
+        this._claimHistoryAddress = null;
+        this._claimHistoryCursor = null;
+        this._eventsSubscription?.unsubscribe();
+        this._eventsSubscription = null;
+        this._eventsAddress = null;
+        this._vestingSchedules$.next([]);
+        this._statsSchedules$.next(null);
+        this._claimHistory$.next([]);
+        this._hasMoreClaimHistory$.next(false);
+        this._error$.next(null);
+    }
+
     /**
      * Claim vested tokens
      * @param scheduleId Vesting schedule ID
+     * @param shouldReload Reload schedules and stats after the claim (disable when claiming several in a row)
      * @returns Transaction hash
      */
-    public async claimTokens(scheduleId: string): Promise<string> {
+    public async claimTokens(scheduleId: string, shouldReload = true): Promise<string> {
         this._loading$.next(true);
         this._error$.next(null);
 
@@ -113,32 +218,46 @@ export class VestingService {
             }
 
             const release = this.getVestingRelease(scheduleId);
-            if (!release || parseFloat(release.claimable) === 0) {
+            if (!release || isZeroAmount(release.claimable)) {
                 throw new Error('No tokens available to claim');
             }
-
-            // Execute real blockchain transaction
-            const txHash = await this._blockchainService.claimTokens(scheduleId, schedule.token.address);
-
-            // Create transaction record
-            const transaction: ClaimTransaction = {
-                id: txHash,
+            if (await this._blockchainService.isPaused()) {
+                throw new Error('Claims are paused by the contract owner');
+            }
+            const amount = toDecimalString(release.claimable);
+
+            // Submit the blockchain transaction
+            const tx = await this._blockchainService.claimTokens(scheduleId, schedule.token.address);
+
+            // Record the claim as pending while it is mined
+            this._mergeClaimHistory([
+                {
+                    id: tx.hash,
+                    vestingId: scheduleId,
+                    amount,
+                    timestamp: getCurrentTimestamp(),
+                    status: TransactionStatus.PENDING,
+                    token: schedule.token,
+                },
+            ]);
+
+            // Wait for confirmation, following speed-ups and reporting reverts
+            const tracked = await this._transactionService.track(tx, {
+                description: `Claim ${amount} ${schedule.token.symbol}`,
                 vestingId: scheduleId,
-                amount: release.claimable,
-                timestamp: getCurrentTimestamp(),
-                status: TransactionStatus.CONFIRMED,
-            };
-
-            // Update claim history
-            const history = [...this._claimHistory$.value, transaction];
-            this._claimHistory$.next(history);
+                amount,
+                token: schedule.token,
+            });
+            if (tracked.status === TransactionStatus.FAILED) {
+                throw new Error(tracked.error ?? 'Claim transaction failed');
+            }
 
             // Reload schedules to get updated data from blockchain
-            if (this._currentAddress) {
-                await this.loadVestingSchedules(this._currentAddress);
+            if (shouldReload) {
+                await this.refresh();
             }
 
-            return txHash;
+            return tracked.hash;
         } catch (error) {
             console.error('Claim failed:', error);
 
@@ -162,6 +281,105 @@ export class VestingService {
         }
     }
 
+    /**
+     * Rebuild the claim history of a wallet from TokensReleased event logs
+     * Scans the most recent block ranges; call loadMoreClaimHistory for older claims
+     * @param address Wallet address
+     */
+    public async loadClaimHistory(address: string): Promise<void> {
+        this._claimHistoryAddress = address;
+        this._claimHistory$.next([]);
+        this._syncClaimTransactions();
+        this._hasMoreClaimHistory$.next(false);
+
+        try {
+            this._claimHistoryCursor = await this._blockchainService.getBlockNumber();
+        } catch (error) {
+            console.error('❌ Failed to read latest block:', error);
+            this._handleError(error);
+            return;
+        }
+
+        await this.loadMoreClaimHistory();
+    }
+
+    /**
+     * Scan the next older block ranges for claims of the current history wallet
+     */
+    public async loadMoreClaimHistory(): Promise<void> {
+        const address = this._claimHistoryAddress;
+        let cursor = this._claimHistoryCursor;
+        if (!address || cursor === null) {
+            return;
+        }
+
+        this._claimHistoryLoading$.next(true);
+
+        try {
+            const deploymentBlock = await this._blockchainService.getDeploymentBlock();
+            const { blockRange, rangesPerLoad } = EVENT_LOG_PAGING;
+            const claims: ClaimTransaction[] = [];
+
+            for (let i = 0; i < rangesPerLoad && cursor !== null; i++) {
+                const fromBlock = Math.max(deploymentBlock, cursor - blockRange + 1);
+                claims.push(...(await this._blockchainService.getClaimHistory(address, fromBlock, cursor)));
+                cursor = fromBlock > deploymentBlock ? fromBlock - 1 : null;
+            }
+
+            // Ignore the result if the wallet changed while scanning
+            if (address !== this._claimHistoryAddress) {
+                return;
+            }
+
+            this._claimHistoryCursor = cursor;
+            this._hasMoreClaimHistory$.next(cursor !== null);
+            this._mergeClaimHistory(claims);
+        } catch (error) {
+            console.error('❌ Failed to load claim history:', error);
+            this._handleError(error);
+        } finally {
+            this._claimHistoryLoading$.next(false);
+        }
+    }
+
+    /**
+     * Revoke a vesting schedule (owner only) and reload the current wallet's schedules and stats
+     * @param scheduleId Vesting schedule ID
+     * @returns Transaction hash and refunded amount (in wei/smallest unit)
+     */
+    public async revokeSchedule(scheduleId: string): Promise<{ transactionHash: string; refundAmount: string }> {
+        const result = await this._blockchainService.revokeSchedule(scheduleId);
+
+        if (this._currentAddress) {
+            await this.loadVestingSchedules(this._currentAddress);
+        }
+
+        return result;
+    }
+
+    /**
+     * Reassign a vesting schedule to a new beneficiary (owner only)
+     * Reloads schedules and stats if the current wallet is the old or the new beneficiary
+     * @param scheduleId Vesting schedule ID
+     * @param oldBeneficiary Current beneficiary address
+     * @param newBeneficiary New beneficiary address
+     * @returns Transaction hash
+     */
+    public async changeBeneficiary(
+        scheduleId: string,
+        oldBeneficiary: string,
+        newBeneficiary: string,
+    ): Promise<string> {
+        const txHash = await this._blockchainService.changeBeneficiary(scheduleId, newBeneficiary);
+
+        const affected = [oldBeneficiary.toLowerCase(), newBeneficiary.toLowerCase()];
+        if (this._currentAddress && affected.includes(this._currentAddress.toLowerCase())) {
+            await this.loadVestingSchedules(this._currentAddress);
+        }
+
+        return txHash;
+    }
+
     // Keep old implementation as backup
     private async _claimTokensMock(scheduleId: string): Promise<string> {
         const schedule = this._vestingSchedules$.value.find((s) => s.id === scheduleId);
@@ -170,7 +388,7 @@ export class VestingService {
         }
 
         const release = this.getVestingRelease(scheduleId);
-        if (!release || parseFloat(release.claimable) === 0) {
+        if (!release || isZeroAmount(release.claimable)) {
             throw new Error('No tokens available to claim');
         }
 
@@ -182,7 +400,7 @@ export class VestingService {
         const transaction: ClaimTransaction = {
             id: txHash,
             vestingId: scheduleId,
-            amount: release.claimable,
+            amount: toDecimalString(release.claimable),
             timestamp: getCurrentTimestamp(),
             status: TransactionStatus.CONFIRMED,
         };
@@ -195,11 +413,8 @@ export class VestingService {
         const currentTime = getCurrentTimestamp();
         const updatedSchedules = this._vestingSchedules$.value.map((s) => {
             if (s.id === scheduleId) {
-                const claimed = BigInt(s.released);
-                const vested = this._calculateVestedAmount(s, currentTime);
-                const claimable = vested - claimed;
-                const newReleased = (claimed + (claimable > 0n ? claimable : 0n)).toString();
-                return { ...s, released: newReleased };
+                const { claimed, claimable } = calculateVestingRelease(s, currentTime);
+                return { ...s, released: (claimed.value + claimable.value).toString() };
             }
             return s;
         });
@@ -246,45 +461,129 @@ export class VestingService {
     }
 
     /**
-     * Update statistics based on current schedules
-     * @param schedules Current vesting schedules
+     * Merge claims into the history, newest first
+     * Claims read from logs replace session records of the same transaction
+     * @param claims Claims to merge
      */
-    private _updateStats(schedules: VestingSchedule[]): void {
-        const currentTime = getCurrentTimestamp();
+    private _mergeClaimHistory(claims: ClaimTransaction[]): void {
+        const byId = new Map(this._claimHistory$.value.map((claim) => [claim.id, claim]));
+        claims.forEach((claim) => byId.set(claim.id, claim));
+
+        const history = [...byId.values()].sort((a, b) => b.timestamp - a.timestamp);
+        this._claimHistory$.next(history);
+    }
+
+    /**
+     * Apply tracked claim transaction statuses to the claim history
+     * Also before the history is loaded, so pending claims of the current wallet show up right away
+     * Sped up claims replace the entry of their original hash
+     */
+    private _syncClaimTransactions(): void {
+        const address = (this._claimHistoryAddress ?? this._currentAddress)?.toLowerCase();
+        const claims = this._trackedTransactions.filter(
+            (tx) => tx.vestingId && tx.amount && tx.from.toLowerCase() === address,
+        );
+        if (claims.length === 0) {
+            return;
+        }
+
+        const replaced = new Set(claims.map((tx) => tx.replacedHash).filter(Boolean));
+        const history = this._claimHistory$.value.filter((claim) => !replaced.has(claim.id));
+        const byId = new Map(history.map((claim) => [claim.id, claim]));
+
+        for (const tx of claims) {
+            const existing = byId.get(tx.hash);
+            byId.set(tx.hash, {
+                ...existing,
+                id: tx.hash,
+                vestingId: tx.vestingId ?? '',
+                amount: existing?.amount ?? tx.amount ?? '0',
+                timestamp: existing?.timestamp ?? tx.submittedAt,
+                status: tx.status,
+                token: existing?.token ?? tx.token,
+            });
+        }
+
+        this._claimHistory$.next([...byId.values()].sort((a, b) => b.timestamp - a.timestamp));
+    }
+
+    /**
+     * Follow contract events of a wallet so claims made elsewhere (another tab or device) and new grants show up
+     * Events arriving together are handled in one go
+     * @param address Wallet address
+     */
+    private _watchVestingEvents(address: string): void {
+        if (address === this._eventsAddress) {
+            return;
+        }
+
+        this._eventsSubscription?.unsubscribe();
+        this._eventsAddress = address;
+
+        const events$ = this._blockchainService.watchVestingEvents(address).pipe(
+            filter((event) => this._isRelevantEvent(event)),
+            share(),
+        );
+        this._eventsSubscription = events$
+            .pipe(buffer(events$.pipe(debounceTime(LIVE_UPDATES.eventDebounceMs))))
+            .subscribe((events) => {
+                void this._handleVestingEvents(address, events);
+            });
+    }
 
-        let totalLocked = 0n;
-        let totalVested = 0n;
-        let totalClaimed = 0n;
-        let activeSchedules = 0;
-        let completedSchedules = 0;
-
-        schedules.forEach((schedule) => {
-            const total = BigInt(schedule.totalAmount);
-            const claimed = BigInt(schedule.released);
-            const vested = this._calculateVestedAmount(schedule, currentTime);
-            const claimable = vested - claimed;
-
-            totalLocked += total;
-            totalVested += claimable > 0n ? claimable : 0n; // Only count claimable (not yet claimed)
-            totalClaimed += claimed;
-
-            if (schedule.status === VestingStatus.ACTIVE) {
-                activeSchedules++;
-            } else if (schedule.status === VestingStatus.COMPLETED) {
-                completedSchedules++;
+    /**
+     * Whether an event concerns the current wallet
+     * Revocations are not indexed by beneficiary, so only those of loaded schedules count
+     */
+    private _isRelevantEvent(event: VestingEvent): boolean {
+        if (event.name !== 'VestingRevoked') {
+            return true;
+        }
+
+        const vestingId = event.vestingId.toLowerCase();
+        return this._vestingSchedules$.value.some((schedule) => schedule.id.toLowerCase() === vestingId);
+    }
+
+    /**
+     * Reload schedules after contract events, and add claims to the history
+     * Reloads quietly: no loading state, errors are only logged
+     * @param address Wallet the events were watched for
+     * @param events Events received since the last reload
+     */
+    private async _handleVestingEvents(address: string, events: VestingEvent[]): Promise<void> {
+        console.log('📡 Vesting events:', events.map((event) => event.name).join(', '));
+
+        try {
+            const claimBlocks = events
+                .filter((event) => event.name === 'TokensReleased')
+                .map((event) => event.blockNumber);
+            if (claimBlocks.length > 0 && address === this._claimHistoryAddress) {
+                const claims = await this._blockchainService.getClaimHistory(
+                    address,
+                    Math.min(...claimBlocks),
+                    Math.max(...claimBlocks),
+                );
+                if (address === this._claimHistoryAddress) {
+                    this._mergeClaimHistory(claims);
+                }
             }
-        });
 
-        const stats: VestingStats = {
-            totalLocked: totalLocked.toString(),
-            totalVested: totalVested.toString(),
-            totalClaimed: totalClaimed.toString(),
-            totalRemaining: (totalLocked - totalVested).toString(),
-            activeSchedules,
-            completedSchedules,
-        };
+            const schedules = await this._blockchainService.getVestingSchedules(address);
+            if (address === this._currentAddress) {
+                this._vestingSchedules$.next(schedules);
+                this._updateStats(schedules);
+            }
+        } catch (error) {
+            console.warn('⚠️ Failed to refresh after vesting events:', error);
+        }
+    }
 
-        this._stats$.next(stats);
+    /**
+     * Update statistics based on current schedules
+     * @param schedules Current vesting schedules
+     */
+    private _updateStats(schedules: VestingSchedule[]): void {
+        this._statsSchedules$.next(schedules);
     }
 
     /**
@@ -302,33 +601,6 @@ export class VestingService {
         console.error('❌ Vesting Service Error:', errorMessage);
     }
 
-    /**
-     * Calculate vested amount for a schedule at current time
-     * @param schedule Vesting schedule
-     * @param currentTime Current timestamp
-     * @returns Vested amount in wei
-     */
-    private _calculateVestedAmount(schedule: VestingSchedule, currentTime: number): bigint {
-        const total = BigInt(schedule.totalAmount);
-        const startTime = schedule.startTime;
-        const duration = schedule.duration;
-        const cliff = schedule.cliff;
-
-        if (currentTime < startTime + cliff) {
-            // Before cliff: nothing vested
-            return 0n;
-        }
-
-        if (currentTime >= startTime + duration) {
-            // After duration: everything vested
-            return total;
-        }
-
-        // During vesting: linear calculation
-        const timeElapsed = currentTime - startTime;
-        return (total * BigInt(timeElapsed)) / BigInt(duration);
-    }
-
     /**
      * Simulate async delay
      * @param ms Milliseconds to delay
@@ -1,14 +1,44 @@
 import { Injectable, NgZone, OnDestroy, inject } from '@angular/core';
+import { getContractAddresses, getNetworkConfig } from '@lib/constants/contracts.constant';
 import { getNetworkName, isNetworkSupported } from '@lib/constants/networks.constant';
-import type { EthereumProvider, NetworkInfo, WalletState } from '@lib/interfaces/web3.interface';
+import type {
+    EthereumProvider,
+    NetworkInfo,
+    WalletAnnounceEvent,
+    WalletProviderDetail,
+    WalletProviderInfo,
+    WalletState,
+} from '@lib/interfaces/web3.interface';
+import { storage } from '@lib/utils';
+import { toChecksumAddress } from '@lib/utils/address.util';
 import { BlockchainService } from '../blockchain/blockchain.service';
 import { VestingService } from '../vesting/vesting.service';
 import { ethers } from 'ethers';
-import { BehaviorSubject, Observable, Subject } from 'rxjs';
+import { BehaviorSubject, Observable, Subject, filter, firstValueFrom, map, timeout } from 'rxjs';
+
+// How long to wait for a remembered wallet to announce itself before giving up on restoring
+const PROVIDER_DISCOVERY_TIMEOUT_MS = 1_000;
+
+// Identifier of the wallet found on window.ethereum when it does not support EIP-6963
+const LEGACY_PROVIDER_RDNS = 'injected';
+
+// EIP-1193 error code returned by wallet_switchEthereumChain for chains the wallet does not know
+const UNRECOGNIZED_CHAIN_ERROR_CODE = 4902;
+
+/**
+ * Check whether a wallet_switchEthereumChain error means the chain must be added first
+ * Some mobile wallets nest the original error
+ */
+function isUnrecognizedChainError(error: unknown): boolean {
+    const err = error as { code?: number; data?: { originalError?: { code?: number } } } | null;
+    return (
+        err?.code === UNRECOGNIZED_CHAIN_ERROR_CODE || err?.data?.originalError?.code === UNRECOGNIZED_CHAIN_ERROR_CODE
+    );
+}
 
 /**
  * Web3 Service
- * Handles MetaMask wallet connection, account management, and network detection
+ * Handles wallet discovery (EIP-6963), connection, account management, and network detection
  */
 @Injectable({
     providedIn: 'root',
@@ -19,6 +49,9 @@ export class Web3Service implements OnDestroy {
     private readonly _networkInfo$ = new BehaviorSubject<NetworkInfo | null>(null);
     private readonly _isConnected$ = new BehaviorSubject<boolean>(false);
     private readonly _error$ = new BehaviorSubject<string | null>(null);
+    private readonly _providers$ = new BehaviorSubject<WalletProviderDetail[]>([]);
+    private readonly _walletInfo$ = new BehaviorSubject<WalletProviderInfo | null>(null);
+    private readonly _watchedAddress$ = new BehaviorSubject<string | null>(null);
     private readonly _destroy$ = new Subject<void>();
 
     // Public observables
@@ -26,36 +59,45 @@ export class Web3Service implements OnDestroy {
     public readonly networkInfo$: Observable<NetworkInfo | null> = this._networkInfo$.asObservable();
     public readonly isConnected$: Observable<boolean> = this._isConnected$.asObservable();
     public readonly error$: Observable<string | null> = this._error$.asObservable();
+    public readonly providers$: Observable<WalletProviderDetail[]> = this._providers$.asObservable();
+    public readonly walletInfo$: Observable<WalletProviderInfo | null> = this._walletInfo$.asObservable();
+    public readonly watchedAddress$: Observable<string | null> = this._watchedAddress$.asObservable();
 
-    // Ethereum provider
+    // Ethereum provider of the selected wallet
     private _ethereum: EthereumProvider | undefined;
 
     // Save listener references for proper removal
     private _accountsChangedHandler?: (accounts: unknown) => void;
     private _chainChangedHandler?: (chainId: unknown) => void;
+    private readonly _announceProviderHandler = (event: WalletAnnounceEvent): void => {
+        this._ngZone.run(() => this._addProvider(event.detail));
+    };
 
     // Inject services
     private readonly _blockchainService = inject(BlockchainService);
     private readonly _vestingService = inject(VestingService);
 
+    // Settles once a remembered wallet connection was restored (or not)
+    private readonly _restored: Promise<void>;
+
     constructor(private readonly _ngZone: NgZone) {
-        this._ethereum = window.ethereum;
-        this._initializeListeners();
+        this._discoverProviders();
         // Try to restore connection state from localStorage
-        this._restoreConnection();
+        this._restored = this._restoreConnection();
     }
 
     ngOnDestroy(): void {
         this._removeListeners();
+        window.removeEventListener('eip6963:announceProvider', this._announceProviderHandler);
         this._destroy$.next();
         this._destroy$.complete();
     }
 
     /**
-     * Check if MetaMask is installed
+     * Check if at least one wallet is installed
      */
-    public get isMetaMaskInstalled(): boolean {
-        return typeof this._ethereum !== 'undefined' && !!this._ethereum.isMetaMask;
+    public get isWalletInstalled(): boolean {
+        return this._providers$.value.length > 0;
     }
 
     /**
@@ -70,17 +112,27 @@ export class Web3Service implements OnDestroy {
     }
 
     /**
-     * Connect MetaMask wallet
+     * Connect a wallet
+     * @param rdns Wallet to connect, defaults to the remembered wallet or the first one discovered
      */
-    public async connectWallet(): Promise<void> {
+    public async connectWallet(rdns?: string): Promise<void> {
         try {
             // Clear previous errors
             this._error$.next(null);
 
-            // Check if MetaMask is installed
-            if (!this.isMetaMaskInstalled) {
-                throw new Error('MetaMask is not installed. Please install MetaMask extension.');
+            // Pick the wallet to connect
+            const providers = this._providers$.value;
+            const remembered = storage.getItem('walletProvider');
+            const detail =
+                providers.find((p) => p.info.rdns === (rdns ?? remembered)) ?? (rdns ? undefined : providers[0]);
+            if (!detail) {
+                throw new Error(
+                    rdns
+                        ? 'The selected wallet is no longer available.'
+                        : 'No wallet detected. Please install a browser wallet extension.',
+                );
             }
+            this._selectProvider(detail);
 
             // Request account access
             const accounts = (await this._ethereum?.request({
@@ -88,29 +140,24 @@ export class Web3Service implements OnDestroy {
             })) as string[] | undefined;
 
             if (!accounts || accounts.length === 0) {
-                throw new Error('No accounts returned from MetaMask.');
+                throw new Error(`No accounts returned from ${detail.info.name}.`);
             }
 
-            // Set wallet address
+            // Set wallet address, leaving read-only mode
             this._walletAddress$.next(accounts[0]);
             this._isConnected$.next(true);
+            this._watchedAddress$.next(null);
 
             // Save connection state to localStorage
             localStorage.setItem('web3_connected', 'true');
             localStorage.setItem('web3_last_address', accounts[0]);
+            storage.setItem('walletProvider', detail.info.rdns);
 
             // Get network information
             await this._updateNetworkInfo();
 
-            // Initialize blockchain service with provider
-            console.log('🔧 Initializing blockchain service...');
-            await this._blockchainService.initialize(this._ethereum);
-            console.log('✅ Blockchain service initialized');
-
-            // Load vesting schedules for connected wallet
-            console.log('📊 Loading vesting schedules...');
-            await this._vestingService.loadVestingSchedules(accounts[0]);
-            console.log('✅ Vesting schedules loaded');
+            // Initialize blockchain service and load vesting schedules for connected wallet
+            await this._initializeServices(accounts[0]);
 
             console.log('✅ Wallet connected:', accounts[0]);
         } catch (error: unknown) {
@@ -119,9 +166,114 @@ export class Web3Service implements OnDestroy {
         }
     }
 
+    /**
+     * Ask the wallet to switch network, adding the network to the wallet first if it does not know it
+     * The wallet's chainChanged event then reinitializes the services
+     * @param chainId Target network (hex), must be listed in NETWORK_CONFIG
+     */
+    public async switchNetwork(chainId: string): Promise<void> {
+        this._error$.next(null);
+
+        try {
+            const config = getNetworkConfig(chainId);
+            if (!config) {
+                throw new Error(`Network ${chainId} is not configured.`);
+            }
+            if (!this._ethereum) {
+                throw new Error('Connect a wallet to switch networks.');
+            }
+
+            try {
+                await this._ethereum.request({
+                    method: 'wallet_switchEthereumChain',
+                    params: [{ chainId: config.chainId }],
+                });
+            } catch (error) {
+                if (!isUnrecognizedChainError(error)) {
+                    throw error;
+                }
+
+                console.log('➕ Adding network to wallet:', config.name);
+                await this._ethereum.request({
+                    method: 'wallet_addEthereumChain',
+                    params: [
+                        {
+                            chainId: config.chainId,
+                            chainName: config.name,
+                            rpcUrls: [config.rpcUrl],
+                            nativeCurrency: config.nativeCurrency,
+                            blockExplorerUrls: config.explorerUrl ? [config.explorerUrl] : undefined,
+                        },
+                    ],
+                });
+            }
+        } catch (error: unknown) {
+            this._handleError(error);
+            throw error;
+        }
+    }
+
+    /**
+     * Look up the schedules of any address in read-only mode
+     * Reads through the connected wallet if there is one, otherwise through the network's public RPC endpoint
+     * @param address Beneficiary address to watch
+     * @param chainId Network to read from when no wallet is connected (hex)
+     */
+    public async watchAddress(address: string, chainId: string): Promise<void> {
+        this._error$.next(null);
+
+        try {
+            const checksummed = toChecksumAddress(address);
+            if (!checksummed) {
+                throw new Error('Invalid address. Please enter a valid Ethereum address.');
+            }
+
+            if (!this._isConnected$.value) {
+                await this._blockchainService.initializeReadOnly(chainId);
+            }
+
+            this._watchedAddress$.next(checksummed);
+            await this._vestingService.loadVestingSchedules(checksummed);
+            console.log('👀 Watching address:', checksummed);
+        } catch (error: unknown) {
+            this._handleError(error);
+            throw error;
+        }
+    }
+
+    /**
+     * Make contract reads possible before or without a wallet, e.g. when a shared link is opened
+     * Waits for a remembered wallet to reconnect, otherwise reads through the network's public RPC endpoint
+     * @param chainId Network to read from when no wallet is connected (hex)
+     */
+    public async ensureReadAccess(chainId: string): Promise<void> {
+        await this._restored;
+
+        const isReadable = !!this._blockchainService.getProvider() && this._blockchainService.getChainId() === chainId;
+        if (this._isConnected$.value || isReadable) {
+            return;
+        }
+
+        await this._blockchainService.initializeReadOnly(chainId);
+    }
+
+    /**
+     * Leave read-only mode and go back to the connected wallet's schedules
+     */
+    public async stopWatching(): Promise<void> {
+        this._watchedAddress$.next(null);
+
+        const address = this._walletAddress$.value;
+        if (address) {
+            await this._vestingService.loadVestingSchedules(address);
+        } else {
+            this._vestingService.clear();
+        }
+    }
+
     /**
      * Disconnect wallet (clears app state only)
-     * Note: This does not revoke MetaMask authorization, user must manually revoke in MetaMask
+     * Note: This does not revoke the wallet authorization, user must manually revoke it in the wallet
      */
     public disconnectWallet(): void {
         this._walletAddress$.next(null);
@@ -132,6 +284,12 @@ export class Web3Service implements OnDestroy {
         // Clear connection state from localStorage
         localStorage.removeItem('web3_connected');
         localStorage.removeItem('web3_last_address');
+        storage.removeItem('walletProvider');
+
+        this._removeListeners();
+        this._ethereum = undefined;
+        this._walletInfo$.next(null);
+        this._useReadProvider();
 
         console.log('🔌 Wallet disconnected (app state only)');
     }
@@ -145,20 +303,25 @@ export class Web3Service implements OnDestroy {
         // Check if there's a saved connection state
         const hasSavedConnection = localStorage.getItem('web3_connected') === 'true';
         const savedAddress = localStorage.getItem('web3_last_address');
+        const savedProvider = storage.getItem('walletProvider') ?? LEGACY_PROVIDER_RDNS;
 
-        console.log('🔄 Restore state:', {
-            hasSavedConnection,
-            savedAddress,
-            isMetaMaskInstalled: this.isMetaMaskInstalled,
-        });
+        console.log('🔄 Restore state:', { hasSavedConnection, savedAddress, savedProvider });
+
+        if (!hasSavedConnection) {
+            console.log('⏭️ Skipping restore - no saved connection');
+            return;
+        }
 
-        if (!hasSavedConnection || !this.isMetaMaskInstalled) {
-            console.log('⏭️ Skipping restore - no saved connection or MetaMask not installed');
+        // Wallets may announce themselves a little after the page loads
+        const detail = await this._waitForProvider(savedProvider);
+        if (!detail) {
+            console.log('⏭️ Skipping restore - remembered wallet not installed:', savedProvider);
             return;
         }
+        this._selectProvider(detail);
 
         try {
-            // Silent account request (won't show MetaMask popup)
+            // Silent account request (won't show the wallet popup)
             const accounts = (await this._ethereum?.request({
                 method: 'eth_accounts', // Use eth_accounts instead of eth_requestAccounts
             })) as string[] | undefined;
@@ -177,16 +340,7 @@ export class Web3Service implements OnDestroy {
 
                     // Run initialization and data loading in NgZone to ensure change detection
                     await this._ngZone.run(async () => {
-                        // Initialize blockchain service with provider
-                        console.log('🔧 Initializing blockchain service...');
-                        await this._blockchainService.initialize(this._ethereum);
-                        console.log('✅ Blockchain service initialized');
-
-                        // Load vesting schedules for connected wallet
-                        console.log('📊 Loading vesting schedules...');
-                        await this._vestingService.loadVestingSchedules(accounts[0]);
-                        console.log('✅ Vesting schedules loaded');
-
+                        await this._initializeServices(accounts[0]);
                         console.log('✅ All services initialized after connection restore');
                     });
                 } catch (error) {
@@ -197,14 +351,83 @@ export class Web3Service implements OnDestroy {
                 // If no accounts, clear saved state
                 localStorage.removeItem('web3_connected');
                 localStorage.removeItem('web3_last_address');
+                storage.removeItem('walletProvider');
             }
         } catch (error) {
             console.warn('⚠️ Failed to restore connection:', error);
             localStorage.removeItem('web3_connected');
             localStorage.removeItem('web3_last_address');
+            storage.removeItem('walletProvider');
         }
     }
 
+    /**
+     * Discover installed wallets through EIP-6963
+     * Falls back to window.ethereum for wallets that do not announce themselves
+     */
+    private _discoverProviders(): void {
+        window.addEventListener('eip6963:announceProvider', this._announceProviderHandler);
+        window.dispatchEvent(new Event('eip6963:requestProvider'));
+
+        const legacy = window.ethereum;
+        if (legacy && !this._providers$.value.some((p) => p.provider === legacy)) {
+            this._addProvider({
+                info: {
+                    uuid: LEGACY_PROVIDER_RDNS,
+                    name: legacy.isMetaMask ? 'MetaMask' : 'Browser Wallet',
+                    icon: '',
+                    rdns: LEGACY_PROVIDER_RDNS,
+                },
+                provider: legacy,
+            });
+        }
+    }
+
+    /**
+     * Add an announced wallet, replacing the legacy entry for the same provider
+     */
+    private _addProvider(detail: WalletProviderDetail): void {
+        const providers = this._providers$.value.filter(
+            (p) =>
+                p.info.uuid !== detail.info.uuid &&
+                !(p.info.rdns === LEGACY_PROVIDER_RDNS && p.provider === detail.provider),
+        );
+        this._providers$.next([...providers, detail]);
+    }
+
+    /**
+     * Wait for a wallet to be discovered
+     * @param rdns Wallet identifier
+     * @returns The wallet, or null if it did not show up in time
+     */
+    private async _waitForProvider(rdns: string): Promise<WalletProviderDetail | null> {
+        try {
+            return await firstValueFrom(
+                this._providers$.pipe(
+                    map((providers) => providers.find((p) => p.info.rdns === rdns)),
+                    filter((detail): detail is WalletProviderDetail => !!detail),
+                    timeout(PROVIDER_DISCOVERY_TIMEOUT_MS),
+                ),
+            );
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Use a wallet's provider and move the event listeners to it
+     */
+    private _selectProvider(detail: WalletProviderDetail): void {
+        if (this._ethereum === detail.provider) {
+            return;
+        }
+
+        this._removeListeners();
+        this._ethereum = detail.provider;
+        this._walletInfo$.next(detail.info);
+        this._initializeListeners();
+    }
+
     /**
      * Initialize event listeners
      */
@@ -246,6 +469,24 @@ export class Web3Service implements OnDestroy {
         }
     }
 
+    /**
+     * Rebind contract reads from the disconnected wallet to the network's public RPC endpoint
+     * Without an endpoint for the network the contracts are dropped
+     */
+    private _useReadProvider(): void {
+        if (this._blockchainService.isReadOnly()) {
+            return;
+        }
+
+        const chainId = this._blockchainService.getChainId();
+        this._blockchainService.reset();
+        if (chainId && getNetworkConfig(chainId)) {
+            this._blockchainService.initializeReadOnly(chainId).catch((error) => {
+                console.error('❌ Failed to connect the read-only provider:', error);
+            });
+        }
+    }
+
     /**
      * Handle account changes
      */
@@ -265,6 +506,11 @@ export class Web3Service implements OnDestroy {
                 console.log('✅ Account switched:', { from: oldAddress, to: newAddress });
                 this._walletAddress$.next(newAddress);
 
+                // Keep showing the watched address in read-only mode
+                if (this._watchedAddress$.value) {
+                    return;
+                }
+
                 // Reload vesting schedules for new account
                 console.log('📊 Reloading vesting schedules for new account...');
                 try {
@@ -279,18 +525,48 @@ export class Web3Service implements OnDestroy {
 
     /**
      * Handle network changes
+     * Reinitializes the services for the new network instead of reloading the page
      */
-    private _handleChainChanged(chainId: string): void {
+    private async _handleChainChanged(chainId: string): Promise<void> {
         console.log('🌐 Chain changed:', chainId);
 
-        // Save connection state to localStorage (if connected)
-        if (this._isConnected$.value) {
-            localStorage.setItem('web3_connected', 'true');
-            localStorage.setItem('web3_last_address', this._walletAddress$.value || '');
+        const address = this._walletAddress$.value;
+        if (!this._isConnected$.value || !address) {
+            return;
+        }
+
+        await this._updateNetworkInfo();
+        await this._ngZone.run(async () => {
+            try {
+                await this._initializeServices(address);
+            } catch (error) {
+                this._handleError(error);
+            }
+        });
+    }
+
+    /**
+     * Initialize the blockchain service on the wallet's current network and load vesting schedules
+     * Networks without a deployment leave the services uninitialized, the UI blocks on networkInfo.hasDeployment
+     * @param address Connected wallet address
+     */
+    private async _initializeServices(address: string): Promise<void> {
+        if (!this._networkInfo$.value?.hasDeployment) {
+            console.warn('⛔ No vesting deployment on this network, services not initialized');
+            this._blockchainService.reset();
+            this._vestingService.clear();
+            return;
         }
 
-        // MetaMask recommends reloading the page on network changes
-        window.location.reload();
+        // Initialize blockchain service with provider
+        console.log('🔧 Initializing blockchain service...');
+        await this._blockchainService.initialize(this._ethereum);
+        console.log('✅ Blockchain service initialized');
+
+        // Load vesting schedules for connected (or watched) wallet
+        console.log('📊 Loading vesting schedules...');
+        await this._vestingService.loadVestingSchedules(this._watchedAddress$.value ?? address);
+        console.log('✅ Vesting schedules loaded');
     }
 
     /**
@@ -314,6 +590,7 @@ export class Web3Service implements OnDestroy {
                 chainId,
                 chainName,
                 isSupported,
+                hasDeployment: getContractAddresses(chainId) !== null,
             };
 
             // Update state within Angular zone
@@ -348,7 +625,7 @@ export class Web3Service implements OnDestroy {
             if (err.code === 4001) {
                 errorMessage = 'Connection request rejected by user.';
             } else if (err.code === -32002) {
-                errorMessage = 'Request already pending. Please check MetaMask.';
+                errorMessage = 'Request already pending. Please check your wallet.';
             } else if (err.message) {
                 errorMessage = err.message;
             }
@@ -2,6 +2,8 @@
  * Address handling utility functions
  */
 
+import { ethers } from 'ethers';
+
 /**
  * Shorten Ethereum address to readable format
  * @param address Full Ethereum address (e.g., 0x1234567890abcdef1234567890abcdef12345678)
@@ -38,3 +40,24 @@ export function isValidAddress(address: string): boolean {
     // Ethereum address: 0x + 40 hexadecimal characters (total 42 characters)
     return /^0x[a-fA-F0-9]{40}$/.test(address);
 }
+
+/**
+ * Convert an address to its EIP-55 checksum form
+ * @param address Address to convert (all lowercase, all uppercase or correctly checksummed)
+ * @returns Checksummed address, or null if the address is invalid or has a wrong checksum
+ *
+ * @example
+ * toChecksumAddress('0x70997970c51812dc3a010c7d01b50e0d17dc79c8')
+ * // Returns: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8'
+ */
+export function toChecksumAddress(address: string): string | null {
+    if (!isValidAddress(address)) {
+        return null;
+    }
+
+    try {
+        return ethers.utils.getAddress(address);
+    } catch {
+        return null;
+    }
+}
@@ -0,0 +1,243 @@
+import { CONTRACT_ADDRESSES } from '@lib/constants/contracts.constant';
+import type { AmountRounding, TokenAmount } from '@lib/interfaces/amount.interface';
+import type { TokenInfo, VestingSchedule } from '@lib/interfaces/vesting.interface';
+import { VestingStatus } from '@lib/interfaces/vesting.interface';
+import {
+    addAmounts,
+    compareAmounts,
+    formatAmount,
+    getDustThreshold,
+    isDust,
+    parseAmount,
+    percentOf,
+    scaleAmount,
+    subtractAmounts,
+    toAmount,
+    toDecimalString,
+} from './amount.util';
+import { setLocale } from './i18n.util';
+import { calculateVestingRelease } from './vesting.util';
+
+// Property checks run on this many generated cases, from a fixed seed so failures reproduce
+const RUNS = 500;
+
+/**
+ * Seeded pseudo-random generator (mulberry32)
+ */
+function random(seed: number): () => number {
+    let state = seed;
+    return () => {
+        state = (state + 0x6d2b79f5) | 0;
+        let t = Math.imul(state ^ (state >>> 15), 1 | state);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+function randomInt(next: () => number, max: number): number {
+    return Math.floor(next() * (max + 1));
+}
+
+/**
+ * Random bigint with up to `digits` digits
+ */
+function randomBigInt(next: () => number, digits: number): bigint {
+    let text = '0';
+    for (let i = randomInt(next, digits); i > 0; i--) {
+        text += randomInt(next, 9);
+    }
+    return BigInt(text);
+}
+
+function randomAmount(next: () => number, isSigned = false): TokenAmount {
+    const value = randomBigInt(next, 40);
+    return toAmount(isSigned && next() < 0.5 ? -value : value, randomInt(next, 24));
+}
+
+function abs(value: bigint): bigint {
+    return value < 0n ? -value : value;
+}
+
+function token(address: string, decimals: number): TokenInfo {
+    return { address, symbol: 'TKN', name: 'Token', decimals };
+}
+
+describe('AmountUtils', () => {
+    afterEach(() => {
+        setLocale('en');
+    });
+
+    describe('scaleAmount', () => {
+        it('should keep the value when adding decimals and restore it when removing them again', () => {
+            const next = random(1);
+            for (let run = 0; run < RUNS; run++) {
+                const amount = randomAmount(next, true);
+                const scaled = scaleAmount(amount, amount.decimals + randomInt(next, 12));
+
+                expect(compareAmounts(scaled, amount)).toBe(0);
+                expect(scaleAmount(scaled, amount.decimals, 'down')).toEqual(amount);
+            }
+        });
+
+        it('should round within one unit, and within half a unit for half-up', () => {
+            const next = random(2);
+            for (let run = 0; run < RUNS; run++) {
+                const amount = randomAmount(next, true);
+                const decimals = randomInt(next, amount.decimals);
+                const factor = 10n ** BigInt(amount.decimals - decimals);
+
+                const down = scaleAmount(amount, decimals, 'down').value * factor;
+                const up = scaleAmount(amount, decimals, 'up').value * factor;
+                const halfUp = scaleAmount(amount, decimals, 'half-up').value * factor;
+
+                expect(abs(down) <= abs(amount.value) && abs(amount.value) - abs(down) < factor).toBeTrue();
+                expect(abs(up) >= abs(amount.value) && abs(up) - abs(amount.value) < factor).toBeTrue();
+                expect(abs(halfUp - amount.value) * 2n <= factor).toBeTrue();
+            }
+        });
+
+        it('should be idempotent and monotonic', () => {
+            const next = random(3);
+            const roundings: AmountRounding[] = ['down', 'up', 'half-up'];
+            for (let run = 0; run < RUNS; run++) {
+                const a = randomAmount(next, true);
+                const b = toAmount(a.value + randomBigInt(next, 30), a.decimals);
+                const decimals = randomInt(next, a.decimals);
+                const rounding = roundings[randomInt(next, 2)];
+
+                const scaled = scaleAmount(a, decimals, rounding);
+                expect(scaleAmount(scaled, decimals, rounding)).toEqual(scaled);
+                expect(compareAmounts(scaleAmount(b, decimals, rounding), scaled)).toBeGreaterThanOrEqual(0);
+            }
+        });
+
+        it('should round halves away from zero', () => {
+            expect(scaleAmount(toAmount(15n, 1), 0)).toEqual(toAmount(2n, 0));
+            expect(scaleAmount(toAmount(-15n, 1), 0)).toEqual(toAmount(-2n, 0));
+            expect(scaleAmount(toAmount(149n, 2), 0)).toEqual(toAmount(1n, 0));
+            expect(scaleAmount(toAmount(11n, 1), 0, 'up')).toEqual(toAmount(2n, 0));
+            expect(scaleAmount(toAmount(19n, 1), 0, 'down')).toEqual(toAmount(1n, 0));
+        });
+    });
+
+    describe('addAmounts', () => {
+        it('should add and subtract exactly across decimals', () => {
+            const next = random(4);
+            for (let run = 0; run < RUNS; run++) {
+                const a = randomAmount(next, true);
+                const b = randomAmount(next, true);
+
+                expect(compareAmounts(subtractAmounts(addAmounts(a, b), b), a)).toBe(0);
+                expect(addAmounts(a, b)).toEqual(addAmounts(b, a));
+            }
+        });
+    });
+
+    describe('formatAmount', () => {
+        it('should show the exactly rounded value of large 18-decimal amounts', () => {
+            const next = random(5);
+            for (let run = 0; run < RUNS; run++) {
+                const amount = toAmount(randomBigInt(next, 40), 18);
+                const displayDecimals = randomInt(next, 18);
+
+                const expected = toDecimalString(scaleAmount(amount, displayDecimals)).replace(/\.0$/, '');
+                expect(formatAmount(amount, displayDecimals).replace(/,/g, '')).toBe(expected);
+            }
+        });
+
+        it('should format for the current language without trailing zeros', () => {
+            const amount = parseAmount('1234567.895', 18);
+
+            expect(formatAmount(amount)).toBe('1,234,567.9');
+            expect(formatAmount(amount, 0)).toBe('1,234,568');
+            expect(formatAmount(parseAmount('-0.5', 6), 0)).toBe('-1');
+            expect(formatAmount(parseAmount('0.001', 18))).toBe('0');
+
+            setLocale('de');
+
+            expect(formatAmount(amount)).toBe('1.234.567,9');
+        });
+
+        it('should not invent decimals for tokens with fewer decimals', () => {
+            expect(formatAmount(toAmount(12345n, 2), 4)).toBe('123.45');
+            expect(formatAmount(toAmount(7n, 0), 4)).toBe('7');
+        });
+    });
+
+    describe('percentOf', () => {
+        it('should round down to two decimals', () => {
+            expect(percentOf(parseAmount('1', 18), parseAmount('3', 18))).toBe(33.33);
+            expect(percentOf(toAmount(2n, 0), parseAmount('3', 18))).toBe(66.66);
+            expect(percentOf(toAmount(1n, 18), toAmount(0n, 18))).toBe(0);
+        });
+    });
+
+    describe('calculateVestingRelease', () => {
+        it('should split every schedule exactly into vested and locked, claimed and claimable', () => {
+            const next = random(6);
+            for (let run = 0; run < RUNS; run++) {
+                const decimals = randomInt(next, 24);
+                const totalAmount = randomBigInt(next, 36);
+                const duration = 1 + randomInt(next, 10_000_000);
+                const schedule: VestingSchedule = {
+                    id: '0x01',
+                    beneficiary: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+                    token: token('0x5FbDB2315678afecb367f032d93F642f64180aa3', decimals),
+                    totalAmount: totalAmount.toString(),
+                    released: '0',
+                    startTime: 1_700_000_000,
+                    cliff: randomInt(next, duration),
+                    duration,
+                    interval: 1 + randomInt(next, 1_000_000),
+                    revocable: true,
+                    revoked: false,
+                    status: VestingStatus.ACTIVE,
+                };
+                const time = schedule.startTime + randomInt(next, duration + 1000);
+                schedule.released = ((calculateVestingRelease(schedule, time).vested.value * 3n) / 4n).toString();
+
+                const release = calculateVestingRelease(schedule, time);
+                expect(addAmounts(release.vested, release.locked)).toEqual(toAmount(totalAmount, decimals));
+                expect(addAmounts(release.claimed, release.claimable)).toEqual(release.vested);
+                expect(release.claimable.value >= 0n).toBeTrue();
+            }
+        });
+    });
+
+    describe('getDustThreshold', () => {
+        it('should use the default threshold in the token decimals', () => {
+            const address = '0x0000000000000000000000000000000000000001';
+
+            expect(getDustThreshold(token(address, 18))).toEqual(parseAmount('0.01', 18));
+            expect(getDustThreshold(token(address, 2))).toEqual(toAmount(1n, 2));
+        });
+
+        it('should round thresholds finer than the token decimals up to one unit', () => {
+            expect(getDustThreshold(token(CONTRACT_ADDRESSES.local.tokens.ADVISOR, 0))).toEqual(toAmount(1n, 0));
+            expect(getDustThreshold(token(CONTRACT_ADDRESSES.local.tokens.ADVISOR, 18))).toEqual(
+                parseAmount('0.001', 18),
+            );
+        });
+
+        it('should look up configured thresholds by address in any case', () => {
+            const seed = token(CONTRACT_ADDRESSES.local.tokens.SEED.toUpperCase().replace('0X', '0x'), 18);
+
+            expect(getDustThreshold(seed)).toEqual(parseAmount('100', 18));
+        });
+    });
+
+    describe('isDust', () => {
+        it('should flag amounts below the threshold only', () => {
+            const vest = token('0x0000000000000000000000000000000000000001', 18);
+            const cents = token('0x0000000000000000000000000000000000000001', 2);
+            const whole = token('0x0000000000000000000000000000000000000001', 0);
+
+            expect(isDust(toAmount(0n, 18), vest)).toBeTrue();
+            expect(isDust(parseAmount('0.009999999999999999', 18), vest)).toBeTrue();
+            expect(isDust(parseAmount('0.01', 18), vest)).toBeFalse();
+            expect(isDust(toAmount(1n, 2), cents)).toBeFalse();
+            expect(isDust(toAmount(0n, 0), whole)).toBeTrue();
+            expect(isDust(toAmount(1n, 0), whole)).toBeFalse();
+        });
+    });
+});
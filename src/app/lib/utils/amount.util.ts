@@ -0,0 +1,162 @@
+/**
+ * Token amount utility functions
+ * Amounts stay exact bigints in the token's smallest unit; only toNumber gives up precision, for charts and fiat values
+ */
+
+import { AMOUNT_CONFIG, DUST_THRESHOLDS } from '../constants/amount.constant';
+import type { AmountRounding, TokenAmount } from '../interfaces/amount.interface';
+import type { TokenInfo } from '../interfaces/vesting.interface';
+import { ethers } from 'ethers';
+import { getIntlLocale } from './i18n.util';
+
+/**
+ * Create an amount from a value in the smallest unit
+ * @param value Amount in wei, as bigint or integer string
+ * @param decimals Token decimals
+ * @returns Token amount
+ */
+export function toAmount(value: bigint | string, decimals: number): TokenAmount {
+    return { value: BigInt(value), decimals };
+}
+
+/**
+ * Parse an amount in whole tokens
+ * @param text Decimal amount (e.g., "1.5")
+ * @param decimals Token decimals
+ * @returns Token amount
+ * @throws If the text is not a decimal number or has more decimals than the token
+ */
+export function parseAmount(text: string, decimals: number): TokenAmount {
+    return { value: ethers.utils.parseUnits(text, decimals).toBigInt(), decimals };
+}
+
+/**
+ * Get the exact decimal text of an amount, e.g. for transaction descriptions and exports
+ * @param amount Token amount
+ * @returns Whole tokens (e.g., "1.5")
+ */
+export function toDecimalString(amount: TokenAmount): string {
+    return ethers.utils.formatUnits(amount.value, amount.decimals);
+}
+
+/**
+ * Convert an amount to a number, rounded to the nearest double
+ * Only for values that are floating point anyway: chart points and fiat values
+ * @param amount Token amount
+ * @returns Whole tokens
+ */
+export function toNumber(amount: TokenAmount): number {
+    return parseFloat(toDecimalString(amount));
+}
+
+/**
+ * Scale an amount to other decimals
+ * @param amount Token amount
+ * @param decimals Decimals of the result
+ * @param rounding Rounding when decimals are dropped (default half-up)
+ * @returns Token amount with the given decimals
+ */
+export function scaleAmount(amount: TokenAmount, decimals: number, rounding: AmountRounding = 'half-up'): TokenAmount {
+    if (decimals >= amount.decimals) {
+        return { value: amount.value * 10n ** BigInt(decimals - amount.decimals), decimals };
+    }
+
+    const factor = 10n ** BigInt(amount.decimals - decimals);
+    const sign = amount.value < 0n ? -1n : 1n;
+    const magnitude = amount.value * sign;
+    const quotient = magnitude / factor;
+    const remainder = magnitude % factor;
+
+    const isRoundedAway = (rounding === 'up' && remainder > 0n) || (rounding === 'half-up' && remainder * 2n >= factor);
+    return { value: (isRoundedAway ? quotient + 1n : quotient) * sign, decimals };
+}
+
+/**
+ * Add amounts, scaled to the larger decimals
+ */
+export function addAmounts(a: TokenAmount, b: TokenAmount): TokenAmount {
+    const decimals = Math.max(a.decimals, b.decimals);
+    return { value: scaleAmount(a, decimals).value + scaleAmount(b, decimals).value, decimals };
+}
+
+/**
+ * Subtract an amount, scaled to the larger decimals
+ */
+export function subtractAmounts(a: TokenAmount, b: TokenAmount): TokenAmount {
+    return addAmounts(a, { value: -b.value, decimals: b.decimals });
+}
+
+/**
+ * Compare amounts
+ * @returns Negative if a is smaller, 0 if equal, positive if a is larger
+ */
+export function compareAmounts(a: TokenAmount, b: TokenAmount): number {
+    const difference = subtractAmounts(a, b).value;
+    return difference === 0n ? 0 : difference < 0n ? -1 : 1;
+}
+
+/**
+ * Check if an amount is zero
+ */
+export function isZeroAmount(amount: TokenAmount): boolean {
+    return amount.value === 0n;
+}
+
+/**
+ * Get the percentage one amount is of another
+ * @param part Token amount
+ * @param whole Token amount (100%)
+ * @returns Percentage rounded down to 2 decimals, 0 if the whole is zero
+ */
+export function percentOf(part: TokenAmount, whole: TokenAmount): number {
+    const decimals = Math.max(part.decimals, whole.decimals);
+    const wholeValue = scaleAmount(whole, decimals).value;
+    if (wholeValue === 0n) {
+        return 0;
+    }
+    return Number((scaleAmount(part, decimals).value * 10_000n) / wholeValue) / 100;
+}
+
+/**
+ * Format an amount for display in the current language
+ * Rounds exactly, half-up, so 18-decimal amounts don't pick up floating point errors
+ * @param amount Token amount
+ * @param displayDecimals Maximum decimals shown (default 2)
+ * @returns Formatted amount without trailing zeros (e.g., "1,234.5")
+ */
+export function formatAmount(amount: TokenAmount, displayDecimals = 2): string {
+    const { value, decimals } = scaleAmount(amount, Math.min(displayDecimals, amount.decimals));
+    const factor = 10n ** BigInt(decimals);
+    const magnitude = value < 0n ? -value : value;
+    const locale = getIntlLocale();
+
+    const integer = (magnitude / factor).toLocaleString(locale);
+    const fraction = (magnitude % factor).toString().padStart(decimals, '0').replace(/0+$/, '');
+    const separator =
+        new Intl.NumberFormat(locale).formatToParts(0.5).find((part) => part.type === 'decimal')?.value ?? '.';
+
+    return `${value < 0n ? '-' : ''}${integer}${fraction ? separator + fraction : ''}`;
+}
+
+/**
+ * Get the dust threshold of a token: DUST_THRESHOLDS, or the default threshold
+ * Thresholds finer than the token's decimals are rounded up to its smallest unit
+ * @param token Token
+ * @returns Token amount
+ */
+export function getDustThreshold(token: TokenInfo): TokenAmount {
+    const threshold = DUST_THRESHOLDS[token.address.toLowerCase()] ?? AMOUNT_CONFIG.defaultDustThreshold;
+    const thresholdDecimals = threshold.split('.')[1]?.length ?? 0;
+
+    return scaleAmount(parseAmount(threshold, Math.max(thresholdDecimals, token.decimals)), token.decimals, 'up');
+}
+
+/**
+ * Check if an amount is below the dust threshold of its token
+ * @param amount Token amount
+ * @param token Token
+ * @returns True if the amount is too small to be worth claiming
+ */
+export function isDust(amount: TokenAmount, token: TokenInfo): boolean {
+    return compareAmounts(amount, getDustThreshold(token)) < 0;
+}
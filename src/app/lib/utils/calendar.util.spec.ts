@@ -0,0 +1,140 @@
+import type { VestingSchedule } from '@lib/interfaces/vesting.interface';
+import { VestingStatus } from '@lib/interfaces/vesting.interface';
+import { ethers } from 'ethers';
+import { buildVestingCalendar, escapeIcsText, foldIcsLine, formatIcsDate } from './calendar.util';
+import { setLocale } from './i18n.util';
+import { getUnlockEvents, SECONDS_PER_DAY } from './vesting.util';
+
+const GENERATED_AT = Date.UTC(2025, 5, 1) / 1000;
+
+function schedule(overrides: Partial<VestingSchedule> = {}): VestingSchedule {
+    return {
+        id: '0xABC1',
+        beneficiary: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+        token: {
+            address: '0x5FbDB2315678afecb367f032d93F642f64180aa3',
+            symbol: 'VEST',
+            name: 'Vest Token',
+            decimals: 18,
+        },
+        totalAmount: ethers.utils.parseEther('1200').toString(),
+        released: '0',
+        startTime: Date.UTC(2025, 0, 1) / 1000,
+        cliff: 90 * SECONDS_PER_DAY,
+        duration: 365 * SECONDS_PER_DAY,
+        interval: 1,
+        revocable: true,
+        revoked: false,
+        status: VestingStatus.ACTIVE,
+        ...overrides,
+    };
+}
+
+/**
+ * Unfold the content lines of a calendar
+ */
+function unfold(calendar: string): string[] {
+    return calendar.replace(/\r\n /g, '').split('\r\n').filter(Boolean);
+}
+
+describe('CalendarUtils', () => {
+    afterEach(() => {
+        setLocale('en');
+    });
+
+    describe('buildVestingCalendar', () => {
+        it('should wrap one event per unlock point in a calendar', () => {
+            const vesting = schedule();
+            const lines = unfold(buildVestingCalendar([vesting], { generatedAt: GENERATED_AT }));
+
+            expect(lines[0]).toBe('BEGIN:VCALENDAR');
+            expect(lines).toContain('VERSION:2.0');
+            expect(lines[lines.length - 1]).toBe('END:VCALENDAR');
+            expect(lines.filter((line) => line === 'BEGIN:VEVENT').length).toBe(getUnlockEvents(vesting).length);
+            expect(lines).toContain('DTSTART:20250401T000000Z');
+            expect(lines).toContain('DTSTAMP:20250601T000000Z');
+        });
+
+        it('should use CRLF line endings and keep lines within 75 octets', () => {
+            const calendar = buildVestingCalendar([schedule()], { generatedAt: GENERATED_AT });
+
+            expect(calendar.endsWith('\r\n')).toBeTrue();
+            expect(calendar.replace(/\r\n/g, '')).not.toContain('\n');
+            calendar
+                .split('\r\n')
+                .forEach((line) => expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75));
+        });
+
+        it('should describe the unlocked amounts', () => {
+            const lines = unfold(
+                buildVestingCalendar([schedule()], {
+                    generatedAt: GENERATED_AT,
+                    getScheduleUrl: ({ id }) => `https://app.example/vesting/schedules/${id}`,
+                }),
+            );
+
+            const cliff = lines.find((line) => line.startsWith('SUMMARY:VEST vesting cliff ends'));
+            expect(cliff).toBe('SUMMARY:VEST vesting cliff ends: 295.8904 VEST unlock');
+            expect(lines.find((line) => line.startsWith('DESCRIPTION:'))).toContain('of 1\\,200 VEST.');
+            expect(lines).toContain('URL:https://app.example/vesting/schedules/0xABC1');
+        });
+
+        it('should write event texts in the current language', () => {
+            setLocale('de');
+            const lines = unfold(buildVestingCalendar([schedule()], { generatedAt: GENERATED_AT }));
+
+            expect(lines).toContain('X-WR-CALNAME:Token-Vesting');
+            expect(lines).toContain('SUMMARY:VEST-Cliff endet: Freigabe von 295\\,8904 VEST');
+            expect(lines.find((line) => line.startsWith('DESCRIPTION:'))).toContain('von 1.200 VEST.');
+        });
+
+        it('should keep event UIDs stable across regenerations', () => {
+            const uids = (calendar: string): string[] => unfold(calendar).filter((line) => line.startsWith('UID:'));
+            const first = buildVestingCalendar([schedule()], { generatedAt: GENERATED_AT });
+            const second = buildVestingCalendar([schedule({ released: '1000' })], { generatedAt: GENERATED_AT + 60 });
+
+            expect(uids(second)).toEqual(uids(first));
+            expect(new Set(uids(first)).size).toBe(uids(first).length);
+        });
+
+        it('should cancel the events of revoked schedules', () => {
+            const lines = unfold(
+                buildVestingCalendar([schedule({ revoked: true, status: VestingStatus.REVOKED })], {
+                    generatedAt: GENERATED_AT,
+                }),
+            );
+
+            expect(lines).toContain('STATUS:CANCELLED');
+            expect(lines).not.toContain('STATUS:CONFIRMED');
+        });
+    });
+
+    describe('formatIcsDate', () => {
+        it('should format UTC date-times', () => {
+            expect(formatIcsDate(Date.UTC(2025, 11, 31, 23, 59, 30) / 1000)).toBe('20251231T235930Z');
+        });
+    });
+
+    describe('escapeIcsText', () => {
+        it('should escape backslashes, separators and newlines', () => {
+            expect(escapeIcsText('a\\b;c,d\ne')).toBe('a\\\\b\\;c\\,d\\ne');
+        });
+    });
+
+    describe('foldIcsLine', () => {
+        it('should leave short lines alone', () => {
+            expect(foldIcsLine('SUMMARY:Short')).toBe('SUMMARY:Short');
+        });
+
+        it('should fold long lines without splitting characters', () => {
+            const line = `DESCRIPTION:${'€'.repeat(60)}`;
+            const folded = foldIcsLine(line);
+
+            expect(folded.replace(/\r\n /g, '')).toBe(line);
+            folded.split('\r\n').forEach((part) => {
+                expect(new TextEncoder().encode(part).length).toBeLessThanOrEqual(75);
+                expect(part).not.toContain('�');
+            });
+        });
+    });
+});
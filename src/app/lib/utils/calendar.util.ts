@@ -0,0 +1,164 @@
+/**
+ * Calendar (RFC 5545 iCalendar) export utility functions
+ */
+
+import type { CalendarExportOptions } from '@lib/interfaces/calendar.interface';
+import type { UnlockEvent, VestingSchedule } from '@lib/interfaces/vesting.interface';
+import { translate } from './i18n.util';
+import { formatTokenAmount, getUnlockEvents } from './vesting.util';
+
+/**
+ * iCalendar line ending (RFC 5545 section 3.1)
+ */
+const CRLF = '\r\n';
+
+/**
+ * Maximum length of a content line in octets, longer lines are folded
+ */
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * Product identifier of the generated calendars
+ */
+const PRODUCT_ID = '-//blockchain-vesting-app//Vesting Calendar//EN';
+
+/**
+ * Domain part of event UIDs
+ */
+const UID_DOMAIN = 'blockchain-vesting-app';
+
+/**
+ * Build an iCalendar file with the unlock points of schedules, texts in the current language
+ * Event UIDs only depend on the schedule and the unlock time, so importing a regenerated file updates the events;
+ * events of revoked schedules are exported as cancelled so calendars remove them
+ * @param schedules Vesting schedules
+ * @param options Export options
+ * @returns iCalendar content (CRLF line endings)
+ */
+export function buildVestingCalendar(schedules: VestingSchedule[], options: CalendarExportOptions): string {
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        `PRODID:${PRODUCT_ID}`,
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        `X-WR-CALNAME:${escapeIcsText(translate('calendar.name'))}`,
+    ];
+
+    for (const schedule of schedules) {
+        for (const event of getUnlockEvents(schedule)) {
+            lines.push(...buildEventLines(schedule, event, options));
+        }
+    }
+
+    lines.push('END:VCALENDAR');
+
+    return lines.map(foldIcsLine).join(CRLF) + CRLF;
+}
+
+/**
+ * Build the VEVENT lines of one unlock point
+ * @param schedule Vesting schedule
+ * @param event Unlock point
+ * @param options Export options
+ * @returns Unfolded content lines
+ */
+function buildEventLines(schedule: VestingSchedule, event: UnlockEvent, options: CalendarExportOptions): string[] {
+    const { symbol } = schedule.token;
+    const amount = formatAmount(event.amount, schedule);
+    const url = options.getScheduleUrl?.(schedule);
+
+    const summaries: Record<UnlockEvent['kind'], string> = {
+        cliff: translate('calendar.cliffSummary', { symbol, amount }),
+        unlock: translate('calendar.unlockSummary', { symbol, amount }),
+        end: translate('calendar.endSummary', { symbol, amount }),
+    };
+
+    const description = [
+        translate('calendar.unlocks', { amount, symbol }),
+        translate('calendar.vestedAfter', {
+            vested: formatAmount(event.vested, schedule),
+            total: formatAmount(schedule.totalAmount, schedule),
+            symbol,
+        }),
+        translate('calendar.token', { name: schedule.token.name, address: schedule.token.address }),
+        translate('calendar.beneficiary', { address: schedule.beneficiary }),
+        translate('calendar.schedule', { id: schedule.id }),
+        ...(schedule.revoked ? [translate('calendar.revoked')] : []),
+        ...(url ? [url] : []),
+    ].join('\n');
+
+    return [
+        'BEGIN:VEVENT',
+        `UID:${schedule.id.toLowerCase()}-${event.time}@${UID_DOMAIN}`,
+        `DTSTAMP:${formatIcsDate(options.generatedAt)}`,
+        `DTSTART:${formatIcsDate(event.time)}`,
+        `SUMMARY:${escapeIcsText(summaries[event.kind])}`,
+        `DESCRIPTION:${escapeIcsText(description)}`,
+        ...(url ? [`URL:${url}`] : []),
+        `STATUS:${schedule.revoked ? 'CANCELLED' : 'CONFIRMED'}`,
+        `SEQUENCE:${schedule.revoked ? 1 : 0}`,
+        'TRANSP:TRANSPARENT',
+        'END:VEVENT',
+    ];
+}
+
+/**
+ * Format a timestamp as an iCalendar UTC date-time
+ * @param timestamp Unix timestamp in seconds
+ * @returns Date-time value (e.g., 20250401T000000Z)
+ */
+export function formatIcsDate(timestamp: number): string {
+    return new Date(timestamp * 1000)
+        .toISOString()
+        .replace(/[-:]/g, '')
+        .replace(/\.\d{3}/, '');
+}
+
+/**
+ * Escape a TEXT property value (RFC 5545 section 3.3.11)
+ * @param value Plain text
+ * @returns Escaped value
+ */
+export function escapeIcsText(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line longer than 75 octets (RFC 5545 section 3.1)
+ * Continuation lines start with a space; multi-byte characters are never split
+ * @param line Unfolded content line
+ * @returns Folded line, CRLF separated
+ */
+export function foldIcsLine(line: string): string {
+    const encoder = new TextEncoder();
+    const parts: string[] = [];
+    let part = '';
+    let octets = 0;
+
+    for (const char of line) {
+        const size = encoder.encode(char).length;
+        // Continuation lines lose one octet to the leading space
+        const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+        if (octets + size > limit) {
+            parts.push(part);
+            part = '';
+            octets = 0;
+        }
+        part += char;
+        octets += size;
+    }
+    parts.push(part);
+
+    return parts.join(`${CRLF} `);
+}
+
+/**
+ * Format a wei amount of a schedule's token for event texts
+ * @param amount Amount in wei
+ * @param schedule Schedule of the token
+ * @returns Formatted amount, up to 4 decimals
+ */
+function formatAmount(amount: string, schedule: VestingSchedule): string {
+    return formatTokenAmount(amount, schedule.token.decimals, 4);
+}
@@ -0,0 +1,141 @@
+import type { ClaimExportMetadata, ClaimExportRow } from '@lib/interfaces/claim-export.interface';
+import type { TokenPrice } from '@lib/interfaces/price.interface';
+import type { ClaimTransaction } from '@lib/interfaces/vesting.interface';
+import { TransactionStatus } from '@lib/interfaces/vesting.interface';
+import { buildClaimsCsv, buildClaimsJson, escapeCsvValue, filterClaims, toClaimExportRow } from './claim-export.util';
+
+const PROJ = { address: '0x5FbDB2315678afecb367f032d93F642f64180aa3', symbol: 'PROJ', name: 'Project', decimals: 18 };
+const TEAM = { address: '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512', symbol: 'TEAM', name: 'Team', decimals: 6 };
+
+function claim(id: string, timestamp: number, amount: string, token = PROJ): ClaimTransaction {
+    return {
+        id,
+        vestingId: '0xabc1',
+        amount,
+        timestamp,
+        status: TransactionStatus.CONFIRMED,
+        blockNumber: timestamp / 10,
+        beneficiary: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+        token,
+    };
+}
+
+function price(value: number): TokenPrice {
+    return { token: PROJ.address.toLowerCase(), symbol: 'PROJ', currency: 'EUR', price: value, timestamp: 1000 };
+}
+
+describe('ClaimExportUtils', () => {
+    describe('filterClaims', () => {
+        const claims = [claim('0x3', 3000, '1.0'), claim('0x1', 1000, '1.0'), claim('0x2', 2000, '1.0', TEAM)];
+
+        it('should return every claim oldest first without filters', () => {
+            const result = filterClaims(claims, { fromTime: null, toTime: null, tokens: [] });
+
+            expect(result.map((c) => c.id)).toEqual(['0x1', '0x2', '0x3']);
+        });
+
+        it('should keep claims inside the time range, bounds included', () => {
+            const result = filterClaims(claims, { fromTime: 2000, toTime: 3000, tokens: [] });
+
+            expect(result.map((c) => c.id)).toEqual(['0x2', '0x3']);
+        });
+
+        it('should keep claims of the selected tokens in any address case', () => {
+            const result = filterClaims(claims, { fromTime: null, toTime: null, tokens: [TEAM.address.toLowerCase()] });
+
+            expect(result.map((c) => c.id)).toEqual(['0x2']);
+        });
+    });
+
+    describe('toClaimExportRow', () => {
+        it('should keep every digit of the claimed amount', () => {
+            const row = toClaimExportRow(claim('0x1', 1000, '123456789.123456789012345678'), null, null);
+
+            expect(row.amount).toBe('123456789.123456789012345678');
+            expect(row.date).toBe('1970-01-01T00:16:40.000Z');
+            expect(row.fiatCurrency).toBeNull();
+            expect(row.fiatValue).toBeNull();
+        });
+
+        it('should drop a zero fraction', () => {
+            expect(toClaimExportRow(claim('0x1', 1000, '100.0'), null, null).amount).toBe('100');
+        });
+
+        it('should value the claim at the price, rounded to cents', () => {
+            const row = toClaimExportRow(claim('0x1', 1000, '1500.5'), 'EUR', price(0.4213));
+
+            expect(row.fiatCurrency).toBe('EUR');
+            expect(row.fiatPrice).toBe('0.4213');
+            expect(row.fiatValue).toBe('632.16');
+        });
+
+        it('should write tiny prices without an exponent', () => {
+            expect(toClaimExportRow(claim('0x1', 1000, '1.0'), 'EUR', price(1e-8)).fiatPrice).toBe('0.00000001');
+        });
+
+        it('should leave the fiat value empty when the price is unknown', () => {
+            const row = toClaimExportRow(claim('0x1', 1000, '1.0'), 'EUR', null);
+
+            expect(row.fiatCurrency).toBe('EUR');
+            expect(row.fiatPrice).toBeNull();
+            expect(row.fiatValue).toBeNull();
+        });
+    });
+
+    describe('escapeCsvValue', () => {
+        it('should quote values with separators, quotes or line breaks', () => {
+            expect(escapeCsvValue('plain')).toBe('plain');
+            expect(escapeCsvValue('a,b')).toBe('"a,b"');
+            expect(escapeCsvValue('say "hi"')).toBe('"say ""hi"""');
+            expect(escapeCsvValue('a\nb')).toBe('"a\nb"');
+        });
+
+        it('should neutralize spreadsheet formulas', () => {
+            expect(escapeCsvValue('=HYPERLINK("x")')).toBe(`"'=HYPERLINK(""x"")"`);
+            expect(escapeCsvValue('@SUM')).toBe(`'@SUM`);
+        });
+
+        it('should write numbers as is and null as an empty cell', () => {
+            expect(escapeCsvValue(42)).toBe('42');
+            expect(escapeCsvValue(null)).toBe('');
+        });
+    });
+
+    describe('buildClaimsCsv', () => {
+        it('should write a header and one CRLF line per claim', () => {
+            const rows = [toClaimExportRow(claim('0x1', 1000, '2.5'), 'EUR', price(2))];
+
+            const lines = buildClaimsCsv(rows).split('\r\n');
+
+            expect(lines[0]).toBe(
+                'date,blockTime,blockNumber,transactionHash,beneficiary,scheduleId,tokenSymbol,tokenAddress,amount,fiatCurrency,fiatPrice,fiatValue',
+            );
+            expect(lines[1]).toBe(
+                `1970-01-01T00:16:40.000Z,1000,100,0x1,0x70997970C51812dc3A010C7d01b50e0d17dc79C8,0xabc1,PROJ,${PROJ.address},2.5,EUR,2,5.00`,
+            );
+            expect(lines[2]).toBe('');
+        });
+    });
+
+    describe('buildClaimsJson', () => {
+        it('should write the metadata and the claims', () => {
+            const metadata: ClaimExportMetadata = {
+                generatedAt: 5000,
+                chainId: '0x7a69',
+                contract: null,
+                beneficiaries: ['0x70997970C51812dc3A010C7d01b50e0d17dc79C8'],
+                filter: { fromTime: null, toTime: null, tokens: [] },
+                priceSource: null,
+            };
+            const rows = [toClaimExportRow(claim('0x1', 1000, '0.000000000000000001'), null, null)];
+
+            const json = JSON.parse(buildClaimsJson(rows, metadata)) as ClaimExportMetadata & {
+                claims: ClaimExportRow[];
+            };
+
+            expect(json.chainId).toBe('0x7a69');
+            expect(json.claims.length).toBe(1);
+            expect(json.claims[0].amount).toBe('0.000000000000000001');
+        });
+    });
+});
@@ -0,0 +1,139 @@
+/**
+ * Claim export (tax and accounting) utility functions
+ */
+
+import type { ClaimExportFilter, ClaimExportMetadata, ClaimExportRow } from '@lib/interfaces/claim-export.interface';
+import type { FiatCurrency, TokenPrice } from '@lib/interfaces/price.interface';
+import type { ClaimTransaction } from '@lib/interfaces/vesting.interface';
+
+/**
+ * CSV line ending (RFC 4180)
+ */
+const CRLF = '\r\n';
+
+/**
+ * CSV columns, in file order
+ */
+const CSV_COLUMNS: (keyof ClaimExportRow)[] = [
+    'date',
+    'blockTime',
+    'blockNumber',
+    'transactionHash',
+    'beneficiary',
+    'scheduleId',
+    'tokenSymbol',
+    'tokenAddress',
+    'amount',
+    'fiatCurrency',
+    'fiatPrice',
+    'fiatValue',
+];
+
+/**
+ * Apply an export filter to claims
+ * @param claims Claims read from TokensReleased logs
+ * @param filter Time range and tokens to include
+ * @returns Matching claims, oldest first
+ */
+export function filterClaims(claims: ClaimTransaction[], filter: ClaimExportFilter): ClaimTransaction[] {
+    const tokens = new Set(filter.tokens.map((address) => address.toLowerCase()));
+
+    return claims
+        .filter(
+            (claim) =>
+                (filter.fromTime === null || claim.timestamp >= filter.fromTime) &&
+                (filter.toTime === null || claim.timestamp <= filter.toTime) &&
+                (tokens.size === 0 || (!!claim.token && tokens.has(claim.token.address.toLowerCase()))),
+        )
+        .sort((a, b) => a.timestamp - b.timestamp || (a.blockNumber ?? 0) - (b.blockNumber ?? 0));
+}
+
+/**
+ * Turn a claim into an export row
+ * @param claim Claim read from a TokensReleased log
+ * @param currency Currency of the fiat columns, null to leave them empty
+ * @param price Token price at claim time, null when unknown
+ * @returns Export row
+ */
+export function toClaimExportRow(
+    claim: ClaimTransaction,
+    currency: FiatCurrency | null,
+    price: TokenPrice | null,
+): ClaimExportRow {
+    return {
+        transactionHash: claim.id,
+        blockNumber: claim.blockNumber ?? 0,
+        blockTime: claim.timestamp,
+        date: new Date(claim.timestamp * 1000).toISOString(),
+        beneficiary: claim.beneficiary ?? '',
+        scheduleId: claim.vestingId,
+        tokenAddress: claim.token?.address ?? '',
+        tokenSymbol: claim.token?.symbol ?? '',
+        amount: trimDecimal(claim.amount),
+        fiatCurrency: currency,
+        fiatPrice: price
+            ? price.price.toLocaleString('en-US', { useGrouping: false, maximumFractionDigits: 20 })
+            : null,
+        fiatValue: price ? (parseFloat(claim.amount) * price.price).toFixed(2) : null,
+    };
+}
+
+/**
+ * Build a CSV file of claims
+ * @param rows Export rows
+ * @returns CSV content with a header row (CRLF line endings)
+ */
+export function buildClaimsCsv(rows: ClaimExportRow[]): string {
+    const lines = [
+        CSV_COLUMNS.join(','),
+        ...rows.map((row) => CSV_COLUMNS.map((column) => escapeCsvValue(row[column])).join(',')),
+    ];
+    return lines.join(CRLF) + CRLF;
+}
+
+/**
+ * Build a JSON file of claims
+ * @param rows Export rows
+ * @param metadata Export metadata, written before the claims
+ * @returns Indented JSON content
+ */
+export function buildClaimsJson(rows: ClaimExportRow[], metadata: ClaimExportMetadata): string {
+    return JSON.stringify({ ...metadata, claims: rows }, null, 2);
+}
+
+/**
+ * Escape a CSV value (RFC 4180)
+ * Text starting with a formula character is prefixed with a quote so spreadsheets don't evaluate it;
+ * token symbols come from arbitrary token contracts
+ * @param value Cell value
+ * @returns Escaped cell
+ */
+export function escapeCsvValue(value: string | number | null): string {
+    if (value === null) {
+        return '';
+    }
+    if (typeof value === 'number') {
+        return String(value);
+    }
+
+    const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Convert a `date` input value to a Unix timestamp in local time
+ * @param value Input value (e.g., 2025-01-31)
+ * @param isEndOfDay Whether to return the last second of the day instead of the first
+ * @returns Unix timestamp in seconds, or null if the value is empty or not a valid date
+ */
+export function fromDateInputValue(value: string, isEndOfDay = false): number | null {
+    const time = value ? new Date(`${value}T${isEndOfDay ? '23:59:59' : '00:00:00'}`).getTime() : NaN;
+    return Number.isNaN(time) ? null : Math.floor(time / 1000);
+}
+
+/**
+ * Drop a zero fraction from a formatted amount ("100.0" -> "100"), keeping every other digit
+ */
+function trimDecimal(amount: string): string {
+    return amount.replace(/\.0+$/, '');
+}
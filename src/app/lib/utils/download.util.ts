@@ -0,0 +1,18 @@
+/**
+ * File download utility functions
+ */
+
+/**
+ * Let the browser download generated content as a file
+ * @param content File content
+ * @param fileName Suggested file name
+ * @param mimeType Content type (e.g., text/calendar)
+ */
+export function downloadFile(content: string, fileName: string, mimeType: string): void {
+    const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+}
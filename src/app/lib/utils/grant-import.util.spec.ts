@@ -0,0 +1,115 @@
+import {
+    chunkGrantRows,
+    getMaxSchedulesPerBatch,
+    parseGrantFile,
+    summarizeGrantRows,
+    validateGrantRows,
+} from './grant-import.util';
+
+const ALICE = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const BOB = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+
+describe('GrantImportUtils', () => {
+    it('should parse CSV with a header row and quoted amounts', () => {
+        const rows = parseGrantFile(`beneficiary,amount\n${ALICE},100\n\n${BOB},"1,500.25"`);
+
+        expect(rows).toEqual([
+            { line: 2, beneficiary: ALICE, amount: '100' },
+            { line: 4, beneficiary: BOB, amount: '1,500.25' },
+        ]);
+    });
+
+    it('should parse semicolon separated CSV without a header', () => {
+        const rows = parseGrantFile(`${ALICE};42`);
+
+        expect(rows).toEqual([{ line: 1, beneficiary: ALICE, amount: '42' }]);
+    });
+
+    it('should report rows with more than two cells', () => {
+        const rows = validateGrantRows(parseGrantFile(`${ALICE},100\n${BOB},200,extra`), 18);
+
+        expect(rows[0].errors).toEqual([]);
+        expect(rows[1].errors).toEqual(['Row has 3 cells, expected only beneficiary and amount']);
+        expect(rows[1].amountWei).toBeNull();
+    });
+
+    it('should reject comma amounts in semicolon separated CSV', () => {
+        const rows = validateGrantRows(parseGrantFile(`${ALICE};1000,50\n${BOB};1000.50`), 18);
+
+        expect(rows[0].errors).toEqual(['Amount contains a comma, use . as the decimal separator']);
+        expect(rows[0].amountWei).toBeNull();
+        expect(rows[1].errors).toEqual([]);
+        expect(rows[1].amountWei).toBe('1000500000000000000000');
+    });
+
+    it('should parse JSON arrays', () => {
+        const rows = parseGrantFile(
+            JSON.stringify([
+                { beneficiary: ALICE, amount: 10 },
+                { address: BOB, amount: '5' },
+            ]),
+        );
+
+        expect(rows).toEqual([
+            { line: 1, beneficiary: ALICE, amount: '10' },
+            { line: 2, beneficiary: BOB, amount: '5' },
+        ]);
+    });
+
+    it('should reject JSON that is not an array', () => {
+        expect(() => parseGrantFile('{"beneficiary": "0x"}')).toThrowError(/must be an array/);
+    });
+
+    it('should validate addresses and amounts against token decimals', () => {
+        const rows = validateGrantRows(
+            [
+                { line: 1, beneficiary: ALICE, amount: '1.5' },
+                { line: 2, beneficiary: '0x123', amount: '1' },
+                { line: 3, beneficiary: BOB, amount: '0.001' },
+                { line: 4, beneficiary: BOB, amount: '0' },
+                { line: 5, beneficiary: BOB, amount: 'abc' },
+            ],
+            2,
+        );
+
+        expect(rows[0].errors).toEqual([]);
+        expect(rows[0].amountWei).toBe('150');
+        expect(rows[1].errors).toContain('Invalid beneficiary address');
+        expect(rows[2].errors).toContain('Amount has more than 2 decimals');
+        expect(rows[3].errors).toContain('Amount must be greater than zero');
+        expect(rows[4].errors).toContain('Amount must be a plain decimal number');
+        expect(rows.slice(1).every((row) => row.amountWei === null)).toBeTrue();
+    });
+
+    it('should summarize only valid rows', () => {
+        const rows = validateGrantRows(
+            [
+                { line: 1, beneficiary: ALICE, amount: '1,000' },
+                { line: 2, beneficiary: ALICE, amount: '500' },
+                { line: 3, beneficiary: 'bad', amount: '1' },
+            ],
+            18,
+        );
+
+        const summary = summarizeGrantRows(rows);
+
+        expect(summary.totalRows).toBe(3);
+        expect(summary.validRows).toBe(2);
+        expect(summary.invalidRows).toBe(1);
+        expect(summary.uniqueBeneficiaries).toBe(1);
+        expect(summary.totalAmount).toBe('1500000000000000000000');
+    });
+
+    it('should split valid rows into chunks that fit the gas budget', () => {
+        const rawRows = Array.from({ length: 7 }, (_, i) => ({ line: i + 1, beneficiary: ALICE, amount: '1' }));
+        const rows = validateGrantRows(rawRows, 0);
+        const gasForThree = 100_000 + 3 * 200_000;
+
+        const chunks = chunkGrantRows(rows, gasForThree);
+
+        expect(getMaxSchedulesPerBatch(gasForThree)).toBe(3);
+        expect(chunks.map((chunk) => chunk.rows.length)).toEqual([3, 3, 1]);
+        expect(chunks.map((chunk) => chunk.totalAmount)).toEqual(['3', '3', '1']);
+        expect(chunks.every((chunk) => chunk.status === 'queued')).toBeTrue();
+    });
+});
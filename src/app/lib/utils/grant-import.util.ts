@@ -0,0 +1,241 @@
+/**
+ * Bulk grant import utility functions
+ */
+
+import { BATCH_CREATE_GAS } from '@lib/constants/contracts.constant';
+import type {
+    GrantImportChunk,
+    GrantImportRow,
+    GrantImportSummary,
+    RawGrantRow,
+} from '@lib/interfaces/grant-import.interface';
+import { ethers } from 'ethers';
+import { isValidAddress } from './address.util';
+import { translate } from './i18n.util';
+
+/**
+ * Parse a grant list from CSV or JSON content
+ * CSV: one `beneficiary,amount` pair per line, optional header row, `,` `;` or tab separated;
+ * rows with more cells, and amounts with a comma in `;` or tab separated files, get parse errors
+ * JSON: array of `{ beneficiary, amount }` objects (`address` is accepted for `beneficiary`)
+ * @param content File content
+ * @returns Raw grant rows
+ * @throws Error if JSON content is malformed
+ */
+export function parseGrantFile(content: string): RawGrantRow[] {
+    const trimmed = content.trim();
+    if (!trimmed) {
+        return [];
+    }
+
+    return trimmed.startsWith('[') || trimmed.startsWith('{') ? parseGrantJson(trimmed) : parseGrantCsv(trimmed);
+}
+
+/**
+ * Parse a CSV grant list
+ * @param content CSV content
+ * @returns Raw grant rows
+ */
+export function parseGrantCsv(content: string): RawGrantRow[] {
+    const lines = content.split(/\r?\n/);
+    const delimiter = detectDelimiter(lines[0] ?? '');
+    const rows: RawGrantRow[] = [];
+
+    lines.forEach((line, index) => {
+        if (!line.trim() || line.trim().startsWith('#')) {
+            return;
+        }
+
+        const cells = splitCsvLine(line, delimiter).map((cell) => cell.trim());
+        const [beneficiary = '', amount = ''] = cells;
+
+        // Skip header row
+        if (rows.length === 0 && !beneficiary.startsWith('0x') && /beneficiary|address|wallet/i.test(beneficiary)) {
+            return;
+        }
+
+        const parseErrors: string[] = [];
+        if (cells.length > 2) {
+            parseErrors.push(translate('import.rowErrors.extraCells', { count: cells.length }));
+        }
+        // Outside comma separated files a comma is more likely a decimal separator than a thousands separator
+        if (delimiter !== ',' && amount.includes(',')) {
+            parseErrors.push(translate('import.rowErrors.amountComma'));
+        }
+
+        rows.push(
+            parseErrors.length > 0
+                ? { line: index + 1, beneficiary, amount, parseErrors }
+                : { line: index + 1, beneficiary, amount },
+        );
+    });
+
+    return rows;
+}
+
+/**
+ * Parse a JSON grant list
+ * @param content JSON content
+ * @returns Raw grant rows
+ * @throws Error if the content is not an array of grant objects
+ */
+export function parseGrantJson(content: string): RawGrantRow[] {
+    const data: unknown = JSON.parse(content);
+    if (!Array.isArray(data)) {
+        throw new Error(translate('import.rowErrors.jsonArray'));
+    }
+
+    return data.map((item: unknown, index) => {
+        const entry = (typeof item === 'object' && item !== null ? item : {}) as Record<string, unknown>;
+        const beneficiary = entry['beneficiary'] ?? entry['address'] ?? '';
+        const amount = entry['amount'] ?? '';
+
+        return {
+            line: index + 1,
+            beneficiary: String(beneficiary).trim(),
+            amount: String(amount).trim(),
+        };
+    });
+}
+
+/**
+ * Validate raw grant rows against the token decimals
+ * Parse errors of a row are reported first
+ * @param rows Raw grant rows
+ * @param decimals Token decimals
+ * @returns Validated rows with parsed amounts and per-row errors
+ */
+export function validateGrantRows(rows: RawGrantRow[], decimals: number): GrantImportRow[] {
+    return rows.map(({ parseErrors = [], ...row }) => {
+        const errors = [...parseErrors];
+        let amountWei: string | null = null;
+
+        if (!isValidAddress(row.beneficiary)) {
+            errors.push(translate('import.rowErrors.beneficiary'));
+        } else if (BigInt(row.beneficiary) === 0n) {
+            errors.push(translate('import.rowErrors.zeroAddress'));
+        }
+
+        // Allow thousands separators such as "1,000,000" or "1_000_000" (parseGrantCsv flags commas in other dialects)
+        const amount = row.amount.replace(/[,_\s]/g, '');
+        if (!amount) {
+            errors.push(translate('import.rowErrors.missingAmount'));
+        } else if (!/^\d+(\.\d+)?$/.test(amount)) {
+            errors.push(translate('import.rowErrors.amountFormat'));
+        } else if ((amount.split('.')[1] ?? '').length > decimals) {
+            errors.push(translate('import.rowErrors.amountDecimals', { decimals }));
+        } else {
+            const parsed = ethers.utils.parseUnits(amount, decimals);
+            if (parsed.isZero()) {
+                errors.push(translate('import.rowErrors.amountZero'));
+            } else {
+                amountWei = parsed.toString();
+            }
+        }
+
+        return { ...row, amountWei: errors.length === 0 ? amountWei : null, errors };
+    });
+}
+
+/**
+ * Summarize validated rows for the import preview
+ * @param rows Validated grant rows
+ * @returns Import summary
+ */
+export function summarizeGrantRows(rows: GrantImportRow[]): GrantImportSummary {
+    const validRows = rows.filter((row) => row.errors.length === 0);
+
+    return {
+        totalRows: rows.length,
+        validRows: validRows.length,
+        invalidRows: rows.length - validRows.length,
+        totalAmount: sumAmounts(validRows).toString(),
+        uniqueBeneficiaries: new Set(validRows.map((row) => row.beneficiary.toLowerCase())).size,
+    };
+}
+
+/**
+ * Maximum number of schedules that fit in one batch transaction
+ * @param maxGasPerTransaction Gas budget per transaction
+ * @returns Schedules per batch (at least 1)
+ */
+export function getMaxSchedulesPerBatch(maxGasPerTransaction: number = BATCH_CREATE_GAS.maxPerTransaction): number {
+    return Math.max(1, Math.floor((maxGasPerTransaction - BATCH_CREATE_GAS.base) / BATCH_CREATE_GAS.perSchedule));
+}
+
+/**
+ * Split valid rows into batches that fit the gas budget
+ * @param rows Validated grant rows (invalid rows are skipped)
+ * @param maxGasPerTransaction Gas budget per transaction
+ * @returns Queued chunks
+ */
+export function chunkGrantRows(
+    rows: GrantImportRow[],
+    maxGasPerTransaction: number = BATCH_CREATE_GAS.maxPerTransaction,
+): GrantImportChunk[] {
+    const validRows = rows.filter((row) => row.errors.length === 0);
+    const chunkSize = getMaxSchedulesPerBatch(maxGasPerTransaction);
+    const chunks: GrantImportChunk[] = [];
+
+    for (let start = 0; start < validRows.length; start += chunkSize) {
+        const chunkRows = validRows.slice(start, start + chunkSize);
+        chunks.push({
+            index: chunks.length,
+            rows: chunkRows,
+            totalAmount: sumAmounts(chunkRows).toString(),
+            status: 'queued',
+        });
+    }
+
+    return chunks;
+}
+
+/**
+ * Sum parsed row amounts
+ */
+function sumAmounts(rows: GrantImportRow[]): bigint {
+    return rows.reduce((sum, row) => sum + BigInt(row.amountWei ?? '0'), 0n);
+}
+
+/**
+ * Detect the CSV delimiter from the first line
+ */
+function detectDelimiter(line: string): string {
+    if (line.includes('\t')) {
+        return '\t';
+    }
+    if (line.includes(';')) {
+        return ';';
+    }
+    return ',';
+}
+
+/**
+ * Split a CSV line into cells, honouring double-quoted cells
+ */
+function splitCsvLine(line: string, delimiter: string): string[] {
+    const cells: string[] = [];
+    let current = '';
+    let isInQuotes = false;
+
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+
+        if (char === '"') {
+            if (isInQuotes && line[i + 1] === '"') {
+                current += '"';
+                i++;
+            } else {
+                isInQuotes = !isInQuotes;
+            }
+        } else if (char === delimiter && !isInQuotes) {
+            cells.push(current);
+            current = '';
+        } else {
+            current += char;
+        }
+    }
+    cells.push(current);
+
+    return cells;
+}
@@ -0,0 +1,85 @@
+import { formatNumber, getIntlLocale, getLocale, matchLocale, setLocale, translate } from './i18n.util';
+import { formatPriceAge } from './price.util';
+import { SECONDS_PER_DAY, VESTING_INTERVALS, formatDuration, formatInterval } from './vesting.util';
+
+describe('I18nUtils', () => {
+    afterEach(() => {
+        setLocale('en');
+    });
+
+    describe('translate', () => {
+        it('should translate into the current language', () => {
+            expect(translate('wallet.connect')).toBe('Connect Wallet');
+
+            setLocale('de');
+
+            expect(getLocale()).toBe('de');
+            expect(translate('wallet.connect')).toBe('Wallet verbinden');
+            expect(translate('wallet.connect', {}, 'es')).toBe('Conectar wallet');
+        });
+
+        it('should return unknown keys as they are', () => {
+            expect(translate('wallet.missing')).toBe('wallet.missing');
+            expect(translate('Home')).toBe('Home');
+        });
+
+        it('should fill in placeholders and format numbers for the language', () => {
+            expect(translate('admin.balance', { amount: '1,000' })).toBe('Balance: 1,000');
+            expect(translate('dashboard.completedCount', { count: 1234 })).toBe('1,234 Completed');
+
+            setLocale('de');
+
+            expect(translate('dashboard.completedCount', { count: 1234 })).toBe('1.234 abgeschlossen');
+        });
+
+        it('should pick plural texts by count', () => {
+            expect(translate('import.schedules', { count: 1 })).toBe('1 schedule');
+            expect(translate('import.schedules', { count: 3 })).toBe('3 schedules');
+
+            setLocale('es');
+
+            expect(translate('import.schedules', { count: 1 })).toBe('1 calendario');
+            expect(translate('import.schedules', { count: 0 })).toBe('0 calendarios');
+        });
+
+        it('should return the key of plural texts without a count', () => {
+            expect(translate('import.schedules')).toBe('import.schedules');
+        });
+    });
+
+    describe('matchLocale', () => {
+        it('should match browser languages to supported languages', () => {
+            expect(matchLocale('de-AT')).toBe('de');
+            expect(matchLocale('ES')).toBe('es');
+            expect(matchLocale('en-GB')).toBe('en');
+        });
+
+        it('should return null for unsupported languages', () => {
+            expect(matchLocale('fr-FR')).toBeNull();
+        });
+    });
+
+    describe('formatting', () => {
+        it('should format numbers for the current language', () => {
+            expect(formatNumber('1234.5678')).toBe('1,234.57');
+
+            setLocale('de');
+
+            expect(getIntlLocale()).toBe('de-DE');
+            expect(formatNumber(1234.5678, 1)).toBe('1.234,6');
+        });
+
+        it('should format durations, intervals and relative times for the current language', () => {
+            setLocale('de');
+
+            expect(formatDuration(90 * SECONDS_PER_DAY)).toBe('3 Monate');
+            expect(formatInterval(7 * SECONDS_PER_DAY)).toBe('Alle 7 Tage');
+            expect(formatPriceAge(1000, 1000 + 2 * 86400)).toBe('vorgestern');
+
+            setLocale('es');
+
+            expect(formatDuration(SECONDS_PER_DAY)).toBe('1 día');
+            expect(formatInterval(VESTING_INTERVALS.quarterly)).toBe('Trimestral');
+        });
+    });
+});
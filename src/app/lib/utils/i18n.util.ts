@@ -0,0 +1,107 @@
+/**
+ * Translation utility functions
+ * The current locale is module state so formatting utils can follow it without being passed a locale,
+ * I18nService keeps it in sync with the stored language preference
+ */
+
+import { DEFAULT_LOCALE, SUPPORTED_LOCALES, TRANSLATIONS } from '../constants/i18n.constant';
+import type { AppLocale, TranslationParams } from '../interfaces/i18n.interface';
+
+let currentLocale: AppLocale = DEFAULT_LOCALE;
+
+/**
+ * Get the current UI language
+ */
+export function getLocale(): AppLocale {
+    return currentLocale;
+}
+
+/**
+ * Set the current UI language
+ * Use I18nService.setLocale in components, it also stores the preference
+ * @param locale Language code
+ */
+export function setLocale(locale: AppLocale): void {
+    currentLocale = locale;
+}
+
+/**
+ * Get the locale numbers and dates are formatted with
+ * @param locale Language code (default current language)
+ * @returns BCP 47 locale (e.g., "de-DE")
+ */
+export function getIntlLocale(locale: AppLocale = currentLocale): string {
+    return SUPPORTED_LOCALES.find(({ code }) => code === locale)?.intl ?? 'en-US';
+}
+
+/**
+ * Find the supported language of a browser language
+ * @param language Browser language (e.g., "de-AT")
+ * @returns Language code, or null if not supported
+ */
+export function matchLocale(language: string): AppLocale | null {
+    const code = language.toLowerCase().split('-')[0];
+    return SUPPORTED_LOCALES.find((locale) => locale.code === code)?.code ?? null;
+}
+
+/**
+ * Translate a text
+ * Texts missing in the language fall back to English, unknown keys are returned as they are
+ * @param key Dot-separated dictionary key (e.g., "dashboard.title")
+ * @param params Values for the "{name}" placeholders, plural texts are picked by "count"
+ * @param locale Language code (default current language)
+ * @returns Translated text
+ */
+export function translate(key: string, params: TranslationParams = {}, locale: AppLocale = currentLocale): string {
+    const value = lookup(TRANSLATIONS[locale], key) ?? lookup(TRANSLATIONS[DEFAULT_LOCALE], key);
+
+    if (typeof value === 'string') {
+        return interpolate(value, params, locale);
+    }
+    if (value && typeof params['count'] === 'number') {
+        const category = new Intl.PluralRules(getIntlLocale(locale)).select(params['count']);
+        const text = value[category] ?? value['other'];
+        if (typeof text === 'string') {
+            return interpolate(text, params, locale);
+        }
+    }
+    return key;
+}
+
+/**
+ * Format a number for the current language
+ * @param value Number, or decimal string (e.g., formatted token amounts)
+ * @param maximumFractionDigits Maximum decimals shown (default 2)
+ * @returns Formatted number (e.g., "1,234.5" or "1.234,5")
+ */
+export function formatNumber(value: number | string, maximumFractionDigits = 2): string {
+    const num = typeof value === 'string' ? parseFloat(value) : value;
+    return num.toLocaleString(getIntlLocale(), { maximumFractionDigits });
+}
+
+/**
+ * Find a dictionary entry: a text, plural texts, or undefined if the key doesn't exist
+ */
+function lookup(dictionary: object, key: string): string | Record<string, string> | undefined {
+    let node: unknown = dictionary;
+    for (const part of key.split('.')) {
+        if (!node || typeof node !== 'object' || !(part in node)) {
+            return undefined;
+        }
+        node = (node as Record<string, unknown>)[part];
+    }
+    return node as string | Record<string, string>;
+}
+
+/**
+ * Replace "{name}" placeholders, numbers are formatted for the language
+ */
+function interpolate(text: string, params: TranslationParams, locale: AppLocale): string {
+    return text.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+        const value = params[name];
+        if (value === undefined) {
+            return placeholder;
+        }
+        return typeof value === 'number' ? value.toLocaleString(getIntlLocale(locale)) : value;
+    });
+}
@@ -0,0 +1,160 @@
+import { CONTRACT_ABIS } from '@lib/constants/contracts.constant';
+import { ethers } from 'ethers';
+import { batchRead, ContractRead } from './multicall.util';
+
+const MULTICALL_ADDRESS = '0x0165878A594ca255338adfa4d48449f69242Eb8F';
+const VESTING_ADDRESS = '0x5FC8d32690cc91D4c39d9d3abcBD16989F875707';
+const TOKEN_ADDRESSES = [
+    '0x5FbDB2315678afecb367f032d93F642f64180aa3',
+    '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512',
+    '0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0',
+    '0xCf7Ed3AccA5a467e9e704C703E8D87F634fB0Fc9',
+    '0xDc64a140Aa3E981100a9becA4E685f962f0cF6C9',
+];
+const BENEFICIARY = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+const VESTING = new ethers.utils.Interface([
+    'function getVestingSchedule(bytes32 vestingId) view returns (address, address, uint256, uint256, uint256, uint256, uint256, bool, bool)',
+]);
+const TOKEN = new ethers.utils.Interface([
+    'function symbol() view returns (string)',
+    'function name() view returns (string)',
+    'function decimals() view returns (uint8)',
+]);
+const MULTICALL = new ethers.utils.Interface(CONTRACT_ABIS.multicall);
+
+/**
+ * In-memory chain answering eth_call for the vesting contract, tokens and Multicall3
+ * Counts round trips
+ */
+class FakeProvider {
+    roundTrips = 0;
+    hasMulticall = true;
+
+    call(tx: { to: string; data: string }): Promise<string> {
+        this.roundTrips++;
+        return new Promise((resolve) => resolve(this._execute(tx.to, tx.data)));
+    }
+
+    private _execute(to: string, data: string): string {
+        if (to === MULTICALL_ADDRESS && this.hasMulticall) {
+            const [calls] = MULTICALL.decodeFunctionData('aggregate3', data) as unknown as [
+                { target: string; callData: string }[],
+            ];
+            const results = calls.map((call) => {
+                try {
+                    return { success: true, returnData: this._execute(call.target, call.callData) };
+                } catch {
+                    return { success: false, returnData: '0x' };
+                }
+            });
+            return MULTICALL.encodeFunctionResult('aggregate3', [results]);
+        }
+
+        if (to === VESTING_ADDRESS) {
+            const [vestingId] = VESTING.decodeFunctionData('getVestingSchedule', data) as unknown as [string];
+            const index = ethers.BigNumber.from(vestingId).toNumber();
+            if (index === 0) {
+                throw new Error('revert: schedule does not exist');
+            }
+            const token = TOKEN_ADDRESSES[index % TOKEN_ADDRESSES.length];
+            return VESTING.encodeFunctionResult('getVestingSchedule', [
+                BENEFICIARY,
+                token,
+                ethers.utils.parseEther(String(index)),
+                0,
+                1_700_000_000,
+                0,
+                31_536_000,
+                true,
+                false,
+            ]);
+        }
+
+        const tokenIndex = TOKEN_ADDRESSES.indexOf(to);
+        if (tokenIndex >= 0) {
+            const method = TOKEN.getFunction(data.slice(0, 10)).name;
+            const values: Record<string, unknown> = {
+                symbol: `TK${tokenIndex}`,
+                name: `Token ${tokenIndex}`,
+                decimals: 18,
+            };
+            return TOKEN.encodeFunctionResult(method, [values[method]]);
+        }
+
+        // No contract at this address
+        return '0x';
+    }
+}
+
+function scheduleId(index: number): string {
+    return ethers.utils.hexZeroPad(ethers.utils.hexlify(index), 32);
+}
+
+function scheduleReads(count: number): ContractRead[] {
+    return Array.from({ length: count }, (_, i) => ({
+        target: VESTING_ADDRESS,
+        contractInterface: VESTING,
+        method: 'getVestingSchedule',
+        args: [scheduleId(i + 1)],
+    }));
+}
+
+function tokenReads(tokens: string[]): ContractRead[] {
+    return tokens.flatMap((target) =>
+        ['symbol', 'name', 'decimals'].map((method) => ({ target, contractInterface: TOKEN, method })),
+    );
+}
+
+describe('MulticallUtils', () => {
+    let provider: FakeProvider;
+
+    beforeEach(() => {
+        provider = new FakeProvider();
+    });
+
+    it('should pack reads into aggregate3 requests of the batch size', async () => {
+        const results = await batchRead(
+            provider as unknown as ethers.providers.Provider,
+            MULTICALL_ADDRESS,
+            scheduleReads(10),
+            4,
+        );
+
+        expect(provider.roundTrips).toBe(3);
+        expect(results.length).toBe(10);
+        expect(results.map((result) => String(result?.[2]))).toEqual(
+            Array.from({ length: 10 }, (_, i) => ethers.utils.parseEther(String(i + 1)).toString()),
+        );
+    });
+
+    it('should return null for reverted calls without failing the batch', async () => {
+        const reads = [
+            {
+                target: VESTING_ADDRESS,
+                contractInterface: VESTING,
+                method: 'getVestingSchedule',
+                args: [scheduleId(0)],
+            },
+            ...scheduleReads(1),
+        ];
+
+        const results = await batchRead(provider as unknown as ethers.providers.Provider, MULTICALL_ADDRESS, reads);
+
+        expect(results[0]).toBeNull();
+        expect(results[1]?.[0]).toBe(BENEFICIARY);
+    });
+
+    it('should fall back to concurrent calls without a Multicall3 contract', async () => {
+        provider.hasMulticall = false;
+
+        const results = await batchRead(
+            provider as unknown as ethers.providers.Provider,
+            MULTICALL_ADDRESS,
+            tokenReads([TOKEN_ADDRESSES[0]]),
+        );
+
+        expect(results.map((result): unknown => result?.[0])).toEqual(['TK0', 'Token 0', 18]);
+        expect(provider.roundTrips).toBe(4); // Failed aggregate3 + 3 individual calls
+    });
+});
@@ -0,0 +1,120 @@
+/**
+ * Batched contract read utility functions (Multicall3)
+ */
+
+import { CONTRACT_ABIS, MULTICALL_BATCH_SIZE } from '../constants/contracts.constant';
+import { ethers } from 'ethers';
+
+/**
+ * A view function call to batch
+ */
+export interface ContractRead {
+    target: string; // Contract address
+    contractInterface: ethers.utils.Interface; // Interface used to encode the call and decode its result
+    method: string; // Function name or signature
+    args?: unknown[]; // Function arguments
+}
+
+/**
+ * Decoded result of a read, or null if the call reverted
+ */
+export type ContractReadResult = ethers.utils.Result | null;
+
+const MULTICALL_INTERFACE = new ethers.utils.Interface(CONTRACT_ABIS.multicall);
+
+/**
+ * Run view calls in as few RPC round trips as possible
+ * With a Multicall3 address the calls are packed into aggregate3 requests of `batchSize` calls,
+ * otherwise (or if the aggregate call fails, e.g. no Multicall3 at that address) they are sent concurrently
+ * @param provider Provider to read through
+ * @param multicallAddress Multicall3 contract address, or null if the network has none
+ * @param reads Calls to run
+ * @param batchSize Calls per aggregate3 request
+ * @returns Decoded results in the same order as the reads, null for reverted calls
+ */
+export async function batchRead(
+    provider: ethers.providers.Provider,
+    multicallAddress: string | null,
+    reads: ContractRead[],
+    batchSize = MULTICALL_BATCH_SIZE,
+): Promise<ContractReadResult[]> {
+    if (reads.length === 0) {
+        return [];
+    }
+    if (!multicallAddress) {
+        return readEach(provider, reads);
+    }
+
+    const chunks: ContractRead[][] = [];
+    for (let i = 0; i < reads.length; i += batchSize) {
+        chunks.push(reads.slice(i, i + batchSize));
+    }
+
+    const results = await Promise.all(
+        chunks.map(async (chunk) => {
+            try {
+                return await aggregate(provider, multicallAddress, chunk);
+            } catch (error) {
+                console.warn('⚠️ Multicall failed, falling back to individual calls:', error);
+                return readEach(provider, chunk);
+            }
+        }),
+    );
+
+    return results.flat();
+}
+
+/**
+ * Run calls through a single Multicall3 aggregate3 request
+ */
+async function aggregate(
+    provider: ethers.providers.Provider,
+    multicallAddress: string,
+    reads: ContractRead[],
+): Promise<ContractReadResult[]> {
+    const calls = reads.map((read) => ({
+        target: read.target,
+        allowFailure: true,
+        callData: read.contractInterface.encodeFunctionData(read.method, read.args ?? []),
+    }));
+
+    const data = await provider.call({
+        to: multicallAddress,
+        data: MULTICALL_INTERFACE.encodeFunctionData('aggregate3', [calls]),
+    });
+    const [returnData] = MULTICALL_INTERFACE.decodeFunctionResult('aggregate3', data) as [
+        { success: boolean; returnData: string }[],
+    ];
+
+    return returnData.map(({ success, returnData: result }, i) => (success ? decodeResult(reads[i], result) : null));
+}
+
+/**
+ * Run calls one by one, concurrently
+ */
+async function readEach(provider: ethers.providers.Provider, reads: ContractRead[]): Promise<ContractReadResult[]> {
+    return Promise.all(
+        reads.map(async (read) => {
+            try {
+                const result = await provider.call({
+                    to: read.target,
+                    data: read.contractInterface.encodeFunctionData(read.method, read.args ?? []),
+                });
+                return decodeResult(read, result);
+            } catch {
+                return null;
+            }
+        }),
+    );
+}
+
+/**
+ * Decode a call result, treating undecodable data (e.g. no contract at the target) as a failure
+ */
+function decodeResult(read: ContractRead, data: string): ContractReadResult {
+    try {
+        return read.contractInterface.decodeFunctionResult(read.method, data);
+    } catch {
+        return null;
+    }
+}
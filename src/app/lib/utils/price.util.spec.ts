@@ -0,0 +1,121 @@
+import type { TokenPrice } from '@lib/interfaces/price.interface';
+import type { VestingRelease, VestingSchedule } from '@lib/interfaces/vesting.interface';
+import { VestingStatus } from '@lib/interfaces/vesting.interface';
+import { ethers } from 'ethers';
+import { parseAmount, subtractAmounts } from './amount.util';
+import {
+    calculateFiatValuation,
+    calculateFiatValue,
+    formatFiatAmount,
+    formatPriceAge,
+    getPriceKey,
+} from './price.util';
+
+const PROJ = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const TEAM = '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512';
+
+function schedule(id: string, address: string, symbol: string): VestingSchedule {
+    return {
+        id,
+        beneficiary: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+        token: { address, symbol, name: `${symbol} Token`, decimals: 18 },
+        totalAmount: ethers.utils.parseEther('1000').toString(),
+        released: '0',
+        startTime: 0,
+        cliff: 0,
+        duration: 1000,
+        interval: 1,
+        revocable: true,
+        revoked: false,
+        status: VestingStatus.ACTIVE,
+    };
+}
+
+function release(total: string, vested: string, claimed: string): VestingRelease {
+    return {
+        total: parseAmount(total, 18),
+        vested: parseAmount(vested, 18),
+        claimed: parseAmount(claimed, 18),
+        claimable: subtractAmounts(parseAmount(vested, 18), parseAmount(claimed, 18)),
+        locked: subtractAmounts(parseAmount(total, 18), parseAmount(vested, 18)),
+        progress: (parseFloat(vested) / parseFloat(total)) * 100,
+    };
+}
+
+function price(address: string, symbol: string, value: number, currency: TokenPrice['currency'] = 'USD'): TokenPrice {
+    return { token: getPriceKey(address), symbol, currency, price: value, timestamp: 1_700_000_000 };
+}
+
+describe('PriceUtils', () => {
+    describe('calculateFiatValue', () => {
+        it('should value each release amount at the token price', () => {
+            const value = calculateFiatValue(release('1000', '400', '100'), price(PROJ, 'PROJ', 0.5));
+
+            expect(value).toEqual({ total: 500, vested: 200, claimable: 150, locked: 300 });
+        });
+    });
+
+    describe('calculateFiatValuation', () => {
+        const schedules = [schedule('0x1', PROJ, 'PROJ'), schedule('0x2', PROJ, 'PROJ'), schedule('0x3', TEAM, 'TEAM')];
+        const releases = new Map([
+            ['0x1', release('1000', '500', '0')],
+            ['0x2', release('1000', '1000', '1000')],
+            ['0x3', release('1000', '250', '0')],
+        ]);
+
+        it('should sum schedules across tokens', () => {
+            const prices = new Map([
+                [getPriceKey(PROJ), price(PROJ, 'PROJ', 2)],
+                [getPriceKey(TEAM), price(TEAM, 'TEAM', 0.1)],
+            ]);
+
+            const valuation = calculateFiatValuation(schedules, releases, prices, 'USD');
+
+            expect(valuation.total).toBeCloseTo(4100);
+            expect(valuation.vested).toBeCloseTo(3025);
+            expect(valuation.claimable).toBeCloseTo(1025);
+            expect(valuation.locked).toBeCloseTo(1075);
+            expect(valuation.prices.map((p) => p.symbol)).toEqual(['PROJ', 'TEAM']);
+            expect(valuation.unpricedTokens).toEqual([]);
+        });
+
+        it('should leave out and list tokens without a price', () => {
+            const prices = new Map([[getPriceKey(PROJ), price(PROJ, 'PROJ', 2)]]);
+
+            const valuation = calculateFiatValuation(schedules, releases, prices, 'USD');
+
+            expect(valuation.total).toBeCloseTo(4000);
+            expect(valuation.unpricedTokens.map((token) => token.symbol)).toEqual(['TEAM']);
+        });
+
+        it('should not use prices quoted in another currency', () => {
+            const prices = new Map([[getPriceKey(PROJ), price(PROJ, 'PROJ', 2, 'EUR')]]);
+
+            const valuation = calculateFiatValuation(schedules, releases, prices, 'USD');
+
+            expect(valuation.total).toBe(0);
+            expect(valuation.prices).toEqual([]);
+            expect(valuation.unpricedTokens.map((token) => token.symbol)).toEqual(['PROJ', 'TEAM']);
+        });
+    });
+
+    describe('formatFiatAmount', () => {
+        it('should format amounts with two decimals and the currency symbol', () => {
+            expect(formatFiatAmount(1234.5, 'USD')).toBe('$1,234.50');
+            expect(formatFiatAmount(0, 'EUR')).toBe('€0.00');
+        });
+
+        it('should keep significant digits of amounts below one unit', () => {
+            expect(formatFiatAmount(0.0123456, 'GBP')).toBe('£0.01235');
+        });
+    });
+
+    describe('formatPriceAge', () => {
+        it('should format the time since the price update', () => {
+            expect(formatPriceAge(1000, 1030)).toBe('now');
+            expect(formatPriceAge(1000, 1000 + 5 * 60)).toBe('5m ago');
+            expect(formatPriceAge(1000, 1000 + 3 * 3600)).toBe('3h ago');
+            expect(formatPriceAge(1000, 1000 + 2 * 86400)).toBe('2d ago');
+        });
+    });
+});
@@ -0,0 +1,137 @@
+/**
+ * Token price and fiat valuation utility functions
+ */
+
+import type { FiatCurrency, FiatValuation, FiatValue, TokenPrice } from '@lib/interfaces/price.interface';
+import type { TokenInfo, VestingRelease, VestingSchedule } from '@lib/interfaces/vesting.interface';
+import { toNumber } from './amount.util';
+import { getIntlLocale } from './i18n.util';
+
+/**
+ * Get the key of a token in price maps
+ * @param address Token contract address
+ * @returns Lowercase address
+ */
+export function getPriceKey(address: string): string {
+    return address.toLowerCase();
+}
+
+/**
+ * Calculate the fiat value of a schedule's release amounts
+ * @param release Vesting release calculation
+ * @param price Price of the schedule's token
+ * @returns Fiat values
+ */
+export function calculateFiatValue(release: VestingRelease, price: TokenPrice): FiatValue {
+    return {
+        total: toNumber(release.total) * price.price,
+        vested: toNumber(release.vested) * price.price,
+        claimable: toNumber(release.claimable) * price.price,
+        locked: toNumber(release.locked) * price.price,
+    };
+}
+
+/**
+ * Calculate the fiat value of schedules across tokens
+ * Schedules of tokens without a price are left out, their tokens are listed in unpricedTokens
+ * @param schedules Vesting schedules
+ * @param releases Release calculations by schedule ID
+ * @param prices Prices by token key (see getPriceKey)
+ * @param currency Quote currency
+ * @returns Fiat valuation
+ */
+export function calculateFiatValuation(
+    schedules: VestingSchedule[],
+    releases: Map<string, VestingRelease>,
+    prices: Map<string, TokenPrice>,
+    currency: FiatCurrency,
+): FiatValuation {
+    const valuation: FiatValuation = {
+        currency,
+        total: 0,
+        vested: 0,
+        claimable: 0,
+        locked: 0,
+        prices: [],
+        unpricedTokens: [],
+    };
+    const usedPrices = new Map<string, TokenPrice>();
+    const unpricedTokens = new Map<string, TokenInfo>();
+
+    for (const schedule of schedules) {
+        const key = getPriceKey(schedule.token.address);
+        const price = prices.get(key);
+        const release = releases.get(schedule.id);
+
+        if (!price || price.currency !== currency) {
+            unpricedTokens.set(key, schedule.token);
+            continue;
+        }
+        if (!release) {
+            continue;
+        }
+
+        const value = calculateFiatValue(release, price);
+        valuation.total += value.total;
+        valuation.vested += value.vested;
+        valuation.claimable += value.claimable;
+        valuation.locked += value.locked;
+        usedPrices.set(key, price);
+    }
+
+    valuation.prices = [...usedPrices.values()];
+    valuation.unpricedTokens = [...unpricedTokens.values()];
+    return valuation;
+}
+
+/**
+ * Format a fiat amount
+ * Amounts below one unit keep up to 4 significant digits so prices of cheap tokens stay readable
+ * @param value Fiat amount
+ * @param currency Currency
+ * @returns Formatted amount with currency symbol for the current language (e.g., "$1,234.56")
+ */
+export function formatFiatAmount(value: number, currency: FiatCurrency): string {
+    const isSmall = value !== 0 && Math.abs(value) < 1;
+
+    return new Intl.NumberFormat(getIntlLocale(), {
+        style: 'currency',
+        currency,
+        ...(isSmall ? { maximumSignificantDigits: 4 } : { minimumFractionDigits: 2, maximumFractionDigits: 2 }),
+    }).format(value);
+}
+
+/**
+ * Format how long ago a price was updated
+ * @param timestamp Price timestamp (Unix)
+ * @param now Current time (Unix)
+ * @returns Relative time in the current language (e.g., "5m ago")
+ */
+export function formatPriceAge(timestamp: number, now: number): string {
+    const seconds = Math.max(now - timestamp, 0);
+    const format = new Intl.RelativeTimeFormat(getIntlLocale(), { style: 'narrow', numeric: 'auto' });
+
+    if (seconds < 60) {
+        return format.format(0, 'second');
+    } else if (seconds < 3600) {
+        return format.format(-Math.floor(seconds / 60), 'minute');
+    } else if (seconds < 86400) {
+        return format.format(-Math.floor(seconds / 3600), 'hour');
+    }
+    return format.format(-Math.floor(seconds / 86400), 'day');
+}
+
+/**
+ * Format when a price was updated
+ * @param timestamp Price timestamp (Unix)
+ * @returns Date and time (e.g., "Oct 19, 2025, 2:30 PM")
+ */
+export function formatPriceTime(timestamp: number): string {
+    return new Date(timestamp * 1000).toLocaleString(getIntlLocale(), {
+        year: 'numeric',
+        month: 'short',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: '2-digit',
+    });
+}
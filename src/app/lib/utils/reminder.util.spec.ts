@@ -0,0 +1,134 @@
+import type { ReminderPreferences } from '@lib/interfaces/reminder.interface';
+import type { VestingSchedule } from '@lib/interfaces/vesting.interface';
+import { VestingStatus } from '@lib/interfaces/vesting.interface';
+import { ethers } from 'ethers';
+import { getCliffTime, getReminderKey, getReminders, getThresholdTime, isValidThreshold } from './reminder.util';
+import { SECONDS_PER_DAY, VESTING_INTERVALS } from './vesting.util';
+
+const START = Date.UTC(2025, 0, 1) / 1000;
+
+function schedule(overrides: Partial<VestingSchedule> = {}): VestingSchedule {
+    return {
+        id: '0xABC1',
+        beneficiary: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+        token: {
+            address: '0x5FbDB2315678afecb367f032d93F642f64180aa3',
+            symbol: 'VEST',
+            name: 'Vest Token',
+            decimals: 18,
+        },
+        totalAmount: ethers.utils.parseEther('3600').toString(),
+        released: '0',
+        startTime: START,
+        cliff: 90 * SECONDS_PER_DAY,
+        duration: 360 * SECONDS_PER_DAY,
+        interval: 1,
+        revocable: true,
+        revoked: false,
+        status: VestingStatus.ACTIVE,
+        ...overrides,
+    };
+}
+
+function preferences(overrides: Partial<ReminderPreferences> = {}): ReminderPreferences {
+    return { enabled: true, cliff: true, revoked: true, thresholds: {}, ...overrides };
+}
+
+describe('ReminderUtils', () => {
+    describe('isValidThreshold', () => {
+        it('should accept positive amounts within the token decimals', () => {
+            expect(isValidThreshold('100', 18)).toBeTrue();
+            expect(isValidThreshold('0.5', 6)).toBeTrue();
+        });
+
+        it('should reject zero, malformed amounts and extra decimals', () => {
+            expect(isValidThreshold('0', 18)).toBeFalse();
+            expect(isValidThreshold('-1', 18)).toBeFalse();
+            expect(isValidThreshold('1e3', 18)).toBeFalse();
+            expect(isValidThreshold('0.1234567', 6)).toBeFalse();
+        });
+    });
+
+    describe('getCliffTime', () => {
+        it('should return the cliff end of linear schedules', () => {
+            expect(getCliffTime(schedule())).toBe(START + 90 * SECONDS_PER_DAY);
+        });
+
+        it('should return the first unlock of step schedules', () => {
+            const vesting = schedule({ cliff: 15 * SECONDS_PER_DAY, interval: VESTING_INTERVALS.monthly });
+
+            expect(getCliffTime(vesting)).toBe(START + 30 * SECONDS_PER_DAY);
+        });
+
+        it('should return null without a cliff', () => {
+            expect(getCliffTime(schedule({ cliff: 0 }))).toBeNull();
+        });
+    });
+
+    describe('getThresholdTime', () => {
+        it('should return the first second a linear schedule reaches the threshold', () => {
+            // 10 tokens vest per day, 900 are claimable at the cliff end
+            expect(getThresholdTime(schedule(), '1000', START)).toBe(START + 100 * SECONDS_PER_DAY);
+            expect(getThresholdTime(schedule(), '500', START)).toBe(START + 90 * SECONDS_PER_DAY);
+        });
+
+        it('should return the unlock of step schedules reaching the threshold', () => {
+            const vesting = schedule({ interval: VESTING_INTERVALS.monthly });
+
+            expect(getThresholdTime(vesting, '1000', START)).toBe(START + 120 * SECONDS_PER_DAY);
+        });
+
+        it('should account for released tokens', () => {
+            const vesting = schedule({ released: ethers.utils.parseEther('900').toString() });
+
+            expect(getThresholdTime(vesting, '100', START + 90 * SECONDS_PER_DAY)).toBe(START + 100 * SECONDS_PER_DAY);
+        });
+
+        it('should return the current time once reached', () => {
+            const now = START + 200 * SECONDS_PER_DAY;
+
+            expect(getThresholdTime(schedule(), '1000', now)).toBe(now);
+        });
+
+        it('should return null for thresholds never reached', () => {
+            expect(getThresholdTime(schedule(), '5000', START)).toBeNull();
+            expect(getThresholdTime(schedule({ revoked: true }), '1', START)).toBeNull();
+        });
+    });
+
+    describe('getReminders', () => {
+        it('should list cliff and threshold reminders by due time', () => {
+            const reminders = getReminders(
+                [schedule()],
+                preferences({ thresholds: { [schedule().id.toLowerCase()]: '1000' } }),
+                START,
+            );
+
+            expect(reminders.map(({ kind, time }) => [kind, time])).toEqual([
+                ['cliff', START + 90 * SECONDS_PER_DAY],
+                ['threshold', START + 100 * SECONDS_PER_DAY],
+            ]);
+            expect(reminders[1].key).toBe(getReminderKey('threshold', '0xabc1', '1000'));
+        });
+
+        it('should only remind of the revocation of revoked schedules', () => {
+            const reminders = getReminders(
+                [schedule({ revoked: true })],
+                preferences({ thresholds: { [schedule().id.toLowerCase()]: '1' } }),
+                START,
+            );
+
+            expect(reminders.map(({ kind, time }) => [kind, time])).toEqual([['revoked', START]]);
+        });
+
+        it('should leave out reminder kinds switched off', () => {
+            const reminders = getReminders(
+                [schedule(), schedule({ id: '0xABC2', revoked: true })],
+                preferences({ cliff: false, revoked: false }),
+                START,
+            );
+
+            expect(reminders).toEqual([]);
+        });
+    });
+});
@@ -0,0 +1,155 @@
+/**
+ * Reminder utility functions
+ */
+
+import type { Reminder, ReminderKind, ReminderPreferences } from '@lib/interfaces/reminder.interface';
+import type { VestingSchedule } from '@lib/interfaces/vesting.interface';
+import { shortenAddress } from '@lib/utils/address.util';
+import { compareAmounts, parseAmount } from '@lib/utils/amount.util';
+import { translate } from '@lib/utils/i18n.util';
+import { calculateVestingRelease, getNextClaimDate } from '@lib/utils/vesting.util';
+import { ethers } from 'ethers';
+
+/**
+ * Get the key of a reminder
+ * Threshold keys include the threshold, so a changed threshold is reminded of again
+ * @param kind Reminder kind
+ * @param scheduleId Vesting schedule ID
+ * @param threshold Claimable amount of threshold reminders (token units)
+ * @returns Reminder key (e.g., "threshold:0xabc...:100")
+ */
+export function getReminderKey(kind: ReminderKind, scheduleId: string, threshold?: string): string {
+    return [kind, scheduleId.toLowerCase(), ...(threshold ? [threshold] : [])].join(':');
+}
+
+/**
+ * Check a claimable amount threshold entered by the user
+ * @param value Amount in token units
+ * @param decimals Token decimals
+ * @returns Whether the value is a positive amount with at most `decimals` fraction digits
+ */
+export function isValidThreshold(value: string, decimals: number): boolean {
+    if (!/^\d+(\.\d+)?$/.test(value)) {
+        return false;
+    }
+
+    try {
+        return ethers.utils.parseUnits(value, decimals).gt(0);
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Get the time a schedule's cliff passes and its first tokens unlock
+ * @param schedule Vesting schedule
+ * @returns Unix timestamp, or null if the schedule has no cliff
+ */
+export function getCliffTime(schedule: VestingSchedule): number | null {
+    return schedule.cliff > 0 ? getNextClaimDate(schedule, schedule.startTime) : null;
+}
+
+/**
+ * Get the first time the claimable amount of a schedule reaches a threshold
+ * The claimable amount only grows until the end, so the time is found by binary search between the next unlock
+ * (see getNextClaimDate) and the end
+ * @param schedule Vesting schedule
+ * @param threshold Claimable amount in token units
+ * @param currentTime Current timestamp (Unix seconds)
+ * @returns Unix timestamp (currentTime if already reached), or null if the schedule never reaches the threshold
+ */
+export function getThresholdTime(schedule: VestingSchedule, threshold: string, currentTime: number): number | null {
+    if (schedule.revoked || !isValidThreshold(threshold, schedule.token.decimals)) {
+        return null;
+    }
+
+    const target = parseAmount(threshold, schedule.token.decimals);
+    const isReached = (time: number): boolean =>
+        compareAmounts(calculateVestingRelease(schedule, time).claimable, target) >= 0;
+
+    if (isReached(currentTime)) {
+        return currentTime;
+    }
+
+    const end = schedule.startTime + schedule.duration;
+    const nextUnlock = getNextClaimDate(schedule, currentTime);
+    if (nextUnlock === null || !isReached(end)) {
+        return null;
+    }
+
+    // Nothing more becomes claimable before the next unlock, except on linear schedules past the cliff
+    const isVestingEverySecond = schedule.interval <= 1 && currentTime >= schedule.startTime + schedule.cliff;
+    let low = isVestingEverySecond ? currentTime + 1 : nextUnlock;
+    let high = end;
+    while (low < high) {
+        const middle = Math.floor((low + high) / 2);
+        if (isReached(middle)) {
+            high = middle;
+        } else {
+            low = middle + 1;
+        }
+    }
+    return low;
+}
+
+/**
+ * Get the reminders of schedules, past and upcoming
+ * Revoked schedules only get a revocation reminder, due at currentTime. Texts are in the current language.
+ * @param schedules Vesting schedules of the reminded wallet
+ * @param preferences Reminder preferences
+ * @param currentTime Current timestamp (Unix seconds)
+ * @returns Reminders sorted by due time
+ */
+export function getReminders(
+    schedules: VestingSchedule[],
+    preferences: ReminderPreferences,
+    currentTime: number,
+): Reminder[] {
+    const reminders: Reminder[] = [];
+
+    for (const schedule of schedules) {
+        const { symbol } = schedule.token;
+        const scheduleName = translate('reminders.scheduleName', { symbol, id: shortenAddress(schedule.id, 10, 8) });
+
+        if (schedule.revoked) {
+            if (preferences.revoked) {
+                reminders.push({
+                    key: getReminderKey('revoked', schedule.id),
+                    kind: 'revoked',
+                    scheduleId: schedule.id,
+                    time: currentTime,
+                    title: translate('reminders.revokedTitle', { symbol }),
+                    body: translate('reminders.revokedBody', { schedule: scheduleName }),
+                });
+            }
+            continue;
+        }
+
+        const cliffTime = preferences.cliff ? getCliffTime(schedule) : null;
+        if (cliffTime !== null) {
+            reminders.push({
+                key: getReminderKey('cliff', schedule.id),
+                kind: 'cliff',
+                scheduleId: schedule.id,
+                time: cliffTime,
+                title: translate('reminders.cliffTitle', { symbol }),
+                body: translate('reminders.cliffBody', { schedule: scheduleName }),
+            });
+        }
+
+        const threshold = preferences.thresholds[schedule.id.toLowerCase()];
+        const thresholdTime = threshold ? getThresholdTime(schedule, threshold, currentTime) : null;
+        if (threshold && thresholdTime !== null) {
+            reminders.push({
+                key: getReminderKey('threshold', schedule.id, threshold),
+                kind: 'threshold',
+                scheduleId: schedule.id,
+                time: thresholdTime,
+                title: translate('reminders.thresholdTitle', { amount: threshold, symbol }),
+                body: translate('reminders.thresholdBody', { schedule: scheduleName, amount: threshold, symbol }),
+            });
+        }
+    }
+
+    return reminders.sort((a, b) => a.time - b.time);
+}
@@ -1,3 +1,8 @@
+import type { TrackedTransaction } from '@lib/interfaces/transaction.interface';
+import type { AppLocale } from '@lib/interfaces/i18n.interface';
+import type { FiatCurrency } from '@lib/interfaces/price.interface';
+import type { ReminderPreferences } from '@lib/interfaces/reminder.interface';
+import type { TokenInfo } from '@lib/interfaces/vesting.interface';
 import { AppTheme } from '@lib/services/theme';
 
 type StorageObjectMap = {
@@ -6,9 +11,27 @@ type StorageObjectMap = {
         token: string;
     };
     appTheme: AppTheme;
+    deploymentBlocks: Record<string, number>; // Vesting contract deployment blocks, keyed by "<chainId>:<address>"
+    pendingTransactions: TrackedTransaction[];
+    walletProvider: string;
+    tokenMetadata: Record<string, TokenInfo>; // Keyed by "<chainId>:<lowercase token address>"
+    fiatCurrency: FiatCurrency;
+    reminderPreferences: ReminderPreferences;
+    notifiedReminders: string[]; // Keys of reminders already shown
+    locale: AppLocale;
 };
 
-export type StorageObjectType = 'appSession' | 'appTheme';
+export type StorageObjectType =
+    | 'appSession'
+    | 'appTheme'
+    | 'deploymentBlocks'
+    | 'pendingTransactions'
+    | 'walletProvider'
+    | 'tokenMetadata'
+    | 'fiatCurrency'
+    | 'reminderPreferences'
+    | 'notifiedReminders'
+    | 'locale';
 
 export type StorageObjectData<T extends StorageObjectType> = {
     type: T;
@@ -0,0 +1,53 @@
+import { ethers } from 'ethers';
+import { decodeRevertData, extractRevertData, getRevertReason } from './transaction.util';
+
+const CUSTOM_ERRORS = new ethers.utils.Interface([
+    'error EnforcedPause()',
+    'error OwnableUnauthorizedAccount(address account)',
+]);
+
+function encodeErrorString(reason: string): string {
+    return ethers.utils.hexConcat(['0x08c379a0', ethers.utils.defaultAbiCoder.encode(['string'], [reason])]);
+}
+
+describe('TransactionUtils', () => {
+    it('should decode Error(string) reverts', () => {
+        expect(decodeRevertData(encodeErrorString('No tokens are due'))).toBe('No tokens are due');
+    });
+
+    it('should decode Panic(uint256) reverts', () => {
+        const data = ethers.utils.hexConcat(['0x4e487b71', ethers.utils.defaultAbiCoder.encode(['uint256'], [0x11])]);
+
+        expect(decodeRevertData(data)).toBe('Panic (code 0x11)');
+    });
+
+    it('should decode custom errors with the contract interface', () => {
+        const account = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+        expect(decodeRevertData(CUSTOM_ERRORS.encodeErrorResult('EnforcedPause', []), CUSTOM_ERRORS)).toBe(
+            'EnforcedPause()',
+        );
+        expect(
+            decodeRevertData(CUSTOM_ERRORS.encodeErrorResult('OwnableUnauthorizedAccount', [account]), CUSTOM_ERRORS),
+        ).toBe(`OwnableUnauthorizedAccount(${account})`);
+    });
+
+    it('should report empty and unknown revert data', () => {
+        expect(decodeRevertData('0x')).toBe('Transaction reverted without a reason');
+        expect(decodeRevertData('0xdeadbeef')).toBe('Unknown revert (0xdeadbeef)');
+    });
+
+    it('should find revert data nested in provider errors', () => {
+        const data = encodeErrorString('Only beneficiary can release');
+        const error = { code: -32603, message: 'Internal error', data: { code: 3, data } };
+
+        expect(extractRevertData(error)).toBe(data);
+        expect(extractRevertData({ error: { error: { data } } })).toBe(data);
+        expect(extractRevertData(new Error('boom'))).toBeNull();
+    });
+
+    it('should fall back to the error reason or message', () => {
+        expect(getRevertReason({ reason: 'execution reverted: Revoked' })).toBe('execution reverted: Revoked');
+        expect(getRevertReason(new Error('network error'))).toBe('network error');
+    });
+});
@@ -0,0 +1,92 @@
+/**
+ * Transaction error utility functions
+ */
+
+import { ethers } from 'ethers';
+
+// Selectors of the built-in Solidity errors
+const ERROR_STRING_SELECTOR = '0x08c379a0'; // Error(string)
+const PANIC_SELECTOR = '0x4e487b71'; // Panic(uint256)
+
+/**
+ * Find the revert data in an error thrown by a provider
+ * Wallets and nodes nest it differently (error.data, error.error.data, error.data.data, ...)
+ * @param error Error thrown by eth_call or eth_estimateGas
+ * @returns Hex revert data, or null if none is found
+ */
+export function extractRevertData(error: unknown): string | null {
+    const seen = new Set<unknown>();
+    const queue: unknown[] = [error];
+
+    while (queue.length > 0) {
+        const current = queue.shift();
+        if (!current || typeof current !== 'object' || seen.has(current)) {
+            continue;
+        }
+        seen.add(current);
+
+        const record = current as Record<string, unknown>;
+        const data = record['data'];
+        if (typeof data === 'string' && /^0x[0-9a-fA-F]{8}/.test(data)) {
+            return data;
+        }
+
+        queue.push(data, record['error'], record['info']);
+    }
+
+    return null;
+}
+
+/**
+ * Decode revert data into a readable reason
+ * @param data Hex revert data
+ * @param contractInterface Interface used to decode custom errors
+ * @returns Revert reason (e.g. "No tokens are due", "EnforcedPause()")
+ */
+export function decodeRevertData(data: string, contractInterface?: ethers.utils.Interface): string {
+    if (data === '0x') {
+        return 'Transaction reverted without a reason';
+    }
+
+    const selector = data.slice(0, 10).toLowerCase();
+    try {
+        if (selector === ERROR_STRING_SELECTOR) {
+            const [reason] = ethers.utils.defaultAbiCoder.decode(['string'], `0x${data.slice(10)}`) as [string];
+            return reason;
+        }
+        if (selector === PANIC_SELECTOR) {
+            const [code] = ethers.utils.defaultAbiCoder.decode(['uint256'], `0x${data.slice(10)}`) as [
+                ethers.BigNumber,
+            ];
+            return `Panic (code ${code.toHexString()})`;
+        }
+        if (contractInterface) {
+            const parsed = contractInterface.parseError(data);
+            return `${parsed.name}(${parsed.args.map((arg) => String(arg)).join(', ')})`;
+        }
+    } catch {
+        // Fall through to the unknown error below
+    }
+
+    return `Unknown revert (${selector})`;
+}
+
+/**
+ * Get a readable revert reason from a provider error
+ * @param error Error thrown by eth_call or eth_estimateGas
+ * @param contractInterface Interface used to decode custom errors
+ * @returns Revert reason, falling back to the error message
+ */
+export function getRevertReason(error: unknown, contractInterface?: ethers.utils.Interface): string {
+    const data = extractRevertData(error);
+    if (data) {
+        return decodeRevertData(data, contractInterface);
+    }
+
+    const reason = (error as { reason?: unknown } | null)?.reason;
+    if (typeof reason === 'string' && reason) {
+        return reason;
+    }
+
+    return error instanceof Error ? error.message : 'Transaction reverted';
+}
@@ -0,0 +1,112 @@
+import type { TreasuryBalance } from '@lib/interfaces/treasury.interface';
+import type { VestingSchedule } from '@lib/interfaces/vesting.interface';
+import { VestingStatus } from '@lib/interfaces/vesting.interface';
+import { addAmounts, parseAmount, subtractAmounts, toAmount } from './amount.util';
+import { setLocale } from './i18n.util';
+import { calculateTokenTreasury, getWithdrawError } from './treasury.util';
+import { SECONDS_PER_DAY } from './vesting.util';
+
+const TOKEN = {
+    address: '0x5FbDB2315678afecb367f032d93F642f64180aa3',
+    symbol: 'VEST',
+    name: 'Vest Token',
+    decimals: 18,
+};
+const OTHER_TOKEN = {
+    address: '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512',
+    symbol: 'GOV',
+    name: 'Gov Token',
+    decimals: 6,
+};
+const NOW = new Date(2025, 0, 15).getTime() / 1000;
+
+function schedule(overrides: Partial<VestingSchedule> = {}): VestingSchedule {
+    return {
+        id: '0x01',
+        beneficiary: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+        token: TOKEN,
+        totalAmount: parseAmount('1200', 18).value.toString(),
+        released: '0',
+        startTime: new Date(2025, 0, 1).getTime() / 1000,
+        cliff: 0,
+        duration: 365 * SECONDS_PER_DAY,
+        interval: 1,
+        revocable: true,
+        revoked: false,
+        status: VestingStatus.ACTIVE,
+        ...overrides,
+    };
+}
+
+function balance(held: string, locked: string): TreasuryBalance {
+    return { token: TOKEN, balance: parseAmount(held, 18), totalLocked: parseAmount(locked, 18) };
+}
+
+describe('TreasuryUtils', () => {
+    afterEach(() => {
+        setLocale('en');
+    });
+
+    describe('calculateTokenTreasury', () => {
+        it('should pay out everything owed by the last month and end at the surplus', () => {
+            const schedules = [
+                schedule({ released: parseAmount('10', 18).value.toString() }),
+                schedule({ id: '0x02', cliff: 90 * SECONDS_PER_DAY, startTime: NOW + 30 * SECONDS_PER_DAY }),
+                schedule({ id: '0x03', token: OTHER_TOKEN, totalAmount: '5000000' }),
+            ];
+
+            const treasury = calculateTokenTreasury(balance('2500', '2390'), schedules, NOW);
+            const paidOut = treasury.outflows.reduce(
+                (sum, outflow) => addAmounts(sum, outflow.amount),
+                toAmount(0n, 18),
+            );
+
+            expect(treasury.owed).toEqual(parseAmount('2390', 18));
+            expect(addAmounts(treasury.claimableNow, paidOut)).toEqual(treasury.owed);
+            expect(treasury.outflows[0].month).toBe(new Date(2025, 0, 1).getTime() / 1000);
+            expect(treasury.outflows[treasury.outflows.length - 1].balance).toEqual(treasury.surplus);
+            expect(treasury.surplus).toEqual(parseAmount('110', 18));
+            expect(treasury.withdrawable).toEqual(treasury.surplus);
+            expect(treasury.shortfallMonth).toBeNull();
+        });
+
+        it('should report the first month the balance cannot cover', () => {
+            const treasury = calculateTokenTreasury(balance('600', '1200'), [schedule()], NOW);
+            const shortfall = treasury.outflows.find((outflow) => outflow.balance.value < 0n);
+
+            expect(treasury.surplus).toEqual(subtractAmounts(parseAmount('600', 18), parseAmount('1200', 18)));
+            expect(treasury.withdrawable).toEqual(toAmount(0n, 18));
+            expect(shortfall).toBeDefined();
+            expect(treasury.shortfallMonth).toBe(shortfall?.month ?? null);
+            expect(treasury.shortfallMonth).toBe(new Date(2025, 6, 1).getTime() / 1000);
+        });
+
+        it('should not count revoked schedules', () => {
+            const revoked = schedule({ revoked: true, status: VestingStatus.REVOKED });
+
+            const treasury = calculateTokenTreasury(balance('5', '0'), [revoked], NOW);
+
+            expect(treasury.owed).toEqual(toAmount(0n, 18));
+            expect(treasury.outflows.length).toBe(1);
+            expect(treasury.outflows[0].amount).toEqual(toAmount(0n, 18));
+        });
+    });
+
+    describe('getWithdrawError', () => {
+        it('should only allow positive amounts up to the surplus', () => {
+            const treasury = calculateTokenTreasury(balance('1300', '1200'), [schedule()], NOW);
+
+            expect(getWithdrawError('100', treasury)).toBeNull();
+            expect(getWithdrawError('0.5', treasury)).toBeNull();
+            expect(getWithdrawError('100.000000000000000001', treasury)).toContain('exceeds the surplus');
+            expect(getWithdrawError('0', treasury)).toContain('positive amount');
+            expect(getWithdrawError('abc', treasury)).toContain('positive amount');
+        });
+
+        it('should refuse any amount on a shortfall', () => {
+            const treasury = calculateTokenTreasury(balance('1000', '1200'), [schedule()], NOW);
+
+            expect(getWithdrawError('1', treasury)).toContain('Nothing can be withdrawn');
+        });
+    });
+});
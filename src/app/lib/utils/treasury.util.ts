@@ -0,0 +1,102 @@
+/**
+ * Treasury (contract solvency) utility functions
+ */
+
+import type { TokenAmount } from '@lib/interfaces/amount.interface';
+import type { TokenTreasury, TreasuryBalance, TreasuryOutflow } from '@lib/interfaces/treasury.interface';
+import type { VestingSchedule } from '@lib/interfaces/vesting.interface';
+import { compareAmounts, parseAmount, subtractAmounts, toAmount } from './amount.util';
+import { translate } from './i18n.util';
+import { calculateVestingRelease, getMonthStarts } from './vesting.util';
+
+/**
+ * Work out whether the vesting contract can pay out a token, now and as schedules unlock
+ * Uses calculateVestingRelease; revoked schedules owe nothing, as revoking releases the vested part and refunds the rest
+ * @param treasury Balance and locked total read from the contract
+ * @param schedules Schedules of all beneficiaries, schedules of other tokens are skipped
+ * @param currentTime Current timestamp (Unix seconds)
+ * @returns Surplus, withdrawable amount and monthly outflows from the current month to the last unlock
+ */
+export function calculateTokenTreasury(
+    treasury: TreasuryBalance,
+    schedules: VestingSchedule[],
+    currentTime: number,
+): TokenTreasury {
+    const { token, balance, totalLocked } = treasury;
+    const address = token.address.toLowerCase();
+    const owing = schedules.filter((schedule) => schedule.token.address.toLowerCase() === address && !schedule.revoked);
+
+    let owed = 0n;
+    let claimableNow = 0n;
+    let lastEnd = currentTime;
+    for (const schedule of owing) {
+        const release = calculateVestingRelease(schedule, currentTime);
+        owed += release.claimable.value + release.locked.value;
+        claimableNow += release.claimable.value;
+        lastEnd = Math.max(lastEnd, schedule.startTime + schedule.duration);
+    }
+
+    // Vested just before each boundary, so an unlock at midnight on the 1st counts for the new month
+    const months = getMonthStarts(currentTime, lastEnd);
+    const outflows: TreasuryOutflow[] = [];
+    let remaining = balance.value - claimableNow;
+    for (let i = 0; i < months.length - 1; i++) {
+        const from = i === 0 ? currentTime : months[i] - 1;
+        const to = months[i + 1] - 1;
+
+        let amount = 0n;
+        for (const schedule of owing) {
+            amount +=
+                calculateVestingRelease(schedule, to).vested.value -
+                calculateVestingRelease(schedule, from).vested.value;
+        }
+        remaining -= amount;
+
+        outflows.push({
+            month: months[i],
+            amount: toAmount(amount, token.decimals),
+            balance: toAmount(remaining, token.decimals),
+        });
+    }
+
+    const surplus = subtractAmounts(balance, totalLocked);
+    const shortfall = outflows.find((outflow) => outflow.balance.value < 0n);
+
+    return {
+        ...treasury,
+        surplus,
+        withdrawable: surplus.value > 0n ? surplus : toAmount(0n, token.decimals),
+        owed: toAmount(owed, token.decimals),
+        claimableNow: toAmount(claimableNow, token.decimals),
+        outflows,
+        shortfallMonth: shortfall?.month ?? null,
+    };
+}
+
+/**
+ * Check an emergency withdrawal amount entered by the owner
+ * The contract only releases what it holds beyond the locked total, so nothing can be withdrawn on a shortfall
+ * @param value Amount in token units
+ * @param treasury Token treasury the amount is withdrawn from
+ * @returns Validation message, or null if the amount can be withdrawn
+ */
+export function getWithdrawError(value: string, treasury: TokenTreasury): string | null {
+    if (treasury.surplus.value < 0n) {
+        return translate('treasury.validation.shortfall');
+    }
+
+    let amount: TokenAmount;
+    try {
+        amount = parseAmount(value.trim(), treasury.token.decimals);
+    } catch {
+        return translate('treasury.validation.amount', { decimals: treasury.token.decimals });
+    }
+
+    if (amount.value <= 0n) {
+        return translate('treasury.validation.amount', { decimals: treasury.token.decimals });
+    }
+    if (compareAmounts(amount, treasury.withdrawable) > 0) {
+        return translate('treasury.validation.exceedsSurplus');
+    }
+    return null;
+}
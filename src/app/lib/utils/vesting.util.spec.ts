@@ -0,0 +1,304 @@
+import type { VestingSchedule } from '@lib/interfaces/vesting.interface';
+import { VestingStatus } from '@lib/interfaces/vesting.interface';
+import { ethers } from 'ethers';
+import { toNumber } from './amount.util';
+import {
+    calculateVestingRelease,
+    calculateVestingStats,
+    formatInterval,
+    getNextClaimDate,
+    getUnlockEvents,
+    getUnlockTimeline,
+    getVestingCurve,
+    SECONDS_PER_DAY,
+    VESTING_INTERVALS,
+} from './vesting.util';
+
+const TOKEN = {
+    address: '0x5FbDB2315678afecb367f032d93F642f64180aa3',
+    symbol: 'VEST',
+    name: 'Vest Token',
+    decimals: 18,
+};
+const OTHER_TOKEN = {
+    address: '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512',
+    symbol: 'GOV',
+    name: 'Gov Token',
+    decimals: 6,
+};
+
+function ether(amount: string): bigint {
+    return ethers.utils.parseEther(amount).toBigInt();
+}
+
+function schedule(overrides: Partial<VestingSchedule> = {}): VestingSchedule {
+    return {
+        id: '0x01',
+        beneficiary: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+        token: TOKEN,
+        totalAmount: ethers.utils.parseEther('1200').toString(),
+        released: '0',
+        startTime: new Date(2025, 0, 1).getTime() / 1000,
+        cliff: 90 * SECONDS_PER_DAY,
+        duration: 365 * SECONDS_PER_DAY,
+        interval: 1,
+        revocable: true,
+        revoked: false,
+        status: VestingStatus.ACTIVE,
+        ...overrides,
+    };
+}
+
+describe('VestingUtils', () => {
+    describe('calculateVestingRelease', () => {
+        it('should vest linear schedules every second after the cliff', () => {
+            const vesting = schedule();
+            const time = vesting.startTime + 100 * SECONDS_PER_DAY + 1;
+
+            const expected =
+                (BigInt(vesting.totalAmount) * BigInt(time - vesting.startTime)) / BigInt(vesting.duration);
+            expect(calculateVestingRelease(vesting, time).vested).toEqual({ value: expected, decimals: 18 });
+        });
+
+        it('should only vest whole intervals of step schedules', () => {
+            const vesting = schedule({
+                cliff: 0,
+                duration: 360 * SECONDS_PER_DAY,
+                interval: VESTING_INTERVALS.monthly,
+            });
+            const firstStep = vesting.startTime + 30 * SECONDS_PER_DAY;
+
+            expect(calculateVestingRelease(vesting, firstStep - 1).vested.value).toBe(ether('0'));
+            expect(calculateVestingRelease(vesting, firstStep).vested.value).toBe(ether('100'));
+            expect(calculateVestingRelease(vesting, firstStep + 29 * SECONDS_PER_DAY).vested.value).toBe(ether('100'));
+            expect(calculateVestingRelease(vesting, firstStep + 30 * SECONDS_PER_DAY).vested.value).toBe(ether('200'));
+            expect(calculateVestingRelease(vesting, firstStep + 30 * SECONDS_PER_DAY).progress).toBeCloseTo(
+                200 / 12,
+                6,
+            );
+        });
+
+        it('should vest the steps elapsed during the cliff at its end', () => {
+            const vesting = schedule({ duration: 360 * SECONDS_PER_DAY, interval: VESTING_INTERVALS.monthly });
+            const cliffEnd = vesting.startTime + vesting.cliff;
+
+            expect(calculateVestingRelease(vesting, cliffEnd - 1).vested.value).toBe(0n);
+            expect(calculateVestingRelease(vesting, cliffEnd).vested.value).toBe(ether('300'));
+        });
+
+        it('should vest the remainder of an uneven last step at the end', () => {
+            const vesting = schedule({ cliff: 0, interval: VESTING_INTERVALS.quarterly });
+            const end = vesting.startTime + vesting.duration;
+
+            // 365 days hold four whole quarters (360 days), the last 5 days unlock at the end
+            expect(toNumber(calculateVestingRelease(vesting, end - 1).vested)).toBeCloseTo((1200 * 360) / 365, 6);
+            expect(calculateVestingRelease(vesting, end).vested.value).toBe(ether('1200'));
+        });
+    });
+
+    describe('getNextClaimDate', () => {
+        it('should return the cliff end, then the end of linear schedules', () => {
+            const vesting = schedule();
+            const cliffEnd = vesting.startTime + vesting.cliff;
+            const end = vesting.startTime + vesting.duration;
+
+            expect(getNextClaimDate(vesting, vesting.startTime)).toBe(cliffEnd);
+            expect(getNextClaimDate(vesting, cliffEnd)).toBe(end);
+            expect(getNextClaimDate(vesting, end)).toBeNull();
+        });
+
+        it('should return the next step of step schedules', () => {
+            const vesting = schedule({ cliff: 45 * SECONDS_PER_DAY, interval: VESTING_INTERVALS.monthly });
+            const { startTime } = vesting;
+
+            expect(getNextClaimDate(vesting, startTime - SECONDS_PER_DAY)).toBe(startTime + 45 * SECONDS_PER_DAY);
+            expect(getNextClaimDate(vesting, startTime + 45 * SECONDS_PER_DAY)).toBe(startTime + 60 * SECONDS_PER_DAY);
+            expect(getNextClaimDate(vesting, startTime + 60 * SECONDS_PER_DAY)).toBe(startTime + 90 * SECONDS_PER_DAY);
+            expect(getNextClaimDate(vesting, startTime + 361 * SECONDS_PER_DAY)).toBe(startTime + vesting.duration);
+        });
+
+        it('should point at the time the vested amount steps up', () => {
+            const vesting = schedule({ cliff: 45 * SECONDS_PER_DAY, interval: VESTING_INTERVALS.quarterly });
+
+            for (let time = getNextClaimDate(vesting, vesting.startTime); time !== null; ) {
+                const before = calculateVestingRelease(vesting, time - 1).vested.value;
+                expect(calculateVestingRelease(vesting, time).vested.value > before).toBeTrue();
+                time = getNextClaimDate(vesting, time);
+            }
+        });
+    });
+
+    describe('formatInterval', () => {
+        it('should name the interval presets', () => {
+            expect(formatInterval(VESTING_INTERVALS.linear)).toBe('Linear');
+            expect(formatInterval(VESTING_INTERVALS.monthly)).toBe('Monthly');
+            expect(formatInterval(VESTING_INTERVALS.quarterly)).toBe('Quarterly');
+            expect(formatInterval(7 * SECONDS_PER_DAY)).toBe('Every 7 days');
+        });
+    });
+
+    describe('getVestingCurve', () => {
+        it('should follow calculateVestingRelease from start to end', () => {
+            const vesting = schedule();
+            const curve = getVestingCurve(vesting, 10);
+
+            expect(curve[0]).toEqual([vesting.startTime * 1000, 0]);
+            expect(curve[curve.length - 1]).toEqual([(vesting.startTime + vesting.duration) * 1000, 1200]);
+            curve.forEach(([time, vested]) => {
+                expect(vested).toBe(toNumber(calculateVestingRelease(vesting, time / 1000).vested));
+            });
+        });
+
+        it('should draw the cliff as a vertical jump', () => {
+            const vesting = schedule();
+            const cliffEnd = (vesting.startTime + vesting.cliff) * 1000;
+            const curve = getVestingCurve(vesting, 10);
+
+            const beforeCliff = curve.find(([time]) => time === cliffEnd - 1000);
+            const atCliff = curve.find(([time]) => time === cliffEnd);
+
+            expect(beforeCliff?.[1]).toBe(0);
+            expect(atCliff?.[1]).toBeGreaterThan(0);
+        });
+
+        it('should draw each step of step schedules as a vertical jump', () => {
+            const vesting = schedule({ cliff: 0, interval: VESTING_INTERVALS.quarterly });
+            const step = (vesting.startTime + 90 * SECONDS_PER_DAY) * 1000;
+            const curve = getVestingCurve(vesting, 10);
+
+            expect(curve.find(([time]) => time === step - 1000)?.[1]).toBe(0);
+            expect(curve.find(([time]) => time === step)?.[1]).toBeCloseTo((1200 * 90) / 365, 6);
+        });
+    });
+
+    describe('calculateVestingStats', () => {
+        it('should total each token separately in its own decimals', () => {
+            const end = schedule().startTime + schedule().duration;
+            const stats = calculateVestingStats(
+                [
+                    schedule(),
+                    schedule({ id: '0x02', released: ethers.utils.parseEther('200').toString() }),
+                    schedule({
+                        id: '0x03',
+                        token: OTHER_TOKEN,
+                        totalAmount: '500000000',
+                        status: VestingStatus.COMPLETED,
+                    }),
+                ],
+                end,
+            );
+
+            expect(stats.activeSchedules).toBe(2);
+            expect(stats.completedSchedules).toBe(1);
+            expect(stats.tokens.map(({ token }) => token.symbol)).toEqual(['GOV', 'VEST']);
+
+            const [gov, vest] = stats.tokens;
+            expect(gov.totalLocked).toEqual({ value: 500_000_000n, decimals: 6 });
+            expect(gov.completedSchedules).toBe(1);
+            expect(vest.totalLocked).toEqual({ value: ether('2400'), decimals: 18 });
+            expect(vest.totalVested).toEqual({ value: ether('2200'), decimals: 18 });
+            expect(vest.totalClaimed).toEqual({ value: ether('200'), decimals: 18 });
+            expect(vest.totalRemaining.value).toBe(0n);
+            expect(vest.activeSchedules).toBe(2);
+        });
+
+        it('should only count what revoked schedules released', () => {
+            const vesting = schedule({
+                released: ethers.utils.parseEther('300').toString(),
+                revoked: true,
+                status: VestingStatus.REVOKED,
+            });
+            const [stats] = calculateVestingStats([vesting], vesting.startTime + vesting.duration).tokens;
+
+            expect(stats.totalLocked.value).toBe(ether('300'));
+            expect(stats.totalVested.value).toBe(0n);
+            expect(stats.totalRemaining.value).toBe(0n);
+        });
+    });
+
+    describe('getUnlockTimeline', () => {
+        it('should unlock each schedule total over its months', () => {
+            const timeline = getUnlockTimeline([
+                schedule(),
+                schedule({ id: '0x02', token: OTHER_TOKEN, totalAmount: '500000000' }),
+            ]);
+
+            expect(timeline.months[0]).toBe(new Date(2025, 0, 1).getTime() / 1000);
+            expect(timeline.tokens.map(({ token }) => token.symbol)).toEqual(['VEST', 'GOV']);
+            timeline.tokens.forEach(({ amounts }) => expect(amounts.length).toBe(timeline.months.length));
+
+            const [vest, gov] = timeline.tokens;
+            expect(vest.amounts.reduce((sum, amount) => sum + amount, 0)).toBeCloseTo(1200, 6);
+            expect(gov.amounts.reduce((sum, amount) => sum + amount, 0)).toBeCloseTo(500, 6);
+        });
+
+        it('should unlock nothing before the cliff ends', () => {
+            const timeline = getUnlockTimeline([schedule()]);
+
+            // Cliff ends on April 1st: January and February unlock nothing, March ends before the cliff
+            expect(timeline.tokens[0].amounts.slice(0, 3)).toEqual([0, 0, 0]);
+            expect(timeline.tokens[0].amounts[3]).toBeGreaterThan(0);
+        });
+
+        it('should stack schedules of the same token and skip revoked ones', () => {
+            const timeline = getUnlockTimeline([
+                schedule(),
+                schedule({ id: '0x02' }),
+                schedule({ id: '0x03', revoked: true, status: VestingStatus.REVOKED }),
+            ]);
+
+            expect(timeline.tokens.length).toBe(1);
+            expect(timeline.tokens[0].amounts.reduce((sum, amount) => sum + amount, 0)).toBeCloseTo(2400, 6);
+        });
+
+        it('should return an empty timeline without unlocking schedules', () => {
+            expect(getUnlockTimeline([])).toEqual({ months: [], tokens: [] });
+        });
+    });
+
+    describe('getUnlockEvents', () => {
+        it('should start at the cliff end and finish at the final vesting date', () => {
+            const vesting = schedule();
+            const events = getUnlockEvents(vesting);
+
+            expect(events[0].kind).toBe('cliff');
+            expect(events[0].time).toBe(vesting.startTime + vesting.cliff);
+            expect(events[events.length - 1].kind).toBe('end');
+            expect(events[events.length - 1].time).toBe(vesting.startTime + vesting.duration);
+            expect(events.slice(1, -1).every(({ kind }) => kind === 'unlock')).toBeTrue();
+        });
+
+        it('should unlock the total amount over all points', () => {
+            const vesting = schedule();
+            const events = getUnlockEvents(vesting);
+
+            const total = events.reduce((sum, { amount }) => sum + BigInt(amount), 0n);
+            expect(total.toString()).toBe(vesting.totalAmount);
+            expect(events[events.length - 1].vested).toBe(vesting.totalAmount);
+            events.forEach(({ time, vested }) => {
+                expect(calculateVestingRelease(vesting, time).vested.value.toString()).toBe(vested);
+            });
+        });
+
+        it('should follow the step unlocks of getNextClaimDate', () => {
+            const vesting = schedule({ cliff: 0, interval: VESTING_INTERVALS.monthly });
+            const times = getUnlockEvents(vesting).map(({ time }) => time);
+
+            // Without a cliff nothing unlocks at the start, the first point is one interval later
+            expect(times[0]).toBe(vesting.startTime + 30 * SECONDS_PER_DAY);
+            expect(times.length).toBe(13);
+        });
+
+        it('should only list the cliff end and the end of linear schedules', () => {
+            const kinds = getUnlockEvents(schedule()).map(({ kind }) => kind);
+
+            expect(kinds).toEqual(['cliff', 'end']);
+        });
+
+        it('should keep the planned unlocks of revoked schedules', () => {
+            const events = getUnlockEvents(schedule({ revoked: true, status: VestingStatus.REVOKED }));
+
+            expect(events).toEqual(getUnlockEvents(schedule()));
+        });
+    });
+});
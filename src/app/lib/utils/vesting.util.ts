@@ -2,30 +2,70 @@
  * Vesting calculation utility functions
  */
 
-import type { VestingRelease, VestingSchedule, VestingStatus } from '@lib/interfaces/vesting.interface';
-import { ethers } from 'ethers';
+import type {
+    RevokePreview,
+    TokenStats,
+    UnlockEvent,
+    UnlockTimeline,
+    VestingRelease,
+    VestingSchedule,
+    VestingStats,
+} from '../interfaces/vesting.interface';
+import { VestingStatus } from '../interfaces/vesting.interface';
+import { addAmounts, formatAmount, toAmount, toNumber } from './amount.util';
+import { getIntlLocale, translate } from './i18n.util';
+
+/**
+ * Number of seconds in a day
+ */
+export const SECONDS_PER_DAY = 24 * 60 * 60;
+
+/**
+ * Unlock interval presets in seconds (slicePeriodSeconds of the periodic contract)
+ * Contracts count in seconds, so a "month" is 30 days and a "quarter" 90 days
+ */
+export const VESTING_INTERVALS = {
+    linear: 1,
+    monthly: 30 * SECONDS_PER_DAY,
+    quarterly: 90 * SECONDS_PER_DAY,
+} as const;
 
 /**
  * Calculate vesting release amounts at current time
+ * Mirrors the contracts: nothing vests before the cliff end, then only whole intervals elapsed since start vest
+ * (every second for linear schedules), and everything vests at start + duration
  * @param schedule Vesting schedule
  * @param currentTime Current timestamp (Unix seconds)
- * @returns Vesting release calculation result
+ * @returns Vesting release calculation result, amounts exact in the token's decimals
  */
 export function calculateVestingRelease(schedule: VestingSchedule, currentTime: number): VestingRelease {
     const { totalAmount, startTime, cliff, duration, released } = schedule;
+    const { decimals } = schedule.token;
 
     // totalAmount and released are already in wei format, just convert to BigInt
     const totalAmountWei = BigInt(totalAmount);
     const releasedWei = BigInt(released);
 
+    // Revoked schedules stop vesting: what was released is final, the rest went back to the owner
+    if (schedule.revoked) {
+        return {
+            total: toAmount(totalAmountWei, decimals),
+            vested: toAmount(releasedWei, decimals),
+            claimed: toAmount(releasedWei, decimals),
+            claimable: toAmount(0n, decimals),
+            locked: toAmount(0n, decimals),
+            progress: 100,
+        };
+    }
+
     // If current time is before start + cliff, nothing is vested
     if (currentTime < startTime + cliff) {
         return {
-            total: ethers.utils.formatUnits(totalAmountWei, schedule.token.decimals),
-            vested: '0',
-            claimed: ethers.utils.formatUnits(releasedWei, schedule.token.decimals),
-            claimable: '0',
-            locked: ethers.utils.formatUnits(totalAmountWei, schedule.token.decimals),
+            total: toAmount(totalAmountWei, decimals),
+            vested: toAmount(0n, decimals),
+            claimed: toAmount(releasedWei, decimals),
+            claimable: toAmount(0n, decimals),
+            locked: toAmount(totalAmountWei, decimals),
             progress: 0,
         };
     }
@@ -34,32 +74,190 @@ export function calculateVestingRelease(schedule: VestingSchedule, currentTime:
     if (currentTime >= startTime + duration) {
         const claimableWei = totalAmountWei - releasedWei;
         return {
-            total: ethers.utils.formatUnits(totalAmountWei, schedule.token.decimals),
-            vested: ethers.utils.formatUnits(totalAmountWei, schedule.token.decimals),
-            claimed: ethers.utils.formatUnits(releasedWei, schedule.token.decimals),
-            claimable: ethers.utils.formatUnits(claimableWei, schedule.token.decimals),
-            locked: '0',
+            total: toAmount(totalAmountWei, decimals),
+            vested: toAmount(totalAmountWei, decimals),
+            claimed: toAmount(releasedWei, decimals),
+            claimable: toAmount(claimableWei, decimals),
+            locked: toAmount(0n, decimals),
             progress: 100,
         };
     }
 
-    // Calculate vested amount based on time elapsed
-    const timeElapsed = currentTime - startTime;
-    const vestedWei = (totalAmountWei * BigInt(timeElapsed)) / BigInt(duration);
+    // Calculate vested amount based on the whole intervals elapsed
+    const interval = Math.max(schedule.interval, 1);
+    const vestedSeconds = Math.floor((currentTime - startTime) / interval) * interval;
+    const vestedWei = (totalAmountWei * BigInt(vestedSeconds)) / BigInt(duration);
     const claimableWei = vestedWei - releasedWei;
     const lockedWei = totalAmountWei - vestedWei;
-    const progress = (timeElapsed / duration) * 100;
+    const progress = (vestedSeconds / duration) * 100;
 
     return {
-        total: ethers.utils.formatUnits(totalAmountWei, schedule.token.decimals),
-        vested: ethers.utils.formatUnits(vestedWei, schedule.token.decimals),
-        claimed: ethers.utils.formatUnits(releasedWei, schedule.token.decimals),
-        claimable: ethers.utils.formatUnits(claimableWei > 0n ? claimableWei : 0n, schedule.token.decimals),
-        locked: ethers.utils.formatUnits(lockedWei, schedule.token.decimals),
+        total: toAmount(totalAmountWei, decimals),
+        vested: toAmount(vestedWei, decimals),
+        claimed: toAmount(releasedWei, decimals),
+        claimable: toAmount(claimableWei > 0n ? claimableWei : 0n, decimals),
+        locked: toAmount(lockedWei, decimals),
         progress: Math.min(progress, 100),
     };
 }
 
+/**
+ * Sample the vested amount of a schedule from start to end, for charts
+ * Uses calculateVestingRelease, plus points on both sides of the cliff and of each step so jumps are drawn vertically
+ * (steps are only added when there are at most `samples` of them)
+ * @param schedule Vesting schedule
+ * @param samples Number of evenly spaced intervals between start and end
+ * @returns [timestamp (ms), vested amount (token units)] points in time order
+ */
+export function getVestingCurve(schedule: VestingSchedule, samples = 100): [number, number][] {
+    const { startTime, cliff, duration } = schedule;
+
+    const times = new Set<number>();
+    for (let i = 0; i <= samples; i++) {
+        times.add(startTime + Math.round((duration * i) / samples));
+    }
+    if (cliff > 0 && cliff < duration) {
+        times.add(startTime + cliff - 1);
+        times.add(startTime + cliff);
+    }
+    if (schedule.interval > 1 && duration / schedule.interval <= samples) {
+        for (let time = getNextClaimDate(schedule, startTime); time !== null; time = getNextClaimDate(schedule, time)) {
+            times.add(time - 1);
+            times.add(time);
+        }
+    }
+
+    return [...times]
+        .sort((a, b) => a - b)
+        .map((time) => [time * 1000, toNumber(calculateVestingRelease(schedule, time).vested)]);
+}
+
+/**
+ * Group the amounts schedules unlock by calendar month and token
+ * Uses calculateVestingRelease at each month boundary; revoked schedules no longer unlock anything and are skipped
+ * @param schedules Vesting schedules
+ * @returns Months from the first start to the last end, with the amount each token unlocks in each month
+ */
+export function getUnlockTimeline(schedules: VestingSchedule[]): UnlockTimeline {
+    const unlocking = schedules.filter((schedule) => !schedule.revoked && schedule.duration > 0);
+    if (unlocking.length === 0) {
+        return { months: [], tokens: [] };
+    }
+
+    const firstStart = Math.min(...unlocking.map((schedule) => schedule.startTime));
+    const lastEnd = Math.max(...unlocking.map((schedule) => schedule.startTime + schedule.duration));
+    const boundaries = getMonthStarts(firstStart, lastEnd);
+
+    const tokens = new Map<string, { token: VestingSchedule['token']; amounts: bigint[] }>();
+    for (const schedule of unlocking) {
+        const key = schedule.token.address.toLowerCase();
+        const series = tokens.get(key) ?? {
+            token: schedule.token,
+            amounts: boundaries.slice(1).map(() => 0n),
+        };
+        tokens.set(key, series);
+
+        // Vested just before each boundary, so an unlock at midnight on the 1st counts for the new month
+        const vested = boundaries.map((time) => calculateVestingRelease(schedule, time - 1).vested.value);
+        for (let i = 1; i < vested.length; i++) {
+            series.amounts[i - 1] += vested[i] - vested[i - 1];
+        }
+    }
+
+    return {
+        months: boundaries.slice(0, -1),
+        tokens: [...tokens.values()].map(({ token, amounts }) => ({
+            token,
+            amounts: amounts.map((amount) => toNumber(toAmount(amount, token.decimals))),
+        })),
+    };
+}
+
+/**
+ * List month boundaries in local time covering a time range
+ * @param from First time to cover (Unix seconds)
+ * @param to Last time to cover (Unix seconds)
+ * @returns Start of the month containing `from`, then each following month start up to the first one after `to`
+ */
+export function getMonthStarts(from: number, to: number): number[] {
+    const starts: number[] = [];
+    const date = new Date(from * 1000);
+    let month = new Date(date.getFullYear(), date.getMonth(), 1);
+    do {
+        starts.push(month.getTime() / 1000);
+        month = new Date(month.getFullYear(), month.getMonth() + 1, 1);
+    } while (starts[starts.length - 1] <= to);
+
+    return starts;
+}
+
+/**
+ * Calculate statistics of schedules per token
+ * Uses calculateVestingRelease; amounts are only added up within a token, as tokens differ in value and decimals
+ * @param schedules Vesting schedules
+ * @param currentTime Current timestamp (Unix seconds)
+ * @returns Schedule counts, and the totals of each token sorted by symbol
+ */
+export function calculateVestingStats(schedules: VestingSchedule[], currentTime: number): VestingStats {
+    const tokens = new Map<string, TokenStats>();
+    let activeSchedules = 0;
+    let completedSchedules = 0;
+
+    for (const schedule of schedules) {
+        const key = schedule.token.address.toLowerCase();
+        const zero = toAmount(0n, schedule.token.decimals);
+        const stats = tokens.get(key) ?? {
+            token: schedule.token,
+            totalLocked: zero,
+            totalVested: zero,
+            totalClaimed: zero,
+            totalRemaining: zero,
+            activeSchedules: 0,
+            completedSchedules: 0,
+        };
+        tokens.set(key, stats);
+
+        const release = calculateVestingRelease(schedule, currentTime);
+        // Revoked schedules only keep what was released; the rest went back to the owner
+        stats.totalLocked = addAmounts(stats.totalLocked, schedule.revoked ? release.claimed : release.total);
+        // Only count claimable (not yet claimed)
+        stats.totalVested = addAmounts(stats.totalVested, release.claimable);
+        stats.totalClaimed = addAmounts(stats.totalClaimed, release.claimed);
+        stats.totalRemaining = addAmounts(stats.totalRemaining, release.locked);
+
+        if (schedule.status === VestingStatus.ACTIVE) {
+            stats.activeSchedules++;
+            activeSchedules++;
+        } else if (schedule.status === VestingStatus.COMPLETED) {
+            stats.completedSchedules++;
+            completedSchedules++;
+        }
+    }
+
+    return {
+        tokens: [...tokens.values()].sort((a, b) => a.token.symbol.localeCompare(b.token.symbol)),
+        activeSchedules,
+        completedSchedules,
+    };
+}
+
+/**
+ * Preview the outcome of revoking a schedule at a given time
+ * On revoke the contract releases the claimable amount to the beneficiary and refunds the unvested rest to the owner
+ * @param schedule Vesting schedule
+ * @param currentTime Expected revoke timestamp (Unix seconds)
+ * @returns Revoke preview amounts
+ */
+export function calculateRevokePreview(schedule: VestingSchedule, currentTime: number): RevokePreview {
+    const release = calculateVestingRelease(schedule, currentTime);
+
+    return {
+        beneficiaryReceives: release.claimable,
+        ownerRefund: release.locked,
+        alreadyClaimed: release.claimed,
+    };
+}
+
 /**
  * Determine vesting status based on current time
  * @param schedule Vesting schedule
@@ -88,7 +286,7 @@ export function getVestingStatus(schedule: VestingSchedule, currentTime: number)
  * @returns Formatted date string
  */
 export function formatDate(timestamp: number): string {
-    return new Date(timestamp * 1000).toLocaleDateString('en-US', {
+    return new Date(timestamp * 1000).toLocaleDateString(getIntlLocale(), {
         year: 'numeric',
         month: 'short',
         day: 'numeric',
@@ -96,9 +294,21 @@ export function formatDate(timestamp: number): string {
 }
 
 /**
- * Format duration in seconds to readable string
+ * Format timestamp to month and year
+ * @param timestamp Unix timestamp in seconds
+ * @returns Formatted month string (e.g., "Mar 2026")
+ */
+export function formatMonth(timestamp: number): string {
+    return new Date(timestamp * 1000).toLocaleDateString(getIntlLocale(), {
+        year: 'numeric',
+        month: 'short',
+    });
+}
+
+/**
+ * Format duration in seconds to readable string in the current language
  * @param seconds Duration in seconds
- * @returns Formatted duration string
+ * @returns Formatted duration string (e.g., "3 months")
  */
 export function formatDuration(seconds: number): string {
     const days = Math.floor(seconds / 86400);
@@ -106,15 +316,22 @@ export function formatDuration(seconds: number): string {
     const years = Math.floor(days / 365);
 
     if (years > 0) {
-        return `${years} year${years > 1 ? 's' : ''}`;
+        return formatUnit(years, 'year');
     }
     if (months > 0) {
-        return `${months} month${months > 1 ? 's' : ''}`;
+        return formatUnit(months, 'month');
     }
     if (days > 0) {
-        return `${days} day${days > 1 ? 's' : ''}`;
+        return formatUnit(days, 'day');
     }
-    return 'Less than a day';
+    return translate('duration.lessThanDay');
+}
+
+/**
+ * Format a whole number of a time unit in the current language (e.g., "3 months", "3 Monate")
+ */
+function formatUnit(value: number, unit: 'year' | 'month' | 'day'): string {
+    return new Intl.NumberFormat(getIntlLocale(), { style: 'unit', unit, unitDisplay: 'long' }).format(value);
 }
 
 /**
@@ -125,38 +342,109 @@ export function formatDuration(seconds: number): string {
  * @returns Formatted amount string
  */
 export function formatTokenAmount(amount: string, decimals: number, displayDecimals = 2): string {
-    const formatted = ethers.utils.formatUnits(amount, decimals);
-    const num = parseFloat(formatted);
-    return num.toLocaleString('en-US', {
-        minimumFractionDigits: 0,
-        maximumFractionDigits: displayDecimals,
-    });
+    return formatAmount(toAmount(amount, decimals), displayDecimals);
 }
 
 /**
- * Calculate next claim date
+ * Calculate next claim date: the next time the vested amount steps up
+ * Step schedules unlock at the end of each interval (not before the cliff end) and the rest at the end.
+ * Linear schedules unlock every second once past the cliff, so their only later step is the end.
  * @param schedule Vesting schedule
  * @param currentTime Current timestamp (Unix seconds)
  * @returns Next claim timestamp, or null if fully vested
  */
 export function getNextClaimDate(schedule: VestingSchedule, currentTime: number): number | null {
-    if (currentTime >= schedule.startTime + schedule.duration) {
+    const cliffEnd = schedule.startTime + schedule.cliff;
+    const end = schedule.startTime + schedule.duration;
+
+    if (currentTime >= end) {
         return null; // Fully vested
     }
 
-    if (currentTime < schedule.startTime + schedule.cliff) {
-        return schedule.startTime + schedule.cliff; // Next claim at cliff end
+    if (schedule.interval <= 1) {
+        return currentTime < cliffEnd ? cliffEnd : end;
     }
 
-    // Already past cliff, calculate next claim (e.g., monthly)
-    const monthInSeconds = 30 * 24 * 60 * 60;
-    const timeSinceStart = currentTime - schedule.startTime;
-    const monthsPassed = Math.floor(timeSinceStart / monthInSeconds);
-    const nextClaimTime = schedule.startTime + (monthsPassed + 1) * monthInSeconds;
+    // First interval end after the current time, nothing unlocks before the cliff end
+    const intervalsPassed = Math.max(Math.floor((currentTime - schedule.startTime) / schedule.interval), 0);
+    const nextStep = Math.max(schedule.startTime + (intervalsPassed + 1) * schedule.interval, cliffEnd);
+
+    return Math.min(nextStep, end);
+}
 
-    if (nextClaimTime >= schedule.startTime + schedule.duration) {
-        return schedule.startTime + schedule.duration; // Final claim
+/**
+ * Describe how often a schedule unlocks
+ * @param interval Seconds between unlocks
+ * @returns Readable interval (e.g., "Linear", "Monthly", "Every 7 days")
+ */
+export function formatInterval(interval: number): string {
+    switch (interval) {
+        case VESTING_INTERVALS.linear:
+            return translate('interval.linear');
+        case VESTING_INTERVALS.monthly:
+            return translate('interval.monthly');
+        case VESTING_INTERVALS.quarterly:
+            return translate('interval.quarterly');
+        default:
+            return interval <= 1
+                ? translate('interval.linear')
+                : translate('interval.every', { duration: formatDuration(interval) });
     }
+}
+
+/**
+ * List the unlock points of a schedule: cliff end, the step unlocks of getNextClaimDate and the final vesting date
+ * Amounts follow the schedule as created, also when it was revoked later
+ * @param schedule Vesting schedule
+ * @returns Unlock points in time order, points that unlock nothing are left out
+ */
+export function getUnlockEvents(schedule: VestingSchedule): UnlockEvent[] {
+    const planned = { ...schedule, revoked: false };
+    const cliffEnd = schedule.startTime + schedule.cliff;
+    const end = schedule.startTime + schedule.duration;
+    if (schedule.duration <= 0) {
+        return [];
+    }
+
+    const events: UnlockEvent[] = [];
+    let previousVested = 0n;
+    let time = getNextClaimDate(planned, schedule.startTime - 1);
+
+    while (time !== null) {
+        const vested = calculateVestingRelease(planned, time).vested.value;
 
-    return nextClaimTime;
+        if (vested > previousVested) {
+            events.push({
+                kind: time >= end ? 'end' : time === cliffEnd && schedule.cliff > 0 ? 'cliff' : 'unlock',
+                time,
+                amount: (vested - previousVested).toString(),
+                vested: vested.toString(),
+            });
+            previousVested = vested;
+        }
+
+        time = time < end ? getNextClaimDate(planned, time) : null;
+    }
+
+    return events;
+}
+
+/**
+ * Convert a Unix timestamp to a `datetime-local` input value in local time
+ * @param timestamp Unix timestamp in seconds
+ * @returns Input value (e.g., 2024-01-31T09:30)
+ */
+export function toDateTimeInputValue(timestamp: number): string {
+    const date = new Date(timestamp * 1000);
+    return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+
+/**
+ * Convert a `datetime-local` input value to a Unix timestamp
+ * @param value Input value in local time
+ * @returns Unix timestamp in seconds, or null if the value is not a valid date
+ */
+export function fromDateTimeInputValue(value: string): number | null {
+    const time = new Date(value).getTime();
+    return Number.isNaN(time) ? null : Math.floor(time / 1000);
 }
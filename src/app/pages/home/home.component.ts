@@ -1,7 +1,7 @@
 import { CommonModule } from '@angular/common';
 import { Component, inject, OnDestroy, OnInit } from '@angular/core';
 import { RouterModule } from '@angular/router';
-import type { NetworkInfo } from '@lib/interfaces';
+import type { NetworkInfo, WalletProviderDetail, WalletProviderInfo } from '@lib/interfaces';
 import { ThemeService, Web3Service } from '@lib/services';
 import type { AppTheme } from '@lib/services/theme';
 import { shortenAddress } from '@lib/utils';
@@ -22,7 +22,9 @@ export class HomeComponent implements OnInit, OnDestroy {
     networkInfo: NetworkInfo | null = null;
     isConnected = false;
     errorMessage: string | null = null;
-    isMetaMaskInstalled = false;
+    wallets: WalletProviderDetail[] = [];
+    connectedWallet: WalletProviderInfo | null = null;
+    connectingWallet: string | null = null; // rdns of the wallet being connected
     isConnecting = false;
 
     private readonly _themeService = inject(ThemeService);
@@ -35,8 +37,15 @@ export class HomeComponent implements OnInit, OnDestroy {
             .pipe(takeUntil(this._destroy$))
             .subscribe((theme) => (this.currentTheme = theme));
 
-        // Check if MetaMask is installed
-        this.isMetaMaskInstalled = this._web3Service.isMetaMaskInstalled;
+        // Subscribe to discovered wallets
+        this._web3Service.providers$.pipe(takeUntil(this._destroy$)).subscribe((wallets) => {
+            this.wallets = wallets;
+        });
+
+        // Subscribe to the connected wallet
+        this._web3Service.walletInfo$.pipe(takeUntil(this._destroy$)).subscribe((info) => {
+            this.connectedWallet = info;
+        });
 
         // Subscribe to wallet address changes
         this._web3Service.walletAddress$.pipe(takeUntil(this._destroy$)).subscribe((address) => {
@@ -66,19 +75,22 @@ export class HomeComponent implements OnInit, OnDestroy {
     }
 
     /**
-     * Connect MetaMask wallet
+     * Connect a wallet
+     * @param rdns Wallet picked by the user, defaults to the remembered or first wallet
      */
-    async onConnectWallet(): Promise<void> {
+    async onConnectWallet(rdns?: string): Promise<void> {
         this.isConnecting = true;
+        this.connectingWallet = rdns ?? null;
         this.errorMessage = null;
 
         try {
-            await this._web3Service.connectWallet();
+            await this._web3Service.connectWallet(rdns);
         } catch (error) {
             // Error already handled in service
             console.error('Failed to connect wallet:', error);
         } finally {
             this.isConnecting = false;
+            this.connectingWallet = null;
         }
     }
 
@@ -0,0 +1,414 @@
+import { CommonModule } from '@angular/common';
+import { Component, OnDestroy, OnInit, inject } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { RouterModule } from '@angular/router';
+import type { TokenInfo } from '@lib/interfaces';
+import { BlockchainService } from '@lib/services/blockchain/blockchain.service';
+import { VestingService } from '@lib/services/vesting/vesting.service';
+import { Web3Service } from '@lib/services/web3/web3.service';
+import { isValidAddress, shortenAddress } from '@lib/utils/address.util';
+import { translate } from '@lib/utils/i18n.util';
+import {
+    SECONDS_PER_DAY,
+    VESTING_INTERVALS,
+    formatInterval,
+    formatTokenAmount,
+    fromDateTimeInputValue,
+    toDateTimeInputValue,
+} from '@lib/utils/vesting.util';
+import { ethers } from 'ethers';
+import { Subject, combineLatest, takeUntil } from 'rxjs';
+
+/**
+ * Create schedule form model
+ */
+type ScheduleForm = {
+    beneficiary: string;
+    token: string;
+    amount: string;
+    startDate: string;
+    cliffDays: number;
+    durationDays: number;
+    interval: number; // Seconds between unlocks
+    revocable: boolean;
+};
+
+type SubmitStep = 'idle' | 'approving' | 'creating';
+
+/**
+ * Vesting Admin Component
+ * Lets the contract owner create vesting schedules from the UI and pause or unpause the contract
+ */
+@Component({
+    standalone: true,
+    imports: [CommonModule, FormsModule, RouterModule],
+    templateUrl: './admin.component.html',
+})
+export class AdminComponent implements OnInit, OnDestroy {
+    // Services
+    private readonly _blockchainService = inject(BlockchainService);
+    private readonly _vestingService = inject(VestingService);
+    private readonly _web3Service = inject(Web3Service);
+    private readonly _destroy$ = new Subject<void>();
+
+    // Wallet state
+    isWalletConnected = false;
+    walletAddress: string | null = null;
+    ownerAddress: string | null = null;
+    isOwner = false;
+    supportsBatchCreate = false;
+    supportsStepVesting = false;
+    supportsPause = false;
+    supportsTreasury = false;
+
+    // Pause state
+    isPaused = false;
+    isPauseConfirmOpen = false;
+    changingPause = false;
+
+    // Token state
+    knownTokens: { symbol: string; address: string }[] = [];
+    tokenInfo: TokenInfo | null = null;
+    tokenBalance = '0';
+    tokenAllowance = '0';
+    loadingToken = false;
+
+    // Form state
+    form: ScheduleForm = this._createEmptyForm();
+    validationErrors: string[] = [];
+    step: SubmitStep = 'idle';
+    error: string | null = null;
+    successMessage: string | null = null;
+    createdScheduleId: string | null = null;
+
+    // Utility functions exposed to template
+    formatInterval = formatInterval;
+    formatTokenAmount = formatTokenAmount;
+    shortenAddress = shortenAddress;
+    t = translate;
+    intervals = Object.values(VESTING_INTERVALS);
+
+    ngOnInit(): void {
+        this._web3Service.isConnected$.pipe(takeUntil(this._destroy$)).subscribe((connected) => {
+            this.isWalletConnected = connected;
+        });
+
+        // Reload owner and token state whenever the contract is ready or the account changes
+        combineLatest([this._blockchainService.initialized$, this._web3Service.walletAddress$])
+            .pipe(takeUntil(this._destroy$))
+            .subscribe(([initialized, address]) => {
+                this.walletAddress = address;
+                if (initialized && address) {
+                    this._loadAdminState();
+                }
+            });
+
+        this._vestingService.paused$.pipe(takeUntil(this._destroy$)).subscribe((isPaused) => {
+            this.isPaused = isPaused;
+        });
+    }
+
+    ngOnDestroy(): void {
+        this._destroy$.next();
+        this._destroy$.complete();
+    }
+
+    /**
+     * Whether a transaction is in progress
+     */
+    get submitting(): boolean {
+        return this.step !== 'idle';
+    }
+
+    /**
+     * Whether the entered amount exceeds the current allowance
+     */
+    get needsApproval(): boolean {
+        const amount = this._parseAmount();
+        return amount !== null && amount.gt(this.tokenAllowance);
+    }
+
+    /**
+     * Load token metadata, balance and allowance for the selected token
+     */
+    async onTokenChange(): Promise<void> {
+        this.tokenInfo = null;
+        this.tokenBalance = '0';
+        this.tokenAllowance = '0';
+
+        if (!isValidAddress(this.form.token) || !this.walletAddress) {
+            return;
+        }
+
+        this.loadingToken = true;
+        try {
+            const [info, balance, allowance] = await Promise.all([
+                this._blockchainService.getTokenInfo(this.form.token),
+                this._blockchainService.getTokenBalance(this.form.token, this.walletAddress),
+                this._blockchainService.getTokenAllowance(this.form.token, this.walletAddress),
+            ]);
+            this.tokenInfo = info;
+            this.tokenBalance = balance;
+            this.tokenAllowance = allowance;
+        } catch (error) {
+            console.error('Failed to load token info:', error);
+            this.error = translate('admin.tokenReadFailed');
+        } finally {
+            this.loadingToken = false;
+        }
+    }
+
+    /**
+     * Validate the form and create the vesting schedule, approving tokens first if needed
+     */
+    async createSchedule(): Promise<void> {
+        this.error = null;
+        this.successMessage = null;
+        this.createdScheduleId = null;
+        this.validationErrors = this._validateForm();
+
+        if (this.validationErrors.length > 0 || !this.tokenInfo) {
+            return;
+        }
+
+        const amount = this._parseAmount() as ethers.BigNumber;
+
+        try {
+            // Step 1: approve the vesting contract to pull the tokens
+            if (amount.gt(this.tokenAllowance)) {
+                this.step = 'approving';
+                await this._blockchainService.approveTokens(this.form.token, amount.toString());
+            }
+
+            // Step 2: create the schedule
+            this.step = 'creating';
+            const scheduleId = await this._blockchainService.createVestingSchedule({
+                beneficiary: this.form.beneficiary,
+                token: this.form.token,
+                amount: amount.toString(),
+                startTime: fromDateTimeInputValue(this.form.startDate) as number,
+                cliff: Math.round(this.form.cliffDays * SECONDS_PER_DAY),
+                duration: Math.round(this.form.durationDays * SECONDS_PER_DAY),
+                interval: this.form.interval,
+                revocable: this.form.revocable,
+            });
+
+            this.createdScheduleId = scheduleId;
+            this.successMessage = translate('admin.createSuccess', {
+                amount: this.form.amount,
+                symbol: this.tokenInfo.symbol,
+                beneficiary: shortenAddress(this.form.beneficiary),
+            });
+
+            // Refresh own schedules if the admin granted to themselves
+            if (this.walletAddress && this.form.beneficiary.toLowerCase() === this.walletAddress.toLowerCase()) {
+                await this._vestingService.loadVestingSchedules(this.walletAddress);
+            }
+
+            const token = this.form.token;
+            this.form = { ...this._createEmptyForm(), token };
+            await this.onTokenChange();
+        } catch (error) {
+            console.error('Create schedule error:', error);
+
+            const errorMessage = error instanceof Error ? error.message : translate('admin.createFailed');
+            const lowerMessage = errorMessage.toLowerCase();
+            if (lowerMessage.includes('user rejected') || lowerMessage.includes('user denied')) {
+                this.error = translate('common.cancelledByUser');
+            } else {
+                this.error = errorMessage;
+            }
+            // Allowance may have changed if approval succeeded but creation failed
+            await this.onTokenChange();
+        } finally {
+            this.step = 'idle';
+        }
+    }
+
+    /**
+     * Ask for confirmation before pausing or unpausing the contract
+     */
+    openPauseConfirm(): void {
+        if (!this.isOwner || !this.supportsPause) {
+            return;
+        }
+
+        this.error = null;
+        this.successMessage = null;
+        this.createdScheduleId = null;
+        this.isPauseConfirmOpen = true;
+    }
+
+    /**
+     * Close the pause confirmation
+     */
+    cancelPauseConfirm(): void {
+        if (this.changingPause) {
+            return;
+        }
+
+        this.isPauseConfirmOpen = false;
+    }
+
+    /**
+     * Pause a running contract or unpause a paused one
+     */
+    async confirmPause(): Promise<void> {
+        if (!this.isOwner || !this.supportsPause || this.changingPause) {
+            return;
+        }
+
+        const isPausing = !this.isPaused;
+        this.changingPause = true;
+        this.error = null;
+
+        try {
+            const transactionHash = await this._blockchainService.setPaused(isPausing);
+
+            // Events update the banner too, set it right away in case they arrive late
+            this.isPaused = isPausing;
+            this.successMessage = translate(isPausing ? 'pause.pauseSuccess' : 'pause.unpauseSuccess', {
+                hash: transactionHash.substring(0, 10),
+            });
+            this.isPauseConfirmOpen = false;
+        } catch (error) {
+            console.error('Pause error:', error);
+
+            const errorMessage = error instanceof Error ? error.message : translate('pause.failed');
+            const lowerMessage = errorMessage.toLowerCase();
+            if (lowerMessage.includes('user rejected') || lowerMessage.includes('user denied')) {
+                this.error = translate('common.cancelledByUser');
+            } else {
+                this.error = errorMessage;
+            }
+            this.isPauseConfirmOpen = false;
+        } finally {
+            this.changingPause = false;
+        }
+    }
+
+    /**
+     * Use a known token address from the current network
+     */
+    selectKnownToken(address: string): void {
+        this.form.token = address;
+        this.onTokenChange();
+    }
+
+    /**
+     * Connect wallet
+     */
+    async connectWallet(): Promise<void> {
+        try {
+            await this._web3Service.connectWallet();
+        } catch (error) {
+            console.error('Failed to connect wallet:', error);
+        }
+    }
+
+    /**
+     * Load contract owner and known tokens for the connected wallet
+     */
+    private async _loadAdminState(): Promise<void> {
+        this.knownTokens = Object.entries(this._blockchainService.getKnownTokens()).map(([symbol, address]) => ({
+            symbol,
+            address,
+        }));
+        this.supportsBatchCreate = this._blockchainService.supportsFeature('batchCreate');
+        this.supportsStepVesting = this._blockchainService.supportsFeature('stepVesting');
+        this.supportsPause = this._blockchainService.supportsFeature('pause');
+        this.supportsTreasury = this._blockchainService.supportsFeature('treasury');
+        if (!this.supportsStepVesting) {
+            this.form.interval = VESTING_INTERVALS.linear;
+        }
+
+        try {
+            const [owner, signer] = await Promise.all([
+                this._blockchainService.getContractOwner(),
+                this._blockchainService.getSignerAddress(),
+            ]);
+            this.ownerAddress = owner;
+            this.isOwner = owner.toLowerCase() === signer.toLowerCase();
+        } catch (error) {
+            console.error('Failed to load contract owner:', error);
+            this.ownerAddress = null;
+            this.isOwner = false;
+        }
+
+        await this.onTokenChange();
+    }
+
+    /**
+     * Validate form inputs
+     * @returns List of validation error messages
+     */
+    private _validateForm(): string[] {
+        const errors: string[] = [];
+        const { beneficiary, token, startDate, cliffDays, durationDays, interval } = this.form;
+
+        if (!isValidAddress(beneficiary)) {
+            errors.push(translate('admin.validation.beneficiary'));
+        }
+        if (!isValidAddress(token)) {
+            errors.push(translate('admin.validation.token'));
+        } else if (!this.tokenInfo) {
+            errors.push(translate('admin.validation.tokenDetails'));
+        }
+
+        const amount = this._parseAmount();
+        if (amount === null || amount.lte(0)) {
+            errors.push(translate('admin.validation.amount', { decimals: this.tokenInfo?.decimals ?? 18 }));
+        } else if (amount.gt(this.tokenBalance)) {
+            errors.push(translate('admin.validation.balance'));
+        }
+
+        if (fromDateTimeInputValue(startDate) === null) {
+            errors.push(translate('admin.validation.startDate'));
+        }
+        if (!(durationDays > 0)) {
+            errors.push(translate('admin.validation.duration'));
+        }
+        if (!(cliffDays >= 0)) {
+            errors.push(translate('admin.validation.cliffNegative'));
+        } else if (cliffDays > durationDays) {
+            errors.push(translate('admin.validation.cliffTooLong'));
+        }
+        if (interval > durationDays * SECONDS_PER_DAY) {
+            errors.push(translate('admin.validation.intervalTooLong'));
+        }
+
+        return errors;
+    }
+
+    /**
+     * Parse the entered amount into the token's smallest unit
+     * @returns Parsed amount, or null if the input is not a valid amount
+     */
+    private _parseAmount(): ethers.BigNumber | null {
+        if (!this.form.amount || !this.tokenInfo) {
+            return null;
+        }
+
+        try {
+            return ethers.utils.parseUnits(this.form.amount.trim(), this.tokenInfo.decimals);
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Create a blank form starting now
+     */
+    private _createEmptyForm(): ScheduleForm {
+        return {
+            beneficiary: '',
+            token: '',
+            amount: '',
+            startDate: toDateTimeInputValue(Math.floor(Date.now() / 1000)),
+            cliffDays: 0,
+            durationDays: 365,
+            interval: VESTING_INTERVALS.linear,
+            revocable: true,
+        };
+    }
+}
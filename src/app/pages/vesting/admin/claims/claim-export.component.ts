@@ -0,0 +1,79 @@
+import { CommonModule } from '@angular/common';
+import { Component, OnDestroy, OnInit, inject } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { RouterModule } from '@angular/router';
+import { ClaimExportPanelComponent } from '@lib/components/claim-export-panel/claim-export-panel.component';
+import { Web3Service } from '@lib/services/web3/web3.service';
+import { shortenAddress, toChecksumAddress } from '@lib/utils/address.util';
+import { translate } from '@lib/utils/i18n.util';
+import { Subject, takeUntil } from 'rxjs';
+
+/**
+ * Claim Export Component
+ * Exports the claims of a set of beneficiaries entered by an admin, e.g. for reconciliation by finance
+ */
+@Component({
+    standalone: true,
+    imports: [CommonModule, FormsModule, RouterModule, ClaimExportPanelComponent],
+    templateUrl: './claim-export.component.html',
+})
+export class ClaimExportComponent implements OnInit, OnDestroy {
+    // Services
+    private readonly _web3Service = inject(Web3Service);
+    private readonly _destroy$ = new Subject<void>();
+
+    // Wallet state
+    isWalletConnected = false;
+
+    // Beneficiary selection
+    beneficiaryInput = '';
+    beneficiaries: string[] = [];
+    invalidEntries: string[] = [];
+
+    // Utility functions exposed to template
+    shortenAddress = shortenAddress;
+    t = translate;
+
+    ngOnInit(): void {
+        this._web3Service.isConnected$.pipe(takeUntil(this._destroy$)).subscribe((connected) => {
+            this.isWalletConnected = connected;
+        });
+    }
+
+    ngOnDestroy(): void {
+        this._destroy$.next();
+        this._destroy$.complete();
+    }
+
+    /**
+     * Parse the entered addresses, one per line or separated by commas or spaces
+     * Duplicates are dropped, entries that are not addresses are listed in invalidEntries
+     */
+    applyBeneficiaries(): void {
+        const beneficiaries = new Set<string>();
+        const invalidEntries: string[] = [];
+
+        for (const entry of this.beneficiaryInput.split(/[\s,;]+/).filter(Boolean)) {
+            const address = toChecksumAddress(entry);
+            if (address) {
+                beneficiaries.add(address);
+            } else {
+                invalidEntries.push(entry);
+            }
+        }
+
+        this.beneficiaries = [...beneficiaries];
+        this.invalidEntries = invalidEntries;
+    }
+
+    /**
+     * Connect wallet
+     */
+    async connectWallet(): Promise<void> {
+        try {
+            await this._web3Service.connectWallet();
+        } catch (error) {
+            console.error('Failed to connect wallet:', error);
+        }
+    }
+}
@@ -0,0 +1,462 @@
+import { CommonModule } from '@angular/common';
+import { Component, OnDestroy, OnInit, inject } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { RouterModule } from '@angular/router';
+import type { GrantImportChunk, GrantImportRow, GrantImportSummary, RawGrantRow, TokenInfo } from '@lib/interfaces';
+import { BATCH_CREATE_GAS } from '@lib/constants/contracts.constant';
+import { BlockchainService } from '@lib/services/blockchain/blockchain.service';
+import { VestingService } from '@lib/services/vesting/vesting.service';
+import { Web3Service } from '@lib/services/web3/web3.service';
+import { isValidAddress, shortenAddress } from '@lib/utils/address.util';
+import {
+    chunkGrantRows,
+    getMaxSchedulesPerBatch,
+    parseGrantFile,
+    summarizeGrantRows,
+    validateGrantRows,
+} from '@lib/utils/grant-import.util';
+import { translate } from '@lib/utils/i18n.util';
+import {
+    SECONDS_PER_DAY,
+    VESTING_INTERVALS,
+    formatInterval,
+    formatTokenAmount,
+    fromDateTimeInputValue,
+    toDateTimeInputValue,
+} from '@lib/utils/vesting.util';
+import { Subject, combineLatest, takeUntil } from 'rxjs';
+
+/**
+ * Shared terms applied to every imported grant
+ */
+type GrantTermsForm = {
+    token: string;
+    startDate: string;
+    cliffDays: number;
+    durationDays: number;
+    interval: number; // Seconds between unlocks
+    revocable: boolean;
+};
+
+/**
+ * Bulk Grant Import Component
+ * Imports a CSV/JSON grant list and creates schedules via batchCreateVestingSchedules
+ */
+@Component({
+    standalone: true,
+    imports: [CommonModule, FormsModule, RouterModule],
+    templateUrl: './grant-import.component.html',
+})
+export class GrantImportComponent implements OnInit, OnDestroy {
+    // Services
+    private readonly _blockchainService = inject(BlockchainService);
+    private readonly _vestingService = inject(VestingService);
+    private readonly _web3Service = inject(Web3Service);
+    private readonly _destroy$ = new Subject<void>();
+
+    // Wallet state
+    isWalletConnected = false;
+    walletAddress: string | null = null;
+    isOwner = false;
+    supportsBatchCreate = true;
+    supportsStepVesting = false;
+
+    // Token state
+    knownTokens: { symbol: string; address: string }[] = [];
+    tokenInfo: TokenInfo | null = null;
+    tokenBalance = '0';
+    tokenAllowance = '0';
+    loadingToken = false;
+
+    // Import state
+    terms: GrantTermsForm = {
+        token: '',
+        startDate: toDateTimeInputValue(Math.floor(Date.now() / 1000)),
+        cliffDays: 0,
+        durationDays: 365,
+        interval: VESTING_INTERVALS.linear,
+        revocable: true,
+    };
+    fileName: string | null = null;
+    pastedContent = '';
+    rawRows: RawGrantRow[] = [];
+    rows: GrantImportRow[] = [];
+    summary: GrantImportSummary | null = null;
+    chunks: GrantImportChunk[] = [];
+    approving = false;
+    submitting = false;
+    error: string | null = null;
+    successMessage: string | null = null;
+    private _maxGasPerBatch: number = BATCH_CREATE_GAS.maxPerTransaction;
+
+    // Utility functions exposed to template
+    formatInterval = formatInterval;
+    formatTokenAmount = formatTokenAmount;
+    shortenAddress = shortenAddress;
+    t = translate;
+    maxSchedulesPerBatch = getMaxSchedulesPerBatch(this._maxGasPerBatch);
+    intervals = Object.values(VESTING_INTERVALS);
+
+    ngOnInit(): void {
+        this._web3Service.isConnected$.pipe(takeUntil(this._destroy$)).subscribe((connected) => {
+            this.isWalletConnected = connected;
+        });
+
+        combineLatest([this._blockchainService.initialized$, this._web3Service.walletAddress$])
+            .pipe(takeUntil(this._destroy$))
+            .subscribe(([initialized, address]) => {
+                this.walletAddress = address;
+                if (initialized && address) {
+                    this._loadAdminState();
+                }
+            });
+    }
+
+    ngOnDestroy(): void {
+        this._destroy$.next();
+        this._destroy$.complete();
+    }
+
+    /**
+     * Whether the amount still to be submitted exceeds the owner's token balance
+     */
+    get exceedsBalance(): boolean {
+        return this._getRemainingAmount() > BigInt(this.tokenBalance);
+    }
+
+    /**
+     * Whether there are chunks left to submit (queued or failed)
+     */
+    get hasPendingChunks(): boolean {
+        return this.chunks.some((chunk) => chunk.status === 'queued' || chunk.status === 'failed');
+    }
+
+    /**
+     * Whether any chunk has been submitted already
+     */
+    get hasStarted(): boolean {
+        return this.chunks.some((chunk) => chunk.status !== 'queued');
+    }
+
+    /**
+     * Number of confirmed chunks
+     */
+    get confirmedChunks(): number {
+        return this.chunks.filter((chunk) => chunk.status === 'confirmed').length;
+    }
+
+    /**
+     * Read the selected import file
+     */
+    async onFileSelected(event: Event): Promise<void> {
+        const input = event.target as HTMLInputElement;
+        const file = input.files?.[0];
+        if (!file) {
+            return;
+        }
+
+        this.fileName = file.name;
+        this.pastedContent = '';
+        this._parseContent(await file.text());
+        input.value = '';
+    }
+
+    /**
+     * Parse pasted CSV/JSON content
+     */
+    onPasteImport(): void {
+        this.fileName = null;
+        this._parseContent(this.pastedContent);
+    }
+
+    /**
+     * Load token metadata, balance and allowance, then revalidate rows against the token decimals
+     */
+    async onTokenChange(): Promise<void> {
+        this.tokenInfo = null;
+        this.tokenBalance = '0';
+        this.tokenAllowance = '0';
+
+        if (isValidAddress(this.terms.token) && this.walletAddress) {
+            this.loadingToken = true;
+            try {
+                const [info, balance, allowance] = await Promise.all([
+                    this._blockchainService.getTokenInfo(this.terms.token),
+                    this._blockchainService.getTokenBalance(this.terms.token, this.walletAddress),
+                    this._blockchainService.getTokenAllowance(this.terms.token, this.walletAddress),
+                ]);
+                this.tokenInfo = info;
+                this.tokenBalance = balance;
+                this.tokenAllowance = allowance;
+            } catch (error) {
+                console.error('Failed to load token info:', error);
+                this.error = translate('admin.tokenReadFailed');
+            } finally {
+                this.loadingToken = false;
+            }
+        }
+
+        this._validateRows();
+    }
+
+    /**
+     * Use a known token address from the current network
+     */
+    selectKnownToken(address: string): void {
+        this.terms.token = address;
+        this.onTokenChange();
+    }
+
+    /**
+     * Approve the total amount once, then submit queued and failed chunks one after another
+     */
+    async submitImport(): Promise<void> {
+        this.error = this._validateTerms();
+        this.successMessage = null;
+        if (this.error || !this.summary || !this.hasPendingChunks) {
+            return;
+        }
+
+        this.submitting = true;
+        try {
+            // Check the current balance up front so no batch is sent that cannot be funded
+            const remaining = this._getRemainingAmount();
+            const [balance, allowance] = await Promise.all([
+                this._blockchainService.getTokenBalance(this.terms.token, this.walletAddress as string),
+                this._blockchainService.getTokenAllowance(this.terms.token, this.walletAddress as string),
+            ]);
+            this.tokenBalance = balance;
+            this.tokenAllowance = allowance;
+            if (remaining > BigInt(balance)) {
+                throw new Error(translate('import.remainingExceedsBalance'));
+            }
+
+            // Approve everything that is still to be submitted in one transaction
+            if (remaining > BigInt(this.tokenAllowance)) {
+                this.approving = true;
+                await this._blockchainService.approveTokens(this.terms.token, remaining.toString());
+                this.tokenAllowance = remaining.toString();
+            }
+        } catch (error) {
+            this.error = this._getErrorMessage(error);
+            this.submitting = false;
+            return;
+        } finally {
+            this.approving = false;
+        }
+
+        const startTime = fromDateTimeInputValue(this.terms.startDate) as number;
+        const cliff = Math.round(this.terms.cliffDays * SECONDS_PER_DAY);
+        const duration = Math.round(this.terms.durationDays * SECONDS_PER_DAY);
+
+        for (const chunk of this.chunks) {
+            if (chunk.status === 'confirmed') {
+                continue;
+            }
+
+            chunk.status = 'submitting';
+            chunk.error = undefined;
+            try {
+                const result = await this._blockchainService.batchCreateVestingSchedules({
+                    beneficiaries: chunk.rows.map((row) => row.beneficiary),
+                    amounts: chunk.rows.map((row) => row.amountWei as string),
+                    token: this.terms.token,
+                    startTime,
+                    cliff,
+                    duration,
+                    interval: this.terms.interval,
+                    revocable: this.terms.revocable,
+                });
+                chunk.status = 'confirmed';
+                chunk.txHash = result.transactionHash;
+            } catch (error) {
+                console.error(`Chunk ${chunk.index + 1} failed:`, error);
+                chunk.status = 'failed';
+                chunk.error = this._getErrorMessage(error);
+                // Stop here so the owner can fix the cause and resume with the remaining chunks
+                break;
+            }
+        }
+
+        this.submitting = false;
+
+        if (!this.hasPendingChunks) {
+            this.successMessage = translate('import.success', {
+                schedules: this.summary.validRows,
+                count: this.chunks.length,
+            });
+        } else {
+            this.error = translate('import.stopped');
+        }
+
+        await this.onTokenChange();
+
+        // Refresh own schedules in case the owner granted to themselves
+        const ownAddress = this.walletAddress;
+        if (ownAddress && this.rows.some((row) => row.beneficiary.toLowerCase() === ownAddress.toLowerCase())) {
+            await this._vestingService.loadVestingSchedules(ownAddress);
+        }
+    }
+
+    /**
+     * Clear the loaded grant list
+     */
+    reset(): void {
+        this.fileName = null;
+        this.pastedContent = '';
+        this.rawRows = [];
+        this.rows = [];
+        this.summary = null;
+        this.chunks = [];
+        this.error = null;
+        this.successMessage = null;
+    }
+
+    /**
+     * Get chunk status badge color
+     */
+    getChunkStatusColor(chunk: GrantImportChunk): string {
+        switch (chunk.status) {
+            case 'confirmed':
+                return 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400';
+            case 'submitting':
+                return 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400';
+            case 'failed':
+                return 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400';
+            default:
+                return 'bg-gray-100 text-gray-800 dark:bg-gray-900/30 dark:text-gray-400';
+        }
+    }
+
+    /**
+     * Parse file content into raw rows
+     */
+    private _parseContent(content: string): void {
+        this.error = null;
+        this.successMessage = null;
+
+        try {
+            this.rawRows = parseGrantFile(content);
+            if (this.rawRows.length === 0) {
+                this.error = translate('import.noRows');
+            }
+        } catch (error) {
+            this.rawRows = [];
+            this.error = translate('import.parseFailed', {
+                reason: error instanceof Error ? error.message : String(error),
+            });
+        }
+
+        this._validateRows();
+    }
+
+    /**
+     * Validate rows against the selected token and rebuild the preview and chunks
+     */
+    private _validateRows(): void {
+        if (!this.tokenInfo || this.rawRows.length === 0) {
+            this.rows = [];
+            this.summary = null;
+            this.chunks = [];
+            return;
+        }
+
+        // Keep submission progress if the same import is revalidated after submitting
+        if (this.hasStarted) {
+            return;
+        }
+
+        this.rows = validateGrantRows(this.rawRows, this.tokenInfo.decimals);
+        this.summary = summarizeGrantRows(this.rows);
+        this.chunks = chunkGrantRows(this.rows, this._maxGasPerBatch);
+    }
+
+    /**
+     * Validate shared schedule terms
+     * @returns Error message, or null if valid
+     */
+    private _validateTerms(): string | null {
+        if (!this.isOwner) {
+            return translate('import.validation.owner');
+        }
+        if (!this.supportsBatchCreate) {
+            return translate('import.validation.batchCreate');
+        }
+        if (!this.tokenInfo) {
+            return translate('import.validation.token');
+        }
+        if (fromDateTimeInputValue(this.terms.startDate) === null) {
+            return translate('admin.validation.startDate');
+        }
+        if (!(this.terms.durationDays > 0)) {
+            return translate('admin.validation.duration');
+        }
+        if (!(this.terms.cliffDays >= 0) || this.terms.cliffDays > this.terms.durationDays) {
+            return translate('import.validation.cliff');
+        }
+        if (this.terms.interval > this.terms.durationDays * SECONDS_PER_DAY) {
+            return translate('admin.validation.intervalTooLong');
+        }
+        if (this.summary && this.summary.invalidRows > 0) {
+            return translate('import.validation.invalidRows');
+        }
+        if (!this.walletAddress) {
+            return translate('import.validation.wallet');
+        }
+        return null;
+    }
+
+    /**
+     * Total of the chunks that are not confirmed yet
+     */
+    private _getRemainingAmount(): bigint {
+        return this.chunks
+            .filter((chunk) => chunk.status !== 'confirmed')
+            .reduce((sum, chunk) => sum + BigInt(chunk.totalAmount), 0n);
+    }
+
+    /**
+     * Load contract owner and known tokens for the connected wallet
+     */
+    private async _loadAdminState(): Promise<void> {
+        this.knownTokens = Object.entries(this._blockchainService.getKnownTokens()).map(([symbol, address]) => ({
+            symbol,
+            address,
+        }));
+        this.supportsBatchCreate = this._blockchainService.supportsFeature('batchCreate');
+        this.supportsStepVesting = this._blockchainService.supportsFeature('stepVesting');
+        if (!this.supportsStepVesting) {
+            this.terms.interval = VESTING_INTERVALS.linear;
+        }
+
+        try {
+            // A batch must fit in a block, whatever the static budget assumes
+            const blockGasLimit = await this._blockchainService.getBlockGasLimit();
+            this._maxGasPerBatch = Math.min(BATCH_CREATE_GAS.maxPerTransaction, blockGasLimit);
+            this.maxSchedulesPerBatch = getMaxSchedulesPerBatch(this._maxGasPerBatch);
+        } catch (error) {
+            console.error('Failed to load block gas limit:', error);
+        }
+
+        try {
+            this.isOwner = await this._blockchainService.isSignerOwner();
+        } catch (error) {
+            console.error('Failed to load contract owner:', error);
+            this.isOwner = false;
+        }
+
+        await this.onTokenChange();
+    }
+
+    /**
+     * Convert a transaction error into a readable message
+     */
+    private _getErrorMessage(error: unknown): string {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        const lowerMessage = errorMessage.toLowerCase();
+        if (lowerMessage.includes('user rejected') || lowerMessage.includes('user denied')) {
+            return translate('common.cancelledByUser');
+        }
+        return errorMessage;
+    }
+}
@@ -0,0 +1,413 @@
+import { CommonModule } from '@angular/common';
+import { Component, OnDestroy, OnInit, inject } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { RouterModule } from '@angular/router';
+import { EVENT_LOG_PAGING } from '@lib/constants/contracts.constant';
+import { getCurrentTimestamp } from '@lib/constants/mock-data.constant';
+import type { BeneficiaryChange, RevokePreview, VestingRelease, VestingSchedule } from '@lib/interfaces';
+import { VestingStatus } from '@lib/interfaces';
+import { BlockchainService } from '@lib/services/blockchain/blockchain.service';
+import { VestingService } from '@lib/services/vesting/vesting.service';
+import { Web3Service } from '@lib/services/web3/web3.service';
+import { isValidAddress, shortenAddress, toChecksumAddress } from '@lib/utils/address.util';
+import { formatAmount } from '@lib/utils/amount.util';
+import { translate } from '@lib/utils/i18n.util';
+import {
+    calculateRevokePreview,
+    calculateVestingRelease,
+    formatDate,
+    formatDuration,
+    formatInterval,
+    formatTokenAmount,
+} from '@lib/utils/vesting.util';
+import { Subject, combineLatest, takeUntil } from 'rxjs';
+
+/**
+ * Manage Schedules Component
+ * Lets the contract owner look up a beneficiary's schedules, revoke revocable ones and reassign them
+ */
+@Component({
+    standalone: true,
+    imports: [CommonModule, FormsModule, RouterModule],
+    templateUrl: './manage-schedules.component.html',
+})
+export class ManageSchedulesComponent implements OnInit, OnDestroy {
+    // Services
+    private readonly _blockchainService = inject(BlockchainService);
+    private readonly _vestingService = inject(VestingService);
+    private readonly _web3Service = inject(Web3Service);
+    private readonly _destroy$ = new Subject<void>();
+
+    // Wallet state
+    isWalletConnected = false;
+    isOwner = false;
+    supportsChangeBeneficiary = false;
+
+    // Lookup state
+    lookupAddress = '';
+    loadedAddress: string | null = null;
+    schedules: VestingSchedule[] = [];
+    loading = false;
+    error: string | null = null;
+    successMessage: string | null = null;
+
+    // Revoke state
+    revokeTarget: VestingSchedule | null = null;
+    revokePreview: RevokePreview | null = null;
+    revoking = false;
+
+    // Reassign state
+    reassignTarget: VestingSchedule | null = null;
+    newBeneficiary = '';
+    confirmAddress = '';
+    reassigning = false;
+    beneficiaryChanges: BeneficiaryChange[] = [];
+    changesLoading = false;
+    hasMoreChanges = false;
+    private _changesCursor: number | null = null; // Next block to scan down from, null when fully scanned
+
+    // Utility functions exposed to template
+    formatDate = formatDate;
+    formatDuration = formatDuration;
+    formatInterval = formatInterval;
+    formatTokenAmount = formatTokenAmount;
+    shortenAddress = shortenAddress;
+    formatAmount = formatAmount;
+    t = translate;
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    VestingStatus = VestingStatus;
+
+    ngOnInit(): void {
+        this._web3Service.isConnected$.pipe(takeUntil(this._destroy$)).subscribe((connected) => {
+            this.isWalletConnected = connected;
+        });
+
+        combineLatest([this._blockchainService.initialized$, this._web3Service.walletAddress$])
+            .pipe(takeUntil(this._destroy$))
+            .subscribe(([initialized, address]) => {
+                if (initialized && address) {
+                    this._loadOwnerState();
+                }
+            });
+    }
+
+    ngOnDestroy(): void {
+        this._destroy$.next();
+        this._destroy$.complete();
+    }
+
+    /**
+     * Load schedules for the entered beneficiary address
+     */
+    async loadSchedules(): Promise<void> {
+        this.error = null;
+        this.successMessage = null;
+
+        const address = this.lookupAddress.trim();
+        if (!isValidAddress(address)) {
+            this.error = translate('manage.invalidAddress');
+            return;
+        }
+
+        this.loading = true;
+        try {
+            this.schedules = await this._blockchainService.getVestingSchedules(address);
+            this.loadedAddress = address;
+            await this._loadBeneficiaryChanges();
+        } catch (error) {
+            console.error('Failed to load beneficiary schedules:', error);
+            this.error = error instanceof Error ? error.message : translate('manage.loadFailed');
+        } finally {
+            this.loading = false;
+        }
+    }
+
+    /**
+     * Scan the next block ranges down from the cursor for reassignments of the loaded address
+     */
+    async loadMoreBeneficiaryChanges(): Promise<void> {
+        const address = this.loadedAddress;
+        let cursor = this._changesCursor;
+        if (!address || cursor === null) {
+            return;
+        }
+
+        this.changesLoading = true;
+
+        try {
+            const deploymentBlock = await this._blockchainService.getDeploymentBlock();
+            const { blockRange, rangesPerLoad } = EVENT_LOG_PAGING;
+            const changes: BeneficiaryChange[] = [];
+
+            for (let i = 0; i < rangesPerLoad && cursor !== null; i++) {
+                const fromBlock = Math.max(deploymentBlock, cursor - blockRange + 1);
+                changes.push(...(await this._blockchainService.getBeneficiaryChanges(address, fromBlock, cursor)));
+                cursor = fromBlock > deploymentBlock ? fromBlock - 1 : null;
+            }
+
+            // Ignore the result if another address was loaded while scanning
+            if (address !== this.loadedAddress) {
+                return;
+            }
+
+            this._changesCursor = cursor;
+            this.hasMoreChanges = cursor !== null;
+            this.beneficiaryChanges = [...this.beneficiaryChanges, ...changes];
+        } catch (error) {
+            console.warn('Failed to load beneficiary changes:', error);
+            this.hasMoreChanges = false;
+        } finally {
+            this.changesLoading = false;
+        }
+    }
+
+    /**
+     * Get vesting release calculation for a schedule
+     */
+    getRelease(schedule: VestingSchedule): VestingRelease {
+        return calculateVestingRelease(schedule, getCurrentTimestamp());
+    }
+
+    /**
+     * Whether the owner can revoke a schedule
+     */
+    canRevoke(schedule: VestingSchedule): boolean {
+        return this.isOwner && schedule.revocable && !schedule.revoked;
+    }
+
+    /**
+     * Open the revoke preview for a schedule
+     */
+    openRevoke(schedule: VestingSchedule): void {
+        this.error = null;
+        this.successMessage = null;
+        this.revokeTarget = schedule;
+        this.revokePreview = calculateRevokePreview(schedule, getCurrentTimestamp());
+    }
+
+    /**
+     * Close the revoke preview
+     */
+    cancelRevoke(): void {
+        this.revokeTarget = null;
+        this.revokePreview = null;
+    }
+
+    /**
+     * Revoke the selected schedule
+     */
+    async confirmRevoke(): Promise<void> {
+        const schedule = this.revokeTarget;
+        if (!schedule || !this.canRevoke(schedule)) {
+            return;
+        }
+
+        this.revoking = true;
+        this.error = null;
+
+        try {
+            const { transactionHash, refundAmount } = await this._vestingService.revokeSchedule(schedule.id);
+
+            this.successMessage = translate('manage.revokeSuccess', {
+                symbol: schedule.token.symbol,
+                amount: formatTokenAmount(refundAmount, schedule.token.decimals),
+                hash: transactionHash.substring(0, 10),
+            });
+            this.cancelRevoke();
+
+            // Reload the beneficiary's schedules to reflect the revoked state
+            if (this.loadedAddress) {
+                this.schedules = await this._blockchainService.getVestingSchedules(this.loadedAddress);
+            }
+        } catch (error) {
+            console.error('Revoke error:', error);
+
+            const errorMessage = error instanceof Error ? error.message : translate('manage.revokeFailed');
+            const lowerMessage = errorMessage.toLowerCase();
+            if (lowerMessage.includes('user rejected') || lowerMessage.includes('user denied')) {
+                this.error = translate('common.cancelledByUser');
+            } else {
+                this.error = errorMessage;
+            }
+        } finally {
+            this.revoking = false;
+        }
+    }
+
+    /**
+     * Whether the owner can reassign a schedule to a new beneficiary
+     */
+    canReassign(schedule: VestingSchedule): boolean {
+        return this.isOwner && this.supportsChangeBeneficiary && !schedule.revoked;
+    }
+
+    /**
+     * Checksummed form of the entered new beneficiary, or null if invalid
+     */
+    get newBeneficiaryChecksum(): string | null {
+        return toChecksumAddress(this.newBeneficiary.trim());
+    }
+
+    /**
+     * Validation message for the entered new beneficiary
+     */
+    get reassignError(): string | null {
+        const address = this.newBeneficiary.trim();
+        if (!address) {
+            return null;
+        }
+
+        const checksum = this.newBeneficiaryChecksum;
+        if (!checksum) {
+            return translate('manage.invalidChecksum');
+        }
+        if (/^0x0{40}$/.test(checksum)) {
+            return translate('manage.zeroAddress');
+        }
+        if (this.reassignTarget && checksum.toLowerCase() === this.reassignTarget.beneficiary.toLowerCase()) {
+            return translate('manage.sameBeneficiary');
+        }
+        return null;
+    }
+
+    /**
+     * Whether the typed confirmation matches the checksummed new beneficiary exactly
+     */
+    get isReassignConfirmed(): boolean {
+        const checksum = this.newBeneficiaryChecksum;
+        return !!checksum && !this.reassignError && this.confirmAddress.trim() === checksum;
+    }
+
+    /**
+     * Open the reassign dialog for a schedule
+     */
+    openReassign(schedule: VestingSchedule): void {
+        this.error = null;
+        this.successMessage = null;
+        this.reassignTarget = schedule;
+        this.newBeneficiary = '';
+        this.confirmAddress = '';
+    }
+
+    /**
+     * Close the reassign dialog
+     */
+    cancelReassign(): void {
+        this.reassignTarget = null;
+        this.newBeneficiary = '';
+        this.confirmAddress = '';
+    }
+
+    /**
+     * Reassign the selected schedule to the confirmed new beneficiary
+     */
+    async confirmReassign(): Promise<void> {
+        const schedule = this.reassignTarget;
+        const newBeneficiary = this.newBeneficiaryChecksum;
+        if (!schedule || !newBeneficiary || !this.isReassignConfirmed || !this.canReassign(schedule)) {
+            return;
+        }
+
+        this.reassigning = true;
+        this.error = null;
+
+        try {
+            const txHash = await this._vestingService.changeBeneficiary(
+                schedule.id,
+                schedule.beneficiary,
+                newBeneficiary,
+            );
+
+            this.successMessage = translate('manage.reassignSuccess', {
+                symbol: schedule.token.symbol,
+                address: shortenAddress(newBeneficiary),
+                hash: txHash.substring(0, 10),
+            });
+            this.cancelReassign();
+
+            // The schedule moved to the new beneficiary, so reload the looked-up address and its history
+            if (this.loadedAddress) {
+                this.schedules = await this._blockchainService.getVestingSchedules(this.loadedAddress);
+                await this._loadBeneficiaryChanges();
+            }
+        } catch (error) {
+            console.error('Reassign error:', error);
+
+            const errorMessage = error instanceof Error ? error.message : translate('manage.reassignFailed');
+            const lowerMessage = errorMessage.toLowerCase();
+            if (lowerMessage.includes('user rejected') || lowerMessage.includes('user denied')) {
+                this.error = translate('common.cancelledByUser');
+            } else {
+                this.error = errorMessage;
+            }
+        } finally {
+            this.reassigning = false;
+        }
+    }
+
+    /**
+     * Get status badge color
+     */
+    getStatusColor(status: VestingStatus): string {
+        switch (status) {
+            case VestingStatus.ACTIVE:
+                return 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400';
+            case VestingStatus.PENDING:
+                return 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400';
+            case VestingStatus.COMPLETED:
+                return 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400';
+            case VestingStatus.REVOKED:
+                return 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400';
+            default:
+                return 'bg-gray-100 text-gray-800 dark:bg-gray-900/30 dark:text-gray-400';
+        }
+    }
+
+    /**
+     * Connect wallet
+     */
+    async connectWallet(): Promise<void> {
+        try {
+            await this._web3Service.connectWallet();
+        } catch (error) {
+            console.error('Failed to connect wallet:', error);
+        }
+    }
+
+    /**
+     * Check whether the connected wallet owns the vesting contract
+     */
+    private async _loadOwnerState(): Promise<void> {
+        this.supportsChangeBeneficiary = this._blockchainService.supportsFeature('changeBeneficiary');
+
+        try {
+            this.isOwner = await this._blockchainService.isSignerOwner();
+        } catch (error) {
+            console.error('Failed to load contract owner:', error);
+            this.isOwner = false;
+        }
+    }
+
+    /**
+     * Load reassignments to or from the loaded address from BeneficiaryChanged events
+     * Scans the most recent block ranges; loadMoreBeneficiaryChanges continues with older ones
+     */
+    private async _loadBeneficiaryChanges(): Promise<void> {
+        this.beneficiaryChanges = [];
+        this.hasMoreChanges = false;
+        this._changesCursor = null;
+
+        if (!this.supportsChangeBeneficiary) {
+            return;
+        }
+
+        try {
+            this._changesCursor = await this._blockchainService.getBlockNumber();
+        } catch (error) {
+            console.warn('Failed to load beneficiary changes:', error);
+            return;
+        }
+
+        await this.loadMoreBeneficiaryChanges();
+    }
+}
@@ -0,0 +1,261 @@
+import { CommonModule } from '@angular/common';
+import { Component, OnDestroy, OnInit, inject } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { RouterModule } from '@angular/router';
+import type { TokenAmount, TokenTreasury } from '@lib/interfaces';
+import { BlockchainService } from '@lib/services/blockchain/blockchain.service';
+import { TreasuryService } from '@lib/services/treasury/treasury.service';
+import { Web3Service } from '@lib/services/web3/web3.service';
+import { shortenAddress } from '@lib/utils/address.util';
+import { formatAmount, parseAmount, subtractAmounts, toDecimalString } from '@lib/utils/amount.util';
+import { translate } from '@lib/utils/i18n.util';
+import { getWithdrawError } from '@lib/utils/treasury.util';
+import { formatMonth } from '@lib/utils/vesting.util';
+import { Subject, combineLatest, takeUntil } from 'rxjs';
+
+/**
+ * Treasury Component
+ * Shows whether the vesting contract holds enough of each token for its schedules, and lets the owner withdraw the surplus
+ */
+@Component({
+    standalone: true,
+    imports: [CommonModule, FormsModule, RouterModule],
+    templateUrl: './treasury.component.html',
+})
+export class TreasuryComponent implements OnInit, OnDestroy {
+    // Services
+    private readonly _blockchainService = inject(BlockchainService);
+    private readonly _treasuryService = inject(TreasuryService);
+    private readonly _web3Service = inject(Web3Service);
+    private readonly _destroy$ = new Subject<void>();
+
+    // Wallet state
+    isWalletConnected = false;
+    isOwner = false;
+    supportsTreasury = false;
+
+    // Treasury state
+    treasuries: TokenTreasury[] = [];
+    loading = false;
+    progress: number | null = null; // Log scan progress in percent
+    hasOlderSchedules = false; // Older blocks are not scanned for schedules yet
+    error: string | null = null;
+    successMessage: string | null = null;
+
+    // Withdraw state
+    withdrawTarget: TokenTreasury | null = null;
+    withdrawAmount = '';
+    withdrawing = false;
+
+    // Utility functions exposed to template
+    formatAmount = formatAmount;
+    formatMonth = formatMonth;
+    shortenAddress = shortenAddress;
+    t = translate;
+
+    ngOnInit(): void {
+        this._web3Service.isConnected$.pipe(takeUntil(this._destroy$)).subscribe((connected) => {
+            this.isWalletConnected = connected;
+        });
+
+        this._treasuryService.progress$.pipe(takeUntil(this._destroy$)).subscribe((progress) => {
+            this.progress = progress;
+        });
+
+        this._treasuryService.hasOlderSchedules$.pipe(takeUntil(this._destroy$)).subscribe((hasOlder) => {
+            this.hasOlderSchedules = hasOlder;
+        });
+
+        // Reload whenever the contract is ready or the account changes
+        combineLatest([this._blockchainService.initialized$, this._web3Service.walletAddress$])
+            .pipe(takeUntil(this._destroy$))
+            .subscribe(([initialized, address]) => {
+                if (initialized && address) {
+                    this._loadOwnerState();
+                }
+            });
+    }
+
+    ngOnDestroy(): void {
+        this._destroy$.next();
+        this._destroy$.complete();
+    }
+
+    /**
+     * Tokens the contract holds less of than it has locked
+     */
+    get shortfallTreasuries(): TokenTreasury[] {
+        return this.treasuries.filter((treasury) => this.hasShortfall(treasury));
+    }
+
+    /**
+     * Whether the contract holds less of a token than it has locked
+     */
+    hasShortfall(treasury: TokenTreasury): boolean {
+        return this.isNegative(treasury.surplus);
+    }
+
+    /**
+     * Amount of a token missing to cover the locked total
+     */
+    getShortfall(treasury: TokenTreasury): TokenAmount {
+        return subtractAmounts(treasury.totalLocked, treasury.balance);
+    }
+
+    /**
+     * Whether an amount is below zero, e.g. a projected balance that cannot cover the claims
+     */
+    isNegative(amount: TokenAmount): boolean {
+        return amount.value < 0n;
+    }
+
+    /**
+     * Whether the owner can withdraw part of a token's surplus
+     */
+    canWithdraw(treasury: TokenTreasury): boolean {
+        return this.isOwner && treasury.withdrawable.value > 0n;
+    }
+
+    /**
+     * Validation message for the entered withdrawal amount
+     */
+    get withdrawError(): string | null {
+        if (!this.withdrawTarget || !this.withdrawAmount.trim()) {
+            return null;
+        }
+        return getWithdrawError(this.withdrawAmount, this.withdrawTarget);
+    }
+
+    /**
+     * Read balances, locked totals and the schedules of recent blocks to project outflows
+     */
+    async loadTreasury(): Promise<void> {
+        if (!this.supportsTreasury) {
+            this.treasuries = [];
+            return;
+        }
+
+        await this._readTreasury(() => this._treasuryService.loadTreasury());
+    }
+
+    /**
+     * Include schedules created in older blocks
+     */
+    async loadOlderSchedules(): Promise<void> {
+        await this._readTreasury(() => this._treasuryService.loadOlderSchedules());
+    }
+
+    /**
+     * Open the withdraw dialog for a token
+     */
+    openWithdraw(treasury: TokenTreasury): void {
+        if (!this.canWithdraw(treasury)) {
+            return;
+        }
+
+        this.error = null;
+        this.successMessage = null;
+        this.withdrawTarget = treasury;
+        this.withdrawAmount = '';
+    }
+
+    /**
+     * Close the withdraw dialog
+     */
+    cancelWithdraw(): void {
+        this.withdrawTarget = null;
+        this.withdrawAmount = '';
+    }
+
+    /**
+     * Fill in the whole surplus
+     */
+    setMaxWithdraw(): void {
+        if (this.withdrawTarget) {
+            this.withdrawAmount = toDecimalString(this.withdrawTarget.withdrawable);
+        }
+    }
+
+    /**
+     * Withdraw the entered amount to the owner, then reload the treasury
+     */
+    async confirmWithdraw(): Promise<void> {
+        const treasury = this.withdrawTarget;
+        if (!treasury || !this.withdrawAmount.trim() || this.withdrawError || !this.canWithdraw(treasury)) {
+            return;
+        }
+
+        this.withdrawing = true;
+        this.error = null;
+
+        try {
+            const amount = parseAmount(this.withdrawAmount.trim(), treasury.token.decimals);
+            const txHash = await this._treasuryService.emergencyWithdraw(treasury.token.address, amount);
+
+            this.successMessage = translate('treasury.withdrawSuccess', {
+                amount: formatAmount(amount, treasury.token.decimals),
+                symbol: treasury.token.symbol,
+                hash: txHash.substring(0, 10),
+            });
+            this.cancelWithdraw();
+            await this.loadTreasury();
+        } catch (error) {
+            console.error('Withdraw error:', error);
+
+            const errorMessage = error instanceof Error ? error.message : translate('treasury.withdrawFailed');
+            const lowerMessage = errorMessage.toLowerCase();
+            if (lowerMessage.includes('user rejected') || lowerMessage.includes('user denied')) {
+                this.error = translate('common.cancelledByUser');
+            } else {
+                this.error = errorMessage;
+            }
+        } finally {
+            this.withdrawing = false;
+        }
+    }
+
+    /**
+     * Connect wallet
+     */
+    async connectWallet(): Promise<void> {
+        try {
+            await this._web3Service.connectWallet();
+        } catch (error) {
+            console.error('Failed to connect wallet:', error);
+        }
+    }
+
+    /**
+     * Check whether the connected wallet owns the vesting contract, then load the treasury
+     */
+    private async _loadOwnerState(): Promise<void> {
+        this.supportsTreasury = this._blockchainService.supportsFeature('treasury');
+
+        try {
+            this.isOwner = await this._blockchainService.isSignerOwner();
+        } catch (error) {
+            console.error('Failed to load contract owner:', error);
+            this.isOwner = false;
+        }
+
+        await this.loadTreasury();
+    }
+
+    /**
+     * Show the treasury read by the service, or the error it failed with
+     * @param read Treasury service call
+     */
+    private async _readTreasury(read: () => Promise<TokenTreasury[]>): Promise<void> {
+        this.loading = true;
+        this.error = null;
+
+        try {
+            this.treasuries = await read();
+        } catch (error) {
+            console.error('Failed to load treasury:', error);
+            this.error = error instanceof Error ? error.message : translate('treasury.loadFailed');
+        } finally {
+            this.loading = false;
+        }
+    }
+}
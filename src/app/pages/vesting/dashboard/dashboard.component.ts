@@ -1,11 +1,18 @@
 import { CommonModule } from '@angular/common';
 import { Component, OnDestroy, OnInit, inject } from '@angular/core';
+import { FormsModule } from '@angular/forms';
 import { RouterModule } from '@angular/router';
-import type { VestingRelease, VestingSchedule, VestingStats } from '@lib/interfaces';
+import { CurrencyPickerComponent, UnlockTimelineComponent } from '@lib/components';
+import { NETWORK_CONFIG } from '@lib/constants/contracts.constant';
+import type { FiatValuation, TokenStats, VestingRelease, VestingSchedule, VestingStats } from '@lib/interfaces';
 import { VestingStatus } from '@lib/interfaces';
+import { PriceService } from '@lib/services/price/price.service';
 import { VestingService } from '@lib/services/vesting/vesting.service';
 import { Web3Service } from '@lib/services/web3/web3.service';
-import { calculateVestingRelease, formatDate, formatDuration, formatTokenAmount } from '@lib/utils/vesting.util';
+import { calculateVestingRelease, formatDate, formatDuration } from '@lib/utils/vesting.util';
+import { formatAmount, percentOf, toNumber } from '@lib/utils/amount.util';
+import { formatFiatAmount, formatPriceAge, formatPriceTime, getPriceKey } from '@lib/utils/price.util';
+import { translate } from '@lib/utils/i18n.util';
 import { getCurrentTimestamp } from '@lib/constants/mock-data.constant';
 import { Subject, takeUntil } from 'rxjs';
 
@@ -15,28 +22,48 @@ import { Subject, takeUntil } from 'rxjs';
  */
 @Component({
     standalone: true,
-    imports: [CommonModule, RouterModule],
+    imports: [CommonModule, FormsModule, RouterModule, CurrencyPickerComponent, UnlockTimelineComponent],
     templateUrl: './dashboard.component.html',
 })
 export class DashboardComponent implements OnInit, OnDestroy {
     // Services
+    private readonly _priceService = inject(PriceService);
     private readonly _vestingService = inject(VestingService);
     private readonly _web3Service = inject(Web3Service);
     private readonly _destroy$ = new Subject<void>();
 
     // State
     stats: VestingStats | null = null;
-    activeSchedules: VestingSchedule[] = [];
-    pendingSchedules: VestingSchedule[] = [];
-    completedSchedules: VestingSchedule[] = [];
     loading = false;
-    private _allSchedules: VestingSchedule[] = [];
+    allSchedules: VestingSchedule[] = [];
+    private _releases = new Map<string, VestingRelease>(); // Live release calculations by schedule ID
+
+    // Filters
+    filterToken = 'all'; // Token key (see getPriceKey), or 'all'
+
+    // Fiat values
+    valuation: FiatValuation | null = null;
+    priceError: string | null = null;
+    priceSource = this._priceService.source;
+    now = getCurrentTimestamp(); // Shared clock, for price ages
+
+    // Read-only address lookup
+    isWalletConnected = false;
+    watchedAddress: string | null = null;
+    watchInput = '';
+    watchChainId: string = NETWORK_CONFIG.sepolia.chainId;
+    watchError: string | null = null;
+    networks = Object.values(NETWORK_CONFIG);
 
     // Utility functions and enums exposed to template
     formatDate = formatDate;
     formatDuration = formatDuration;
-    formatTokenAmount = formatTokenAmount;
-    parseFloat = parseFloat; // Expose global parseFloat to template
+    formatAmount = formatAmount;
+    formatFiatAmount = formatFiatAmount;
+    getPriceKey = getPriceKey;
+    formatPriceAge = formatPriceAge;
+    formatPriceTime = formatPriceTime;
+    t = translate;
     // eslint-disable-next-line @typescript-eslint/naming-convention
     VestingStatus = VestingStatus;
 
@@ -49,10 +76,11 @@ export class DashboardComponent implements OnInit, OnDestroy {
         // Subscribe to vesting schedules
         this._vestingService.vestingSchedules$.pipe(takeUntil(this._destroy$)).subscribe((schedules) => {
             console.log('📊 Dashboard received schedules:', schedules.length, schedules);
-            this._allSchedules = schedules;
-            this.activeSchedules = schedules.filter((s) => s.status === VestingStatus.ACTIVE);
-            this.pendingSchedules = schedules.filter((s) => s.status === VestingStatus.PENDING);
-            this.completedSchedules = schedules.filter((s) => s.status === VestingStatus.COMPLETED);
+            this.allSchedules = schedules;
+            // Show all tokens again when the filtered token is no longer among the schedules
+            if (!schedules.some((s) => getPriceKey(s.token.address) === this.filterToken)) {
+                this.filterToken = 'all';
+            }
             console.log('📊 Dashboard filtered:', {
                 active: this.activeSchedules.length,
                 pending: this.pendingSchedules.length,
@@ -60,11 +88,38 @@ export class DashboardComponent implements OnInit, OnDestroy {
             });
         });
 
+        // Subscribe to live release calculations
+        this._vestingService.releases$.pipe(takeUntil(this._destroy$)).subscribe((releases) => {
+            this._releases = releases;
+        });
+
+        // Subscribe to fiat values
+        this._priceService.valuation$.pipe(takeUntil(this._destroy$)).subscribe((valuation) => {
+            this.valuation = valuation;
+        });
+
+        this._priceService.error$.pipe(takeUntil(this._destroy$)).subscribe((error) => {
+            this.priceError = error;
+        });
+
+        this._vestingService.now$.pipe(takeUntil(this._destroy$)).subscribe((now) => {
+            this.now = now;
+        });
+
         // Subscribe to loading state
         this._vestingService.loading$.pipe(takeUntil(this._destroy$)).subscribe((loading) => {
             this.loading = loading;
         });
 
+        // Subscribe to wallet and read-only state
+        this._web3Service.isConnected$.pipe(takeUntil(this._destroy$)).subscribe((connected) => {
+            this.isWalletConnected = connected;
+        });
+
+        this._web3Service.watchedAddress$.pipe(takeUntil(this._destroy$)).subscribe((address) => {
+            this.watchedAddress = address;
+        });
+
         // Check if wallet is already connected and reload data if needed
         const currentAddress = await new Promise<string | null>((resolve) => {
             this._web3Service.walletAddress$.pipe(takeUntil(this._destroy$)).subscribe((address) => {
@@ -72,10 +127,10 @@ export class DashboardComponent implements OnInit, OnDestroy {
             });
         });
 
-        console.log('📊 Dashboard init - wallet address:', currentAddress, 'schedules:', this._allSchedules.length);
+        console.log('📊 Dashboard init - wallet address:', currentAddress, 'schedules:', this.allSchedules.length);
 
         // If wallet is connected but no schedules loaded, reload data
-        if (currentAddress && this._allSchedules.length === 0) {
+        if (currentAddress && !this.watchedAddress && this.allSchedules.length === 0) {
             console.log('📊 Dashboard reloading schedules for connected wallet');
             await this._vestingService.loadVestingSchedules(currentAddress);
         }
@@ -86,11 +141,99 @@ export class DashboardComponent implements OnInit, OnDestroy {
         this._destroy$.complete();
     }
 
+    /**
+     * Look up the schedules of the entered address in read-only mode
+     */
+    async watchAddress(): Promise<void> {
+        this.watchError = null;
+
+        try {
+            await this._web3Service.watchAddress(this.watchInput.trim(), this.watchChainId);
+            this.watchInput = '';
+        } catch (error) {
+            this.watchError = error instanceof Error ? error.message : translate('dashboard.loadAddressFailed');
+        }
+    }
+
+    /**
+     * Leave read-only mode
+     */
+    async stopWatching(): Promise<void> {
+        this.watchError = null;
+        await this._web3Service.stopWatching();
+    }
+
+    /**
+     * Schedules of the filtered token
+     */
+    get filteredSchedules(): VestingSchedule[] {
+        if (this.filterToken === 'all') {
+            return this.allSchedules;
+        }
+        return this.allSchedules.filter((s) => getPriceKey(s.token.address) === this.filterToken);
+    }
+
+    /**
+     * Active schedules of the filtered token
+     */
+    get activeSchedules(): VestingSchedule[] {
+        return this.filteredSchedules.filter((s) => s.status === VestingStatus.ACTIVE);
+    }
+
+    /**
+     * Pending schedules of the filtered token
+     */
+    get pendingSchedules(): VestingSchedule[] {
+        return this.filteredSchedules.filter((s) => s.status === VestingStatus.PENDING);
+    }
+
+    /**
+     * Completed schedules of the filtered token
+     */
+    get completedSchedules(): VestingSchedule[] {
+        return this.filteredSchedules.filter((s) => s.status === VestingStatus.COMPLETED);
+    }
+
+    /**
+     * Statistics of the filtered token
+     */
+    get filteredTokenStats(): TokenStats[] {
+        const tokens = this.stats?.tokens ?? [];
+        if (this.filterToken === 'all') {
+            return tokens;
+        }
+        return tokens.filter((stats) => getPriceKey(stats.token.address) === this.filterToken);
+    }
+
+    /**
+     * Set token filter
+     * @param key Token key (see getPriceKey), or 'all'
+     */
+    setTokenFilter(key: string): void {
+        this.filterToken = key;
+    }
+
+    /**
+     * Check if token filter is active
+     */
+    isTokenFilterActive(key: string): boolean {
+        return this.filterToken === key;
+    }
+
+    /**
+     * Get the fiat value of a token's total, null without a price for the token
+     */
+    getTokenValue(stats: TokenStats): number | null {
+        const key = getPriceKey(stats.token.address);
+        const price = this.valuation?.prices.find((p) => p.token === key);
+        return price ? toNumber(stats.totalLocked) * price.price : null;
+    }
+
     /**
      * Get vesting release calculation for a schedule
      */
     getRelease(schedule: VestingSchedule): VestingRelease {
-        return calculateVestingRelease(schedule, getCurrentTimestamp());
+        return this._releases.get(schedule.id) ?? calculateVestingRelease(schedule, getCurrentTimestamp());
     }
 
     /**
@@ -98,10 +241,7 @@ export class DashboardComponent implements OnInit, OnDestroy {
      */
     getClaimablePercentage(schedule: VestingSchedule): number {
         const release = this.getRelease(schedule);
-        if (!release || parseFloat(release.total) === 0) {
-            return 0;
-        }
-        return (parseFloat(release.claimable) / parseFloat(release.total)) * 100;
+        return percentOf(release.claimable, release.total);
     }
 
     /**
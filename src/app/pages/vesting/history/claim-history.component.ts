@@ -0,0 +1,161 @@
+import { CommonModule } from '@angular/common';
+import { Component, OnDestroy, OnInit, inject } from '@angular/core';
+import { RouterModule } from '@angular/router';
+import { ClaimExportPanelComponent } from '@lib/components/claim-export-panel/claim-export-panel.component';
+import type { ClaimTransaction, TokenInfo, VestingSchedule } from '@lib/interfaces';
+import { BlockchainService } from '@lib/services/blockchain/blockchain.service';
+import { VestingService } from '@lib/services/vesting/vesting.service';
+import { Web3Service } from '@lib/services/web3/web3.service';
+import { shortenAddress } from '@lib/utils/address.util';
+import { formatNumber, translate } from '@lib/utils/i18n.util';
+import { formatDate } from '@lib/utils/vesting.util';
+import { ethers } from 'ethers';
+import { Subject, combineLatest, takeUntil } from 'rxjs';
+
+/**
+ * Claims of one vesting schedule
+ */
+type ScheduleClaims = {
+    vestingId: string;
+    token: TokenInfo | null;
+    isCurrentSchedule: boolean; // Still assigned to the connected wallet
+    totalClaimed: string; // Formatted sum of the claims
+    claims: ClaimTransaction[];
+};
+
+/**
+ * Claim History Component
+ * Shows the connected wallet's claims rebuilt from TokensReleased event logs and exports them
+ */
+@Component({
+    standalone: true,
+    imports: [CommonModule, RouterModule, ClaimExportPanelComponent],
+    templateUrl: './claim-history.component.html',
+})
+export class ClaimHistoryComponent implements OnInit, OnDestroy {
+    // Services
+    private readonly _blockchainService = inject(BlockchainService);
+    private readonly _vestingService = inject(VestingService);
+    private readonly _web3Service = inject(Web3Service);
+    private readonly _destroy$ = new Subject<void>();
+
+    // Wallet state
+    isWalletConnected = false;
+    walletAddress: string | null = null;
+
+    // History state
+    claims: ClaimTransaction[] = [];
+    schedules: VestingSchedule[] = [];
+    groups: ScheduleClaims[] = [];
+    loading = false;
+    hasMore = false;
+    error: string | null = null;
+
+    // Utility functions exposed to template
+    formatDate = formatDate;
+    shortenAddress = shortenAddress;
+    formatNumber = formatNumber;
+    t = translate;
+
+    ngOnInit(): void {
+        this._web3Service.isConnected$.pipe(takeUntil(this._destroy$)).subscribe((connected) => {
+            this.isWalletConnected = connected;
+        });
+
+        combineLatest([this._vestingService.claimHistory$, this._vestingService.vestingSchedules$])
+            .pipe(takeUntil(this._destroy$))
+            .subscribe(([claims, schedules]) => {
+                this.claims = claims;
+                this.schedules = schedules;
+                this.groups = this._groupBySchedule(claims, schedules);
+            });
+
+        this._vestingService.claimHistoryLoading$.pipe(takeUntil(this._destroy$)).subscribe((loading) => {
+            this.loading = loading;
+        });
+
+        this._vestingService.hasMoreClaimHistory$.pipe(takeUntil(this._destroy$)).subscribe((hasMore) => {
+            this.hasMore = hasMore;
+        });
+
+        this._vestingService.error$.pipe(takeUntil(this._destroy$)).subscribe((error) => {
+            this.error = error;
+        });
+
+        // Rebuild the history whenever the contract is ready for a (new) wallet
+        combineLatest([this._blockchainService.initialized$, this._web3Service.walletAddress$])
+            .pipe(takeUntil(this._destroy$))
+            .subscribe(([initialized, address]) => {
+                this.walletAddress = address;
+                if (initialized && address) {
+                    this._vestingService.loadClaimHistory(address);
+                }
+            });
+    }
+
+    ngOnDestroy(): void {
+        this._destroy$.next();
+        this._destroy$.complete();
+    }
+
+    /**
+     * Scan older blocks for claims
+     */
+    loadMore(): void {
+        this._vestingService.loadMoreClaimHistory();
+    }
+
+    /**
+     * Get the block explorer link for a claim transaction
+     */
+    getExplorerUrl(claim: ClaimTransaction): string | null {
+        return this._blockchainService.getExplorerTxUrl(claim.id);
+    }
+
+    /**
+     * Connect wallet
+     */
+    async connectWallet(): Promise<void> {
+        try {
+            await this._web3Service.connectWallet();
+        } catch (error) {
+            console.error('Failed to connect wallet:', error);
+        }
+    }
+
+    /**
+     * Group claims by schedule, most recently claimed schedule first
+     */
+    private _groupBySchedule(claims: ClaimTransaction[], schedules: VestingSchedule[]): ScheduleClaims[] {
+        const groups = new Map<string, ScheduleClaims>();
+
+        for (const claim of claims) {
+            const key = claim.vestingId.toLowerCase();
+            let group = groups.get(key);
+            if (!group) {
+                const schedule = schedules.find((s) => s.id.toLowerCase() === key);
+                group = {
+                    vestingId: claim.vestingId,
+                    token: claim.token ?? schedule?.token ?? null,
+                    isCurrentSchedule: !!schedule,
+                    totalClaimed: '0',
+                    claims: [],
+                };
+                groups.set(key, group);
+            }
+            group.claims.push(claim);
+        }
+
+        // Sum exactly in the token's smallest unit
+        for (const group of groups.values()) {
+            const decimals = group.token?.decimals ?? 18;
+            const total = group.claims.reduce(
+                (sum, claim) => sum.add(ethers.utils.parseUnits(claim.amount, decimals)),
+                ethers.BigNumber.from(0),
+            );
+            group.totalClaimed = ethers.utils.formatUnits(total, decimals);
+        }
+
+        return [...groups.values()];
+    }
+}
@@ -1,24 +1,85 @@
 import type { Route } from '@angular/router';
+import { VestingComponent } from './vesting.component';
 
 /**
  * Vesting Platform routes
+ * Pages render inside VestingComponent, which blocks them on networks without a deployment
+ * Titles are translation keys, translated by TranslatedTitleStrategy
  */
 export default [
     {
         path: '',
-        redirectTo: 'dashboard',
-        pathMatch: 'full',
-    },
-    {
-        path: 'dashboard',
-        loadComponent: (): Promise<typeof import('./dashboard/dashboard.component').DashboardComponent> =>
-            import('./dashboard/dashboard.component').then((m) => m.DashboardComponent),
-        title: 'Vesting Dashboard',
-    },
-    {
-        path: 'schedules',
-        loadComponent: (): Promise<typeof import('./schedules/schedules.component').SchedulesComponent> =>
-            import('./schedules/schedules.component').then((m) => m.SchedulesComponent),
-        title: 'Vesting Schedules',
+        component: VestingComponent,
+        children: [
+            {
+                path: '',
+                redirectTo: 'dashboard',
+                pathMatch: 'full',
+            },
+            {
+                path: 'dashboard',
+                loadComponent: (): Promise<typeof import('./dashboard/dashboard.component').DashboardComponent> =>
+                    import('./dashboard/dashboard.component').then((m) => m.DashboardComponent),
+                title: 'titles.dashboard',
+            },
+            {
+                path: 'schedules',
+                loadComponent: (): Promise<typeof import('./schedules/schedules.component').SchedulesComponent> =>
+                    import('./schedules/schedules.component').then((m) => m.SchedulesComponent),
+                title: 'titles.schedules',
+            },
+            {
+                path: 'schedules/:id',
+                loadComponent: (): Promise<
+                    typeof import('./schedules/detail/schedule-detail.component').ScheduleDetailComponent
+                > => import('./schedules/detail/schedule-detail.component').then((m) => m.ScheduleDetailComponent),
+                title: 'titles.schedule',
+            },
+            {
+                path: 'history',
+                loadComponent: (): Promise<typeof import('./history/claim-history.component').ClaimHistoryComponent> =>
+                    import('./history/claim-history.component').then((m) => m.ClaimHistoryComponent),
+                title: 'titles.history',
+            },
+            {
+                path: 'reminders',
+                loadComponent: (): Promise<typeof import('./reminders/reminders.component').RemindersComponent> =>
+                    import('./reminders/reminders.component').then((m) => m.RemindersComponent),
+                title: 'titles.reminders',
+            },
+            {
+                path: 'admin',
+                loadComponent: (): Promise<typeof import('./admin/admin.component').AdminComponent> =>
+                    import('./admin/admin.component').then((m) => m.AdminComponent),
+                title: 'titles.admin',
+            },
+            {
+                path: 'admin/import',
+                loadComponent: (): Promise<
+                    typeof import('./admin/import/grant-import.component').GrantImportComponent
+                > => import('./admin/import/grant-import.component').then((m) => m.GrantImportComponent),
+                title: 'titles.import',
+            },
+            {
+                path: 'admin/schedules',
+                loadComponent: (): Promise<
+                    typeof import('./admin/manage/manage-schedules.component').ManageSchedulesComponent
+                > => import('./admin/manage/manage-schedules.component').then((m) => m.ManageSchedulesComponent),
+                title: 'titles.manage',
+            },
+            {
+                path: 'admin/claims',
+                loadComponent: (): Promise<
+                    typeof import('./admin/claims/claim-export.component').ClaimExportComponent
+                > => import('./admin/claims/claim-export.component').then((m) => m.ClaimExportComponent),
+                title: 'titles.claimExport',
+            },
+            {
+                path: 'admin/treasury',
+                loadComponent: (): Promise<typeof import('./admin/treasury/treasury.component').TreasuryComponent> =>
+                    import('./admin/treasury/treasury.component').then((m) => m.TreasuryComponent),
+                title: 'titles.treasury',
+            },
+        ],
     },
 ] satisfies Route[];
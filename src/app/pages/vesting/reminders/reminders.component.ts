@@ -0,0 +1,154 @@
+import { CommonModule } from '@angular/common';
+import { Component, OnDestroy, OnInit, inject } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { RouterModule } from '@angular/router';
+import { getCurrentTimestamp } from '@lib/constants/mock-data.constant';
+import type { Reminder, ReminderPermission, ReminderPreferences, VestingSchedule } from '@lib/interfaces';
+import { ReminderService } from '@lib/services/reminder/reminder.service';
+import { VestingService } from '@lib/services/vesting/vesting.service';
+import { Web3Service } from '@lib/services/web3/web3.service';
+import { shortenAddress } from '@lib/utils/address.util';
+import { translate } from '@lib/utils/i18n.util';
+import { isValidThreshold } from '@lib/utils/reminder.util';
+import { formatDate } from '@lib/utils/vesting.util';
+import { Subject, combineLatest, takeUntil } from 'rxjs';
+
+/**
+ * Reminders Component
+ * Opt in to browser notifications for passed cliffs, claimable amount thresholds and revoked schedules
+ */
+@Component({
+    standalone: true,
+    imports: [CommonModule, FormsModule, RouterModule],
+    templateUrl: './reminders.component.html',
+})
+export class RemindersComponent implements OnInit, OnDestroy {
+    // Services
+    private readonly _reminderService = inject(ReminderService);
+    private readonly _vestingService = inject(VestingService);
+    private readonly _web3Service = inject(Web3Service);
+    private readonly _destroy$ = new Subject<void>();
+
+    // Wallet state
+    isWalletConnected = false;
+    schedules: VestingSchedule[] = [];
+
+    // Reminder state
+    preferences: ReminderPreferences = this._reminderService.preferences;
+    permission: ReminderPermission = 'default';
+    reminders: Reminder[] = [];
+    thresholdInputs: Record<string, string> = {}; // Threshold inputs by lowercase schedule ID
+    thresholdErrors: Record<string, string> = {};
+    updating = false;
+    error: string | null = null;
+
+    // Utility functions exposed to template
+    formatDate = formatDate;
+    shortenAddress = shortenAddress;
+    t = translate;
+
+    ngOnInit(): void {
+        this._web3Service.isConnected$.pipe(takeUntil(this._destroy$)).subscribe((connected) => {
+            this.isWalletConnected = connected;
+        });
+
+        combineLatest([this._vestingService.vestingSchedules$, this._web3Service.walletAddress$])
+            .pipe(takeUntil(this._destroy$))
+            .subscribe(([schedules, address]) => {
+                // Schedules of a looked-up address are not the wallet's own
+                this.schedules = address
+                    ? schedules.filter((schedule) => schedule.beneficiary.toLowerCase() === address.toLowerCase())
+                    : [];
+            });
+
+        this._reminderService.preferences$.pipe(takeUntil(this._destroy$)).subscribe((preferences) => {
+            this.preferences = preferences;
+            this.thresholdInputs = { ...preferences.thresholds };
+            this.thresholdErrors = {};
+        });
+
+        this._reminderService.permission$.pipe(takeUntil(this._destroy$)).subscribe((permission) => {
+            this.permission = permission;
+        });
+
+        this._reminderService.reminders$.pipe(takeUntil(this._destroy$)).subscribe((reminders) => {
+            this.reminders = reminders;
+        });
+    }
+
+    ngOnDestroy(): void {
+        this._destroy$.next();
+        this._destroy$.complete();
+    }
+
+    /**
+     * Switch reminders on (asking for the notification permission) or off
+     */
+    async toggleReminders(): Promise<void> {
+        this.updating = true;
+        this.error = null;
+
+        try {
+            if (this.preferences.enabled) {
+                await this._reminderService.disable();
+            } else if (!(await this._reminderService.enable())) {
+                this.error = translate('reminders.blockedError');
+            }
+        } catch (error) {
+            console.error('Failed to update reminders:', error);
+            this.error = error instanceof Error ? error.message : translate('reminders.updateFailed');
+        } finally {
+            this.updating = false;
+        }
+    }
+
+    /**
+     * Switch one kind of reminder on or off
+     */
+    setPreference(preference: 'cliff' | 'revoked', enabled: boolean): void {
+        this._reminderService.setPreferences({ [preference]: enabled });
+    }
+
+    /**
+     * Save the threshold entered for a schedule, or clear it when the input is empty
+     */
+    saveThreshold(schedule: VestingSchedule): void {
+        const key = schedule.id.toLowerCase();
+        const value = (this.thresholdInputs[key] ?? '').trim();
+
+        if (value && !isValidThreshold(value, schedule.token.decimals)) {
+            this.thresholdErrors = {
+                ...this.thresholdErrors,
+                [key]: translate('reminders.invalidThreshold', { decimals: schedule.token.decimals }),
+            };
+            return;
+        }
+
+        this._reminderService.setThreshold(schedule.id, value || null);
+    }
+
+    /**
+     * Get the saved threshold of a schedule
+     */
+    getThreshold(schedule: VestingSchedule): string | null {
+        return this.preferences.thresholds[schedule.id.toLowerCase()] ?? null;
+    }
+
+    /**
+     * Whether a reminder is due (shown already or about to be)
+     */
+    isDue(reminder: Reminder): boolean {
+        return reminder.time <= getCurrentTimestamp();
+    }
+
+    /**
+     * Connect wallet
+     */
+    async connectWallet(): Promise<void> {
+        try {
+            await this._web3Service.connectWallet();
+        } catch (error) {
+            console.error('Failed to connect wallet:', error);
+        }
+    }
+}
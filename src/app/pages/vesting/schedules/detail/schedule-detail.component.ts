@@ -0,0 +1,404 @@
+import { CommonModule } from '@angular/common';
+import { Component, OnDestroy, OnInit, inject } from '@angular/core';
+import { ActivatedRoute, Router, RouterModule } from '@angular/router';
+import { VestingChartComponent } from '@lib/components';
+import { EVENT_LOG_PAGING, NETWORK_CONFIG, getNetworkConfig } from '@lib/constants/contracts.constant';
+import { getCurrentTimestamp } from '@lib/constants/mock-data.constant';
+import type { ClaimTransaction, TokenAmount, VestingRelease, VestingSchedule } from '@lib/interfaces';
+import { VestingStatus } from '@lib/interfaces';
+import { BlockchainService } from '@lib/services/blockchain/blockchain.service';
+import { VestingService } from '@lib/services/vesting/vesting.service';
+import { Web3Service } from '@lib/services/web3/web3.service';
+import { shortenAddress } from '@lib/utils/address.util';
+import { formatAmount, isDust, subtractAmounts, toAmount } from '@lib/utils/amount.util';
+import { buildVestingCalendar } from '@lib/utils/calendar.util';
+import { downloadFile } from '@lib/utils/download.util';
+import { formatNumber, translate } from '@lib/utils/i18n.util';
+import {
+    calculateVestingRelease,
+    formatDate,
+    formatDuration,
+    formatInterval,
+    getNextClaimDate,
+} from '@lib/utils/vesting.util';
+import { ethers } from 'ethers';
+import { Subject, combineLatest, takeUntil } from 'rxjs';
+
+/**
+ * Schedule Detail Component
+ * Shows one vesting schedule by its bytes32 ID, also when opened from a shared link without a connected wallet
+ * The `chain` query parameter tells which network the link points to
+ */
+@Component({
+    standalone: true,
+    imports: [CommonModule, RouterModule, VestingChartComponent],
+    templateUrl: './schedule-detail.component.html',
+})
+export class ScheduleDetailComponent implements OnInit, OnDestroy {
+    // Services
+    private readonly _route = inject(ActivatedRoute);
+    private readonly _router = inject(Router);
+    private readonly _blockchainService = inject(BlockchainService);
+    private readonly _vestingService = inject(VestingService);
+    private readonly _web3Service = inject(Web3Service);
+    private readonly _destroy$ = new Subject<void>();
+
+    // Route state
+    scheduleId = '';
+    linkChainId: string | null = null; // Network from the `chain` query parameter
+
+    // Schedule state
+    schedule: VestingSchedule | null = null;
+    onChainReleasable: TokenAmount | null = null; // computeReleasableAmount
+    loading = false;
+    refreshing = false;
+    isNotFound = false;
+    error: string | null = null;
+    now = getCurrentTimestamp();
+
+    // Claim history state: logs are scanned from the latest block backwards
+    claims: ClaimTransaction[] = [];
+    claimsLoading = false;
+    hasMoreClaims = false;
+    private _claimsCursor: number | null = null; // Next block to scan down from, null when fully scanned
+
+    // Wallet state
+    isWalletConnected = false;
+    walletAddress: string | null = null;
+    isCopied = false;
+
+    // Utility functions exposed to template
+    formatDate = formatDate;
+    formatDuration = formatDuration;
+    formatInterval = formatInterval;
+    shortenAddress = shortenAddress;
+    formatNumber = formatNumber;
+    formatAmount = formatAmount;
+    t = translate;
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    VestingStatus = VestingStatus;
+
+    ngOnInit(): void {
+        this._web3Service.isConnected$.pipe(takeUntil(this._destroy$)).subscribe((connected) => {
+            this.isWalletConnected = connected;
+        });
+
+        this._web3Service.walletAddress$.pipe(takeUntil(this._destroy$)).subscribe((address) => {
+            this.walletAddress = address;
+        });
+
+        this._vestingService.now$.pipe(takeUntil(this._destroy$)).subscribe((now) => {
+            this.now = now;
+        });
+
+        // Reload whenever the link changes or the contracts are (re)initialized, e.g. once the wallet reconnects
+        combineLatest([this._route.paramMap, this._route.queryParamMap, this._blockchainService.initialized$])
+            .pipe(takeUntil(this._destroy$))
+            .subscribe(([params, queryParams, isInitialized]) => {
+                void this._load(params.get('id') ?? '', queryParams.get('chain'), isInitialized);
+            });
+    }
+
+    ngOnDestroy(): void {
+        this._destroy$.next();
+        this._destroy$.complete();
+    }
+
+    /**
+     * Release calculated locally at the current time
+     */
+    get release(): VestingRelease | null {
+        return this.schedule ? calculateVestingRelease(this.schedule, this.now) : null;
+    }
+
+    /**
+     * Next step unlock: when and how much it unlocks
+     * Linear schedules past the cliff unlock every second and have none
+     */
+    get nextUnlock(): { time: number; amount: TokenAmount } | null {
+        const schedule = this.schedule;
+        const release = this.release;
+        if (!schedule || !release || schedule.revoked) {
+            return null;
+        }
+        if (schedule.interval <= 1 && this.now >= schedule.startTime + schedule.cliff) {
+            return null;
+        }
+
+        const time = getNextClaimDate(schedule, this.now);
+        if (time === null) {
+            return null;
+        }
+
+        return { time, amount: subtractAmounts(calculateVestingRelease(schedule, time).vested, release.vested) };
+    }
+
+    /**
+     * Check if the local and on-chain claimable amounts differ by at least the token's dust threshold
+     */
+    get hasReleasableMismatch(): boolean {
+        if (!this.schedule || !this.release || this.onChainReleasable === null) {
+            return false;
+        }
+        const { value, decimals } = subtractAmounts(this.release.claimable, this.onChainReleasable);
+        return !isDust(toAmount(value < 0n ? -value : value, decimals), this.schedule.token);
+    }
+
+    /**
+     * Check if the connected wallet is the beneficiary
+     */
+    get isBeneficiary(): boolean {
+        return (
+            !!this.schedule &&
+            !!this.walletAddress &&
+            this.schedule.beneficiary.toLowerCase() === this.walletAddress.toLowerCase()
+        );
+    }
+
+    /**
+     * Network the schedule is read from
+     */
+    get networkName(): string {
+        const chainId = this._blockchainService.getChainId();
+        return (chainId && getNetworkConfig(chainId)?.name) || translate('network.unknown');
+    }
+
+    /**
+     * Name of the network the link points to, when the wallet is on another one
+     */
+    get otherLinkNetwork(): string | null {
+        const chainId = this._blockchainService.getChainId();
+        if (!this.isWalletConnected || !this.linkChainId || !chainId || chainId === this.linkChainId) {
+            return null;
+        }
+        return getNetworkConfig(this.linkChainId)?.name ?? null;
+    }
+
+    /**
+     * Get the block explorer link for the schedule's token contract
+     */
+    get tokenUrl(): string | null {
+        return this.schedule ? this._blockchainService.getExplorerTokenUrl(this.schedule.token.address) : null;
+    }
+
+    /**
+     * Get the block explorer link for a transaction
+     */
+    getExplorerUrl(txHash: string): string | null {
+        return this._blockchainService.getExplorerTxUrl(txHash);
+    }
+
+    /**
+     * Re-read the schedule and the on-chain releasable amount
+     */
+    async refresh(): Promise<void> {
+        if (!this.schedule) {
+            return;
+        }
+
+        this.refreshing = true;
+        try {
+            await this._loadSchedule(this.scheduleId);
+        } finally {
+            this.refreshing = false;
+        }
+    }
+
+    /**
+     * Scan the next older block ranges for claims of this schedule
+     * Stops once the scanned blocks are older than the cliff, no claim can come before it
+     */
+    async loadMoreClaims(): Promise<void> {
+        const schedule = this.schedule;
+        let cursor = this._claimsCursor;
+        if (!schedule || cursor === null) {
+            return;
+        }
+
+        this.claimsLoading = true;
+
+        try {
+            const deploymentBlock = await this._blockchainService.getDeploymentBlock();
+            const { blockRange, rangesPerLoad } = EVENT_LOG_PAGING;
+            const claims: ClaimTransaction[] = [];
+
+            for (let i = 0; i < rangesPerLoad && cursor !== null; i++) {
+                const fromBlock = Math.max(deploymentBlock, cursor - blockRange + 1);
+                claims.push(...(await this._blockchainService.getScheduleClaimHistory(schedule.id, fromBlock, cursor)));
+                cursor = fromBlock > deploymentBlock ? fromBlock - 1 : null;
+            }
+
+            if (cursor !== null) {
+                const cursorTime = await this._blockchainService.getBlockTimestamp(cursor);
+                if (cursorTime < schedule.startTime + schedule.cliff) {
+                    cursor = null;
+                }
+            }
+
+            // Ignore the result if another schedule was opened while scanning
+            if (schedule.id !== this.schedule?.id) {
+                return;
+            }
+
+            this._claimsCursor = cursor;
+            this.hasMoreClaims = cursor !== null;
+            this.claims = [...this.claims, ...claims].sort((a, b) => b.timestamp - a.timestamp);
+        } catch (error) {
+            console.error('❌ Failed to load schedule claims:', error);
+            this.error = error instanceof Error ? error.message : translate('detail.loadClaimsFailed');
+        } finally {
+            this.claimsLoading = false;
+        }
+    }
+
+    /**
+     * Copy a link to this schedule, including its network
+     */
+    async copyLink(): Promise<void> {
+        await navigator.clipboard.writeText(this._getScheduleUrl(this.scheduleId));
+        this.isCopied = true;
+        setTimeout(() => {
+            this.isCopied = false;
+        }, 2000);
+    }
+
+    /**
+     * Download the cliff end, unlocks and final vesting date of this schedule as an .ics calendar file
+     */
+    exportCalendar(): void {
+        const schedule = this.schedule;
+        if (!schedule) {
+            return;
+        }
+
+        const calendar = buildVestingCalendar([schedule], {
+            generatedAt: getCurrentTimestamp(),
+            getScheduleUrl: ({ id }) => this._getScheduleUrl(id),
+        });
+        downloadFile(calendar, `vesting-${schedule.token.symbol}-${schedule.id.slice(2, 10)}.ics`, 'text/calendar');
+    }
+
+    /**
+     * Switch the wallet to the network the link points to
+     */
+    async switchToLinkNetwork(): Promise<void> {
+        if (!this.linkChainId) {
+            return;
+        }
+
+        try {
+            await this._web3Service.switchNetwork(this.linkChainId);
+        } catch (error) {
+            // Error already handled in service
+            console.error('Failed to switch network:', error);
+        }
+    }
+
+    /**
+     * Connect wallet
+     */
+    async connectWallet(): Promise<void> {
+        try {
+            await this._web3Service.connectWallet();
+        } catch (error) {
+            // Error already handled in service
+            console.error('Failed to connect wallet:', error);
+        }
+    }
+
+    /**
+     * Get status badge color
+     */
+    getStatusColor(status: VestingStatus): string {
+        switch (status) {
+            case VestingStatus.ACTIVE:
+                return 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400';
+            case VestingStatus.PENDING:
+                return 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400';
+            case VestingStatus.COMPLETED:
+                return 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400';
+            case VestingStatus.REVOKED:
+                return 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400';
+            default:
+                return 'bg-gray-100 text-gray-800 dark:bg-gray-900/30 dark:text-gray-400';
+        }
+    }
+
+    /**
+     * Absolute link to a schedule, including its network
+     */
+    private _getScheduleUrl(scheduleId: string): string {
+        const chain = this._blockchainService.getChainId() ?? this.linkChainId;
+        const url = this._router.serializeUrl(
+            this._router.createUrlTree(['/vesting/schedules', scheduleId], {
+                queryParams: chain ? { chain } : {},
+            }),
+        );
+        return `${window.location.origin}${url}`;
+    }
+
+    /**
+     * Load the schedule of the current link
+     * Without initialized contracts, first sets up reads (waiting for the wallet, or read-only); initialized$ then reloads
+     */
+    private async _load(scheduleId: string, chainId: string | null, isInitialized: boolean): Promise<void> {
+        this.scheduleId = scheduleId;
+        this.linkChainId = chainId;
+        this.error = null;
+        this.isNotFound = false;
+
+        if (!ethers.utils.isHexString(scheduleId, 32)) {
+            this.schedule = null;
+            this.error = translate('detail.invalidId');
+            return;
+        }
+
+        this.loading = true;
+
+        if (!isInitialized) {
+            try {
+                await this._web3Service.ensureReadAccess(
+                    chainId ?? this._blockchainService.getChainId() ?? NETWORK_CONFIG.sepolia.chainId,
+                );
+            } catch (error) {
+                this.error = error instanceof Error ? error.message : translate('network.connectFailed');
+                this.loading = false;
+            }
+            return;
+        }
+
+        try {
+            await this._loadSchedule(scheduleId);
+
+            this.claims = [];
+            this._claimsCursor = this.schedule ? await this._blockchainService.getBlockNumber() : null;
+            await this.loadMoreClaims();
+        } finally {
+            this.loading = false;
+        }
+    }
+
+    /**
+     * Read the schedule and its on-chain releasable amount
+     */
+    private async _loadSchedule(scheduleId: string): Promise<void> {
+        try {
+            const [schedule, releasable] = await Promise.all([
+                this._blockchainService.getVestingSchedule(scheduleId),
+                this._blockchainService.getReleasableAmount(scheduleId),
+            ]);
+
+            // Ignore the result if another schedule was opened meanwhile
+            if (scheduleId !== this.scheduleId) {
+                return;
+            }
+
+            this.schedule = schedule;
+            this.isNotFound = !schedule;
+            this.onChainReleasable = schedule ? toAmount(releasable, schedule.token.decimals) : null;
+        } catch (error) {
+            console.error('❌ Failed to load schedule:', error);
+            this.error = error instanceof Error ? error.message : translate('detail.loadFailed');
+        }
+    }
+}
@@ -1,19 +1,46 @@
 import { CommonModule } from '@angular/common';
 import { Component, OnDestroy, OnInit, inject } from '@angular/core';
-import { RouterModule } from '@angular/router';
-import type { VestingRelease, VestingSchedule } from '@lib/interfaces';
-import { VestingStatus } from '@lib/interfaces';
+import { Router, RouterModule } from '@angular/router';
+import { CurrencyPickerComponent, VestingChartComponent } from '@lib/components';
+import type {
+    BatchClaimItem,
+    FiatCurrency,
+    FiatValuation,
+    FiatValue,
+    TokenAmount,
+    TokenPrice,
+    TrackedTransaction,
+    VestingRelease,
+    VestingSchedule,
+} from '@lib/interfaces';
+import { TransactionStatus, VestingStatus } from '@lib/interfaces';
+import { BlockchainService } from '@lib/services/blockchain/blockchain.service';
+import { PriceService } from '@lib/services/price/price.service';
+import { TransactionService } from '@lib/services/transaction/transaction.service';
 import { VestingService } from '@lib/services/vesting/vesting.service';
 import { Web3Service } from '@lib/services/web3/web3.service';
+import { addAmounts, formatAmount, isDust, toAmount } from '@lib/utils/amount.util';
+import { buildVestingCalendar } from '@lib/utils/calendar.util';
+import { downloadFile } from '@lib/utils/download.util';
+import { translate } from '@lib/utils/i18n.util';
+import {
+    calculateFiatValuation,
+    calculateFiatValue,
+    formatFiatAmount,
+    formatPriceAge,
+    formatPriceTime,
+    getPriceKey,
+} from '@lib/utils/price.util';
 import {
     calculateVestingRelease,
     formatDate,
     formatDuration,
+    formatInterval,
     formatTokenAmount,
     getNextClaimDate,
 } from '@lib/utils/vesting.util';
 import { getCurrentTimestamp } from '@lib/constants/mock-data.constant';
-import { Subject, takeUntil } from 'rxjs';
+import { Subject, combineLatest, takeUntil } from 'rxjs';
 
 /**
  * Vesting Schedules List Component
@@ -21,11 +48,15 @@ import { Subject, takeUntil } from 'rxjs';
  */
 @Component({
     standalone: true,
-    imports: [CommonModule, RouterModule],
+    imports: [CommonModule, RouterModule, CurrencyPickerComponent, VestingChartComponent],
     templateUrl: './schedules.component.html',
 })
 export class SchedulesComponent implements OnInit, OnDestroy {
     // Services
+    private readonly _router = inject(Router);
+    private readonly _blockchainService = inject(BlockchainService);
+    private readonly _priceService = inject(PriceService);
+    private readonly _transactionService = inject(TransactionService);
     private readonly _vestingService = inject(VestingService);
     private readonly _web3Service = inject(Web3Service);
     private readonly _destroy$ = new Subject<void>();
@@ -37,23 +68,47 @@ export class SchedulesComponent implements OnInit, OnDestroy {
     claiming = false;
     error: string | null = null;
     successMessage: string | null = null;
+    private _releases = new Map<string, VestingRelease>(); // Live release calculations by schedule ID
 
     // Wallet state
     isWalletConnected = false;
     walletAddress: string | null = null;
+    watchedAddress: string | null = null; // Address shown in read-only mode
+    isPaused = false; // Claims revert while the contract is paused
+
+    // Fiat values
+    prices = new Map<string, TokenPrice>(); // Prices by token key
+    currency: FiatCurrency = this._priceService.currency;
+    now = getCurrentTimestamp(); // Shared clock, for price ages
 
     // Filters
     filterStatus: VestingStatus | 'all' = 'all';
 
+    // Claim all state
+    isClaimAllOpen = false;
+    claimingAll = false;
+    claimAllItems: BatchClaimItem[] = [];
+    claimAllTotals: { symbol: string; total: TokenAmount }[] = [];
+
+    // Tracked transactions of the connected wallet
+    transactions: TrackedTransaction[] = [];
+
     // Utility functions exposed to template
     formatDate = formatDate;
     formatDuration = formatDuration;
+    formatFiatAmount = formatFiatAmount;
+    formatInterval = formatInterval;
+    formatPriceAge = formatPriceAge;
+    formatPriceTime = formatPriceTime;
     formatTokenAmount = formatTokenAmount;
     getCurrentTimestamp = getCurrentTimestamp;
     getNextClaimDate = getNextClaimDate;
-    parseFloat = parseFloat; // Expose global parseFloat to template
+    formatAmount = formatAmount;
+    t = translate;
     // eslint-disable-next-line @typescript-eslint/naming-convention
     VestingStatus = VestingStatus;
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    TransactionStatus = TransactionStatus;
 
     ngOnInit(): void {
         // Subscribe to wallet connection state
@@ -65,11 +120,37 @@ export class SchedulesComponent implements OnInit, OnDestroy {
             this.walletAddress = address;
         });
 
+        this._web3Service.watchedAddress$.pipe(takeUntil(this._destroy$)).subscribe((address) => {
+            this.watchedAddress = address;
+        });
+
+        this._vestingService.paused$.pipe(takeUntil(this._destroy$)).subscribe((isPaused) => {
+            this.isPaused = isPaused;
+        });
+
         // Subscribe to vesting schedules
         this._vestingService.vestingSchedules$.pipe(takeUntil(this._destroy$)).subscribe((schedules) => {
             this.schedules = schedules;
         });
 
+        // Subscribe to live release calculations
+        this._vestingService.releases$.pipe(takeUntil(this._destroy$)).subscribe((releases) => {
+            this._releases = releases;
+        });
+
+        // Subscribe to token prices
+        this._priceService.prices$.pipe(takeUntil(this._destroy$)).subscribe((prices) => {
+            this.prices = prices;
+        });
+
+        this._priceService.currency$.pipe(takeUntil(this._destroy$)).subscribe((currency) => {
+            this.currency = currency;
+        });
+
+        this._vestingService.now$.pipe(takeUntil(this._destroy$)).subscribe((now) => {
+            this.now = now;
+        });
+
         // Subscribe to loading state
         this._vestingService.loading$.pipe(takeUntil(this._destroy$)).subscribe((loading) => {
             this.loading = loading;
@@ -79,6 +160,15 @@ export class SchedulesComponent implements OnInit, OnDestroy {
         this._vestingService.error$.pipe(takeUntil(this._destroy$)).subscribe((error) => {
             this.error = error;
         });
+
+        // Subscribe to tracked transactions of the connected wallet
+        combineLatest([this._transactionService.transactions$, this._web3Service.walletAddress$])
+            .pipe(takeUntil(this._destroy$))
+            .subscribe(([transactions, address]) => {
+                this.transactions = transactions.filter(
+                    (tx) => !!address && tx.from.toLowerCase() === address.toLowerCase(),
+                );
+            });
     }
 
     ngOnDestroy(): void {
@@ -86,6 +176,27 @@ export class SchedulesComponent implements OnInit, OnDestroy {
         this._destroy$.complete();
     }
 
+    /**
+     * Check if schedules of some address are shown (connected wallet or read-only lookup)
+     */
+    get hasAddress(): boolean {
+        return this.isWalletConnected || !!this.watchedAddress;
+    }
+
+    /**
+     * Check if signing actions are disabled
+     */
+    get isReadOnly(): boolean {
+        return !!this.watchedAddress;
+    }
+
+    /**
+     * Network the schedules are read from, added to schedule links
+     */
+    get chainId(): string | null {
+        return this._blockchainService.getChainId();
+    }
+
     /**
      * Get filtered schedules based on status filter
      */
@@ -100,25 +211,92 @@ export class SchedulesComponent implements OnInit, OnDestroy {
      * Get vesting release calculation for a schedule
      */
     getRelease(schedule: VestingSchedule): VestingRelease {
-        return calculateVestingRelease(schedule, getCurrentTimestamp());
+        return this._releases.get(schedule.id) ?? calculateVestingRelease(schedule, getCurrentTimestamp());
+    }
+
+    /**
+     * Get the price of a schedule's token in the selected currency
+     */
+    getPrice(schedule: VestingSchedule): TokenPrice | null {
+        const price = this.prices.get(getPriceKey(schedule.token.address));
+        return price?.currency === this.currency ? price : null;
+    }
+
+    /**
+     * Get the fiat value of a schedule, null when its token has no price
+     */
+    getFiatValue(schedule: VestingSchedule): FiatValue | null {
+        const price = this.getPrice(schedule);
+        return price ? calculateFiatValue(this.getRelease(schedule), price) : null;
+    }
+
+    /**
+     * Get the fiat value of the filtered schedules
+     */
+    get filteredValuation(): FiatValuation {
+        return calculateFiatValuation(this.filteredSchedules, this._releases, this.prices, this.currency);
+    }
+
+    /**
+     * Show or hide the vesting chart of a schedule
+     */
+    toggleChart(schedule: VestingSchedule): void {
+        this.selectedSchedule = this.selectedSchedule?.id === schedule.id ? null : schedule;
+    }
+
+    /**
+     * Download unlock dates as an .ics calendar file
+     * Built from the current schedules on each export, so a new download reflects claims, revokes and new schedules
+     * @param schedule Schedule to export, all filtered schedules when omitted
+     */
+    exportCalendar(schedule?: VestingSchedule): void {
+        const schedules = schedule ? [schedule] : this.filteredSchedules;
+        if (schedules.length === 0) {
+            return;
+        }
+
+        const calendar = buildVestingCalendar(schedules, {
+            generatedAt: getCurrentTimestamp(),
+            getScheduleUrl: ({ id }) => {
+                const url = this._router.serializeUrl(
+                    this._router.createUrlTree(['/vesting/schedules', id], {
+                        queryParams: this.chainId ? { chain: this.chainId } : {},
+                    }),
+                );
+                return `${window.location.origin}${url}`;
+            },
+        });
+        const fileName = schedule
+            ? `vesting-${schedule.token.symbol}-${schedule.id.slice(2, 10)}.ics`
+            : 'vesting-schedules.ics';
+        downloadFile(calendar, fileName, 'text/calendar');
+    }
+
+    /**
+     * Get the next step unlock of a schedule
+     * Linear schedules past the cliff unlock every second and have none
+     */
+    getNextUnlock(schedule: VestingSchedule): number | null {
+        const now = getCurrentTimestamp();
+        if (schedule.revoked || (schedule.interval <= 1 && now >= schedule.startTime + schedule.cliff)) {
+            return null;
+        }
+        return getNextClaimDate(schedule, now);
     }
 
     /**
      * Check if schedule has claimable tokens
-     * Using threshold of 1 token to avoid showing button for tiny amounts
+     * Amounts below the token's dust threshold don't get a button, they aren't worth the gas
      */
     hasClaimable(schedule: VestingSchedule): boolean {
-        const release = this.getRelease(schedule);
-        const claimableAmount = parseFloat(release.claimable);
-        // Only show button if claimable is at least 1 token
-        return claimableAmount >= 1;
+        return !isDust(this.getRelease(schedule).claimable, schedule.token);
     }
 
     /**
      * Claim tokens from a vesting schedule
      */
     async claimTokens(schedule: VestingSchedule): Promise<void> {
-        if (!this.hasClaimable(schedule)) {
+        if (this.isReadOnly || this.isPaused || !this.hasClaimable(schedule)) {
             return;
         }
 
@@ -137,19 +315,16 @@ export class SchedulesComponent implements OnInit, OnDestroy {
             );
             console.log('🔵 Full schedule object:', schedule);
 
+            // Read the amount before claiming: once the claim is mined the schedule shows nothing left to claim
+            const claimed = this.getRelease(schedule).claimable;
             const txHash = await this._vestingService.claimTokens(schedule.id);
-            const release = this.getRelease(schedule);
 
-            // release.claimable is already formatted, just format the number display
-            const formattedAmount = parseFloat(release.claimable).toLocaleString('en-US', {
-                minimumFractionDigits: 0,
-                maximumFractionDigits: 2,
+            this.successMessage = translate('schedules.claimSuccess', {
+                amount: formatAmount(claimed),
+                symbol: schedule.token.symbol,
+                hash: txHash.substring(0, 10),
             });
 
-            this.successMessage = `Successfully claimed ${formattedAmount} ${
-                schedule.token.symbol
-            }. Transaction: ${txHash.substring(0, 10)}...`;
-
             // Auto-hide success message after 5 seconds
             setTimeout(() => {
                 this.successMessage = null;
@@ -158,7 +333,7 @@ export class SchedulesComponent implements OnInit, OnDestroy {
             console.error('Claim error:', error);
 
             // Check if user cancelled the transaction
-            const errorMessage = error instanceof Error ? error.message : 'Failed to claim tokens';
+            const errorMessage = error instanceof Error ? error.message : translate('schedules.claimFailed');
             if (errorMessage === 'Transaction cancelled') {
                 // Don't show error for user cancellation - it's not an error
                 console.log('ℹ️ User cancelled the claim operation');
@@ -171,6 +346,163 @@ export class SchedulesComponent implements OnInit, OnDestroy {
         }
     }
 
+    /**
+     * Schedules with enough claimable tokens to show a Claim button
+     */
+    get claimableSchedules(): VestingSchedule[] {
+        return this.schedules.filter((s) => this.hasClaimable(s));
+    }
+
+    /**
+     * Whether claim-all items are left to submit (queued or failed)
+     */
+    get hasPendingClaims(): boolean {
+        return this.claimAllItems.some((item) => item.status === 'queued' || item.status === 'failed');
+    }
+
+    /**
+     * Whether any claim-all item failed
+     */
+    get hasFailedClaims(): boolean {
+        return this.claimAllItems.some((item) => item.status === 'failed');
+    }
+
+    /**
+     * List every claimable schedule with the total per token for confirmation
+     */
+    openClaimAll(): void {
+        if (this.isReadOnly || this.isPaused) {
+            return;
+        }
+
+        this.error = null;
+        this.successMessage = null;
+
+        this.claimAllItems = this.claimableSchedules.map((schedule) => ({
+            schedule,
+            amount: this.getRelease(schedule).claimable,
+            status: 'queued',
+        }));
+
+        // Sum exactly per token in its smallest unit
+        const totals = new Map<string, { symbol: string; total: TokenAmount }>();
+        for (const item of this.claimAllItems) {
+            const { address, symbol, decimals } = item.schedule.token;
+            const entry = totals.get(address) ?? { symbol, total: toAmount(0n, decimals) };
+            entry.total = addAmounts(entry.total, item.amount);
+            totals.set(address, entry);
+        }
+        this.claimAllTotals = [...totals.values()];
+
+        this.isClaimAllOpen = true;
+    }
+
+    /**
+     * Close the claim-all dialog
+     */
+    closeClaimAll(): void {
+        if (this.claimingAll) {
+            return;
+        }
+
+        this.isClaimAllOpen = false;
+        this.claimAllItems = [];
+        this.claimAllTotals = [];
+    }
+
+    /**
+     * Release queued and failed schedules one after another, then refresh stats once
+     */
+    async runClaimAll(): Promise<void> {
+        if (this.isReadOnly || this.claimingAll || this.isPaused || !this.hasPendingClaims) {
+            return;
+        }
+
+        this.claimingAll = true;
+        this.error = null;
+        this.successMessage = null;
+
+        for (const item of this.claimAllItems) {
+            if (item.status === 'claimed') {
+                continue;
+            }
+
+            item.status = 'claiming';
+            item.error = undefined;
+            try {
+                item.txHash = await this._vestingService.claimTokens(item.schedule.id, false);
+                item.status = 'claimed';
+            } catch (error) {
+                console.error(`Claim failed for schedule ${item.schedule.id}:`, error);
+                const errorMessage = error instanceof Error ? error.message : translate('schedules.claimFailed');
+                item.status = 'failed';
+                item.error =
+                    errorMessage === 'Transaction cancelled' ? translate('schedules.cancelledByUser') : errorMessage;
+            }
+        }
+
+        // Per-item errors are shown in the list instead of the page banner
+        this.error = null;
+        await this._vestingService.refresh();
+        this.claimingAll = false;
+
+        const claimedCount = this.claimAllItems.filter((item) => item.status === 'claimed').length;
+        if (!this.hasFailedClaims) {
+            this.successMessage = translate('schedules.claimAllSuccess', { count: claimedCount });
+        }
+    }
+
+    /**
+     * Get claim-all item status badge color
+     */
+    getClaimStatusColor(item: BatchClaimItem): string {
+        switch (item.status) {
+            case 'claimed':
+                return 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400';
+            case 'claiming':
+                return 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400';
+            case 'failed':
+                return 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400';
+            default:
+                return 'bg-gray-100 text-gray-800 dark:bg-gray-900/30 dark:text-gray-400';
+        }
+    }
+
+    /**
+     * Check if any tracked transaction has finished
+     */
+    get hasFinishedTransactions(): boolean {
+        return this.transactions.some((tx) => tx.status !== TransactionStatus.PENDING);
+    }
+
+    /**
+     * Remove confirmed and failed transactions from the list
+     */
+    clearFinishedTransactions(): void {
+        this._transactionService.clearFinished();
+    }
+
+    /**
+     * Get the block explorer link for a transaction
+     */
+    getExplorerUrl(txHash: string): string | null {
+        return this._blockchainService.getExplorerTxUrl(txHash);
+    }
+
+    /**
+     * Get tracked transaction status badge color
+     */
+    getTransactionStatusColor(tx: TrackedTransaction): string {
+        switch (tx.status) {
+            case TransactionStatus.CONFIRMED:
+                return 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400';
+            case TransactionStatus.FAILED:
+                return 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400';
+            default:
+                return 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400';
+        }
+    }
+
     /**
      * Get status badge color
      */
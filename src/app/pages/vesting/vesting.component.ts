@@ -1,18 +1,81 @@
-import { Component } from '@angular/core';
+import { Component, OnDestroy, OnInit, inject } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { RouterModule } from '@angular/router';
+import { LocalePickerComponent } from '@lib/components/locale-picker/locale-picker.component';
+import { NetworkPickerComponent } from '@lib/components/network-picker/network-picker.component';
+import { NETWORK_CONFIG } from '@lib/constants/contracts.constant';
+import type { NetworkInfo } from '@lib/interfaces';
+import { VestingService } from '@lib/services/vesting/vesting.service';
+import { Web3Service } from '@lib/services/web3/web3.service';
+import { translate } from '@lib/utils/i18n.util';
+import { Subject, combineLatest, takeUntil } from 'rxjs';
 
 /**
  * Vesting Platform Main Component
- * Container for vesting-related pages
+ * Container for vesting-related pages, blocks them while the wallet is on a network without a deployment
+ * and warns while the vesting contract is paused
  */
 @Component({
     standalone: true,
-    imports: [CommonModule, RouterModule],
-    template: `
-        <div class="min-h-screen bg-gray-50 dark:bg-gray-900">
-            <router-outlet></router-outlet>
-        </div>
-    `,
+    imports: [CommonModule, RouterModule, LocalePickerComponent, NetworkPickerComponent],
+    templateUrl: './vesting.component.html',
 })
-export class VestingComponent {}
+export class VestingComponent implements OnInit, OnDestroy {
+    private readonly _web3Service = inject(Web3Service);
+    private readonly _vestingService = inject(VestingService);
+    private readonly _destroy$ = new Subject<void>();
+
+    isWalletConnected = false;
+    networkInfo: NetworkInfo | null = null;
+    networks = Object.values(NETWORK_CONFIG);
+    switchingTo: string | null = null; // Chain ID being switched to
+    error: string | null = null;
+    isPaused = false;
+
+    // Utility functions exposed to template
+    t = translate;
+
+    ngOnInit(): void {
+        combineLatest([this._web3Service.isConnected$, this._web3Service.networkInfo$])
+            .pipe(takeUntil(this._destroy$))
+            .subscribe(([connected, networkInfo]) => {
+                this.isWalletConnected = connected;
+                this.networkInfo = networkInfo;
+            });
+
+        this._web3Service.error$.pipe(takeUntil(this._destroy$)).subscribe((error) => {
+            this.error = error;
+        });
+
+        this._vestingService.paused$.pipe(takeUntil(this._destroy$)).subscribe((isPaused) => {
+            this.isPaused = isPaused;
+        });
+    }
+
+    ngOnDestroy(): void {
+        this._destroy$.next();
+        this._destroy$.complete();
+    }
+
+    /**
+     * Check if the connected wallet is on a network without vesting contracts
+     */
+    get isWrongNetwork(): boolean {
+        return this.isWalletConnected && !!this.networkInfo && !this.networkInfo.hasDeployment;
+    }
+
+    /**
+     * Switch the wallet to a network with a deployment
+     */
+    async switchNetwork(chainId: string): Promise<void> {
+        this.switchingTo = chainId;
+        try {
+            await this._web3Service.switchNetwork(chainId);
+        } catch (error) {
+            // Error already handled in service
+            console.error('Failed to switch network:', error);
+        } finally {
+            this.switchingTo = null;
+        }
+    }
+}
@@ -1,4 +1,7 @@
+import type { PriceSource } from '@lib/interfaces/price.interface';
+
 export const environment = {
     production: false,
     apiUrl: 'http://localhost:3000/api/v1',
+    priceSource: 'mock' as PriceSource, // Token prices for fiat values: 'static' | 'mock' | 'http'
 };
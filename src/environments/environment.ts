@@ -2,9 +2,12 @@
 // `ng build --prod` replaces `environment.ts` with `environment.prod.ts`.
 // The list of file replacements can be found in `angular.json`.
 
+import type { PriceSource } from '@lib/interfaces/price.interface';
+
 export const environment = {
     production: true,
     apiUrl: 'http://localhost:3000/api/v1',
+    priceSource: 'static' as PriceSource, // Token prices for fiat values: 'static' | 'mock' | 'http'
 };
 
 /*
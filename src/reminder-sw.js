@@ -0,0 +1,83 @@
+/* eslint-env serviceworker, es2022 */
+
+/**
+ * Reminder service worker
+ * Shows vesting reminders the app handed over (see ReminderService) when they are due while the app is closed.
+ * Due reminders are checked on Periodic Background Sync events and whenever the app sends new reminders.
+ * Names must match REMINDER_CONFIG in src/app/lib/constants/reminder.constant.ts.
+ */
+
+const CACHE_NAME = 'vesting-reminders';
+const PERIODIC_SYNC_TAG = 'vesting-reminders';
+const PENDING_URL = 'pending'; // Reminders waiting to be due
+const SHOWN_URL = 'shown'; // Keys of reminders shown here, read by the app so it doesn't show them again
+const ICON = 'favicon.ico';
+
+self.addEventListener('install', () => self.skipWaiting());
+
+self.addEventListener('activate', (event) => event.waitUntil(self.clients.claim()));
+
+self.addEventListener('message', (event) => {
+    if (event.data?.type === 'reminders') {
+        event.waitUntil(writeJson(PENDING_URL, event.data.reminders).then(showDueReminders));
+    }
+});
+
+self.addEventListener('periodicsync', (event) => {
+    if (event.tag === PERIODIC_SYNC_TAG) {
+        event.waitUntil(showDueReminders());
+    }
+});
+
+self.addEventListener('notificationclick', (event) => {
+    event.notification.close();
+    const url = new URL((event.notification.data?.url ?? '/').replace(/^\//, ''), self.registration.scope).href;
+
+    event.waitUntil(
+        self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+            const client = clients.find((c) => c.url.startsWith(self.registration.scope));
+            return client ? client.focus().then(() => client.navigate(url)) : self.clients.openWindow(url);
+        }),
+    );
+});
+
+/**
+ * Show pending reminders that are due and remember them as shown
+ */
+async function showDueReminders() {
+    const now = Math.floor(Date.now() / 1000);
+    const pending = (await readJson(PENDING_URL)) ?? [];
+    const due = pending.filter((reminder) => reminder.time <= now);
+    if (due.length === 0) {
+        return;
+    }
+
+    await Promise.all(
+        due.map((reminder) =>
+            self.registration.showNotification(reminder.title, {
+                body: reminder.body,
+                tag: reminder.key,
+                icon: ICON,
+                data: { url: reminder.url },
+            }),
+        ),
+    );
+
+    const shown = (await readJson(SHOWN_URL)) ?? [];
+    await writeJson(SHOWN_URL, [...new Set([...shown, ...due.map((reminder) => reminder.key)])]);
+    await writeJson(
+        PENDING_URL,
+        pending.filter((reminder) => reminder.time > now),
+    );
+}
+
+async function readJson(url) {
+    const cache = await caches.open(CACHE_NAME);
+    const response = await cache.match(url);
+    return response ? response.json() : null;
+}
+
+async function writeJson(url, data) {
+    const cache = await caches.open(CACHE_NAME);
+    await cache.put(url, new Response(JSON.stringify(data), { headers: { 'Content-Type': 'application/json' } }));
+}
@@ -0,0 +1,135 @@
+const hre = require('hardhat');
+const { expect } = require('chai');
+
+// Load the frontend batching (TypeScript) so it can be checked against the real Multicall3
+require('./helpers/ts-node.cjs');
+const { batchRead } = require('../src/app/lib/utils/multicall.util.ts');
+
+const { ethers } = hre;
+
+const SCHEDULE_COUNT = 100;
+const TOKEN_COUNT = 5;
+
+describe('Multicall3 batched reads', function () {
+    let beneficiary;
+    let tokens;
+    let vesting;
+    let multicall;
+    let scheduleIds;
+    let provider;
+
+    before(async function () {
+        let owner;
+        [owner, beneficiary] = await ethers.getSigners();
+
+        const TokenVesting = await ethers.getContractFactory('TokenVesting');
+        vesting = await TokenVesting.deploy();
+        await vesting.deployed();
+
+        const Multicall3 = await ethers.getContractFactory('Multicall3');
+        multicall = await Multicall3.deploy();
+        await multicall.deployed();
+
+        const MockToken = await ethers.getContractFactory('MockToken');
+        tokens = [];
+        for (let i = 0; i < TOKEN_COUNT; i++) {
+            const token = await MockToken.deploy(`Token ${i}`, `TK${i}`, ethers.utils.parseEther('1000000'));
+            await token.deployed();
+            await token.approve(vesting.address, ethers.constants.MaxUint256);
+            tokens.push(token);
+        }
+
+        const start = (await ethers.provider.getBlock('latest')).timestamp;
+        for (let i = 0; i < SCHEDULE_COUNT; i++) {
+            await vesting
+                .connect(owner)
+                .createVestingSchedule(
+                    beneficiary.address,
+                    tokens[i % TOKEN_COUNT].address,
+                    ethers.utils.parseEther(String(i + 1)),
+                    start,
+                    0,
+                    365 * 24 * 60 * 60,
+                    true,
+                );
+        }
+        scheduleIds = await vesting.getBeneficiarySchedules(beneficiary.address);
+    });
+
+    beforeEach(function () {
+        // Count eth_call round trips the way an RPC endpoint would see them
+        provider = {
+            roundTrips: 0,
+            call(transaction, blockTag) {
+                this.roundTrips++;
+                return ethers.provider.call(transaction, blockTag);
+            },
+        };
+    });
+
+    function scheduleReads() {
+        return scheduleIds.map((vestingId) => ({
+            target: vesting.address,
+            contractInterface: vesting.interface,
+            method: 'getVestingSchedule',
+            args: [vestingId],
+        }));
+    }
+
+    function tokenReads(addresses) {
+        return addresses.flatMap((target) =>
+            ['symbol', 'name', 'decimals'].map((method) => ({
+                target,
+                contractInterface: tokens[0].interface,
+                method,
+            })),
+        );
+    }
+
+    it('should load schedules and their token metadata in two round trips instead of four per schedule', async function () {
+        // Sequential baseline: getVestingSchedule, symbol, name and decimals for every schedule
+        const sequential = [];
+        for (const read of scheduleReads()) {
+            const [schedule] = await batchRead(provider, null, [read]);
+            sequential.push([schedule, ...(await batchRead(provider, null, tokenReads([schedule[1]])))]);
+        }
+        const sequentialRoundTrips = provider.roundTrips;
+
+        // Batched: all schedules in one request, then the metadata of the distinct tokens in another
+        provider.roundTrips = 0;
+        const schedules = await batchRead(provider, multicall.address, scheduleReads());
+        const tokenAddresses = [...new Set(schedules.map((schedule) => schedule[1]))];
+        const metadata = await batchRead(provider, multicall.address, tokenReads(tokenAddresses));
+
+        expect(sequentialRoundTrips).to.equal(4 * SCHEDULE_COUNT);
+        expect(provider.roundTrips).to.equal(2);
+        expect(tokenAddresses.length).to.equal(TOKEN_COUNT);
+
+        // Same values either way
+        schedules.forEach((schedule, i) => {
+            const [expected, symbol, name, decimals] = sequential[i];
+            const tokenIndex = tokenAddresses.indexOf(schedule[1]);
+            expect(schedule[2].toString()).to.equal(expected[2].toString());
+            expect(schedule[1]).to.equal(expected[1]);
+            expect(metadata.slice(tokenIndex * 3, tokenIndex * 3 + 3).map((result) => result[0])).to.deep.equal([
+                symbol[0],
+                name[0],
+                decimals[0],
+            ]);
+        });
+    });
+
+    it('should return null for reverted calls without failing the batch', async function () {
+        // TokenVesting has no symbol(), so that call reverts inside aggregate3
+        const reads = [
+            { target: vesting.address, contractInterface: tokens[0].interface, method: 'symbol' },
+            ...scheduleReads().slice(0, 1),
+        ];
+
+        const results = await batchRead(provider, multicall.address, reads);
+
+        expect(provider.roundTrips).to.equal(1);
+        expect(results[0]).to.equal(null);
+        expect(results[1][0]).to.equal(beneficiary.address);
+    });
+});
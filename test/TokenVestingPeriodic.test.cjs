@@ -0,0 +1,246 @@
+const hre = require('hardhat');
+const { expect } = require('chai');
+
+// Load the frontend calculation (TypeScript) so it can be checked against the contract
+require('./helpers/ts-node.cjs');
+const {
+    calculateVestingRelease,
+    getNextClaimDate,
+    VESTING_INTERVALS,
+    SECONDS_PER_DAY,
+} = require('../src/app/lib/utils/vesting.util.ts');
+
+const { ethers, network } = hre;
+
+describe('TokenVestingPeriodic', function () {
+    let owner;
+    let beneficiary;
+    let token;
+    let vesting;
+    let start;
+
+    beforeEach(async function () {
+        [owner, beneficiary] = await ethers.getSigners();
+
+        const MockToken = await ethers.getContractFactory('MockToken');
+        token = await MockToken.deploy('Project Token', 'PROJ', ethers.utils.parseEther('10000000'));
+        await token.deployed();
+
+        const TokenVestingPeriodic = await ethers.getContractFactory('TokenVestingPeriodic');
+        vesting = await TokenVestingPeriodic.deploy();
+        await vesting.deployed();
+
+        await token.approve(vesting.address, ethers.constants.MaxUint256);
+
+        // Start in the future so every test can walk through the whole schedule
+        start = (await ethers.provider.getBlock('latest')).timestamp + SECONDS_PER_DAY;
+    });
+
+    /**
+     * Create a schedule and return its ID
+     */
+    async function createSchedule({ amount = ethers.utils.parseEther('1200'), cliff, duration, interval }) {
+        const tx = await vesting.createVestingSchedule(
+            beneficiary.address,
+            token.address,
+            amount,
+            start,
+            cliff,
+            duration,
+            interval,
+            true,
+        );
+        const receipt = await tx.wait();
+        return receipt.events.find((event) => event.event === 'VestingScheduleCreated').args.vestingId;
+    }
+
+    /**
+     * Read a schedule the way the frontend does (BlockchainService._toVestingSchedule)
+     */
+    async function readSchedule(vestingId) {
+        const result = await vesting.getVestingSchedule(vestingId);
+        return {
+            id: vestingId,
+            beneficiary: result[0],
+            token: { address: result[1], symbol: 'PROJ', name: 'Project Token', decimals: 18 },
+            totalAmount: result[2].toString(),
+            released: result[3].toString(),
+            startTime: result[4].toNumber(),
+            cliff: result[5].toNumber(),
+            duration: result[6].toNumber(),
+            revocable: result[7],
+            revoked: result[8],
+            interval: result[9].toNumber(),
+            status: 'active',
+        };
+    }
+
+    /**
+     * Mine a block at the given timestamp, view calls then run at that time
+     */
+    async function mineAt(timestamp) {
+        await network.provider.send('evm_setNextBlockTimestamp', [timestamp]);
+        await network.provider.send('evm_mine');
+    }
+
+    /**
+     * Claimable amount of the TypeScript calculation, in wei
+     */
+    function calculateClaimable(schedule, timestamp) {
+        return calculateVestingRelease(schedule, timestamp).claimable.value.toString();
+    }
+
+    /**
+     * Check computeReleasableAmount against calculateVestingRelease at increasing timestamps
+     */
+    async function expectParity(vestingId, timestamps) {
+        for (const timestamp of timestamps) {
+            await mineAt(timestamp);
+            const schedule = await readSchedule(vestingId);
+            const releasable = await vesting.computeReleasableAmount(vestingId);
+
+            expect(releasable.toString()).to.equal(
+                calculateClaimable(schedule, timestamp),
+                `releasable at start + ${timestamp - start}s`,
+            );
+        }
+    }
+
+    /**
+     * Timestamps around each step of a schedule: one second before, at and one second after
+     */
+    function aroundSteps(schedule) {
+        const timestamps = [schedule.startTime + 1];
+        for (let time = getNextClaimDate(schedule, schedule.startTime); time !== null; ) {
+            timestamps.push(time - 1, time, time + 1);
+            time = getNextClaimDate(schedule, time);
+        }
+        return timestamps;
+    }
+
+    describe('parity with calculateVestingRelease', function () {
+        it('should match monthly steps after a cliff', async function () {
+            const vestingId = await createSchedule({
+                cliff: 90 * SECONDS_PER_DAY,
+                duration: 360 * SECONDS_PER_DAY,
+                interval: VESTING_INTERVALS.monthly,
+            });
+
+            await expectParity(vestingId, aroundSteps(await readSchedule(vestingId)));
+        });
+
+        it('should match quarterly steps with an uneven last step', async function () {
+            const vestingId = await createSchedule({
+                cliff: 0,
+                duration: 365 * SECONDS_PER_DAY,
+                interval: VESTING_INTERVALS.quarterly,
+            });
+
+            await expectParity(vestingId, aroundSteps(await readSchedule(vestingId)));
+        });
+
+        it('should match a cliff that ends between steps', async function () {
+            const vestingId = await createSchedule({
+                cliff: 45 * SECONDS_PER_DAY,
+                duration: 180 * SECONDS_PER_DAY,
+                interval: VESTING_INTERVALS.monthly,
+            });
+
+            await expectParity(vestingId, aroundSteps(await readSchedule(vestingId)));
+        });
+
+        it('should match linear vesting with an interval of one second', async function () {
+            const vestingId = await createSchedule({
+                amount: ethers.BigNumber.from('1000000000000000000001'),
+                cliff: 30 * SECONDS_PER_DAY,
+                duration: 365 * SECONDS_PER_DAY,
+                interval: VESTING_INTERVALS.linear,
+            });
+
+            const timestamps = [1, 29, 30, 31, 100, 200, 364, 365, 366].map((day) => start + day * SECONDS_PER_DAY - 7);
+            await expectParity(vestingId, timestamps);
+        });
+
+        it('should match after partial releases', async function () {
+            const vestingId = await createSchedule({
+                amount: ethers.BigNumber.from('999999999999999999999'),
+                cliff: 30 * SECONDS_PER_DAY,
+                duration: 210 * SECONDS_PER_DAY,
+                interval: VESTING_INTERVALS.monthly,
+            });
+
+            for (const day of [45, 95, 150]) {
+                await network.provider.send('evm_setNextBlockTimestamp', [start + day * SECONDS_PER_DAY]);
+                await vesting.connect(beneficiary).release(vestingId);
+            }
+
+            const schedule = await readSchedule(vestingId);
+            expect(schedule.released).to.equal(
+                calculateVestingRelease(schedule, start + 150 * SECONDS_PER_DAY).vested.value.toString(),
+            );
+            await expectParity(
+                vestingId,
+                aroundSteps(schedule).filter((time) => time > start + 150 * SECONDS_PER_DAY),
+            );
+        });
+    });
+
+    describe('getNextClaimDate', function () {
+        it('should point at the blocks where the releasable amount steps up', async function () {
+            const vestingId = await createSchedule({
+                cliff: 60 * SECONDS_PER_DAY,
+                duration: 365 * SECONDS_PER_DAY,
+                interval: VESTING_INTERVALS.quarterly,
+            });
+            const schedule = await readSchedule(vestingId);
+
+            for (let time = getNextClaimDate(schedule, start); time !== null; time = getNextClaimDate(schedule, time)) {
+                await mineAt(time - 1);
+                const before = await vesting.computeReleasableAmount(vestingId);
+                await mineAt(time);
+                const after = await vesting.computeReleasableAmount(vestingId);
+
+                expect(after.gt(before), `step at start + ${time - start}s`).to.equal(true);
+            }
+        });
+    });
+
+    describe('createVestingSchedule', function () {
+        it('should store the slice period', async function () {
+            const vestingId = await createSchedule({
+                cliff: 0,
+                duration: 360 * SECONDS_PER_DAY,
+                interval: VESTING_INTERVALS.monthly,
+            });
+
+            expect((await readSchedule(vestingId)).interval).to.equal(VESTING_INTERVALS.monthly);
+        });
+
+        it('should reject a zero slice period', async function () {
+            await expectRevert(
+                createSchedule({ cliff: 0, duration: 360 * SECONDS_PER_DAY, interval: 0 }),
+                'Zero slice period',
+            );
+        });
+
+        it('should reject a slice period longer than the duration', async function () {
+            await expectRevert(
+                createSchedule({ cliff: 0, duration: 30 * SECONDS_PER_DAY, interval: VESTING_INTERVALS.quarterly }),
+                'Slice period > duration',
+            );
+        });
+    });
+});
+
+/**
+ * Expect a transaction to revert with a reason
+ */
+async function expectRevert(promise, reason) {
+    try {
+        await promise;
+    } catch (error) {
+        expect(error.message).to.include(reason);
+        return;
+    }
+    expect.fail(`Expected revert with "${reason}"`);
+}
@@ -0,0 +1,4 @@
+// Load frontend TypeScript modules from the contract tests, registered once for the whole run
+// ts-node does not resolve the Angular path aliases, so modules loaded this way use relative imports
+// esModuleInterop: contracts.constant default imports the ABI JSON files
+require('ts-node').register({ transpileOnly: true, compilerOptions: { module: 'commonjs', esModuleInterop: true } });